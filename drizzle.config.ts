@@ -4,6 +4,8 @@ export default {
   schema: "./src/db/schema.ts",
   out: "./drizzle",
   dialect: "sqlite",
+  // FTS5 search index is managed by src/db/search.ts, not by push
+  tablesFilter: ["!tez_search*"],
   dbCredentials: {
     url: process.env.DATABASE_URL || "file:./tezit-relay.db",
   },
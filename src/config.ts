@@ -24,10 +24,32 @@ export const config = {
   maxTezSizeBytes: parseInt(process.env.MAX_TEZ_SIZE_BYTES || "1048576", 10),
   maxContextItems: parseInt(process.env.MAX_CONTEXT_ITEMS || "50", 10),
   maxRecipients: parseInt(process.env.MAX_RECIPIENTS || "100", 10),
+  maxBlobSizeBytes: parseInt(process.env.MAX_BLOB_SIZE_BYTES || "104857600", 10), // 100MB per artifact
+  teamBlobQuotaBytes: parseInt(process.env.TEAM_BLOB_QUOTA_BYTES || "1073741824", 10), // 1GB per team
 
   // Federation
   federationEnabled: process.env.FEDERATION_ENABLED === "true",
   federationMode: (process.env.FEDERATION_MODE || "allowlist") as "allowlist" | "open",
   dataDir: process.env.DATA_DIR || "./data",
   adminUserIds: (process.env.ADMIN_USER_IDS || "").split(",").filter(Boolean),
+
+  // Federation outbox worker
+  federationWorkerIntervalMs: parseInt(process.env.FEDERATION_WORKER_INTERVAL_MS || "15000", 10),
+  federationMaxAttempts: parseInt(process.env.FEDERATION_MAX_ATTEMPTS || "8", 10),
+  federationHostConcurrency: parseInt(process.env.FEDERATION_HOST_CONCURRENCY || "2", 10),
+
+  // Webhooks
+  webhookWorkerIntervalMs: parseInt(process.env.WEBHOOK_WORKER_INTERVAL_MS || "5000", 10),
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10),
+  webhookTimeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000", 10),
+
+  // Audit log
+  auditCheckpointIntervalMs: parseInt(process.env.AUDIT_CHECKPOINT_INTERVAL_MS || "3600000", 10),
+
+  // Retention
+  retentionSweepIntervalMs: parseInt(process.env.RETENTION_SWEEP_INTERVAL_MS || "21600000", 10),
+
+  // Personal data exports
+  exportWorkerIntervalMs: parseInt(process.env.EXPORT_WORKER_INTERVAL_MS || "10000", 10),
+  exportTtlMs: parseInt(process.env.EXPORT_TTL_MS || "604800000", 10),
 } as const;
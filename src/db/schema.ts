@@ -5,7 +5,8 @@
  * Deliberately minimal — no billing, no onboarding, no AI runtime tables.
  */
 
-import { sqliteTable, text, integer, index, primaryKey } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { sqliteTable, text, integer, index, uniqueIndex, primaryKey } from "drizzle-orm/sqlite-core";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TEAMS — who can communicate
@@ -14,9 +15,13 @@ import { sqliteTable, text, integer, index, primaryKey } from "drizzle-orm/sqlit
 export const teams = sqliteTable("teams", {
   id: text("id").primaryKey(), // UUID
   name: text("name").notNull(),
+  description: text("description"),
   createdBy: text("created_by").notNull(), // userId of creator
+  ownerId: text("owner_id"), // userId of owner (always an admin); null = createdBy
+  status: text("status").notNull().default("active"), // active | archived
   createdAt: text("created_at").notNull(), // ISO8601
   updatedAt: text("updated_at").notNull(),
+  archivedAt: text("archived_at"),
 });
 
 export const teamMembers = sqliteTable(
@@ -32,9 +37,31 @@ export const teamMembers = sqliteTable(
   (table) => [
     index("idx_tm_team").on(table.teamId),
     index("idx_tm_user").on(table.userId),
+    uniqueIndex("idx_tm_member").on(table.teamId, table.userId),
   ]
 );
 
+export const teamInvites = sqliteTable(
+  "team_invites",
+  {
+    id: text("id").primaryKey(), // UUID
+    teamId: text("team_id")
+      .notNull()
+      .references(() => teams.id),
+    tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the invite token; the token itself is never stored
+    email: text("email"), // if set, only a user whose JWT carries this email can accept
+    tezAddress: text("tez_address"), // if set, only this user can accept
+    role: text("role").notNull().default("member"), // role granted on acceptance
+    maxUses: integer("max_uses").notNull().default(1),
+    uses: integer("uses").notNull().default(0),
+    expiresAt: text("expires_at").notNull(),
+    createdBy: text("created_by").notNull(),
+    createdAt: text("created_at").notNull(),
+    revokedAt: text("revoked_at"),
+  },
+  (table) => [index("idx_invites_team").on(table.teamId)]
+);
+
 // ─────────────────────────────────────────────────────────────────────────────
 // TEZ — the message (surface layer)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -60,6 +87,7 @@ export const tez = sqliteTable(
 
     // State
     status: text("status").notNull().default("active"), // active | archived | deleted
+    revision: integer("revision").notNull().default(1), // bumped on every edit
     createdAt: text("created_at").notNull(),
     updatedAt: text("updated_at").notNull(),
   },
@@ -95,6 +123,7 @@ export const tezContext = sqliteTable(
 
     content: text("content").notNull(), // the actual content (text or JSON)
     mimeType: text("mime_type"), // for binary artifacts
+    blobSha256: text("blob_sha256"), // artifact bytes in the blob store (see blobs)
     confidence: integer("confidence"), // 0-100 for facts
     source: text("source"), // "stated" | "inferred" | "verified"
     derivedFrom: text("derived_from"), // id of context this was derived from
@@ -105,6 +134,60 @@ export const tezContext = sqliteTable(
   (table) => [index("idx_ctx_tez").on(table.tezId)]
 );
 
+// ─────────────────────────────────────────────────────────────────────────────
+// BLOBS — content-addressed artifact storage
+// ─────────────────────────────────────────────────────────────────────────────
+
+// One row per stored file (bytes live on disk under DATA_DIR/blobs)
+export const blobs = sqliteTable("blobs", {
+  sha256: text("sha256").primaryKey(), // hex digest of the bytes
+  size: integer("size").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+// Which teams uploaded a blob — the unit of access and quota accounting
+export const teamBlobs = sqliteTable(
+  "team_blobs",
+  {
+    teamId: text("team_id")
+      .notNull()
+      .references(() => teams.id),
+    sha256: text("sha256")
+      .notNull()
+      .references(() => blobs.sha256),
+    mimeType: text("mime_type").notNull(),
+    filename: text("filename"),
+    uploadedBy: text("uploaded_by").notNull(),
+    createdAt: text("created_at").notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.teamId, table.sha256] }),
+    index("idx_tb_sha").on(table.sha256),
+  ]
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// REVISIONS — prior versions of edited Tez
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const tezRevisions = sqliteTable(
+  "tez_revisions",
+  {
+    id: text("id").primaryKey(), // UUID
+    tezId: text("tez_id")
+      .notNull()
+      .references(() => tez.id),
+    revision: integer("revision").notNull(), // the revision number this snapshot was
+    surfaceText: text("surface_text").notNull(),
+    urgency: text("urgency").notNull(),
+    actionRequested: text("action_requested"),
+    context: text("context", { mode: "json" }).notNull(), // context items as they were
+    editedBy: text("edited_by").notNull(), // who replaced this revision
+    createdAt: text("created_at").notNull(), // when it was replaced
+  },
+  (table) => [index("idx_rev_tez").on(table.tezId, table.revision)]
+);
+
 // ─────────────────────────────────────────────────────────────────────────────
 // RECIPIENTS — who should receive each Tez
 // ─────────────────────────────────────────────────────────────────────────────
@@ -126,6 +209,88 @@ export const tezRecipients = sqliteTable(
   ]
 );
 
+// ─────────────────────────────────────────────────────────────────────────────
+// ACTION ITEMS — each recipient's response to a Tez's actionRequested
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const tezActions = sqliteTable(
+  "tez_actions",
+  {
+    tezId: text("tez_id")
+      .notNull()
+      .references(() => tez.id),
+    userId: text("user_id").notNull(), // the recipient asked to act
+    status: text("status").notNull().default("open"), // "open" | "accepted" | "declined" | "done"
+    dueAt: text("due_at"),
+    note: text("note"), // the recipient's latest response note
+    createdAt: text("created_at").notNull(),
+    updatedAt: text("updated_at").notNull(),
+    completedAt: text("completed_at"),
+  },
+  (table) => [
+    primaryKey({ columns: [table.tezId, table.userId] }),
+    index("idx_actions_user").on(table.userId, table.status),
+  ]
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// REACTIONS — emoji responses to a Tez
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const tezReactions = sqliteTable(
+  "tez_reactions",
+  {
+    tezId: text("tez_id")
+      .notNull()
+      .references(() => tez.id),
+    userId: text("user_id").notNull(), // local userId, or tezAddress for remote reactors
+    emoji: text("emoji").notNull(),
+    createdAt: text("created_at").notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.tezId, table.userId, table.emoji] }),
+    index("idx_reactions_tez").on(table.tezId),
+  ]
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PINS + BOOKMARKS — shared pins per team/conversation, private bookmarks per user
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const tezPins = sqliteTable(
+  "tez_pins",
+  {
+    tezId: text("tez_id")
+      .primaryKey()
+      .references(() => tez.id), // pinned where it lives, at most once
+    teamId: text("team_id"), // set for team pins
+    conversationId: text("conversation_id"), // set for conversation pins
+    pinnedBy: text("pinned_by").notNull(),
+    pinnedAt: text("pinned_at").notNull(),
+  },
+  (table) => [
+    index("idx_pins_team").on(table.teamId),
+    index("idx_pins_conversation").on(table.conversationId),
+  ]
+);
+
+export const tezBookmarks = sqliteTable(
+  "tez_bookmarks",
+  {
+    userId: text("user_id").notNull(),
+    tezId: text("tez_id")
+      .notNull()
+      .references(() => tez.id),
+    note: text("note"),
+    createdAt: text("created_at").notNull(),
+    updatedAt: text("updated_at").notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.tezId] }),
+    index("idx_bookmarks_user").on(table.userId, table.createdAt),
+  ]
+);
+
 // ─────────────────────────────────────────────────────────────────────────────
 // CONTACTS — user profiles / discovery
 // ─────────────────────────────────────────────────────────────────────────────
@@ -169,6 +334,7 @@ export const conversationMembers = sqliteTable(
       .notNull()
       .references(() => conversations.id),
     userId: text("user_id").notNull(),
+    role: text("role").notNull().default("member"), // "admin" | "member" — groups only; a group's creator is its first admin
     joinedAt: text("joined_at").notNull(),
     lastReadAt: text("last_read_at"), // cursor for unread counts
   },
@@ -206,11 +372,16 @@ export const federatedTez = sqliteTable(
     remoteHost: text("remote_host").notNull(),
     direction: text("direction").notNull(), // 'inbound' | 'outbound'
     bundleHash: text("bundle_hash"),
+    remoteAddresses: text("remote_addresses"), // JSON array: remote sender/recipients of this Tez
     federatedAt: text("federated_at").notNull(),
   },
   (table) => [
     index("idx_ft_local_tez").on(table.localTezId),
     index("idx_ft_remote").on(table.remoteHost, table.remoteTezId),
+    // One local copy per delivered Tez, however often the sender retries
+    uniqueIndex("idx_ft_inbound")
+      .on(table.remoteHost, table.remoteTezId)
+      .where(sql`direction = 'inbound'`),
   ]
 );
 
@@ -231,6 +402,10 @@ export const federationOutbox = sqliteTable(
     createdAt: text("created_at").notNull(),
     deliveredAt: text("delivered_at"),
     error: text("error"),
+    expiredReason: text("expired_reason"), // max_attempts | rejected (permanent 4xx) | cancelled
+    // Worker lease — lets several relay processes share one outbox safely
+    leaseOwner: text("lease_owner"),
+    leaseExpiresAt: text("lease_expires_at"),
   },
   (table) => [
     index("idx_fo_status").on(table.status),
@@ -238,6 +413,133 @@ export const federationOutbox = sqliteTable(
   ]
 );
 
+// ─────────────────────────────────────────────────────────────────────────────
+// WEBHOOKS — outbound HTTP notifications of team activity
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const webhooks = sqliteTable(
+  "webhooks",
+  {
+    id: text("id").primaryKey(), // UUID
+    teamId: text("team_id")
+      .notNull()
+      .references(() => teams.id),
+    url: text("url").notNull(),
+    secret: text("secret").notNull(), // HMAC-SHA256 key for X-Tezit-Signature
+    events: text("events", { mode: "json" }).notNull().$type<string[]>(), // AuditAction values, or ["*"]
+    filter: text("filter", { mode: "json" }).$type<{ urgency?: string[]; type?: string[] }>(), // Tez fields to match
+    active: integer("active").notNull().default(1), // 1 = delivering, 0 = paused
+    createdBy: text("created_by").notNull(),
+    createdAt: text("created_at").notNull(),
+    updatedAt: text("updated_at").notNull(),
+  },
+  (table) => [index("idx_webhooks_team").on(table.teamId)]
+);
+
+export const webhookDeliveries = sqliteTable(
+  "webhook_deliveries",
+  {
+    id: text("id").primaryKey(), // UUID, sent as X-Tezit-Delivery
+    webhookId: text("webhook_id")
+      .notNull()
+      .references(() => webhooks.id),
+    eventType: text("event_type").notNull(), // AuditAction, or "webhook.test"
+    payload: text("payload").notNull(), // JSON body, signed as sent
+    status: text("status").notNull().default("pending"), // pending | delivered | failed | expired
+    attempts: integer("attempts").notNull().default(0),
+    lastAttemptAt: text("last_attempt_at"),
+    nextRetryAt: text("next_retry_at"),
+    responseStatus: integer("response_status"), // HTTP status of the last attempt
+    durationMs: integer("duration_ms"), // of the last attempt
+    error: text("error"),
+    createdAt: text("created_at").notNull(),
+    deliveredAt: text("delivered_at"),
+    leaseOwner: text("lease_owner"),
+    leaseExpiresAt: text("lease_expires_at"),
+  },
+  (table) => [
+    index("idx_wd_webhook").on(table.webhookId, table.createdAt),
+    index("idx_wd_status").on(table.status, table.nextRetryAt),
+  ]
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TEZ EVENTS — ordered delivery log for real-time streams
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const tezEvents = sqliteTable(
+  "tez_events",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }), // monotonic, used as SSE event id
+    type: text("type").notNull(), // see TezEventType in services/events.ts
+    tezId: text("tez_id").notNull(),
+    teamId: text("team_id"),
+    conversationId: text("conversation_id"),
+    threadId: text("thread_id"),
+    actorUserId: text("actor_user_id").notNull(),
+    createdAt: text("created_at").notNull(),
+  },
+  (table) => [index("idx_events_tez").on(table.tezId)]
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RETENTION — per-team expiry policies and legal holds
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Ages are in days since creation; null keeps that data forever
+export const retentionPolicies = sqliteTable("retention_policies", {
+  teamId: text("team_id")
+    .primaryKey()
+    .references(() => teams.id),
+  contextDays: integer("context_days"), // delete context and release artifacts
+  archiveDays: integer("archive_days"), // archive active Tez
+  deleteDays: integer("delete_days"), // tombstone Tez
+  auditDays: integer("audit_days"), // drop audit entries
+  updatedBy: text("updated_by").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+// While active, retention skips the team (threadId null) or the thread
+export const legalHolds = sqliteTable(
+  "legal_holds",
+  {
+    id: text("id").primaryKey(), // UUID
+    teamId: text("team_id")
+      .notNull()
+      .references(() => teams.id),
+    threadId: text("thread_id"),
+    reason: text("reason").notNull(),
+    createdBy: text("created_by").notNull(),
+    createdAt: text("created_at").notNull(),
+    releasedBy: text("released_by"),
+    releasedAt: text("released_at"), // null while active
+  },
+  (table) => [index("idx_holds_team").on(table.teamId)]
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DATA EXPORTS — archives of everything the relay holds about a user
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const dataExports = sqliteTable(
+  "data_exports",
+  {
+    id: text("id").primaryKey(), // UUID
+    userId: text("user_id").notNull(),
+    status: text("status").notNull().default("pending"), // pending | running | ready | failed | expired
+    error: text("error"),
+    sizeBytes: integer("size_bytes"), // of the archive, once ready
+    leaseExpiresAt: text("lease_expires_at"), // while running: when another worker may take over
+    createdAt: text("created_at").notNull(),
+    completedAt: text("completed_at"),
+    expiresAt: text("expires_at"), // once ready: the archive and its download link go away
+  },
+  (table) => [
+    index("idx_exports_user").on(table.userId, table.createdAt),
+    index("idx_exports_status").on(table.status),
+  ]
+);
+
 // ─────────────────────────────────────────────────────────────────────────────
 // AUDIT LOG — append-only, every mutation recorded
 // ─────────────────────────────────────────────────────────────────────────────
@@ -250,17 +552,49 @@ export const auditLog = sqliteTable(
     actorUserId: text("actor_user_id").notNull(),
     action: text("action").notNull(),
     // "tez.shared" | "tez.replied" | "tez.read" | "tez.acknowledged"
-    // "tez.archived" | "tez.deleted"
-    // "team.created" | "team.member_added" | "team.member_removed"
-    targetType: text("target_type").notNull(), // "tez" | "team"
+    // "tez.archived" | "tez.unarchived" | "tez.deleted" | "tez.edited"
+    // "team.created" | "team.updated" | "team.archived" | "team.ownership_transferred"
+    // "team.member_added" | "team.member_removed" | "team.member_role_changed"
+    // "team.invite_created" | "team.invite_revoked"
+    // "conversation.updated" | "conversation.member_added" | "conversation.member_removed"
+    // "conversation.member_role_changed" | "tez.reaction_added" | "tez.reaction_removed"
+    // "tez.pinned" | "tez.unpinned" | "tez.action_accepted" | "tez.action_declined"
+    // "tez.action_completed" | "tez.action_reopened"
+    // "retention.policy_updated" | "retention.hold_placed" | "retention.hold_released" | "retention.applied"
+    // "user.export_requested" | "user.export_downloaded" | "user.erased"
+    // "federation.outbox_retried" | "federation.outbox_cancelled" | "federation.outbox_purged"
+    // "blob.uploaded" | "webhook.created" | "webhook.updated" | "webhook.deleted"
+    targetType: text("target_type").notNull(), // "tez" | "team" | "outbox" | "blob" | "webhook" | "legal_hold" | "export" | "user"
     targetId: text("target_id").notNull(),
     metadata: text("metadata", { mode: "json" }), // extra context (JSON)
     createdAt: text("created_at").notNull(),
+    // Hash chain, one per team (see services/auditChain.ts). Null on entries
+    // recorded before chaining was introduced.
+    seq: integer("seq"), // position in the team's chain, from 1
+    prevHash: text("prev_hash"),
+    hash: text("hash"),
   },
   (table) => [
     index("idx_audit_team").on(table.teamId),
     index("idx_audit_actor").on(table.actorUserId),
     index("idx_audit_target").on(table.targetType, table.targetId),
     index("idx_audit_time").on(table.createdAt),
+    uniqueIndex("idx_audit_chain").on(table.teamId, table.seq), // one successor per link
   ]
 );
+
+// Signed snapshots of each team's chain head: truncating the log or
+// rewriting it wholesale no longer matches what the server signed.
+export const auditCheckpoints = sqliteTable(
+  "audit_checkpoints",
+  {
+    id: text("id").primaryKey(), // UUID
+    teamId: text("team_id").notNull(),
+    seq: integer("seq").notNull(),
+    hash: text("hash").notNull(), // hash of the entry at seq
+    serverId: text("server_id").notNull(), // identity that signed
+    signature: text("signature").notNull(), // base64 Ed25519
+    createdAt: text("created_at").notNull(),
+  },
+  (table) => [index("idx_checkpoints_team").on(table.teamId, table.seq)]
+);
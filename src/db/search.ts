@@ -0,0 +1,95 @@
+/**
+ * Full-text search index — SQLite FTS5 over Tez text.
+ *
+ * One index row per Tez (surface text + action requested) and one per
+ * textual context item. Triggers on `tez` and `tez_context` keep it in
+ * sync, so every write path (share, reply, edit, delete, federation inbox)
+ * is covered without the routes having to know about search.
+ *
+ * FTS5 virtual tables cannot be expressed in the Drizzle schema, so the
+ * index is created here at startup (drizzle.config.ts excludes it from push).
+ */
+
+import type { Client } from "@libsql/client";
+
+// Context items indexed for search: plain text, markdown, JSON, etc.
+function isTextual(row: string): string {
+  return `(${row}.mime_type IS NULL OR ${row}.mime_type LIKE 'text/%' OR ${row}.mime_type = 'application/json')`;
+}
+
+const SEARCH_TRIGGERS_SQL = `
+  CREATE TRIGGER IF NOT EXISTS tez_search_tez_insert AFTER INSERT ON tez
+  WHEN new.status != 'deleted'
+  BEGIN
+    INSERT INTO tez_search (tez_id, context_id, layer, body)
+    VALUES (new.id, NULL, NULL, new.surface_text || ' ' || coalesce(new.action_requested, ''));
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS tez_search_tez_update AFTER UPDATE OF surface_text, action_requested, status ON tez
+  BEGIN
+    DELETE FROM tez_search WHERE tez_id = old.id AND context_id IS NULL;
+    INSERT INTO tez_search (tez_id, context_id, layer, body)
+    SELECT new.id, NULL, NULL, new.surface_text || ' ' || coalesce(new.action_requested, '')
+    WHERE new.status != 'deleted';
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS tez_search_tez_delete AFTER DELETE ON tez
+  BEGIN
+    DELETE FROM tez_search WHERE tez_id = old.id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS tez_search_context_insert AFTER INSERT ON tez_context
+  WHEN ${isTextual("new")}
+  BEGIN
+    INSERT INTO tez_search (tez_id, context_id, layer, body)
+    VALUES (new.tez_id, new.id, new.layer, new.content);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS tez_search_context_update AFTER UPDATE OF content, layer, mime_type ON tez_context
+  BEGIN
+    DELETE FROM tez_search WHERE context_id = old.id;
+    INSERT INTO tez_search (tez_id, context_id, layer, body)
+    SELECT new.tez_id, new.id, new.layer, new.content
+    WHERE ${isTextual("new")};
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS tez_search_context_delete AFTER DELETE ON tez_context
+  BEGIN
+    DELETE FROM tez_search WHERE context_id = old.id;
+  END;
+`;
+
+const SEARCH_BACKFILL_SQL = `
+  INSERT INTO tez_search (tez_id, context_id, layer, body)
+  SELECT id, NULL, NULL, surface_text || ' ' || coalesce(action_requested, '')
+  FROM tez WHERE status != 'deleted';
+
+  INSERT INTO tez_search (tez_id, context_id, layer, body)
+  SELECT tez_id, id, layer, content
+  FROM tez_context WHERE ${isTextual("tez_context")};
+`;
+
+/**
+ * Create the search index and its triggers if missing. The first time the
+ * index is created, existing Tez and context are backfilled into it.
+ */
+export async function initSearchIndex(client: Client): Promise<void> {
+  const existing = await client.execute(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'tez_search'"
+  );
+
+  if (existing.rows.length === 0) {
+    await client.executeMultiple(`
+      CREATE VIRTUAL TABLE tez_search USING fts5(
+        tez_id UNINDEXED,
+        context_id UNINDEXED,
+        layer UNINDEXED,
+        body,
+        tokenize = 'porter unicode61'
+      );
+      ${SEARCH_BACKFILL_SQL}
+    `);
+  }
+
+  await client.executeMultiple(SEARCH_TRIGGERS_SQL);
+}
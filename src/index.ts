@@ -13,14 +13,31 @@ import { teamRoutes } from "./routes/teams.js";
 import { contactRoutes } from "./routes/contacts.js";
 import { conversationRoutes } from "./routes/conversations.js";
 import { unreadRoutes } from "./routes/unread.js";
+import { eventRoutes } from "./routes/events.js";
+import { searchRoutes } from "./routes/search.js";
+import { blobRoutes } from "./routes/blobs.js";
+import { webhookRoutes } from "./routes/webhooks.js";
+import { teamAuditRoutes } from "./routes/audit.js";
+import { retentionRoutes } from "./routes/retention.js";
 import { federationRoutes } from "./routes/federation.js";
 import { adminRoutes } from "./routes/admin.js";
+import { meRoutes } from "./routes/me.js";
+import { getClient } from "./db/index.js";
+import { initSearchIndex } from "./db/search.js";
 import { initIdentity, getIdentity } from "./services/identity.js";
+import { attachWebSocketGateway } from "./services/wsGateway.js";
+import { startOutboxWorker } from "./services/outboxWorker.js";
+import { startWebhookWorker } from "./services/webhookWorker.js";
+import { startAuditCheckpointWorker } from "./services/auditCheckpointWorker.js";
+import { startRetentionWorker } from "./services/retentionWorker.js";
+import { startExportWorker } from "./services/exportWorker.js";
 
 const app = express();
 app.disable("x-powered-by");
 
 app.use(cors());
+// Before the JSON parser: uploads stream raw bodies of any content type
+app.use("/blobs", blobRoutes);
 app.use(express.json({ limit: "1mb" }));
 
 // Health
@@ -42,6 +59,7 @@ app.get("/.well-known/tezit.json", (_req, res) => {
         enabled: config.federationEnabled,
         mode: config.federationMode,
         inbox: "/federation/inbox",
+        artifacts: "/federation/artifacts",
       },
     });
   } catch {
@@ -58,9 +76,15 @@ app.get("/.well-known/tezit.json", (_req, res) => {
 // Core routes
 app.use("/tez", tezRoutes);
 app.use("/teams", teamRoutes);
+app.use("/teams/:id/webhooks", webhookRoutes);
+app.use("/teams/:id/audit", teamAuditRoutes);
+app.use("/teams/:id/retention", retentionRoutes);
 app.use("/contacts", contactRoutes);
 app.use("/conversations", conversationRoutes);
 app.use("/unread", unreadRoutes);
+app.use("/events", eventRoutes);
+app.use("/search", searchRoutes);
+app.use("/me", meRoutes);
 
 // Federation routes
 app.use("/federation", federationRoutes);
@@ -73,18 +97,46 @@ app.use((_req, res) => {
   });
 });
 
-// Initialize server identity if federation is enabled
-if (config.federationEnabled) {
-  try {
-    const identity = initIdentity();
+// Full-text search index (created and backfilled on first run). Ready
+// before the server listens: without its triggers, writes would go unindexed.
+try {
+  await initSearchIndex(getClient());
+} catch (err) {
+  console.error("Failed to initialize search index:", err);
+  process.exit(1);
+}
+
+// Send queued webhook deliveries in the background
+startWebhookWorker();
+
+// Expire team data per retention policy
+startRetentionWorker();
+
+// Build requested personal data exports
+startExportWorker();
+
+// Server identity: signs audit checkpoints, and federation traffic if enabled
+try {
+  const identity = initIdentity();
+
+  // Sign the head of every audit chain periodically
+  startAuditCheckpointWorker();
+
+  if (config.federationEnabled) {
     console.log(`Federation enabled: serverId=${identity.serverId}, host=${identity.host}`);
-  } catch (err) {
-    console.error("Failed to initialize server identity:", err);
+
+    // Retry failed and pending outbound deliveries in the background
+    startOutboxWorker();
   }
+} catch (err) {
+  console.error("Failed to initialize server identity:", err);
 }
 
-app.listen(config.port, () => {
+const server = app.listen(config.port, () => {
   console.log(`tezit-relay listening on port ${config.port}`);
 });
 
+// Real-time WebSocket gateway on /ws
+attachWebSocketGateway(server);
+
 export default app;
@@ -26,6 +26,26 @@ declare global {
 
 const secret = new TextEncoder().encode(config.jwtSecret);
 
+/**
+ * Verify a raw JWT and return the user it identifies.
+ * Shared by the HTTP middleware and the WebSocket upgrade handshake.
+ */
+export async function verifyToken(token: string): Promise<AuthUser> {
+  const { payload } = await jwtVerify(token, secret);
+
+  if (!payload.sub) {
+    const err = new Error("Token must contain sub claim");
+    (err as NodeJS.ErrnoException).code = "INVALID_TOKEN";
+    throw err;
+  }
+
+  return {
+    userId: payload.sub,
+    email: payload.email as string | undefined,
+    name: payload.name as string | undefined,
+  };
+}
+
 export async function authenticate(
   req: Request,
   res: Response,
@@ -42,27 +62,17 @@ export async function authenticate(
   const token = authHeader.slice(7);
 
   try {
-    const { payload } = await jwtVerify(token, secret);
-
-    if (!payload.sub) {
-      res
-        .status(401)
-        .json({ error: { code: "INVALID_TOKEN", message: "Token must contain sub claim" } });
-      return;
-    }
-
-    req.user = {
-      userId: payload.sub,
-      email: payload.email as string | undefined,
-      name: payload.name as string | undefined,
-    };
-
-    next();
-  } catch {
-    res
-      .status(401)
-      .json({ error: { code: "INVALID_TOKEN", message: "Token verification failed" } });
+    req.user = await verifyToken(token);
+  } catch (err) {
+    const message =
+      (err as NodeJS.ErrnoException).code === "INVALID_TOKEN"
+        ? (err as Error).message
+        : "Token verification failed";
+    res.status(401).json({ error: { code: "INVALID_TOKEN", message } });
+    return;
   }
+
+  next();
 }
 
 /**
@@ -1,19 +1,36 @@
 /**
- * Admin routes — federation trust management.
+ * Admin routes — federation trust management, audit and user erasure.
  *
  * All admin routes require JWT + admin role (configured via ADMIN_USER_IDS).
  *
  * GET    /admin/federation/servers       — List known servers
  * PATCH  /admin/federation/servers/:host — Update trust level
  * DELETE /admin/federation/servers/:host — Remove server
- * GET    /admin/federation/outbox        — View delivery queue
+ * GET    /admin/federation/outbox        — View delivery queue (filters + cursor)
+ * POST   /admin/federation/outbox/:id/retry  — Requeue a failed/expired entry
+ * POST   /admin/federation/outbox/:id/cancel — Stop retrying an entry
+ * POST   /admin/federation/outbox/retry      — Requeue all failed entries for a host
+ * POST   /admin/federation/outbox/purge      — Delete old delivered entries
+ *
+ * GET    /admin/audit        — Relay-wide audit log (see routes/audit.ts)
+ * GET    /admin/audit/export — Streamed NDJSON / CSV export
+ * GET    /admin/audit/verify — Check the audit hash chains and checkpoints
+ * POST   /admin/audit/checkpoints — Sign every chain head now
+ *
+ * POST   /admin/users/:userId/erase — Erase a user's personal data (see services/erasure.ts)
  */
 
 import { Router } from "express";
-import { eq, desc } from "drizzle-orm";
+import { z } from "zod";
+import { eq, desc, and, or, lt, gte, lte, inArray, isNull, type SQL } from "drizzle-orm";
 import { db, federatedServers, federationOutbox } from "../db/index.js";
 import { authenticate } from "../middleware/auth.js";
 import { config } from "../config.js";
+import { recordAudit } from "../services/audit.js";
+import { encodeCursor, decodeCursor } from "../services/cursor.js";
+import { adminAuditRoutes } from "./audit.js";
+import { verifyAuditLog, createAuditCheckpoints } from "../services/auditChain.js";
+import { eraseUser } from "../services/erasure.js";
 
 export const adminRoutes = Router();
 
@@ -36,6 +53,62 @@ function requireAdmin(
 // All admin routes require auth + admin
 adminRoutes.use(authenticate, requireAdmin);
 
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /admin/audit/verify — Walk the audit hash chains (?teamId for one)
+// ─────────────────────────────────────────────────────────────────────────────
+
+adminRoutes.get("/audit/verify", async (req, res) => {
+  try {
+    const teamId = typeof req.query.teamId === "string" ? req.query.teamId : undefined;
+    const { chains, unchained } = await verifyAuditLog(teamId);
+    const broken = chains.filter((chain) => chain.firstBreak);
+
+    res.json({
+      data: {
+        valid: broken.length === 0,
+        chains,
+        // Entries recorded before chaining was introduced
+        unchained,
+      },
+      meta: { count: chains.length, broken: broken.length },
+    });
+  } catch (err) {
+    console.error("Audit verify error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to verify audit log" } });
+  }
+});
+
+// POST /admin/audit/checkpoints — Checkpoint now rather than waiting for the worker
+adminRoutes.post("/audit/checkpoints", async (_req, res) => {
+  try {
+    const written = await createAuditCheckpoints();
+    res.json({ data: { written } });
+  } catch (err) {
+    console.error("Audit checkpoint error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to write checkpoints" } });
+  }
+});
+
+adminRoutes.use("/audit", adminAuditRoutes);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /admin/users/:userId/erase — Right to erasure
+// ─────────────────────────────────────────────────────────────────────────────
+
+adminRoutes.post("/users/:userId/erase", async (req, res) => {
+  try {
+    const report = await eraseUser(req.params.userId, req.user!.userId);
+    res.json({ data: report });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "NOT_FOUND") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: (err as Error).message } });
+      return;
+    }
+    console.error("Erase user error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to erase user" } });
+  }
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // GET /admin/federation/servers — List known servers
 // ─────────────────────────────────────────────────────────────────────────────
@@ -121,35 +194,295 @@ adminRoutes.delete("/federation/servers/:host", async (req, res) => {
 // GET /admin/federation/outbox — View delivery queue
 // ─────────────────────────────────────────────────────────────────────────────
 
+const OutboxQuerySchema = z.object({
+  status: z.enum(["pending", "delivered", "failed", "expired"]).optional(),
+  host: z.string().min(1).optional(),
+  tezId: z.string().min(1).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
 adminRoutes.get("/federation/outbox", async (req, res) => {
   try {
-    const status = req.query.status as string | undefined;
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
-
-    let query;
-    if (status) {
-      query = db
-        .select()
-        .from(federationOutbox)
-        .where(eq(federationOutbox.status, status))
-        .orderBy(desc(federationOutbox.createdAt))
-        .limit(limit);
-    } else {
-      query = db
-        .select()
-        .from(federationOutbox)
-        .orderBy(desc(federationOutbox.createdAt))
-        .limit(limit);
-    }
-
-    const entries = await query;
+    const query = OutboxQuerySchema.parse(req.query);
+
+    const conditions: SQL[] = [];
+    if (query.status) conditions.push(eq(federationOutbox.status, query.status));
+    if (query.host) conditions.push(eq(federationOutbox.targetHost, query.host));
+    if (query.tezId) conditions.push(eq(federationOutbox.tezId, query.tezId));
+    if (query.from) conditions.push(gte(federationOutbox.createdAt, query.from));
+    if (query.to) conditions.push(lte(federationOutbox.createdAt, query.to));
+
+    if (query.cursor) {
+      const position = decodeCursor(query.cursor);
+      if (!position) {
+        res.status(400).json({ error: { code: "VALIDATION_ERROR", message: "Invalid cursor" } });
+        return;
+      }
+      conditions.push(
+        or(
+          lt(federationOutbox.createdAt, position.createdAt),
+          and(eq(federationOutbox.createdAt, position.createdAt), lt(federationOutbox.id, position.id))
+        )!
+      );
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await db
+      .select()
+      .from(federationOutbox)
+      .where(and(...conditions))
+      .orderBy(desc(federationOutbox.createdAt), desc(federationOutbox.id))
+      .limit(query.limit + 1);
+
+    const hasMore = rows.length > query.limit;
+    const entries = hasMore ? rows.slice(0, query.limit) : rows;
 
     res.json({
       data: entries,
-      meta: { count: entries.length },
+      meta: {
+        count: entries.length,
+        hasMore,
+        nextCursor: hasMore ? encodeCursor(entries[entries.length - 1]) : null,
+      },
     });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
     console.error("Outbox list error:", err);
     res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list outbox" } });
   }
 });
+
+// Fields that put an entry back in front of the outbox worker. Attempts are
+// reset so an entry that hit the attempt limit gets a full new schedule.
+function requeued() {
+  return {
+    status: "pending",
+    attempts: 0,
+    nextRetryAt: null,
+    expiredReason: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+  };
+}
+
+// True while a worker holds an unexpired lease (delivery in flight)
+function isLeased(entry: { leaseExpiresAt: string | null }): boolean {
+  return entry.leaseExpiresAt !== null && entry.leaseExpiresAt > new Date().toISOString();
+}
+
+// The same check inside an UPDATE, in case a worker claims the entry meanwhile
+function notLeased(): SQL | undefined {
+  return or(isNull(federationOutbox.leaseExpiresAt), lt(federationOutbox.leaseExpiresAt, new Date().toISOString()));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /admin/federation/outbox/retry — Requeue all failed entries for a host
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BulkRetrySchema = z.object({
+  targetHost: z.string().min(1),
+  includeExpired: z.boolean().default(false),
+});
+
+adminRoutes.post("/federation/outbox/retry", async (req, res) => {
+  try {
+    const body = BulkRetrySchema.parse(req.body);
+    const statuses = body.includeExpired ? ["failed", "expired"] : ["failed"];
+
+    const updated = await db
+      .update(federationOutbox)
+      .set(requeued())
+      .where(
+        and(
+          eq(federationOutbox.targetHost, body.targetHost),
+          inArray(federationOutbox.status, statuses),
+          // A failed entry can be back in flight on its scheduled retry
+          notLeased()
+        )
+      )
+      .returning({ id: federationOutbox.id });
+
+    await recordAudit({
+      actorUserId: req.user!.userId,
+      action: "federation.outbox_retried",
+      targetType: "outbox",
+      targetId: body.targetHost,
+      metadata: { targetHost: body.targetHost, includeExpired: body.includeExpired, count: updated.length },
+    });
+
+    res.json({ data: { targetHost: body.targetHost, requeued: updated.length } });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Outbox bulk retry error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to retry outbox entries" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /admin/federation/outbox/purge — Delete old delivered entries
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PurgeSchema = z.object({
+  olderThanDays: z.number().int().min(1),
+});
+
+adminRoutes.post("/federation/outbox/purge", async (req, res) => {
+  try {
+    const body = PurgeSchema.parse(req.body);
+    const cutoff = new Date(Date.now() - body.olderThanDays * 24 * 60 * 60_000).toISOString();
+
+    const deleted = await db
+      .delete(federationOutbox)
+      .where(and(eq(federationOutbox.status, "delivered"), lt(federationOutbox.deliveredAt, cutoff)))
+      .returning({ id: federationOutbox.id });
+
+    await recordAudit({
+      actorUserId: req.user!.userId,
+      action: "federation.outbox_purged",
+      targetType: "outbox",
+      targetId: "delivered",
+      metadata: { olderThanDays: body.olderThanDays, cutoff, count: deleted.length },
+    });
+
+    res.json({ data: { purged: deleted.length, cutoff } });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Outbox purge error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to purge outbox" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /admin/federation/outbox/:id/retry — Requeue a single entry
+// ─────────────────────────────────────────────────────────────────────────────
+
+adminRoutes.post("/federation/outbox/:id/retry", async (req, res) => {
+  try {
+    const id = req.params.id;
+    const rows = await db.select().from(federationOutbox).where(eq(federationOutbox.id, id)).limit(1);
+
+    if (rows.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Outbox entry not found" } });
+      return;
+    }
+
+    const entry = rows[0];
+    if (entry.status !== "failed" && entry.status !== "expired") {
+      res.status(409).json({
+        error: { code: "INVALID_STATE", message: `Cannot retry an entry that is ${entry.status}` },
+      });
+      return;
+    }
+
+    if (isLeased(entry)) {
+      res.status(409).json({
+        error: { code: "INVALID_STATE", message: "Entry is being delivered; try again shortly" },
+      });
+      return;
+    }
+
+    const retried = await db
+      .update(federationOutbox)
+      .set(requeued())
+      .where(
+        and(eq(federationOutbox.id, id), inArray(federationOutbox.status, ["failed", "expired"]), notLeased())
+      )
+      .returning({ id: federationOutbox.id });
+
+    if (retried.length === 0) {
+      res.status(409).json({
+        error: { code: "INVALID_STATE", message: "Entry is being delivered; try again shortly" },
+      });
+      return;
+    }
+
+    await recordAudit({
+      actorUserId: req.user!.userId,
+      action: "federation.outbox_retried",
+      targetType: "outbox",
+      targetId: id,
+      metadata: { tezId: entry.tezId, targetHost: entry.targetHost, previousStatus: entry.status },
+    });
+
+    res.json({ data: { id, status: "pending" } });
+  } catch (err) {
+    console.error("Outbox retry error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to retry outbox entry" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /admin/federation/outbox/:id/cancel — Stop retrying an entry
+// ─────────────────────────────────────────────────────────────────────────────
+
+adminRoutes.post("/federation/outbox/:id/cancel", async (req, res) => {
+  try {
+    const id = req.params.id;
+    const rows = await db.select().from(federationOutbox).where(eq(federationOutbox.id, id)).limit(1);
+
+    if (rows.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Outbox entry not found" } });
+      return;
+    }
+
+    const entry = rows[0];
+    if (entry.status !== "pending" && entry.status !== "failed") {
+      res.status(409).json({
+        error: { code: "INVALID_STATE", message: `Cannot cancel an entry that is ${entry.status}` },
+      });
+      return;
+    }
+    if (isLeased(entry)) {
+      res.status(409).json({
+        error: { code: "INVALID_STATE", message: "Entry is being delivered; try again shortly" },
+      });
+      return;
+    }
+
+    // Cancelled entries are dead-lettered, so they can still be retried later.
+    // Re-check the lease in the update itself in case a worker claimed it meanwhile.
+    const cancelled = await db
+      .update(federationOutbox)
+      .set({ status: "expired", expiredReason: "cancelled", nextRetryAt: null })
+      .where(
+        and(
+          eq(federationOutbox.id, id),
+          inArray(federationOutbox.status, ["pending", "failed"]),
+          notLeased()
+        )
+      )
+      .returning({ id: federationOutbox.id });
+
+    if (cancelled.length === 0) {
+      res.status(409).json({
+        error: { code: "INVALID_STATE", message: "Entry is being delivered; try again shortly" },
+      });
+      return;
+    }
+
+    await recordAudit({
+      actorUserId: req.user!.userId,
+      action: "federation.outbox_cancelled",
+      targetType: "outbox",
+      targetId: id,
+      metadata: { tezId: entry.tezId, targetHost: entry.targetHost, previousStatus: entry.status },
+    });
+
+    res.json({ data: { id, status: "expired", expiredReason: "cancelled" } });
+  } catch (err) {
+    console.error("Outbox cancel error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to cancel outbox entry" } });
+  }
+});
@@ -0,0 +1,204 @@
+/**
+ * Audit routes — reading back the audit log.
+ *
+ * GET /teams/:id/audit        — Team activity (admins; members see their own actions)
+ * GET /teams/:id/audit/export — Same, as a streamed NDJSON or CSV download
+ * GET /admin/audit            — Everything on the relay (relay admins)
+ * GET /admin/audit/export
+ * GET /me/audit               — My own actions, across teams
+ * GET /me/audit/export
+ *
+ * Listings are newest first with cursor pagination. Exports are oldest
+ * first and unpaginated. Filters: ?actor, ?action (comma-separated),
+ * ?targetType, ?targetId, ?teamId, ?from, ?to.
+ */
+
+import { Router, type Request, type Response } from "express";
+import { once } from "events";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth.js";
+import { assertTeamMember, isTeamAdmin } from "../services/acl.js";
+import { AUDIT_ACTIONS, listAudit, exportAudit, type AuditFilter, type AuditLogEntry } from "../services/audit.js";
+import { encodeCursor, decodeCursor } from "../services/cursor.js";
+
+/**
+ * What the caller may see, as a filter every result must also match.
+ * Throws with code FORBIDDEN if they may see nothing.
+ */
+type AuditScope = (req: Request) => Promise<AuditFilter>;
+
+// Stored timestamps are toISOString() output and compared as strings, so
+// bounds are normalised to the same form (millis, UTC) before use
+const isoTimestamp = z
+  .string()
+  .datetime({ offset: true })
+  .transform((value) => new Date(value).toISOString());
+
+const FilterSchema = z.object({
+  actor: z.string().min(1).optional(),
+  action: z
+    .string()
+    .transform((value) => value.split(","))
+    .pipe(z.array(z.enum(AUDIT_ACTIONS)))
+    .optional(),
+  targetType: z.string().min(1).optional(),
+  targetId: z.string().min(1).optional(),
+  teamId: z.string().min(1).optional(),
+  from: isoTimestamp.optional(),
+  to: isoTimestamp.optional(),
+});
+
+const ListQuerySchema = FilterSchema.extend({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const ExportQuerySchema = FilterSchema.extend({
+  format: z.enum(["ndjson", "csv"]).default("ndjson"),
+});
+
+// The chain columns let reviewers re-check hashes offline
+const CSV_COLUMNS = [
+  "id",
+  "createdAt",
+  "teamId",
+  "actorUserId",
+  "action",
+  "targetType",
+  "targetId",
+  "metadata",
+  "seq",
+  "prevHash",
+  "hash",
+] as const;
+
+function queryFilter(query: z.infer<typeof FilterSchema>): AuditFilter {
+  return {
+    teamId: query.teamId,
+    actorUserId: query.actor,
+    actions: query.action,
+    targetType: query.targetType,
+    targetId: query.targetId,
+    from: query.from,
+    to: query.to,
+  };
+}
+
+/**
+ * Quote a CSV cell. Cells a spreadsheet would read as a formula get a
+ * leading apostrophe so opening an export never evaluates them.
+ */
+function csvField(value: unknown): string {
+  const raw = value == null ? "" : typeof value === "string" ? value : JSON.stringify(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(entry: AuditLogEntry): string {
+  return CSV_COLUMNS.map((column) => csvField(entry[column])).join(",") + "\r\n";
+}
+
+function sendScopeError(err: unknown, res: Response, label: string): void {
+  if (err instanceof z.ZodError) {
+    res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+    return;
+  }
+  if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+    res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+    return;
+  }
+  console.error(`${label} error:`, err);
+  res.status(500).json({ error: { code: "INTERNAL_ERROR", message: `Failed to ${label.toLowerCase()}` } });
+}
+
+/**
+ * GET / and GET /export over the part of the log `scopeOf` allows.
+ */
+function auditRouter(scopeOf: AuditScope, exportName: () => string): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get("/", authenticate, async (req, res) => {
+    try {
+      const query = ListQuerySchema.parse(req.query);
+      const scope = await scopeOf(req);
+
+      const after = query.cursor ? decodeCursor(query.cursor) : undefined;
+      if (after === null) {
+        res.status(400).json({ error: { code: "VALIDATION_ERROR", message: "Invalid cursor" } });
+        return;
+      }
+
+      const { entries, hasMore } = await listAudit([scope, queryFilter(query)], { after, limit: query.limit });
+
+      res.json({
+        data: entries,
+        meta: {
+          count: entries.length,
+          hasMore,
+          nextCursor: hasMore ? encodeCursor(entries[entries.length - 1]) : null,
+        },
+      });
+    } catch (err) {
+      sendScopeError(err, res, "List audit");
+    }
+  });
+
+  router.get("/export", authenticate, async (req, res) => {
+    let query: z.infer<typeof ExportQuerySchema>;
+    let scope: AuditFilter;
+    try {
+      query = ExportQuerySchema.parse(req.query);
+      scope = await scopeOf(req);
+    } catch (err) {
+      sendScopeError(err, res, "Export audit");
+      return;
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Type", query.format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson");
+    res.setHeader("Content-Disposition", `attachment; filename="${exportName()}-${date}.${query.format}"`);
+    res.setHeader("Cache-Control", "no-store");
+
+    // Headers are sent with the first row, so a failure part-way through
+    // can only cut the download short
+    try {
+      if (query.format === "csv") res.write(CSV_COLUMNS.join(",") + "\r\n");
+
+      for await (const entry of exportAudit([scope, queryFilter(query)])) {
+        if (res.destroyed) return; // client went away
+        const line = query.format === "csv" ? csvRow(entry) : JSON.stringify(entry) + "\n";
+        if (!res.write(line)) await once(res, "drain");
+      }
+      res.end();
+    } catch (err) {
+      console.error("Export audit error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to export audit" } });
+        return;
+      }
+      res.destroy(err as Error);
+    }
+  });
+
+  return router;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scopes
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Team admins see the whole team's log; other members only their own actions
+export const teamAuditRoutes = auditRouter(
+  async (req) => {
+    const userId = req.user!.userId;
+    const teamId = req.params.id;
+    await assertTeamMember(userId, teamId);
+    return (await isTeamAdmin(userId, teamId)) ? { teamId } : { teamId, actorUserId: userId };
+  },
+  () => "audit-team"
+);
+
+// Mounted behind the relay admin check in admin.ts
+export const adminAuditRoutes = auditRouter(async () => ({}), () => "audit-relay");
+
+export const myAuditRoutes = auditRouter(async (req) => ({ actorUserId: req.user!.userId }), () => "audit-me");
@@ -0,0 +1,269 @@
+/**
+ * Blob routes — binary artifacts for context layers.
+ *
+ * POST /blobs?teamId=        — Upload (raw body, or multipart/form-data with one file)
+ * GET  /blobs/usage?teamId=  — Team storage used vs quota
+ * GET  /blobs/:sha256        — Download (ACL-checked, supports Range)
+ *
+ * Uploads stream straight to disk (the 1mb JSON limit does not apply).
+ * The returned sha256 is then referenced from an artifact context item
+ * via `blobSha256`.
+ */
+
+import { Router, type Request } from "express";
+import type { Readable } from "stream";
+import Busboy from "busboy";
+import { eq } from "drizzle-orm";
+import { db, blobs } from "../db/index.js";
+import { authenticate } from "../middleware/auth.js";
+import { assertTeamMember } from "../services/acl.js";
+import { recordAudit } from "../services/audit.js";
+import { config } from "../config.js";
+import { writeBlob, readBlob, isSha256 } from "../services/blobStore.js";
+import { teamBlobUsage, blobAccessFor, addTeamBlob, purgeUnusedBlob } from "../services/artifacts.js";
+
+export const blobRoutes = Router();
+
+interface UploadSource {
+  stream: Readable;
+  mimeType: string;
+  filename: string | null;
+}
+
+/**
+ * The bytes to store: the first file part of a multipart body, or the raw
+ * request body (Content-Type is the artifact's type, ?filename= optional).
+ */
+function uploadSource(req: Request): Promise<UploadSource> {
+  const contentType = req.headers["content-type"] ?? "application/octet-stream";
+
+  if (!contentType.startsWith("multipart/form-data")) {
+    return Promise.resolve({
+      stream: req,
+      mimeType: contentType,
+      filename: typeof req.query.filename === "string" ? req.query.filename : null,
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const busboy = Busboy({ headers: req.headers, limits: { files: 1 } });
+    let found = false;
+
+    busboy.on("file", (_field, stream, info) => {
+      found = true;
+      resolve({ stream, mimeType: info.mimeType, filename: info.filename ?? null });
+    });
+    busboy.on("close", () => {
+      if (!found) {
+        const err = new Error("Multipart body contains no file");
+        (err as NodeJS.ErrnoException).code = "NO_FILE";
+        reject(err);
+      }
+    });
+    busboy.on("error", reject);
+    req.pipe(busboy);
+  });
+}
+
+/**
+ * Parse a single-range `Range: bytes=` header against a file size.
+ * Returns undefined to serve the whole file, or null if unsatisfiable.
+ */
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | null | undefined {
+  if (!header) return undefined;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return undefined; // multi-range or malformed: ignore, send everything
+
+  const [, startText, endText] = match;
+  if (startText === "" && endText === "") return null;
+
+  let start: number;
+  let end: number;
+  if (startText === "") {
+    // Suffix range: last N bytes
+    start = Math.max(size - parseInt(endText, 10), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(startText, 10);
+    end = endText === "" ? size - 1 : Math.min(parseInt(endText, 10), size - 1);
+  }
+
+  if (start > end || start >= size) return null;
+  return { start, end };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /blobs — Upload an artifact
+// ─────────────────────────────────────────────────────────────────────────────
+
+blobRoutes.post("/", authenticate, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const teamId = req.query.teamId as string;
+
+    if (!teamId) {
+      res.status(400).json({ error: { code: "MISSING_TEAM", message: "teamId query param required" } });
+      return;
+    }
+
+    await assertTeamMember(userId, teamId);
+
+    // Reject honest oversized uploads before reading them
+    const declared = parseInt(req.headers["content-length"] ?? "", 10);
+    if (declared > config.maxBlobSizeBytes && !req.is("multipart/form-data")) {
+      res.status(413).json({
+        error: { code: "TOO_LARGE", message: `Artifact exceeds ${config.maxBlobSizeBytes} bytes` },
+      });
+      return;
+    }
+
+    const source = await uploadSource(req);
+    const { sha256, size } = await writeBlob(source.stream, config.maxBlobSizeBytes);
+
+    const outcome = await addTeamBlob({
+      teamId,
+      sha256,
+      size,
+      mimeType: source.mimeType,
+      filename: source.filename,
+      uploadedBy: userId,
+    });
+
+    if (outcome === "over_quota") {
+      // Only drops the bytes if no other team holds them
+      await purgeUnusedBlob(sha256);
+      res.status(413).json({
+        error: {
+          code: "QUOTA_EXCEEDED",
+          message: `Team artifact quota of ${config.teamBlobQuotaBytes} bytes exceeded`,
+        },
+      });
+      return;
+    }
+
+    if (outcome === "added") {
+      await recordAudit({
+        teamId,
+        actorUserId: userId,
+        action: "blob.uploaded",
+        targetType: "blob",
+        targetId: sha256,
+        metadata: { size, mimeType: source.mimeType, filename: source.filename },
+      });
+    }
+
+    res.status(201).json({
+      data: { sha256, size, mimeType: source.mimeType, filename: source.filename, deduplicated: outcome === "owned" },
+    });
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    if (code === "TOO_LARGE") {
+      res.status(413).json({ error: { code: "TOO_LARGE", message: (err as Error).message } });
+      return;
+    }
+    if (code === "NO_FILE") {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: (err as Error).message } });
+      return;
+    }
+    console.error("Blob upload error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to store artifact" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /blobs/usage — Team storage used vs quota
+// ─────────────────────────────────────────────────────────────────────────────
+
+blobRoutes.get("/usage", authenticate, async (req, res) => {
+  try {
+    const teamId = req.query.teamId as string;
+    if (!teamId) {
+      res.status(400).json({ error: { code: "MISSING_TEAM", message: "teamId query param required" } });
+      return;
+    }
+
+    await assertTeamMember(req.user!.userId, teamId);
+
+    const used = await teamBlobUsage(teamId);
+    res.json({ data: { teamId, usedBytes: used, quotaBytes: config.teamBlobQuotaBytes } });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    console.error("Blob usage error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to get artifact usage" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /blobs/:sha256 — Download an artifact
+// ─────────────────────────────────────────────────────────────────────────────
+
+blobRoutes.get("/:sha256", authenticate, async (req, res) => {
+  try {
+    const sha256 = req.params.sha256.toLowerCase();
+    if (!isSha256(sha256)) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Artifact not found" } });
+      return;
+    }
+
+    const rows = await db.select().from(blobs).where(eq(blobs.sha256, sha256)).limit(1);
+    if (rows.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Artifact not found" } });
+      return;
+    }
+
+    const access = await blobAccessFor(req.user!.userId, sha256);
+    if (!access) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Access denied" } });
+      return;
+    }
+
+    const size = rows[0].size;
+    const range = parseRange(req.headers.range, size);
+
+    res.setHeader("Accept-Ranges", "bytes");
+    res.setHeader("ETag", `"${sha256}"`);
+    // Content-addressed: the bytes behind this URL never change
+    res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+    res.setHeader("Content-Type", access.mimeType);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    if (access.filename) {
+      res.setHeader("Content-Disposition", `attachment; filename="${access.filename.replace(/["\\\r\n]/g, "_")}"`);
+    }
+
+    if (range === null) {
+      res.setHeader("Content-Range", `bytes */${size}`);
+      res.status(416).json({ error: { code: "RANGE_NOT_SATISFIABLE", message: "Requested range not satisfiable" } });
+      return;
+    }
+
+    if (range) {
+      res.status(206);
+      res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+      res.setHeader("Content-Length", range.end - range.start + 1);
+    } else {
+      res.setHeader("Content-Length", size);
+    }
+
+    if (req.method === "HEAD") {
+      res.end();
+      return;
+    }
+
+    const stream = readBlob(sha256, range ?? undefined);
+    stream.on("error", (err) => {
+      console.error("Blob read error:", err);
+      res.destroy(err);
+    });
+    stream.pipe(res);
+  } catch (err) {
+    console.error("Blob download error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to read artifact" } });
+  }
+});
@@ -3,21 +3,86 @@
  *
  * POST /conversations              — Create DM or group
  * GET  /conversations              — List my conversations
- * GET  /conversations/:id/messages — Get messages in conversation
- * POST /conversations/:id/messages — Send message in conversation
+ * GET  /conversations/:id/messages — Get top-level messages with thread summaries
+ * POST /conversations/:id/messages — Send message (or threaded reply) in conversation
+ * GET  /conversations/:id/threads/:tezId — Get a thread in the conversation
  * POST /conversations/:id/read     — Mark conversation as read
+ * PATCH  /conversations/:id         — Rename group (group admin)
+ * POST   /conversations/:id/members — Add group member (group admin)
+ * PATCH  /conversations/:id/members/:userId  — Change role (group admin)
+ * DELETE /conversations/:id/members/:userId  — Remove member (group admin or self-leave)
+ * POST   /conversations/:id/pins    — Pin a message (group admin; either member in a DM)
+ * GET    /conversations/:id/pins    — Pinned messages
+ * DELETE /conversations/:id/pins/:tezId — Unpin
+ *
+ * DMs are always exactly two members: their membership and name never change.
  */
 
-import { Router } from "express";
+import { Router, type Response } from "express";
 import { randomUUID } from "crypto";
 import { z } from "zod";
-import { eq, and, desc, lt, inArray, sql } from "drizzle-orm";
-import { db, conversations, conversationMembers, tez, tezContext } from "../db/index.js";
+import { eq, and, asc, desc, lt, ne, inArray, isNull, sql } from "drizzle-orm";
+import { db, conversations, conversationMembers, contacts, tez, tezContext } from "../db/index.js";
 import { authenticate } from "../middleware/auth.js";
+import { assertConversationMember } from "../services/acl.js";
 import { recordAudit } from "../services/audit.js";
+import { reactionCounts } from "../services/reactions.js";
+import { pinTez, unpinTez, listPins } from "../services/pins.js";
+import { actionAssignees, createActionItems } from "../services/actions.js";
+import { publishTezEvent, publishMembershipRemoved } from "../services/events.js";
 
 export const conversationRoutes = Router();
 
+type Conversation = typeof conversations.$inferSelect;
+
+interface ThreadSummary {
+  replyCount: number;
+  lastReply: { id: string; senderUserId: string; surfaceText: string; createdAt: string } | null;
+  participants: string[];
+}
+
+/**
+ * Reply counts, last reply and participants (root sender first) for
+ * threads rooted at `roots`.
+ */
+async function threadSummaries(
+  conversationId: string,
+  roots: { id: string; senderUserId: string }[]
+): Promise<Map<string, ThreadSummary>> {
+  const summaries = new Map<string, ThreadSummary>(
+    roots.map((root) => [root.id, { replyCount: 0, lastReply: null, participants: [root.senderUserId] }])
+  );
+  if (roots.length === 0) return summaries;
+
+  const replies = await db
+    .select({
+      id: tez.id,
+      threadId: tez.threadId,
+      senderUserId: tez.senderUserId,
+      surfaceText: tez.surfaceText,
+      createdAt: tez.createdAt,
+    })
+    .from(tez)
+    .where(
+      and(
+        eq(tez.conversationId, conversationId),
+        eq(tez.status, "active"),
+        inArray(tez.threadId, Array.from(summaries.keys())),
+        ne(tez.id, tez.threadId)
+      )
+    )
+    .orderBy(asc(tez.createdAt));
+
+  for (const reply of replies) {
+    const summary = summaries.get(reply.threadId!)!;
+    summary.replyCount++;
+    const { threadId: _threadId, ...lastReply } = reply;
+    summary.lastReply = lastReply;
+    if (!summary.participants.includes(reply.senderUserId)) summary.participants.push(reply.senderUserId);
+  }
+  return summaries;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // POST /conversations — Create DM or group
 // ─────────────────────────────────────────────────────────────────────────────
@@ -138,6 +203,7 @@ conversationRoutes.post("/", authenticate, async (req, res) => {
       await db.insert(conversationMembers).values({
         conversationId,
         userId: memberId,
+        role: body.type === "group" && memberId === userId ? "admin" : "member",
         joinedAt: now,
         lastReadAt: null,
       });
@@ -313,6 +379,7 @@ conversationRoutes.get("/:id/messages", authenticate, async (req, res) => {
           and(
             eq(tez.conversationId, conversationId),
             eq(tez.status, "active"),
+            isNull(tez.parentTezId),
             lt(tez.createdAt, before)
           )
         )
@@ -323,14 +390,26 @@ conversationRoutes.get("/:id/messages", authenticate, async (req, res) => {
         .select()
         .from(tez)
         .where(
-          and(eq(tez.conversationId, conversationId), eq(tez.status, "active"))
+          and(
+            eq(tez.conversationId, conversationId),
+            eq(tez.status, "active"),
+            isNull(tez.parentTezId)
+          )
         )
         .orderBy(desc(tez.createdAt))
         .limit(limit);
     }
 
+    // Replies live in their threads; top-level messages carry a summary
+    const summaries = await threadSummaries(conversationId, messages);
+    const reactions = await reactionCounts(messages.map((message) => message.id), userId);
+
     res.json({
-      data: messages,
+      data: messages.map((message) => ({
+        ...message,
+        thread: summaries.get(message.id)!,
+        reactions: reactions.get(message.id)!,
+      })),
       meta: { count: messages.length, hasMore: messages.length === limit },
     });
   } catch (err) {
@@ -343,22 +422,27 @@ conversationRoutes.get("/:id/messages", authenticate, async (req, res) => {
 // POST /conversations/:id/messages — Send message in conversation
 // ─────────────────────────────────────────────────────────────────────────────
 
-const SendMessageSchema = z.object({
-  surfaceText: z.string().min(1).max(10000),
-  type: z.enum(["note", "decision", "handoff", "question", "update"]).default("note"),
-  urgency: z.enum(["critical", "high", "normal", "low", "fyi"]).default("normal"),
-  context: z
-    .array(
-      z.object({
-        layer: z.enum(["background", "fact", "artifact", "relationship", "constraint", "hint"]),
-        content: z.string(),
-        mimeType: z.string().optional(),
-        confidence: z.number().min(0).max(100).optional(),
-        source: z.enum(["stated", "inferred", "verified"]).optional(),
-      })
-    )
-    .default([]),
-});
+const SendMessageSchema = z
+  .object({
+    surfaceText: z.string().min(1).max(10000),
+    type: z.enum(["note", "decision", "handoff", "question", "update"]).default("note"),
+    urgency: z.enum(["critical", "high", "normal", "low", "fyi"]).default("normal"),
+    actionRequested: z.string().max(500).optional(), // asked of every other member
+    actionDueAt: z.string().datetime().optional(),
+    parentTezId: z.string().optional(), // reply in the thread of this message
+    context: z
+      .array(
+        z.object({
+          layer: z.enum(["background", "fact", "artifact", "relationship", "constraint", "hint"]),
+          content: z.string(),
+          mimeType: z.string().optional(),
+          confidence: z.number().min(0).max(100).optional(),
+          source: z.enum(["stated", "inferred", "verified"]).optional(),
+        })
+      )
+      .default([]),
+  })
+  .refine((body) => !body.actionDueAt || body.actionRequested, { message: "actionDueAt needs actionRequested" });
 
 conversationRoutes.post("/:id/messages", authenticate, async (req, res) => {
   try {
@@ -395,20 +479,36 @@ conversationRoutes.post("/:id/messages", authenticate, async (req, res) => {
       return;
     }
 
+    // Replies must stay inside the conversation they answer
+    let threadId: string | null = null;
+    if (body.parentTezId) {
+      const parent = await db
+        .select()
+        .from(tez)
+        .where(and(eq(tez.id, body.parentTezId), eq(tez.conversationId, conversationId)))
+        .limit(1);
+      if (parent.length === 0 || parent[0].status === "deleted") {
+        res.status(404).json({ error: { code: "NOT_FOUND", message: "Parent message not found in this conversation" } });
+        return;
+      }
+      threadId = parent[0].threadId || parent[0].id;
+    }
+
     const now = new Date().toISOString();
     const tezId = randomUUID();
+    threadId ??= tezId;
 
     // Create the Tez in the conversation
     await db.insert(tez).values({
       id: tezId,
       teamId: null,
       conversationId,
-      threadId: tezId,
-      parentTezId: null,
+      threadId,
+      parentTezId: body.parentTezId ?? null,
       surfaceText: body.surfaceText,
       type: body.type,
       urgency: body.urgency,
-      actionRequested: null,
+      actionRequested: body.actionRequested ?? null,
       senderUserId: userId,
       visibility: conv[0].type === "dm" ? "dm" : "team",
       status: "active",
@@ -432,6 +532,11 @@ conversationRoutes.post("/:id/messages", authenticate, async (req, res) => {
       });
     }
 
+    if (body.actionRequested) {
+      const assignees = await actionAssignees({ id: tezId, conversationId, senderUserId: userId });
+      await createActionItems(tezId, assignees, body.actionDueAt ?? null);
+    }
+
     // Update conversation updatedAt
     await db
       .update(conversations)
@@ -443,15 +548,26 @@ conversationRoutes.post("/:id/messages", authenticate, async (req, res) => {
       action: "conversation.message_sent",
       targetType: "conversation",
       targetId: conversationId,
-      metadata: { tezId, type: body.type },
+      metadata: { tezId, type: body.type, threadId, parentTezId: body.parentTezId },
+    });
+
+    await publishTezEvent({
+      type: "conversation.message_sent",
+      tezId,
+      conversationId,
+      threadId,
+      actorUserId: userId,
     });
 
     res.status(201).json({
       data: {
         id: tezId,
         conversationId,
+        threadId,
+        parentTezId: body.parentTezId ?? null,
         surfaceText: body.surfaceText,
         type: body.type,
+        actionRequested: body.actionRequested ?? null,
         senderUserId: userId,
         createdAt: now,
       },
@@ -466,6 +582,62 @@ conversationRoutes.post("/:id/messages", authenticate, async (req, res) => {
   }
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /conversations/:id/threads/:tezId — Get a thread in the conversation
+// ─────────────────────────────────────────────────────────────────────────────
+
+conversationRoutes.get("/:id/threads/:tezId", authenticate, async (req, res) => {
+  try {
+    const conversationId = req.params.id;
+    const userId = req.user!.userId;
+
+    await assertConversationMember(userId, conversationId);
+
+    // Any message of the thread identifies it
+    const anchor = await db
+      .select()
+      .from(tez)
+      .where(and(eq(tez.id, req.params.tezId), eq(tez.conversationId, conversationId)))
+      .limit(1);
+    if (anchor.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Message not found in this conversation" } });
+      return;
+    }
+
+    const threadId = anchor[0].threadId || anchor[0].id;
+
+    // Chronological; deleted messages appear as tombstones so replies keep their parent
+    const messages = await db
+      .select()
+      .from(tez)
+      .where(and(eq(tez.conversationId, conversationId), eq(tez.threadId, threadId)))
+      .orderBy(asc(tez.createdAt));
+
+    const participants = Array.from(
+      new Set(messages.filter((message) => message.status !== "deleted").map((message) => message.senderUserId))
+    );
+    const reactions = await reactionCounts(messages.map((message) => message.id), userId);
+
+    res.json({
+      data: {
+        threadId,
+        conversationId,
+        rootTezId: threadId,
+        messages: messages.map((message) => ({ ...message, reactions: reactions.get(message.id)! })),
+        messageCount: messages.length,
+        participants,
+      },
+    });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    console.error("Conversation thread error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to get thread" } });
+  }
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // POST /conversations/:id/read — Mark conversation as read
 // ─────────────────────────────────────────────────────────────────────────────
@@ -516,3 +688,409 @@ conversationRoutes.post("/:id/read", authenticate, async (req, res) => {
     res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to mark as read" } });
   }
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Group administration
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Whether `userId` administers a group. Groups created before roles
+ * existed have no admins; their creator acts as one.
+ */
+function isGroupAdmin(conv: Conversation, members: { userId: string; role: string }[], userId: string): boolean {
+  const me = members.find((m) => m.userId === userId);
+  if (!me) return false;
+  return me.role === "admin" || (conv.createdBy === userId && !members.some((m) => m.role === "admin"));
+}
+
+/**
+ * Load a group for a membership or name change on behalf of `userId`,
+ * sending 404 (missing), 403 (not a member, or not an admin when
+ * `requireAdmin`) or 409 (a DM) and returning null if it cannot be changed.
+ */
+async function loadGroupForChange(
+  conversationId: string,
+  userId: string,
+  res: Response,
+  options: { requireAdmin: boolean }
+): Promise<Conversation | null> {
+  const rows = await db.select().from(conversations).where(eq(conversations.id, conversationId)).limit(1);
+  if (rows.length === 0) {
+    res.status(404).json({ error: { code: "NOT_FOUND", message: "Conversation not found" } });
+    return null;
+  }
+
+  const members = await db
+    .select({ userId: conversationMembers.userId, role: conversationMembers.role })
+    .from(conversationMembers)
+    .where(eq(conversationMembers.conversationId, conversationId));
+  const me = members.find((m) => m.userId === userId);
+  if (!me) {
+    res.status(403).json({ error: { code: "FORBIDDEN", message: "Not a member of this conversation" } });
+    return null;
+  }
+
+  const conv = rows[0];
+  if (conv.type === "dm") {
+    res.status(409).json({
+      error: { code: "DM_IMMUTABLE", message: "DMs always have exactly two members and cannot be changed" },
+    });
+    return null;
+  }
+
+  if (options.requireAdmin && !isGroupAdmin(conv, members, userId)) {
+    res.status(403).json({ error: { code: "FORBIDDEN", message: "Only group admins can do this" } });
+    return null;
+  }
+
+  return conv;
+}
+
+/**
+ * SQL condition: the group has an admin other than `userId`, or no other
+ * members at all. Demotions and removals are conditional on it, so
+ * concurrent requests cannot leave a populated group with no admin.
+ */
+function groupStaysAdministered(conversationId: string, userId: string) {
+  return sql`(EXISTS (
+    SELECT 1 FROM conversation_members
+    WHERE conversation_id = ${conversationId} AND role = 'admin' AND user_id != ${userId}
+  ) OR NOT EXISTS (
+    SELECT 1 FROM conversation_members
+    WHERE conversation_id = ${conversationId} AND user_id != ${userId}
+  ))`;
+}
+
+// PATCH /conversations/:id — Rename a group (group admin only)
+const UpdateConversationSchema = z.object({
+  name: z.string().min(1).max(100),
+});
+
+conversationRoutes.patch("/:id", authenticate, async (req, res) => {
+  try {
+    const conversationId = req.params.id;
+    const userId = req.user!.userId;
+    const body = UpdateConversationSchema.parse(req.body);
+
+    const conv = await loadGroupForChange(conversationId, userId, res, { requireAdmin: true });
+    if (!conv) return;
+
+    const now = new Date().toISOString();
+    const [updated] = await db
+      .update(conversations)
+      .set({ name: body.name, updatedAt: now })
+      .where(eq(conversations.id, conversationId))
+      .returning();
+
+    await recordAudit({
+      actorUserId: userId,
+      action: "conversation.updated",
+      targetType: "conversation",
+      targetId: conversationId,
+      metadata: { previousName: conv.name, name: body.name },
+    });
+
+    res.json({ data: updated });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Update conversation error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to update conversation" } });
+  }
+});
+
+// POST /conversations/:id/members — Add a group member (group admin only)
+const AddMemberSchema = z.object({
+  userId: z.string().min(1),
+  role: z.enum(["admin", "member"]).default("member"),
+});
+
+conversationRoutes.post("/:id/members", authenticate, async (req, res) => {
+  try {
+    const conversationId = req.params.id;
+    const actorId = req.user!.userId;
+    const body = AddMemberSchema.parse(req.body);
+
+    const conv = await loadGroupForChange(conversationId, actorId, res, { requireAdmin: true });
+    if (!conv) return;
+
+    // Only users with a registered profile can be added
+    const known = await db.select({ id: contacts.id }).from(contacts).where(eq(contacts.id, body.userId)).limit(1);
+    if (known.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "User not found" } });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const added = await db
+      .insert(conversationMembers)
+      .values({ conversationId, userId: body.userId, role: body.role, joinedAt: now, lastReadAt: null })
+      .onConflictDoNothing()
+      .returning();
+
+    if (added.length === 0) {
+      res.status(409).json({ error: { code: "ALREADY_MEMBER", message: "User is already a member" } });
+      return;
+    }
+
+    await db.update(conversations).set({ updatedAt: now }).where(eq(conversations.id, conversationId));
+
+    await recordAudit({
+      actorUserId: actorId,
+      action: "conversation.member_added",
+      targetType: "conversation",
+      targetId: conversationId,
+      metadata: { addedUserId: body.userId, role: body.role },
+    });
+
+    res.status(201).json({ data: added[0] });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Add conversation member error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to add member" } });
+  }
+});
+
+// PATCH /conversations/:id/members/:userId — Change a member's role (group admin only)
+const ChangeRoleSchema = z.object({
+  role: z.enum(["admin", "member"]),
+});
+
+conversationRoutes.patch("/:id/members/:userId", authenticate, async (req, res) => {
+  try {
+    const conversationId = req.params.id;
+    const targetUserId = req.params.userId;
+    const actorId = req.user!.userId;
+    const body = ChangeRoleSchema.parse(req.body);
+
+    const conv = await loadGroupForChange(conversationId, actorId, res, { requireAdmin: true });
+    if (!conv) return;
+
+    const member = await db
+      .select()
+      .from(conversationMembers)
+      .where(
+        and(eq(conversationMembers.conversationId, conversationId), eq(conversationMembers.userId, targetUserId))
+      )
+      .limit(1);
+    if (member.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Not a member of this conversation" } });
+      return;
+    }
+
+    const previousRole = member[0].role;
+    if (previousRole !== body.role) {
+      const changed = await db
+        .update(conversationMembers)
+        .set({ role: body.role })
+        .where(
+          and(
+            eq(conversationMembers.conversationId, conversationId),
+            eq(conversationMembers.userId, targetUserId),
+            body.role === "member" ? groupStaysAdministered(conversationId, targetUserId) : undefined
+          )
+        )
+        .returning();
+      if (changed.length === 0) {
+        res.status(409).json({ error: { code: "LAST_ADMIN", message: "A group must keep at least one admin" } });
+        return;
+      }
+
+      await recordAudit({
+        actorUserId: actorId,
+        action: "conversation.member_role_changed",
+        targetType: "conversation",
+        targetId: conversationId,
+        metadata: { userId: targetUserId, previousRole, role: body.role },
+      });
+    }
+
+    res.json({ data: { conversationId, userId: targetUserId, role: body.role } });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Change conversation role error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to change role" } });
+  }
+});
+
+// DELETE /conversations/:id/members/:userId — Remove a member (group admin only, or self-leave)
+conversationRoutes.delete("/:id/members/:userId", authenticate, async (req, res) => {
+  try {
+    const conversationId = req.params.id;
+    const targetUserId = req.params.userId;
+    const actorId = req.user!.userId;
+    const isSelfLeave = actorId === targetUserId;
+
+    const conv = await loadGroupForChange(conversationId, actorId, res, { requireAdmin: !isSelfLeave });
+    if (!conv) return;
+
+    const removed = await db
+      .delete(conversationMembers)
+      .where(
+        and(
+          eq(conversationMembers.conversationId, conversationId),
+          eq(conversationMembers.userId, targetUserId),
+          // Admins can only go while another admin remains (or nobody else does)
+          sql`(${conversationMembers.role} != 'admin' OR ${groupStaysAdministered(conversationId, targetUserId)})`
+        )
+      )
+      .returning();
+
+    if (removed.length === 0) {
+      const stillMember = await db
+        .select()
+        .from(conversationMembers)
+        .where(
+          and(eq(conversationMembers.conversationId, conversationId), eq(conversationMembers.userId, targetUserId))
+        )
+        .limit(1);
+      if (stillMember.length > 0) {
+        res.status(409).json({
+          error: { code: "LAST_ADMIN", message: "Promote another admin before the last admin leaves" },
+        });
+        return;
+      }
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Not a member of this conversation" } });
+      return;
+    }
+
+    await recordAudit({
+      actorUserId: actorId,
+      action: "conversation.member_removed",
+      targetType: "conversation",
+      targetId: conversationId,
+      metadata: { removedUserId: targetUserId, selfLeave: isSelfLeave },
+    });
+
+    // Live subscriptions re-check their ACLs
+    publishMembershipRemoved({ scope: "conversation", scopeId: conversationId, userId: targetUserId });
+
+    res.json({ data: { removed: true } });
+  } catch (err) {
+    console.error("Remove conversation member error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to remove member" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Pins — messages pinned to the top of the conversation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check that `userId` may pin and unpin in a conversation: any member of
+ * a DM, an admin of a group. Sends 404/403 and returns false otherwise.
+ */
+async function assertCanPin(conversationId: string, userId: string, res: Response): Promise<boolean> {
+  const rows = await db.select().from(conversations).where(eq(conversations.id, conversationId)).limit(1);
+  if (rows.length === 0) {
+    res.status(404).json({ error: { code: "NOT_FOUND", message: "Conversation not found" } });
+    return false;
+  }
+
+  const members = await db
+    .select({ userId: conversationMembers.userId, role: conversationMembers.role })
+    .from(conversationMembers)
+    .where(eq(conversationMembers.conversationId, conversationId));
+  const allowed = rows[0].type === "dm"
+    ? members.some((m) => m.userId === userId)
+    : isGroupAdmin(rows[0], members, userId);
+  if (!allowed) {
+    res.status(403).json({ error: { code: "FORBIDDEN", message: "Only group admins can pin messages" } });
+    return false;
+  }
+  return true;
+}
+
+// POST /conversations/:id/pins — Pin a message
+const PinSchema = z.object({
+  tezId: z.string().min(1),
+});
+
+conversationRoutes.post("/:id/pins", authenticate, async (req, res) => {
+  try {
+    const conversationId = req.params.id;
+    const userId = req.user!.userId;
+    const body = PinSchema.parse(req.body);
+
+    if (!(await assertCanPin(conversationId, userId, res))) return;
+
+    const pin = await pinTez({ conversationId }, body.tezId, userId);
+
+    await recordAudit({
+      actorUserId: userId,
+      action: "tez.pinned",
+      targetType: "tez",
+      targetId: body.tezId,
+      metadata: { conversationId },
+    });
+
+    res.status(201).json({ data: pin });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    const code = (err as NodeJS.ErrnoException).code;
+    const status = code === "NOT_FOUND" ? 404 : code === "ALREADY_PINNED" ? 409 : 0;
+    if (status) {
+      res.status(status).json({ error: { code, message: (err as Error).message } });
+      return;
+    }
+    console.error("Pin message error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to pin message" } });
+  }
+});
+
+// GET /conversations/:id/pins — Pinned messages (members)
+conversationRoutes.get("/:id/pins", authenticate, async (req, res) => {
+  try {
+    const conversationId = req.params.id;
+    await assertConversationMember(req.user!.userId, conversationId);
+
+    const pins = await listPins({ conversationId });
+    res.json({ data: pins, meta: { count: pins.length } });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    console.error("List pinned messages error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list pins" } });
+  }
+});
+
+// DELETE /conversations/:id/pins/:tezId — Unpin a message
+conversationRoutes.delete("/:id/pins/:tezId", authenticate, async (req, res) => {
+  try {
+    const conversationId = req.params.id;
+    const userId = req.user!.userId;
+
+    if (!(await assertCanPin(conversationId, userId, res))) return;
+
+    if (!(await unpinTez({ conversationId }, req.params.tezId))) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Message is not pinned here" } });
+      return;
+    }
+
+    await recordAudit({
+      actorUserId: userId,
+      action: "tez.unpinned",
+      targetType: "tez",
+      targetId: req.params.tezId,
+      metadata: { conversationId },
+    });
+
+    res.json({ data: { unpinned: true } });
+  } catch (err) {
+    console.error("Unpin message error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to unpin message" } });
+  }
+});
@@ -0,0 +1,109 @@
+/**
+ * Event routes — real-time delivery over Server-Sent Events.
+ *
+ * GET /events — Long-lived stream of new and amended Tez the caller can see
+ *
+ * Only delivery events (shares, replies, edits, conversation messages,
+ * federated arrivals) are streamed here; read/acknowledge activity goes to the
+ * WebSocket gateway's scoped subscriptions.
+ *
+ * Each SSE message carries the tez_events id, so a reconnecting client
+ * sends Last-Event-ID (or ?lastEventId=) and receives everything it missed.
+ * Without a resume point the stream starts at "now".
+ */
+
+import { Router } from "express";
+import { authenticate } from "../middleware/auth.js";
+import {
+  listTezEventsSince,
+  latestTezEventId,
+  subscribeTezEvents,
+  resolveEventForUser,
+  DELIVERY_EVENT_TYPES,
+} from "../services/events.js";
+
+export const eventRoutes = Router();
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const REPLAY_BATCH_SIZE = 100;
+
+function parseEventId(value: unknown): number | null {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) return null;
+  return parseInt(value, 10);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /events — Server-Sent Events stream
+// ─────────────────────────────────────────────────────────────────────────────
+
+eventRoutes.get("/", authenticate, async (req, res) => {
+  const userId = req.user!.userId;
+
+  let cursor: number;
+  try {
+    cursor =
+      parseEventId(req.headers["last-event-id"]) ??
+      parseEventId(req.query.lastEventId) ??
+      (await latestTezEventId());
+  } catch (err) {
+    console.error("Event stream error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to open event stream" } });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // nginx: don't buffer the stream
+  });
+  res.write("retry: 3000\n\n");
+
+  let closed = false;
+  let draining = false;
+  let pending = false;
+
+  // Send every event after the cursor that this user may see. Concurrent
+  // wake-ups coalesce into one extra pass instead of overlapping reads.
+  async function drain(): Promise<void> {
+    if (draining) {
+      pending = true;
+      return;
+    }
+    draining = true;
+    try {
+      do {
+        pending = false;
+        let batch;
+        do {
+          batch = await listTezEventsSince(cursor, REPLAY_BATCH_SIZE);
+          for (const event of batch) {
+            if (closed) return;
+            cursor = event.id;
+            if (!DELIVERY_EVENT_TYPES.has(event.type)) continue;
+            const theTez = await resolveEventForUser(userId, event);
+            if (!theTez) continue;
+            const data = JSON.stringify({ ...event, tez: theTez });
+            res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${data}\n\n`);
+          }
+        } while (batch.length === REPLAY_BATCH_SIZE && !closed);
+      } while (pending && !closed);
+    } catch (err) {
+      console.error("Event stream error:", err);
+    } finally {
+      draining = false;
+    }
+  }
+
+  const unsubscribe = subscribeTezEvents(() => void drain());
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  // Replay anything missed since Last-Event-ID
+  await drain();
+});
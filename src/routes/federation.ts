@@ -1,12 +1,13 @@
 /**
  * Federation routes — server-to-server Tez delivery.
  *
- * POST /federation/inbox       — Receive a Tez from a remote server
+ * POST /federation/inbox       — Receive a Tez (or an amendment, reaction or deletion) from a remote server
+ * GET  /federation/artifacts/:sha256 — Artifact bytes for a delivery in flight (signed)
  * GET  /federation/server-info — Public server identity
  * POST /federation/verify      — Trust handshake (register remote server)
  */
 
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import { randomUUID } from "crypto";
 import { eq, and } from "drizzle-orm";
 import {
@@ -15,6 +16,7 @@ import {
   tezContext,
   tezRecipients,
   contacts,
+  blobs,
   federatedServers,
   federatedTez,
 } from "../db/index.js";
@@ -23,9 +25,325 @@ import { getIdentity } from "../services/identity.js";
 import { verifyRequest, extractKeyId } from "../services/httpSignature.js";
 import { validateBundle, type FederationBundle } from "../services/federationBundle.js";
 import { recordAudit } from "../services/audit.js";
+import { publishTezEvent } from "../services/events.js";
+import { applyTezEdit } from "../services/revisions.js";
+import { readBlob, isSha256 } from "../services/blobStore.js";
+import { artifactGrantedTo, fetchBundleArtifacts } from "../services/federationArtifacts.js";
+import { isReactionEmoji, addReaction, removeReaction } from "../services/reactions.js";
+import { tombstoneTez } from "../services/tombstones.js";
 
 export const federationRoutes = Router();
 
+/**
+ * Map a Tez id in a remote server's namespace to our local id.
+ * Inbound rows cover Tez that server sent us; outbound rows cover the
+ * copies it made of Tez we sent it (remoteTezId is its local id).
+ */
+async function resolveLocalTezId(remoteHost: string, remoteTezId: string): Promise<string | null> {
+  const rows = await db
+    .select({ localTezId: federatedTez.localTezId })
+    .from(federatedTez)
+    .where(and(eq(federatedTez.remoteHost, remoteHost), eq(federatedTez.remoteTezId, remoteTezId)))
+    .limit(1);
+  return rows[0]?.localTezId ?? null;
+}
+
+/**
+ * Our copy of a Tez a remote server delivered to us, if we stored one.
+ */
+async function inboundCopyOf(remoteHost: string, remoteTezId: string): Promise<string | null> {
+  const rows = await db
+    .select({ localTezId: federatedTez.localTezId })
+    .from(federatedTez)
+    .where(
+      and(
+        eq(federatedTez.remoteHost, remoteHost),
+        eq(federatedTez.remoteTezId, remoteTezId),
+        eq(federatedTez.direction, "inbound")
+      )
+    )
+    .limit(1);
+  return rows[0]?.localTezId ?? null;
+}
+
+/**
+ * Thread id of a local Tez (its own id if it is a thread root).
+ */
+async function localThreadOf(tezId: string | null): Promise<string | null> {
+  if (!tezId) return null;
+  const rows = await db.select({ id: tez.id, threadId: tez.threadId }).from(tez).where(eq(tez.id, tezId)).limit(1);
+  if (rows.length === 0) return null;
+  return rows[0].threadId ?? rows[0].id;
+}
+
+/**
+ * Authenticate a server-to-server request by its HTTP signature and the
+ * sender's trust level. Sends the error response and returns null if the
+ * request is not acceptable.
+ */
+async function authenticateServer(
+  req: Request,
+  res: Response,
+  params: { path: string; body: string }
+): Promise<typeof federatedServers.$inferSelect | null> {
+  const signature = req.headers["signature"] as string;
+  const signatureInput = req.headers["signature-input"] as string;
+  const digest = req.headers["digest"] as string;
+  const date = req.headers["date"] as string;
+  const host = req.headers["host"] as string;
+
+  if (!signature || !signatureInput || !digest || !date) {
+    res.status(401).json({ error: { code: "MISSING_SIGNATURE", message: "Missing HTTP signature headers" } });
+    return null;
+  }
+
+  // Extract sender server from signature keyId
+  const keyId = extractKeyId(signatureInput);
+  if (!keyId) {
+    res.status(401).json({ error: { code: "INVALID_SIGNATURE", message: "Cannot extract keyId from signature" } });
+    return null;
+  }
+
+  // Look up sender server
+  const senderRows = await db
+    .select()
+    .from(federatedServers)
+    .where(eq(federatedServers.serverId, keyId))
+    .limit(1);
+
+  if (senderRows.length === 0) {
+    res.status(403).json({ error: { code: "UNKNOWN_SERVER", message: "Sending server is not registered" } });
+    return null;
+  }
+
+  const sender = senderRows[0];
+
+  // Check trust level
+  if (sender.trustLevel === "blocked") {
+    res.status(403).json({ error: { code: "SERVER_BLOCKED", message: "Sending server is blocked" } });
+    return null;
+  }
+
+  if (config.federationMode === "allowlist" && sender.trustLevel !== "trusted") {
+    res.status(403).json({ error: { code: "SERVER_NOT_TRUSTED", message: "Server not in trusted allowlist" } });
+    return null;
+  }
+
+  // Verify signature
+  const isValid = verifyRequest({
+    method: req.method,
+    path: params.path,
+    host: host || config.relayHost,
+    date,
+    digest,
+    signature,
+    signatureInput,
+    body: params.body,
+    publicKeyBase64: sender.publicKey,
+  });
+
+  if (!isValid) {
+    res.status(401).json({ error: { code: "INVALID_SIGNATURE", message: "HTTP signature verification failed" } });
+    return null;
+  }
+
+  return sender;
+}
+
+/**
+ * Context rows for a received bundle. Artifact references point at blobs
+ * fetchBundleArtifacts has already stored.
+ */
+function bundleContext(bundle: FederationBundle) {
+  return bundle.context.map((ctx) => ({
+    layer: ctx.layer,
+    content: ctx.content,
+    mimeType: ctx.mimeType ?? ctx.artifact?.mimeType ?? null,
+    blobSha256: ctx.artifact?.sha256 ?? null,
+    confidence: ctx.confidence ?? null,
+    source: ctx.source ?? null,
+  }));
+}
+
+/**
+ * Respond to an artifact fetch failure while receiving a bundle.
+ * Returns false if the error is not an artifact error.
+ */
+function sendArtifactError(err: unknown, res: Response): boolean {
+  const code = (err as NodeJS.ErrnoException).code;
+  // Unavailable is transient (the sender retries); the others are final
+  const status =
+    code === "ARTIFACT_UNAVAILABLE" ? 502 : code === "ARTIFACT_TOO_LARGE" ? 413 : code === "ARTIFACT_MISMATCH" ? 422 : 0;
+  if (status === 0) return false;
+  res.status(status).json({ error: { code, message: (err as Error).message } });
+  return true;
+}
+
+/**
+ * Apply a remote sender's edit to our copy of their Tez. Only the original
+ * sender, via the server that delivered it, may amend it.
+ */
+async function receiveAmendment(
+  bundle: FederationBundle,
+  senderHost: string,
+  res: Response
+): Promise<void> {
+  const localTezId = await inboundCopyOf(senderHost, bundle.tez.id);
+  const rows = localTezId ? await db.select().from(tez).where(eq(tez.id, localTezId)).limit(1) : [];
+
+  if (rows.length === 0 || rows[0].status === "deleted") {
+    res.status(404).json({ error: { code: "UNKNOWN_TEZ", message: "No delivered Tez matches this amendment" } });
+    return;
+  }
+
+  const current = rows[0];
+  if (current.senderUserId !== bundle.from) {
+    res.status(403).json({ error: { code: "FORBIDDEN", message: "Only the original sender can amend a Tez" } });
+    return;
+  }
+
+  const recipients = await db
+    .select({ userId: tezRecipients.userId })
+    .from(tezRecipients)
+    .where(eq(tezRecipients.tezId, current.id));
+  await fetchBundleArtifacts(bundle, senderHost, recipients.map((r) => r.userId));
+
+  const { revision, fields } = await applyTezEdit({
+    current,
+    changes: {
+      surfaceText: bundle.tez.surfaceText,
+      actionRequested: bundle.tez.actionRequested,
+      urgency: bundle.tez.urgency,
+      context: bundleContext(bundle),
+    },
+    editedBy: bundle.from,
+  });
+
+  await recordAudit({
+    actorUserId: bundle.from,
+    action: "tez.edited",
+    targetType: "tez",
+    targetId: current.id,
+    metadata: { revision, fields, remoteServer: senderHost, remoteTezId: bundle.tez.id },
+  });
+
+  await publishTezEvent({
+    type: "tez.edited",
+    tezId: current.id,
+    threadId: current.threadId,
+    actorUserId: bundle.from,
+  });
+
+  res.json({ accepted: true, localTezIds: [current.id] });
+}
+
+/**
+ * Apply a remote user's reaction to a Tez we delivered to their server.
+ * The inbox has already checked the reactor is an address on the server
+ * that sent the reaction.
+ */
+async function receiveReaction(
+  bundle: FederationBundle,
+  senderHost: string,
+  res: Response
+): Promise<void> {
+  const reaction = bundle.reaction!;
+  if (!isReactionEmoji(reaction.emoji)) {
+    res.status(422).json({ error: { code: "INVALID_BUNDLE", message: "Reaction must be a single emoji" } });
+    return;
+  }
+
+  // bundle.tez.id is our id: we delivered this Tez to the sending server
+  const delivered = await db
+    .select({ localTezId: federatedTez.localTezId })
+    .from(federatedTez)
+    .where(
+      and(
+        eq(federatedTez.localTezId, bundle.tez.id),
+        eq(federatedTez.remoteHost, senderHost),
+        eq(federatedTez.direction, "outbound")
+      )
+    )
+    .limit(1);
+
+  const rows = delivered.length > 0
+    ? await db.select().from(tez).where(eq(tez.id, delivered[0].localTezId)).limit(1)
+    : [];
+
+  if (rows.length === 0 || rows[0].status === "deleted") {
+    res.status(404).json({ error: { code: "UNKNOWN_TEZ", message: "No delivered Tez matches this reaction" } });
+    return;
+  }
+
+  const target = rows[0];
+  const changed = reaction.action === "add"
+    ? await addReaction(target.id, bundle.from, reaction.emoji)
+    : await removeReaction(target.id, bundle.from, reaction.emoji);
+
+  if (changed) {
+    await recordAudit({
+      teamId: target.teamId ?? undefined,
+      actorUserId: bundle.from,
+      action: reaction.action === "add" ? "tez.reaction_added" : "tez.reaction_removed",
+      targetType: "tez",
+      targetId: target.id,
+      metadata: { emoji: reaction.emoji, remoteServer: senderHost },
+    });
+
+    await publishTezEvent({
+      type: "tez.reacted",
+      tezId: target.id,
+      teamId: target.teamId,
+      conversationId: target.conversationId,
+      threadId: target.threadId,
+      actorUserId: bundle.from,
+    });
+  }
+
+  res.json({ accepted: true, localTezIds: [target.id] });
+}
+
+/**
+ * Delete our copy of a Tez at its sender's request (e.g. after the sender
+ * was erased on their relay). Only the original sender, via the server
+ * that delivered it, may delete it. Repeats are accepted, so the sender
+ * stops retrying.
+ */
+async function receiveDeletion(
+  bundle: FederationBundle,
+  senderHost: string,
+  res: Response
+): Promise<void> {
+  const localTezId = await inboundCopyOf(senderHost, bundle.tez.id);
+  const rows = localTezId ? await db.select().from(tez).where(eq(tez.id, localTezId)).limit(1) : [];
+
+  if (rows.length === 0) {
+    res.status(404).json({ error: { code: "UNKNOWN_TEZ", message: "No delivered Tez matches this deletion" } });
+    return;
+  }
+
+  const current = rows[0];
+  if (current.senderUserId !== bundle.from) {
+    res.status(403).json({ error: { code: "FORBIDDEN", message: "Only the original sender can delete a Tez" } });
+    return;
+  }
+
+  if (current.status !== "deleted") {
+    await tombstoneTez(current.id);
+
+    await recordAudit({
+      teamId: current.teamId ?? undefined,
+      actorUserId: "system",
+      action: "tez.deleted",
+      targetType: "tez",
+      targetId: current.id,
+      metadata: { remoteServer: senderHost, remoteTezId: bundle.tez.id, threadId: current.threadId },
+    });
+  }
+
+  res.json({ accepted: true, localTezIds: [current.id] });
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // POST /federation/inbox — Receive a Tez from a remote server
 // ─────────────────────────────────────────────────────────────────────────────
@@ -37,74 +355,43 @@ federationRoutes.post("/inbox", async (req, res) => {
       return;
     }
 
-    // 1. Verify HTTP Signature
-    const signature = req.headers["signature"] as string;
-    const signatureInput = req.headers["signature-input"] as string;
-    const digest = req.headers["digest"] as string;
-    const date = req.headers["date"] as string;
-    const host = req.headers["host"] as string;
+    // 1-3. Verify HTTP signature and sender trust
+    const sender = await authenticateServer(req, res, { path: req.path, body: JSON.stringify(req.body) });
+    if (!sender) return;
 
-    if (!signature || !signatureInput || !digest || !date) {
-      res.status(401).json({ error: { code: "MISSING_SIGNATURE", message: "Missing HTTP signature headers" } });
-      return;
-    }
-
-    // Extract sender server from signature keyId
-    const keyId = extractKeyId(signatureInput);
-    if (!keyId) {
-      res.status(401).json({ error: { code: "INVALID_SIGNATURE", message: "Cannot extract keyId from signature" } });
-      return;
-    }
-
-    // 2. Look up sender server
-    const senderRows = await db
-      .select()
-      .from(federatedServers)
-      .where(eq(federatedServers.serverId, keyId))
-      .limit(1);
-
-    if (senderRows.length === 0) {
-      res.status(403).json({ error: { code: "UNKNOWN_SERVER", message: "Sending server is not registered" } });
+    // 4. Validate bundle format
+    const bundle = req.body as FederationBundle;
+    const validationError = validateBundle(bundle);
+    if (validationError) {
+      res.status(422).json({ error: { code: "INVALID_BUNDLE", message: validationError } });
       return;
     }
 
-    const sender = senderRows[0];
-
-    // Check trust level
-    if (sender.trustLevel === "blocked") {
-      res.status(403).json({ error: { code: "SERVER_BLOCKED", message: "Sending server is blocked" } });
+    // The bundle must speak for the server that signed it: every later
+    // lookup keys on the authenticated host, not on what the bundle claims
+    const fromHost = bundle.from.slice(bundle.from.lastIndexOf("@") + 1);
+    if (bundle.sender_server !== sender.host || fromHost !== sender.host) {
+      res.status(403).json({
+        error: { code: "SENDER_MISMATCH", message: "Bundle sender does not match the signing server" },
+      });
       return;
     }
 
-    if (config.federationMode === "allowlist" && sender.trustLevel !== "trusted") {
-      res.status(403).json({ error: { code: "SERVER_NOT_TRUSTED", message: "Server not in trusted allowlist" } });
+    // Amendments edit a Tez this server received earlier
+    if (bundle.bundle_type === "federation_amendment") {
+      await receiveAmendment(bundle, sender.host, res);
       return;
     }
 
-    // 3. Verify signature
-    const body = JSON.stringify(req.body);
-    const isValid = verifyRequest({
-      method: req.method,
-      path: req.path,
-      host: host || config.relayHost,
-      date,
-      digest,
-      signature,
-      signatureInput,
-      body,
-      publicKeyBase64: sender.publicKey,
-    });
-
-    if (!isValid) {
-      res.status(401).json({ error: { code: "INVALID_SIGNATURE", message: "HTTP signature verification failed" } });
+    // Reactions land on a Tez we sent the remote server
+    if (bundle.bundle_type === "federation_reaction") {
+      await receiveReaction(bundle, sender.host, res);
       return;
     }
 
-    // 4. Validate bundle format
-    const bundle = req.body as FederationBundle;
-    const validationError = validateBundle(bundle);
-    if (validationError) {
-      res.status(422).json({ error: { code: "INVALID_BUNDLE", message: validationError } });
+    // Deletions remove a Tez this server received earlier
+    if (bundle.bundle_type === "federation_deletion") {
+      await receiveDeletion(bundle, sender.host, res);
       return;
     }
 
@@ -120,53 +407,18 @@ federationRoutes.post("/inbox", async (req, res) => {
       return;
     }
 
-    const now = new Date().toISOString();
-    const localTezIds: string[] = [];
-    const notFound: string[] = [];
-
-    // Create local tez for each recipient
-    const localTezId = randomUUID();
-    const threadId = localTezId;
-
-    await db.insert(tez).values({
-      id: localTezId,
-      teamId: null,
-      conversationId: null,
-      threadId,
-      parentTezId: null,
-      surfaceText: bundle.tez.surfaceText,
-      type: bundle.tez.type || "note",
-      urgency: bundle.tez.urgency || "normal",
-      actionRequested: bundle.tez.actionRequested ?? null,
-      senderUserId: bundle.from,
-      visibility: "dm",
-      status: "active",
-      createdAt: now,
-      updatedAt: now,
-    });
-
-    // Create context layers
-    for (const ctx of bundle.context) {
-      await db.insert(tezContext).values({
-        id: randomUUID(),
-        tezId: localTezId,
-        layer: ctx.layer,
-        content: ctx.content,
-        mimeType: ctx.mimeType ?? null,
-        confidence: ctx.confidence ?? null,
-        source: ctx.source ?? null,
-        derivedFrom: null,
-        createdAt: now,
-        createdBy: bundle.from,
-      });
+    // A retry of a bundle we already stored (e.g. the sender timed out
+    // while we were still working) gets the same answer, not a second Tez
+    const delivered = await inboundCopyOf(sender.host, bundle.tez.id);
+    if (delivered) {
+      res.json({ accepted: true, localTezIds: [delivered] });
+      return;
     }
 
-    // Record recipients
+    // Verify recipients exist
+    const recipientUserIds: string[] = [];
+    const notFound: string[] = [];
     for (const addr of localRecipients) {
-      const atIndex = addr.lastIndexOf("@");
-      const userId = addr.slice(0, atIndex);
-
-      // Verify recipient exists
       const contactRows = await db
         .select()
         .from(contacts)
@@ -175,30 +427,95 @@ federationRoutes.post("/inbox", async (req, res) => {
 
       if (contactRows.length === 0) {
         notFound.push(addr);
-        continue;
+      } else {
+        recipientUserIds.push(contactRows[0].id);
       }
+    }
 
-      await db.insert(tezRecipients).values({
-        tezId: localTezId,
-        userId: contactRows[0].id,
-        deliveredAt: now,
-        readAt: null,
-        acknowledgedAt: null,
+    if (recipientUserIds.length === 0) {
+      res.status(422).json({
+        error: { code: "RECIPIENTS_NOT_FOUND", message: "No valid recipients found" },
+        notFound,
       });
+      return;
     }
 
-    localTezIds.push(localTezId);
-
-    // Record in federated_tez
-    await db.insert(federatedTez).values({
-      id: randomUUID(),
-      localTezId,
-      remoteTezId: bundle.tez.id,
-      remoteHost: bundle.sender_server,
-      direction: "inbound",
-      bundleHash: bundle.bundle_hash,
-      federatedAt: now,
-    });
+    // Pull artifact bytes before anything becomes visible locally
+    await fetchBundleArtifacts(bundle, sender.host, recipientUserIds);
+
+    const now = new Date().toISOString();
+    const localTezId = randomUUID();
+
+    // Attach to an existing local thread if the remote ids map to ours.
+    // Look up by the authenticated sender host.
+    const localParentId = bundle.tez.parentTezId
+      ? await resolveLocalTezId(sender.host, bundle.tez.parentTezId)
+      : null;
+    const localThreadRootId = bundle.tez.threadId
+      ? await resolveLocalTezId(sender.host, bundle.tez.threadId)
+      : null;
+    const threadId = (await localThreadOf(localThreadRootId ?? localParentId)) ?? localTezId;
+
+    // The Tez, its context, recipients and federated_tez mapping (with the
+    // remote participants replies go back to) are stored together: the
+    // mapping is unique per sender and remote id, so a concurrent copy of
+    // this bundle fails as a whole.
+    const remoteAddresses = [bundle.from, ...bundle.to].filter((addr) => !localRecipients.includes(addr));
+    try {
+      await db.batch([
+        db.insert(tez).values({
+          id: localTezId,
+          teamId: null,
+          conversationId: null,
+          threadId,
+          parentTezId: localParentId,
+          surfaceText: bundle.tez.surfaceText,
+          type: bundle.tez.type || "note",
+          urgency: bundle.tez.urgency || "normal",
+          actionRequested: bundle.tez.actionRequested ?? null,
+          senderUserId: bundle.from,
+          visibility: "dm",
+          status: "active",
+          createdAt: now,
+          updatedAt: now,
+        }),
+        ...bundleContext(bundle).map((ctx) =>
+          db.insert(tezContext).values({
+            id: randomUUID(),
+            tezId: localTezId,
+            ...ctx,
+            derivedFrom: null,
+            createdAt: now,
+            createdBy: bundle.from,
+          })
+        ),
+        ...recipientUserIds.map((userId) =>
+          db.insert(tezRecipients).values({
+            tezId: localTezId,
+            userId,
+            deliveredAt: now,
+            readAt: null,
+            acknowledgedAt: null,
+          })
+        ),
+        db.insert(federatedTez).values({
+          id: randomUUID(),
+          localTezId,
+          remoteTezId: bundle.tez.id,
+          remoteHost: sender.host,
+          direction: "inbound",
+          bundleHash: bundle.bundle_hash,
+          remoteAddresses: JSON.stringify(remoteAddresses),
+          federatedAt: now,
+        }),
+      ]);
+    } catch (err) {
+      const raced = await inboundCopyOf(sender.host, bundle.tez.id);
+      if (!raced) throw err;
+      res.json({ accepted: true, localTezIds: [raced] });
+      return;
+    }
+    const localTezIds = [localTezId];
 
     // Update sender's lastSeenAt
     await db
@@ -213,34 +530,81 @@ federationRoutes.post("/inbox", async (req, res) => {
       targetType: "tez",
       targetId: localTezId,
       metadata: {
-        remoteServer: bundle.sender_server,
+        remoteServer: sender.host,
         remoteTezId: bundle.tez.id,
+        threadId,
         recipientCount: localRecipients.length,
         notFoundCount: notFound.length,
       },
     });
 
+    await publishTezEvent({
+      type: "federation.received",
+      tezId: localTezId,
+      threadId,
+      actorUserId: bundle.from,
+    });
+
     // 207 if some recipients not found, 200 otherwise
-    if (notFound.length > 0 && notFound.length < localRecipients.length) {
+    if (notFound.length > 0) {
       res.status(207).json({
         accepted: true,
         localTezIds,
         notFound,
       });
-    } else if (notFound.length === localRecipients.length) {
-      res.status(422).json({
-        error: { code: "RECIPIENTS_NOT_FOUND", message: "No valid recipients found" },
-        notFound,
-      });
     } else {
       res.json({ accepted: true, localTezIds });
     }
   } catch (err) {
+    if (sendArtifactError(err, res)) return;
     console.error("Federation inbox error:", err);
     res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to process federation delivery" } });
   }
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /federation/artifacts/:sha256 — Artifact bytes for a remote server
+// ─────────────────────────────────────────────────────────────────────────────
+
+federationRoutes.get("/artifacts/:sha256", async (req, res) => {
+  try {
+    if (!config.federationEnabled) {
+      res.status(404).json({ error: { code: "FEDERATION_DISABLED", message: "Federation is not enabled" } });
+      return;
+    }
+
+    // Signed as the full path, the way the fetching server addresses it
+    const sender = await authenticateServer(req, res, { path: req.baseUrl + req.path, body: "" });
+    if (!sender) return;
+
+    const sha256 = req.params.sha256;
+    if (!isSha256(sha256) || !(await artifactGrantedTo(sender.host, sha256))) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Artifact not found" } });
+      return;
+    }
+
+    const rows = await db.select().from(blobs).where(eq(blobs.sha256, sha256)).limit(1);
+    if (rows.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Artifact not found" } });
+      return;
+    }
+
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.setHeader("Content-Length", rows[0].size);
+    res.setHeader("Cache-Control", "no-store");
+
+    const stream = readBlob(sha256);
+    stream.on("error", (err) => {
+      console.error("Federation artifact read error:", err);
+      res.destroy(err);
+    });
+    stream.pipe(res);
+  } catch (err) {
+    console.error("Federation artifact error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to serve artifact" } });
+  }
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // GET /federation/server-info — Public server identity
 // ─────────────────────────────────────────────────────────────────────────────
@@ -259,6 +623,7 @@ federationRoutes.get("/server-info", (_req, res) => {
         enabled: config.federationEnabled,
         mode: config.federationMode,
         inbox: "/federation/inbox",
+        artifacts: "/federation/artifacts",
       },
     });
   } catch (err) {
@@ -0,0 +1,228 @@
+/**
+ * Personal routes — state that belongs to the caller alone.
+ *
+ * GET /me/bookmarks — My bookmarked Tez, newest first
+ * GET /me/actions   — Actions requested of me, across teams and conversations
+ * GET /me/audit     — Audit entries for my own actions (see routes/audit.ts)
+ * POST /me/export   — Request an archive of everything the relay holds about me
+ * GET /me/export    — My recent exports
+ * GET /me/export/:exportId          — Poll an export's status (download link once ready)
+ * GET /me/export/:exportId/download — Download the archive (?token from the link; no auth header)
+ */
+
+import { Router } from "express";
+import { createReadStream } from "fs";
+import { eq, and, asc, desc, lt, inArray, isNotNull, sql } from "drizzle-orm";
+import { db, tez, tezBookmarks, tezActions, dataExports } from "../db/index.js";
+import { authenticate } from "../middleware/auth.js";
+import { canAccessTez } from "../services/acl.js";
+import { ACTION_STATUSES, type ActionStatus } from "../services/actions.js";
+import { recordAudit } from "../services/audit.js";
+import { requestExport, listExports, presentExport, isValidDownloadToken, exportPath } from "../services/dataExport.js";
+import { myAuditRoutes } from "./audit.js";
+
+export const meRoutes = Router();
+
+meRoutes.use("/audit", myAuditRoutes);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /me/bookmarks — My bookmarks (?limit, ?before=createdAt cursor)
+// ─────────────────────────────────────────────────────────────────────────────
+
+meRoutes.get("/bookmarks", authenticate, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 100);
+    const before = req.query.before as string | undefined;
+
+    const rows = await db
+      .select({ bookmark: tezBookmarks, tez })
+      .from(tezBookmarks)
+      .innerJoin(tez, eq(tez.id, tezBookmarks.tezId))
+      .where(and(eq(tezBookmarks.userId, userId), before ? lt(tezBookmarks.createdAt, before) : undefined))
+      .orderBy(desc(tezBookmarks.createdAt))
+      .limit(limit);
+
+    // A bookmark outlives access (e.g. after leaving a team): hide those Tez
+    const data = [];
+    for (const row of rows) {
+      if (!(await canAccessTez(userId, row.tez))) continue;
+      data.push({ ...row.bookmark, tez: row.tez });
+    }
+
+    res.json({
+      data,
+      meta: { count: data.length, hasMore: rows.length === limit },
+    });
+  } catch (err) {
+    console.error("List bookmarks error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list bookmarks" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /me/actions — My action items, soonest due first
+// (?status=open,accepted by default; ?limit)
+// ─────────────────────────────────────────────────────────────────────────────
+
+meRoutes.get("/actions", authenticate, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 100);
+
+    const requested = ((req.query.status as string | undefined) ?? "open,accepted").split(",");
+    const statuses = requested.filter((s): s is ActionStatus => (ACTION_STATUSES as readonly string[]).includes(s));
+    if (statuses.length !== requested.length) {
+      res.status(400).json({
+        error: { code: "VALIDATION_ERROR", message: `status must be among: ${ACTION_STATUSES.join(", ")}` },
+      });
+      return;
+    }
+
+    const rows = await db
+      .select({ action: tezActions, tez })
+      .from(tezActions)
+      .innerJoin(tez, eq(tez.id, tezActions.tezId))
+      .where(
+        and(eq(tezActions.userId, userId), inArray(tezActions.status, statuses), isNotNull(tez.actionRequested))
+      )
+      .orderBy(sql`${tezActions.dueAt} IS NULL`, asc(tezActions.dueAt), asc(tezActions.createdAt))
+      .limit(limit);
+
+    // As with bookmarks, hide Tez the user can no longer see
+    const data = [];
+    for (const row of rows) {
+      if (!(await canAccessTez(userId, row.tez))) continue;
+      data.push({
+        ...row.action,
+        tez: {
+          id: row.tez.id,
+          teamId: row.tez.teamId,
+          conversationId: row.tez.conversationId,
+          surfaceText: row.tez.surfaceText,
+          actionRequested: row.tez.actionRequested,
+          urgency: row.tez.urgency,
+          senderUserId: row.tez.senderUserId,
+          createdAt: row.tez.createdAt,
+        },
+      });
+    }
+
+    res.json({
+      data,
+      meta: { count: data.length, hasMore: rows.length === limit },
+    });
+  } catch (err) {
+    console.error("List actions error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list actions" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /me/export — Queue a data export (an export in progress is reused)
+// ─────────────────────────────────────────────────────────────────────────────
+
+meRoutes.post("/export", authenticate, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const { job, created } = await requestExport(userId);
+
+    if (created) {
+      await recordAudit({
+        actorUserId: userId,
+        action: "user.export_requested",
+        targetType: "export",
+        targetId: job.id,
+      });
+    }
+
+    res.status(202).json({ data: presentExport(job) });
+  } catch (err) {
+    console.error("Request export error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to request export" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /me/export — My recent exports, newest first
+// ─────────────────────────────────────────────────────────────────────────────
+
+meRoutes.get("/export", authenticate, async (req, res) => {
+  try {
+    const jobs = await listExports(req.user!.userId);
+    res.json({ data: jobs.map(presentExport), meta: { count: jobs.length } });
+  } catch (err) {
+    console.error("List exports error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list exports" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /me/export/:exportId — Export status
+// ─────────────────────────────────────────────────────────────────────────────
+
+meRoutes.get("/export/:exportId", authenticate, async (req, res) => {
+  try {
+    const rows = await db
+      .select()
+      .from(dataExports)
+      .where(and(eq(dataExports.id, req.params.exportId), eq(dataExports.userId, req.user!.userId)))
+      .limit(1);
+    if (rows.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Export not found" } });
+      return;
+    }
+
+    res.json({ data: presentExport(rows[0]) });
+  } catch (err) {
+    console.error("Get export error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to get export" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /me/export/:exportId/download — Download a ready archive
+// The token in the link is the credential, so this works from a browser.
+// ─────────────────────────────────────────────────────────────────────────────
+
+meRoutes.get("/export/:exportId/download", async (req, res) => {
+  try {
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+    const rows = await db.select().from(dataExports).where(eq(dataExports.id, req.params.exportId)).limit(1);
+    const job = rows[0];
+
+    // Same answer for unknown exports and bad or expired links
+    if (!job || !isValidDownloadToken(job, token)) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Export not found or link expired" } });
+      return;
+    }
+
+    await recordAudit({
+      actorUserId: job.userId,
+      action: "user.export_downloaded",
+      targetType: "export",
+      targetId: job.id,
+    });
+
+    // Headers only once the file is open, so a missing archive gets a plain JSON 500
+    const stream = createReadStream(exportPath(job.id));
+    stream.on("open", () => {
+      res.setHeader("Content-Type", "application/gzip");
+      res.setHeader("Content-Length", String(job.sizeBytes));
+      res.setHeader("Content-Disposition", `attachment; filename="tezit-export-${job.createdAt.slice(0, 10)}.json.gz"`);
+      res.setHeader("Cache-Control", "no-store");
+      stream.pipe(res);
+    });
+    stream.on("error", (err) => {
+      console.error("Download export error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to download export" } });
+        return;
+      }
+      res.destroy(err);
+    });
+  } catch (err) {
+    console.error("Download export error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to download export" } });
+  }
+});
@@ -0,0 +1,253 @@
+/**
+ * Retention routes — team admins set how long team data is kept, and place
+ * legal holds that suspend expiry.
+ *
+ * GET    /teams/:id/retention               — Policy and active holds
+ * PUT    /teams/:id/retention               — Set the policy
+ * GET    /teams/:id/retention/holds         — Holds (?all=true includes released)
+ * POST   /teams/:id/retention/holds         — Hold the team, or one Tez's thread
+ * DELETE /teams/:id/retention/holds/:holdId — Release a hold
+ *
+ * The retention worker applies policies in the background. See
+ * services/retention.ts for what each age limit removes.
+ */
+
+import { Router } from "express";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { eq, and, desc, isNull } from "drizzle-orm";
+import { db, tez, retentionPolicies, legalHolds } from "../db/index.js";
+import { authenticate } from "../middleware/auth.js";
+import { isTeamAdmin } from "../services/acl.js";
+import { recordAudit } from "../services/audit.js";
+
+export const retentionRoutes = Router({ mergeParams: true });
+
+type LegalHold = typeof legalHolds.$inferSelect;
+
+async function findHold(teamId: string, holdId: string): Promise<LegalHold | null> {
+  const rows = await db
+    .select()
+    .from(legalHolds)
+    .where(and(eq(legalHolds.id, holdId), eq(legalHolds.teamId, teamId)))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+async function listHolds(teamId: string, includeReleased: boolean): Promise<LegalHold[]> {
+  return db
+    .select()
+    .from(legalHolds)
+    .where(and(eq(legalHolds.teamId, teamId), includeReleased ? undefined : isNull(legalHolds.releasedAt)))
+    .orderBy(desc(legalHolds.createdAt));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /teams/:id/retention — Policy and active holds (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+retentionRoutes.get("/", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    if (!(await isTeamAdmin(req.user!.userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage retention" } });
+      return;
+    }
+
+    const rows = await db.select().from(retentionPolicies).where(eq(retentionPolicies.teamId, teamId)).limit(1);
+    const holds = await listHolds(teamId, false);
+
+    res.json({ data: { policy: rows[0] ?? null, holds } });
+  } catch (err) {
+    console.error("Get retention error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to get retention policy" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PUT /teams/:id/retention — Set the policy (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Null (or omitted) keeps that data forever
+const DaysSchema = z.number().int().min(1).max(36500).nullable().default(null);
+
+const PolicySchema = z.object({
+  contextDays: DaysSchema,
+  archiveDays: DaysSchema,
+  deleteDays: DaysSchema,
+  auditDays: DaysSchema,
+});
+
+retentionRoutes.put("/", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const userId = req.user!.userId;
+    const body = PolicySchema.parse(req.body);
+
+    if (!(await isTeamAdmin(userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage retention" } });
+      return;
+    }
+
+    const values = { ...body, updatedBy: userId, updatedAt: new Date().toISOString() };
+    const [policy] = await db
+      .insert(retentionPolicies)
+      .values({ teamId, ...values })
+      .onConflictDoUpdate({ target: retentionPolicies.teamId, set: values })
+      .returning();
+
+    await recordAudit({
+      teamId,
+      actorUserId: userId,
+      action: "retention.policy_updated",
+      targetType: "team",
+      targetId: teamId,
+      metadata: body,
+    });
+
+    res.json({ data: policy });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Set retention error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to set retention policy" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /teams/:id/retention/holds — List holds (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+retentionRoutes.get("/holds", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    if (!(await isTeamAdmin(req.user!.userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage retention" } });
+      return;
+    }
+
+    const holds = await listHolds(teamId, req.query.all === "true");
+
+    res.json({ data: holds, meta: { count: holds.length } });
+  } catch (err) {
+    console.error("List holds error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list holds" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /teams/:id/retention/holds — Place a hold (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const HoldSchema = z.object({
+  tezId: z.string().min(1).optional(), // hold this Tez's thread; omit to hold the whole team
+  reason: z.string().min(1).max(1000),
+});
+
+retentionRoutes.post("/holds", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const userId = req.user!.userId;
+    const body = HoldSchema.parse(req.body);
+
+    if (!(await isTeamAdmin(userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage retention" } });
+      return;
+    }
+
+    let threadId: string | null = null;
+    if (body.tezId) {
+      const rows = await db
+        .select({ id: tez.id, threadId: tez.threadId })
+        .from(tez)
+        .where(and(eq(tez.id, body.tezId), eq(tez.teamId, teamId)))
+        .limit(1);
+      if (rows.length === 0) {
+        res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found in this team" } });
+        return;
+      }
+      threadId = rows[0].threadId ?? rows[0].id;
+    }
+
+    const [hold] = await db
+      .insert(legalHolds)
+      .values({
+        id: randomUUID(),
+        teamId,
+        threadId,
+        reason: body.reason,
+        createdBy: userId,
+        createdAt: new Date().toISOString(),
+        releasedBy: null,
+        releasedAt: null,
+      })
+      .returning();
+
+    await recordAudit({
+      teamId,
+      actorUserId: userId,
+      action: "retention.hold_placed",
+      targetType: "legal_hold",
+      targetId: hold.id,
+      metadata: { threadId, reason: body.reason },
+    });
+
+    res.status(201).json({ data: hold });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Place hold error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to place hold" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DELETE /teams/:id/retention/holds/:holdId — Release a hold (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+retentionRoutes.delete("/holds/:holdId", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const userId = req.user!.userId;
+
+    if (!(await isTeamAdmin(userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage retention" } });
+      return;
+    }
+
+    const hold = await findHold(teamId, req.params.holdId);
+    if (!hold) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Hold not found" } });
+      return;
+    }
+
+    // Conditional, so two concurrent releases record one release
+    const released = await db
+      .update(legalHolds)
+      .set({ releasedBy: userId, releasedAt: new Date().toISOString() })
+      .where(and(eq(legalHolds.id, hold.id), isNull(legalHolds.releasedAt)))
+      .returning();
+    if (released.length === 0) {
+      res.status(409).json({ error: { code: "INVALID_STATE", message: "Hold is already released" } });
+      return;
+    }
+
+    await recordAudit({
+      teamId,
+      actorUserId: userId,
+      action: "retention.hold_released",
+      targetType: "legal_hold",
+      targetId: hold.id,
+      metadata: { threadId: hold.threadId },
+    });
+
+    res.json({ data: released[0] });
+  } catch (err) {
+    console.error("Release hold error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to release hold" } });
+  }
+});
@@ -0,0 +1,209 @@
+/**
+ * Search routes — full-text search over Tez the caller can see.
+ *
+ * GET /search?q= — Ranked matches with highlighted snippets and facets
+ *
+ * Backed by the FTS5 index in db/search.ts. Results are limited to Tez
+ * visible through the caller's team memberships (team-visible Tez),
+ * conversation memberships, or as sender/recipient.
+ *
+ * Ranking and facets consider the best MAX_MATCH_ROWS index rows. When a
+ * query matches more, meta.truncated is set: total and facets then count
+ * only those, and narrowing the query (or a filter) reaches the rest.
+ *
+ * Snippets are HTML: the Tez text is escaped and matches are wrapped in
+ * <mark>, so clients can render them as-is.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { inArray, sql, type SQL } from "drizzle-orm";
+import { db, tez } from "../db/index.js";
+import { authenticate } from "../middleware/auth.js";
+
+export const searchRoutes = Router();
+
+// Upper bound on index rows considered per query (ranking + facets)
+const MAX_MATCH_ROWS = 1000;
+const SNIPPETS_PER_RESULT = 3;
+
+// snippet() brackets matches with these private-use characters; they
+// become <mark> tags only after the text around them is escaped
+const MATCH_START = "\uE000";
+const MATCH_END = "\uE001";
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+function highlight(snippet: string): string {
+  return snippet
+    .replace(/[&<>"']/g, (ch) => HTML_ESCAPES[ch])
+    .replaceAll(MATCH_START, "<mark>")
+    .replaceAll(MATCH_END, "</mark>");
+}
+
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  teamId: z.string().optional(),
+  conversationId: z.string().optional(),
+  type: z.enum(["note", "decision", "handoff", "question", "update"]).optional(),
+  urgency: z.enum(["critical", "high", "normal", "low", "fyi"]).optional(),
+  layer: z.enum(["background", "fact", "artifact", "relationship", "constraint", "hint"]).optional(),
+  sender: z.string().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+interface MatchRow {
+  tezId: string;
+  layer: string | null;
+  snippet: string;
+  rank: number;
+  type: string;
+  urgency: string;
+  senderUserId: string;
+  createdAt: string;
+}
+
+/**
+ * Turn free text into a safe FTS5 expression: every term is quoted (so
+ * operators and punctuation are literal) and all terms must match.
+ * A trailing * on a term keeps prefix matching.
+ */
+function toMatchExpression(q: string): string | null {
+  const terms = q
+    .split(/\s+/)
+    .map((term) => {
+      const prefix = term.endsWith("*");
+      const word = term.replace(/\*+$/, "");
+      if (!word) return null;
+      return `"${word.replace(/"/g, '""')}"${prefix ? "*" : ""}`;
+    })
+    .filter((term): term is string => term !== null);
+
+  return terms.length > 0 ? terms.join(" ") : null;
+}
+
+function countBy(map: Record<string, number>, key: string): void {
+  map[key] = (map[key] ?? 0) + 1;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /search — Full-text search
+// ─────────────────────────────────────────────────────────────────────────────
+
+searchRoutes.get("/", authenticate, async (req, res) => {
+  try {
+    const query = SearchQuerySchema.parse(req.query);
+    const userId = req.user!.userId;
+
+    const match = toMatchExpression(query.q);
+    if (!match) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: "Query has no searchable terms" } });
+      return;
+    }
+
+    const conditions: SQL[] = [
+      sql`tez_search MATCH ${match}`,
+      sql`t.status != 'deleted'`,
+      // ACL: same access paths as the stream, conversations and DMs
+      sql`(
+        (t.visibility = 'team' AND t.team_id IN (SELECT team_id FROM team_members WHERE user_id = ${userId}))
+        OR t.conversation_id IN (SELECT conversation_id FROM conversation_members WHERE user_id = ${userId})
+        OR t.sender_user_id = ${userId}
+        OR EXISTS (SELECT 1 FROM tez_recipients r WHERE r.tez_id = t.id AND r.user_id = ${userId})
+      )`,
+    ];
+    if (query.teamId) conditions.push(sql`t.team_id = ${query.teamId}`);
+    if (query.conversationId) conditions.push(sql`t.conversation_id = ${query.conversationId}`);
+    if (query.type) conditions.push(sql`t.type = ${query.type}`);
+    if (query.urgency) conditions.push(sql`t.urgency = ${query.urgency}`);
+    if (query.layer) conditions.push(sql`tez_search.layer = ${query.layer}`);
+    if (query.sender) conditions.push(sql`t.sender_user_id = ${query.sender}`);
+    if (query.from) conditions.push(sql`t.created_at >= ${query.from}`);
+    if (query.to) conditions.push(sql`t.created_at <= ${query.to}`);
+
+    const rows = await db.all<MatchRow>(sql`
+      SELECT
+        tez_search.tez_id AS tezId,
+        tez_search.layer AS layer,
+        snippet(tez_search, 3, ${MATCH_START}, ${MATCH_END}, '…', 12) AS snippet,
+        bm25(tez_search) AS rank,
+        t.type AS type,
+        t.urgency AS urgency,
+        t.sender_user_id AS senderUserId,
+        t.created_at AS createdAt
+      FROM tez_search
+      JOIN tez t ON t.id = tez_search.tez_id
+      WHERE ${sql.join(conditions, sql` AND `)}
+      ORDER BY rank
+      LIMIT ${MAX_MATCH_ROWS + 1}
+    `);
+    const truncated = rows.length > MAX_MATCH_ROWS;
+    if (truncated) rows.pop();
+
+    // Group index rows by Tez. Rows arrive best-first, so the first row
+    // seen for a Tez carries its rank.
+    const results = new Map<string, { rank: number; snippets: Array<{ layer: string | null; text: string }> }>();
+    const facets = {
+      type: {} as Record<string, number>,
+      urgency: {} as Record<string, number>,
+      layer: {} as Record<string, number>,
+      sender: {} as Record<string, number>,
+      month: {} as Record<string, number>,
+    };
+    const layersSeen = new Set<string>();
+
+    for (const row of rows) {
+      if (row.layer && !layersSeen.has(`${row.tezId}:${row.layer}`)) {
+        layersSeen.add(`${row.tezId}:${row.layer}`);
+        countBy(facets.layer, row.layer);
+      }
+
+      const existing = results.get(row.tezId);
+      if (existing) {
+        if (existing.snippets.length < SNIPPETS_PER_RESULT) {
+          existing.snippets.push({ layer: row.layer, text: highlight(row.snippet) });
+        }
+        continue;
+      }
+
+      results.set(row.tezId, { rank: row.rank, snippets: [{ layer: row.layer, text: highlight(row.snippet) }] });
+      countBy(facets.type, row.type);
+      countBy(facets.urgency, row.urgency);
+      countBy(facets.sender, row.senderUserId);
+      countBy(facets.month, row.createdAt.slice(0, 7));
+    }
+
+    const page = Array.from(results.entries()).slice(query.offset, query.offset + query.limit);
+    const tezRows =
+      page.length > 0
+        ? await db.select().from(tez).where(inArray(tez.id, page.map(([id]) => id)))
+        : [];
+    const tezById = new Map(tezRows.map((row) => [row.id, row]));
+
+    res.json({
+      data: page.map(([id, result]) => ({
+        tez: tezById.get(id),
+        rank: result.rank,
+        snippets: result.snippets,
+      })),
+      meta: {
+        count: page.length,
+        total: results.size,
+        offset: query.offset,
+        hasMore: query.offset + page.length < results.size,
+        truncated,
+        facets,
+      },
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Search error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to search" } });
+  }
+});
@@ -2,31 +2,92 @@
  * Team routes — minimal team management.
  *
  * POST /teams              — Create team
+ * PATCH /teams/:id         — Rename / describe (admin)
+ * DELETE /teams/:id        — Archive the team and its Tez (owner)
+ * POST /teams/:id/transfer — Transfer ownership (owner)
  * GET  /teams/:id/members  — List members
  * POST /teams/:id/members  — Add member
+ * PATCH /teams/:id/members/:userId  — Change role (admin)
  * DELETE /teams/:id/members/:userId — Remove member
+ * POST /teams/:id/invites  — Create an invite token (admin)
+ * GET  /teams/:id/invites  — List outstanding invites (admin)
+ * DELETE /teams/:id/invites/:inviteId — Revoke an invite (admin)
+ * POST /teams/invites/:token/accept   — Join via invite
+ * POST /teams/:id/pins     — Pin a Tez (admin)
+ * GET  /teams/:id/pins     — Pinned Tez (members)
+ * DELETE /teams/:id/pins/:tezId — Unpin (admin)
+ *
+ * A team always keeps at least one admin, and its owner is always an
+ * admin: the owner cannot be demoted or removed without transferring
+ * ownership first.
  */
 
-import { Router } from "express";
-import { randomUUID } from "crypto";
+import { Router, type Response } from "express";
+import { randomUUID, randomBytes, createHash } from "crypto";
 import { z } from "zod";
-import { eq, and } from "drizzle-orm";
-import { db, teams, teamMembers } from "../db/index.js";
+import { eq, and, ne, sql, desc, gt, lt, isNull } from "drizzle-orm";
+import { db, teams, teamMembers, teamInvites, contacts, tez } from "../db/index.js";
+import { config } from "../config.js";
 import { authenticate } from "../middleware/auth.js";
 import { assertTeamMember, isTeamAdmin } from "../services/acl.js";
 import { recordAudit } from "../services/audit.js";
+import { publishMembershipRemoved } from "../services/events.js";
+import { pinTez, unpinTez, listPins } from "../services/pins.js";
 
 export const teamRoutes = Router();
 
-// GET /teams — List teams I belong to
+type Team = typeof teams.$inferSelect;
+
+function ownerOf(team: Team): string {
+  return team.ownerId ?? team.createdBy;
+}
+
+/**
+ * Load a team for a mutation, sending 404 (missing) or 409 (archived)
+ * and returning null if it cannot be changed.
+ */
+async function loadActiveTeam(teamId: string, res: Response): Promise<Team | null> {
+  const rows = await db.select().from(teams).where(eq(teams.id, teamId)).limit(1);
+  if (rows.length === 0) {
+    res.status(404).json({ error: { code: "NOT_FOUND", message: "Team not found" } });
+    return null;
+  }
+  if (rows[0].status === "archived") {
+    res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: "Team is archived" } });
+    return null;
+  }
+  return rows[0];
+}
+
+/**
+ * SQL condition: the team has an admin other than `userId`. Demotions and
+ * removals are conditional on it, so two concurrent requests cannot leave
+ * a team with no admin.
+ */
+function anotherAdminRemains(teamId: string, userId: string) {
+  return sql`EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_id = ${teamId} AND role = 'admin' AND user_id != ${userId}
+  )`;
+}
+
+// GET /teams — List teams I belong to (?includeArchived=true for archived too)
 teamRoutes.get("/", authenticate, async (req, res) => {
   try {
     const userId = req.user!.userId;
+    const includeArchived = req.query.includeArchived === "true";
     const rows = await db
-      .select({ id: teams.id, name: teams.name, role: teamMembers.role })
+      .select({
+        id: teams.id,
+        name: teams.name,
+        description: teams.description,
+        status: teams.status,
+        role: teamMembers.role,
+        isOwner: sql<boolean>`coalesce(${teams.ownerId}, ${teams.createdBy}) = ${userId}`.mapWith(Boolean),
+      })
       .from(teams)
       .innerJoin(teamMembers, eq(teams.id, teamMembers.teamId))
-      .where(eq(teamMembers.userId, userId));
+      .where(and(eq(teamMembers.userId, userId), includeArchived ? undefined : ne(teams.status, "archived")));
 
     res.json({ data: rows });
   } catch (err) {
@@ -39,6 +100,7 @@ teamRoutes.get("/", authenticate, async (req, res) => {
 const CreateTeamSchema = z.object({
   id: z.string().uuid().optional(),
   name: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
 });
 
 teamRoutes.post("/", authenticate, async (req, res) => {
@@ -51,7 +113,9 @@ teamRoutes.post("/", authenticate, async (req, res) => {
     await db.insert(teams).values({
       id: teamId,
       name: body.name,
+      description: body.description ?? null,
       createdBy: userId,
+      ownerId: userId,
       createdAt: now,
       updatedAt: now,
     });
@@ -73,7 +137,7 @@ teamRoutes.post("/", authenticate, async (req, res) => {
       metadata: { name: body.name },
     });
 
-    res.status(201).json({ data: { id: teamId, name: body.name } });
+    res.status(201).json({ data: { id: teamId, name: body.name, description: body.description ?? null } });
   } catch (err) {
     if (err instanceof z.ZodError) {
       res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
@@ -84,6 +148,160 @@ teamRoutes.post("/", authenticate, async (req, res) => {
   }
 });
 
+// PATCH /teams/:id — Rename / update description (admin only)
+const UpdateTeamSchema = z
+  .object({
+    name: z.string().min(1).max(100).optional(),
+    description: z.string().max(1000).nullable().optional(),
+  })
+  .refine((body) => body.name !== undefined || body.description !== undefined, { message: "Nothing to update" });
+
+teamRoutes.patch("/:id", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const body = UpdateTeamSchema.parse(req.body);
+    const actorId = req.user!.userId;
+
+    if (!(await isTeamAdmin(actorId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can update the team" } });
+      return;
+    }
+
+    const team = await loadActiveTeam(teamId, res);
+    if (!team) return;
+
+    const [updated] = await db
+      .update(teams)
+      .set({
+        name: body.name ?? team.name,
+        description: body.description !== undefined ? body.description : team.description,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(teams.id, teamId))
+      .returning();
+
+    await recordAudit({
+      teamId,
+      actorUserId: actorId,
+      action: "team.updated",
+      targetType: "team",
+      targetId: teamId,
+      metadata: {
+        ...(body.name !== undefined ? { previousName: team.name, name: body.name } : {}),
+        ...(body.description !== undefined ? { descriptionChanged: true } : {}),
+      },
+    });
+
+    res.json({ data: updated });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Update team error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to update team" } });
+  }
+});
+
+// DELETE /teams/:id — Archive the team and its Tez (owner only)
+teamRoutes.delete("/:id", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const actorId = req.user!.userId;
+
+    const team = await loadActiveTeam(teamId, res);
+    if (!team) return;
+
+    if (ownerOf(team) !== actorId) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only the owner can delete the team" } });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const [, archivedTez] = await db.batch([
+      db.update(teams).set({ status: "archived", archivedAt: now, updatedAt: now }).where(eq(teams.id, teamId)),
+      db
+        .update(tez)
+        .set({ status: "archived", updatedAt: now })
+        .where(and(eq(tez.teamId, teamId), eq(tez.status, "active")))
+        .returning({ id: tez.id }),
+    ]);
+
+    await recordAudit({
+      teamId,
+      actorUserId: actorId,
+      action: "team.archived",
+      targetType: "team",
+      targetId: teamId,
+      metadata: { name: team.name, archivedTezCount: archivedTez.length },
+    });
+
+    res.json({ data: { id: teamId, status: "archived", archivedAt: now, archivedTezCount: archivedTez.length } });
+  } catch (err) {
+    console.error("Delete team error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to delete team" } });
+  }
+});
+
+// POST /teams/:id/transfer — Transfer ownership to another member (owner only)
+const TransferSchema = z.object({
+  userId: z.string(),
+});
+
+teamRoutes.post("/:id/transfer", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const body = TransferSchema.parse(req.body);
+    const actorId = req.user!.userId;
+
+    const team = await loadActiveTeam(teamId, res);
+    if (!team) return;
+
+    if (ownerOf(team) !== actorId) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only the owner can transfer ownership" } });
+      return;
+    }
+
+    const target = await db
+      .select()
+      .from(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, body.userId)))
+      .limit(1);
+    if (target.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "New owner must be a team member" } });
+      return;
+    }
+
+    // The owner is always an admin; the previous owner stays an admin
+    const now = new Date().toISOString();
+    await db.batch([
+      db
+        .update(teamMembers)
+        .set({ role: "admin" })
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, body.userId))),
+      db.update(teams).set({ ownerId: body.userId, updatedAt: now }).where(eq(teams.id, teamId)),
+    ]);
+
+    await recordAudit({
+      teamId,
+      actorUserId: actorId,
+      action: "team.ownership_transferred",
+      targetType: "team",
+      targetId: teamId,
+      metadata: { previousOwnerId: actorId, newOwnerId: body.userId, promoted: target[0].role !== "admin" },
+    });
+
+    res.json({ data: { teamId, ownerId: body.userId } });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Transfer ownership error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to transfer ownership" } });
+  }
+});
+
 // GET /teams/:id/members
 teamRoutes.get("/:id/members", authenticate, async (req, res) => {
   try {
@@ -123,6 +341,8 @@ teamRoutes.post("/:id/members", authenticate, async (req, res) => {
       return;
     }
 
+    if (!(await loadActiveTeam(teamId, res))) return;
+
     const now = new Date().toISOString();
     await db.insert(teamMembers).values({
       teamId,
@@ -151,6 +371,92 @@ teamRoutes.post("/:id/members", authenticate, async (req, res) => {
   }
 });
 
+// PATCH /teams/:id/members/:userId — Promote / demote (admin only)
+const ChangeRoleSchema = z.object({
+  role: z.enum(["admin", "member"]),
+});
+
+teamRoutes.patch("/:id/members/:userId", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const targetUserId = req.params.userId;
+    const body = ChangeRoleSchema.parse(req.body);
+    const actorId = req.user!.userId;
+
+    if (!(await isTeamAdmin(actorId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can change roles" } });
+      return;
+    }
+
+    const team = await loadActiveTeam(teamId, res);
+    if (!team) return;
+
+    const member = await db
+      .select()
+      .from(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, targetUserId)))
+      .limit(1);
+    if (member.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Not a member of this team" } });
+      return;
+    }
+
+    const previousRole = member[0].role;
+    if (previousRole === body.role) {
+      res.json({ data: { teamId, userId: targetUserId, role: body.role } });
+      return;
+    }
+
+    if (body.role === "member") {
+      if (ownerOf(team) === targetUserId) {
+        res.status(409).json({
+          error: { code: "OWNER_REQUIRED", message: "The owner must stay an admin; transfer ownership first" },
+        });
+        return;
+      }
+
+      const demoted = await db
+        .update(teamMembers)
+        .set({ role: "member" })
+        .where(
+          and(
+            eq(teamMembers.teamId, teamId),
+            eq(teamMembers.userId, targetUserId),
+            anotherAdminRemains(teamId, targetUserId)
+          )
+        )
+        .returning();
+      if (demoted.length === 0) {
+        res.status(409).json({ error: { code: "LAST_ADMIN", message: "A team must keep at least one admin" } });
+        return;
+      }
+    } else {
+      await db
+        .update(teamMembers)
+        .set({ role: "admin" })
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, targetUserId)));
+    }
+
+    await recordAudit({
+      teamId,
+      actorUserId: actorId,
+      action: "team.member_role_changed",
+      targetType: "team",
+      targetId: teamId,
+      metadata: { userId: targetUserId, previousRole, role: body.role },
+    });
+
+    res.json({ data: { teamId, userId: targetUserId, role: body.role } });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Change role error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to change role" } });
+  }
+});
+
 // DELETE /teams/:id/members/:userId — Remove member (admin only, or self-leave)
 teamRoutes.delete("/:id/members/:userId", authenticate, async (req, res) => {
   try {
@@ -164,9 +470,37 @@ teamRoutes.delete("/:id/members/:userId", authenticate, async (req, res) => {
       return;
     }
 
-    await db
+    const teamRows = await db.select().from(teams).where(eq(teams.id, teamId)).limit(1);
+    if (teamRows.length > 0 && ownerOf(teamRows[0]) === targetUserId) {
+      res.status(409).json({
+        error: { code: "OWNER_REQUIRED", message: "The owner cannot leave; transfer ownership first" },
+      });
+      return;
+    }
+
+    const removed = await db
       .delete(teamMembers)
-      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, targetUserId)));
+      .where(
+        and(
+          eq(teamMembers.teamId, teamId),
+          eq(teamMembers.userId, targetUserId),
+          // Admins can only go while another admin remains
+          sql`(${teamMembers.role} != 'admin' OR ${anotherAdminRemains(teamId, targetUserId)})`
+        )
+      )
+      .returning();
+
+    if (removed.length === 0) {
+      const stillMember = await db
+        .select()
+        .from(teamMembers)
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, targetUserId)))
+        .limit(1);
+      if (stillMember.length > 0) {
+        res.status(409).json({ error: { code: "LAST_ADMIN", message: "A team must keep at least one admin" } });
+        return;
+      }
+    }
 
     await recordAudit({
       teamId,
@@ -177,9 +511,388 @@ teamRoutes.delete("/:id/members/:userId", authenticate, async (req, res) => {
       metadata: { removedUserId: targetUserId, selfLeave: isSelfLeave },
     });
 
+    // Live subscriptions re-check their ACLs
+    publishMembershipRemoved({ scope: "team", scopeId: teamId, userId: targetUserId });
+
     res.json({ data: { removed: true } });
   } catch (err) {
     console.error("Remove member error:", err);
     res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to remove member" } });
   }
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Invites — expiring invite tokens instead of adding members by userId
+// ─────────────────────────────────────────────────────────────────────────────
+
+type Invite = typeof teamInvites.$inferSelect;
+
+function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * An invite as returned by the API (the token is only shown on create).
+ */
+function presentInvite(invite: Invite) {
+  const { tokenHash: _hash, ...rest } = invite;
+  return rest;
+}
+
+function inviteState(invite: Invite, now: string): "revoked" | "expired" | "used" | "open" {
+  if (invite.revokedAt) return "revoked";
+  if (invite.expiresAt <= now) return "expired";
+  if (invite.uses >= invite.maxUses) return "used";
+  return "open";
+}
+
+// POST /teams/:id/invites — Create an invite (admin only)
+const CreateInviteSchema = z
+  .object({
+    email: z.string().email().optional(),
+    tezAddress: z.string().min(3).optional(),
+    role: z.enum(["admin", "member"]).default("member"),
+    maxUses: z.number().int().min(1).max(1000).default(1),
+    expiresInHours: z.number().int().min(1).max(24 * 30).default(24 * 7),
+  })
+  .refine((body) => !(body.email && body.tezAddress), { message: "Bind an invite to an email or a tezAddress, not both" });
+
+teamRoutes.post("/:id/invites", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const body = CreateInviteSchema.parse(req.body);
+    const actorId = req.user!.userId;
+
+    if (!(await isTeamAdmin(actorId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can invite members" } });
+      return;
+    }
+
+    if (!(await loadActiveTeam(teamId, res))) return;
+
+    const token = randomBytes(24).toString("base64url");
+    const now = new Date();
+    const [invite] = await db
+      .insert(teamInvites)
+      .values({
+        id: randomUUID(),
+        teamId,
+        tokenHash: hashInviteToken(token),
+        email: body.email?.toLowerCase() ?? null,
+        tezAddress: body.tezAddress ?? null,
+        role: body.role,
+        maxUses: body.maxUses,
+        uses: 0,
+        expiresAt: new Date(now.getTime() + body.expiresInHours * 60 * 60_000).toISOString(),
+        createdBy: actorId,
+        createdAt: now.toISOString(),
+      })
+      .returning();
+
+    await recordAudit({
+      teamId,
+      actorUserId: actorId,
+      action: "team.invite_created",
+      targetType: "team",
+      targetId: teamId,
+      metadata: {
+        inviteId: invite.id,
+        role: invite.role,
+        maxUses: invite.maxUses,
+        expiresAt: invite.expiresAt,
+        bound: invite.email ? "email" : invite.tezAddress ? "tezAddress" : null,
+      },
+    });
+
+    res.status(201).json({ data: { ...presentInvite(invite), token } });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Create invite error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to create invite" } });
+  }
+});
+
+// GET /teams/:id/invites — Outstanding invites (admin only; ?all=true for every invite)
+teamRoutes.get("/:id/invites", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+
+    if (!(await isTeamAdmin(req.user!.userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can list invites" } });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const rows = await db
+      .select()
+      .from(teamInvites)
+      .where(eq(teamInvites.teamId, teamId))
+      .orderBy(desc(teamInvites.createdAt));
+
+    const invites = rows
+      .map((invite) => ({ ...presentInvite(invite), state: inviteState(invite, now) }))
+      .filter((invite) => req.query.all === "true" || invite.state === "open");
+
+    res.json({ data: invites, meta: { count: invites.length } });
+  } catch (err) {
+    console.error("List invites error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list invites" } });
+  }
+});
+
+// DELETE /teams/:id/invites/:inviteId — Revoke an invite (admin only)
+teamRoutes.delete("/:id/invites/:inviteId", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const actorId = req.user!.userId;
+
+    if (!(await isTeamAdmin(actorId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can revoke invites" } });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const revoked = await db
+      .update(teamInvites)
+      .set({ revokedAt: now })
+      .where(
+        and(eq(teamInvites.id, req.params.inviteId), eq(teamInvites.teamId, teamId), isNull(teamInvites.revokedAt))
+      )
+      .returning();
+
+    if (revoked.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Invite not found or already revoked" } });
+      return;
+    }
+
+    await recordAudit({
+      teamId,
+      actorUserId: actorId,
+      action: "team.invite_revoked",
+      targetType: "team",
+      targetId: teamId,
+      metadata: { inviteId: revoked[0].id, uses: revoked[0].uses },
+    });
+
+    res.json({ data: presentInvite(revoked[0]) });
+  } catch (err) {
+    console.error("Revoke invite error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to revoke invite" } });
+  }
+});
+
+// POST /teams/invites/:token/accept — Join a team with an invite token
+teamRoutes.post("/invites/:token/accept", authenticate, async (req, res) => {
+  try {
+    const user = req.user!;
+    const rows = await db
+      .select()
+      .from(teamInvites)
+      .where(eq(teamInvites.tokenHash, hashInviteToken(req.params.token)))
+      .limit(1);
+
+    const now = new Date().toISOString();
+    const invite = rows[0];
+    const state = invite ? inviteState(invite, now) : "revoked";
+    if (state === "revoked") {
+      res.status(404).json({ error: { code: "INVITE_INVALID", message: "Invite not found or revoked" } });
+      return;
+    }
+    if (state === "expired") {
+      res.status(410).json({ error: { code: "INVITE_EXPIRED", message: "Invite has expired" } });
+      return;
+    }
+    if (state === "used") {
+      res.status(410).json({ error: { code: "INVITE_EXHAUSTED", message: "Invite has no uses left" } });
+      return;
+    }
+
+    // Bound invites only work for the intended person
+    if (invite.email && user.email?.toLowerCase() !== invite.email) {
+      res.status(403).json({ error: { code: "INVITE_MISMATCH", message: "Invite was issued to a different email" } });
+      return;
+    }
+    if (invite.tezAddress) {
+      const contact = await db.select().from(contacts).where(eq(contacts.id, user.userId)).limit(1);
+      const address = contact[0]?.tezAddress ?? `${user.userId}@${config.relayHost}`;
+      if (address !== invite.tezAddress) {
+        res.status(403).json({ error: { code: "INVITE_MISMATCH", message: "Invite was issued to a different address" } });
+        return;
+      }
+    }
+
+    if (!(await loadActiveTeam(invite.teamId, res))) return;
+
+    const existing = await db
+      .select()
+      .from(teamMembers)
+      .where(and(eq(teamMembers.teamId, invite.teamId), eq(teamMembers.userId, user.userId)))
+      .limit(1);
+    if (existing.length > 0) {
+      res.status(409).json({ error: { code: "ALREADY_MEMBER", message: "Already a member of this team" } });
+      return;
+    }
+
+    // Join and consume a use in one batch. The member row is only inserted
+    // while the invite has uses left, so concurrent accepts cannot exceed
+    // maxUses; a concurrent accept by the same user fails the unique index
+    // and rolls back its use.
+    const usable = and(
+      eq(teamInvites.id, invite.id),
+      isNull(teamInvites.revokedAt),
+      gt(teamInvites.expiresAt, now),
+      lt(teamInvites.uses, teamInvites.maxUses)
+    );
+    let consumed: unknown[];
+    try {
+      [, consumed] = await db.batch([
+        db.insert(teamMembers).select(
+          db
+            .select({
+              teamId: teamInvites.teamId,
+              userId: sql<string>`${user.userId}`.as("user_id"),
+              role: teamInvites.role,
+              joinedAt: sql<string>`${now}`.as("joined_at"),
+            })
+            .from(teamInvites)
+            .where(usable)
+        ),
+        db
+          .update(teamInvites)
+          .set({ uses: sql`${teamInvites.uses} + 1` })
+          .where(usable)
+          .returning(),
+      ]);
+    } catch (err) {
+      const joined = await db
+        .select()
+        .from(teamMembers)
+        .where(and(eq(teamMembers.teamId, invite.teamId), eq(teamMembers.userId, user.userId)))
+        .limit(1);
+      if (joined.length === 0) throw err;
+      res.status(409).json({ error: { code: "ALREADY_MEMBER", message: "Already a member of this team" } });
+      return;
+    }
+    if (consumed.length === 0) {
+      res.status(410).json({ error: { code: "INVITE_EXHAUSTED", message: "Invite has no uses left" } });
+      return;
+    }
+
+    await recordAudit({
+      teamId: invite.teamId,
+      actorUserId: user.userId,
+      action: "team.member_added",
+      targetType: "team",
+      targetId: invite.teamId,
+      metadata: { addedUserId: user.userId, role: invite.role, inviteId: invite.id, invitedBy: invite.createdBy },
+    });
+
+    res.status(201).json({ data: { teamId: invite.teamId, userId: user.userId, role: invite.role } });
+  } catch (err) {
+    console.error("Accept invite error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to accept invite" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Pins — Tez pinned to the top of the team (admins pin, members read)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PinSchema = z.object({
+  tezId: z.string().min(1),
+});
+
+// POST /teams/:id/pins — Pin a team-visible Tez (admin only)
+teamRoutes.post("/:id/pins", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const actorId = req.user!.userId;
+    const body = PinSchema.parse(req.body);
+
+    if (!(await isTeamAdmin(actorId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can pin Tez" } });
+      return;
+    }
+
+    if (!(await loadActiveTeam(teamId, res))) return;
+
+    const pin = await pinTez({ teamId }, body.tezId, actorId);
+
+    await recordAudit({
+      teamId,
+      actorUserId: actorId,
+      action: "tez.pinned",
+      targetType: "tez",
+      targetId: body.tezId,
+    });
+
+    res.status(201).json({ data: pin });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    const code = (err as NodeJS.ErrnoException).code;
+    const status = code === "NOT_FOUND" ? 404 : code === "NOT_PINNABLE" ? 400 : code === "ALREADY_PINNED" ? 409 : 0;
+    if (status) {
+      res.status(status).json({ error: { code, message: (err as Error).message } });
+      return;
+    }
+    console.error("Pin error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to pin Tez" } });
+  }
+});
+
+// GET /teams/:id/pins — Pinned Tez (members)
+teamRoutes.get("/:id/pins", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    await assertTeamMember(req.user!.userId, teamId);
+
+    const pins = await listPins({ teamId });
+    res.json({ data: pins, meta: { count: pins.length } });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    console.error("List pins error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list pins" } });
+  }
+});
+
+// DELETE /teams/:id/pins/:tezId — Unpin (admin only)
+teamRoutes.delete("/:id/pins/:tezId", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const actorId = req.user!.userId;
+
+    if (!(await isTeamAdmin(actorId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can unpin Tez" } });
+      return;
+    }
+
+    if (!(await loadActiveTeam(teamId, res))) return;
+
+    if (!(await unpinTez({ teamId }, req.params.tezId))) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez is not pinned to this team" } });
+      return;
+    }
+
+    await recordAudit({
+      teamId,
+      actorUserId: actorId,
+      action: "tez.unpinned",
+      targetType: "tez",
+      targetId: req.params.tezId,
+    });
+
+    res.json({ data: { unpinned: true } });
+  } catch (err) {
+    console.error("Unpin error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to unpin Tez" } });
+  }
+});
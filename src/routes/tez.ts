@@ -6,46 +6,107 @@
  * POST /tez/:id/reply    — Reply to a Tez (threaded)
  * GET  /tez/:id          — Get full Tez with context + provenance
  * GET  /tez/:id/thread   — Get full thread
+ *
+ * PATCH /tez/:id           — Edit surface, urgency, action or context (sender)
+ * GET   /tez/:id/revisions — Prior versions of an edited Tez
+ *
+ * POST   /tez/:id/acknowledge — Acknowledge receipt (recipients)
+ * POST   /tez/:id/archive     — Archive (sender or team admin)
+ * POST   /tez/:id/unarchive   — Restore an archived Tez (sender or team admin)
+ * DELETE /tez/:id             — Delete (sender or team admin); tombstones thread roots
+ *
+ * POST /tez/read          — Bulk mark read (list of ids, or a team before a timestamp)
+ * POST /tez/:id/read      — Mark one Tez read
+ * GET  /tez/:id/receipts  — Per-recipient delivered/read/acknowledged state (sender)
+ *
+ * POST   /tez/:id/reactions        — React with an emoji
+ * DELETE /tez/:id/reactions/:emoji — Remove my reaction
+ *
+ * POST   /tez/:id/bookmark — Bookmark for myself, with an optional note
+ * DELETE /tez/:id/bookmark — Remove my bookmark
+ *
+ * POST /tez/:id/action  — Respond to a requested action: accept, decline, done, reopen
+ * GET  /tez/:id/actions — Who has responded to / completed the requested action (sender)
  */
 
-import { Router } from "express";
+import { Router, type RequestHandler, type Response } from "express";
 import { randomUUID } from "crypto";
 import { z } from "zod";
-import { eq, and, desc, inArray, or } from "drizzle-orm";
-import { db, tez, tezContext, tezRecipients, contacts } from "../db/index.js";
+import { eq, and, desc, inArray, or, isNull, lte } from "drizzle-orm";
+import {
+  db,
+  tez,
+  tezContext,
+  tezRecipients,
+  tezRevisions,
+  tezBookmarks,
+  contacts,
+  conversations,
+} from "../db/index.js";
 import { authenticate } from "../middleware/auth.js";
-import { assertTeamMember, assertTezAccess } from "../services/acl.js";
+import { assertTeamMember, assertTeamActive, assertTezAccess, assertConversationMember, isTeamAdmin } from "../services/acl.js";
 import { recordAudit } from "../services/audit.js";
+import { publishTezEvent } from "../services/events.js";
+import { applyTezEdit } from "../services/revisions.js";
+import { tombstoneTez } from "../services/tombstones.js";
+import { resolveArtifactBlobs } from "../services/artifacts.js";
+import { isReactionEmoji, addReaction, removeReaction, reactionCounts } from "../services/reactions.js";
+import {
+  ACTION_STATUSES,
+  ACTION_AUDIT,
+  actionAssignees,
+  createActionItems,
+  respondToAction,
+  actionRollup,
+} from "../services/actions.js";
 import { config } from "../config.js";
-import { partitionRecipients, routeToFederation } from "../services/federationOutbound.js";
+import {
+  federatedPeersOf,
+  partitionRecipients,
+  remoteThreadParticipants,
+  routeToFederation,
+  routeReactionToFederation,
+} from "../services/federationOutbound.js";
 
 export const tezRoutes = Router();
 
+/**
+ * A local user's tezAddress, as remote relays see them.
+ */
+async function senderAddressOf(userId: string): Promise<string> {
+  const senderContact = await db.select().from(contacts).where(eq(contacts.id, userId)).limit(1);
+  return senderContact[0]?.tezAddress || `${userId}@${config.relayHost}`;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // POST /tez/share — Send a Tez
 // ─────────────────────────────────────────────────────────────────────────────
 
-const ShareSchema = z.object({
-  id: z.string().uuid().optional(),
-  teamId: z.string().uuid(),
-  surfaceText: z.string().min(1).max(10000),
-  type: z.enum(["note", "decision", "handoff", "question", "update"]).default("note"),
-  urgency: z.enum(["critical", "high", "normal", "low", "fyi"]).default("normal"),
-  actionRequested: z.string().max(500).optional(),
-  visibility: z.enum(["team", "dm", "private"]).default("team"),
-  recipients: z.array(z.string()).min(0).max(100).default([]),
-  context: z
-    .array(
-      z.object({
-        layer: z.enum(["background", "fact", "artifact", "relationship", "constraint", "hint"]),
-        content: z.string(),
-        mimeType: z.string().optional(),
-        confidence: z.number().min(0).max(100).optional(),
-        source: z.enum(["stated", "inferred", "verified"]).optional(),
-      })
-    )
-    .default([]),
-});
+const ShareSchema = z
+  .object({
+    id: z.string().uuid().optional(),
+    teamId: z.string().uuid(),
+    surfaceText: z.string().min(1).max(10000),
+    type: z.enum(["note", "decision", "handoff", "question", "update"]).default("note"),
+    urgency: z.enum(["critical", "high", "normal", "low", "fyi"]).default("normal"),
+    actionRequested: z.string().max(500).optional(),
+    actionDueAt: z.string().datetime().optional(),
+    visibility: z.enum(["team", "dm", "private"]).default("team"),
+    recipients: z.array(z.string()).min(0).max(100).default([]),
+    context: z
+      .array(
+        z.object({
+          layer: z.enum(["background", "fact", "artifact", "relationship", "constraint", "hint"]),
+          content: z.string(),
+          mimeType: z.string().optional(),
+          blobSha256: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+          confidence: z.number().min(0).max(100).optional(),
+          source: z.enum(["stated", "inferred", "verified"]).optional(),
+        })
+      )
+      .default([]),
+  })
+  .refine((body) => !body.actionDueAt || body.actionRequested, { message: "actionDueAt needs actionRequested" });
 
 tezRoutes.post("/share", authenticate, async (req, res) => {
   try {
@@ -54,6 +115,10 @@ tezRoutes.post("/share", authenticate, async (req, res) => {
 
     // ACL: sender must be team member
     await assertTeamMember(userId, body.teamId);
+    await assertTeamActive(body.teamId);
+
+    // Artifact context may reference blobs uploaded to this team
+    const blobTypes = await resolveArtifactBlobs(userId, body.teamId, body.context);
 
     const now = new Date().toISOString();
     const tezId = body.id || randomUUID();
@@ -83,7 +148,8 @@ tezRoutes.post("/share", authenticate, async (req, res) => {
         tezId,
         layer: ctx.layer,
         content: ctx.content,
-        mimeType: ctx.mimeType ?? null,
+        mimeType: ctx.mimeType ?? blobTypes.get(ctx.blobSha256 ?? "") ?? null,
+        blobSha256: ctx.blobSha256 ?? null,
         confidence: ctx.confidence ?? null,
         source: ctx.source ?? null,
         derivedFrom: null,
@@ -103,7 +169,13 @@ tezRoutes.post("/share", authenticate, async (req, res) => {
       });
     }
 
-    // 4. Audit
+    // 4. Open an action item for each local recipient asked to act
+    if (body.actionRequested) {
+      const assignees = await actionAssignees({ id: tezId, conversationId: null, senderUserId: userId });
+      await createActionItems(tezId, assignees, body.actionDueAt ?? null);
+    }
+
+    // 5. Audit
     await recordAudit({
       teamId: body.teamId,
       actorUserId: userId,
@@ -118,19 +190,22 @@ tezRoutes.post("/share", authenticate, async (req, res) => {
       },
     });
 
-    // 5. Federation: detect remote recipients and route
-    if (config.federationEnabled && body.recipients.length > 0) {
-      // Look up sender's tezAddress
-      const senderContact = await db
-        .select()
-        .from(contacts)
-        .where(eq(contacts.id, userId))
-        .limit(1);
-      const senderAddress = senderContact[0]?.tezAddress || `${userId}@${config.relayHost}`;
+    // 6. Notify live streams
+    await publishTezEvent({
+      type: "tez.shared",
+      tezId,
+      teamId: body.teamId,
+      threadId,
+      actorUserId: userId,
+    });
 
+    // 7. Federation: detect remote recipients and route
+    if (config.federationEnabled && body.recipients.length > 0) {
       const { remote } = partitionRecipients(body.recipients, config.relayHost);
 
       if (remote.size > 0) {
+        const senderAddress = await senderAddressOf(userId);
+
         // Fire-and-forget: don't block the response on federation
         routeToFederation({
           tezId,
@@ -169,6 +244,14 @@ tezRoutes.post("/share", authenticate, async (req, res) => {
       res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
       return;
     }
+    if ((err as NodeJS.ErrnoException).code === "UNKNOWN_BLOB") {
+      res.status(400).json({ error: { code: "UNKNOWN_BLOB", message: (err as Error).message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "TEAM_ARCHIVED") {
+      res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: (err as Error).message } });
+      return;
+    }
     console.error("Share error:", err);
     res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to share Tez" } });
   }
@@ -230,9 +313,10 @@ tezRoutes.get("/stream", authenticate, async (req, res) => {
     }
 
     const items = await query;
+    const reactions = await reactionCounts(items.map((item) => item.id), userId);
 
     res.json({
-      data: items,
+      data: items.map((item) => ({ ...item, reactions: reactions.get(item.id)! })),
       meta: { count: items.length, hasMore: items.length === limit },
     });
   } catch (err) {
@@ -258,6 +342,7 @@ const ReplySchema = z.object({
         layer: z.enum(["background", "fact", "artifact", "relationship", "constraint", "hint"]),
         content: z.string(),
         mimeType: z.string().optional(),
+        blobSha256: z.string().regex(/^[0-9a-f]{64}$/).optional(),
         confidence: z.number().min(0).max(100).optional(),
         source: z.enum(["stated", "inferred", "verified"]).optional(),
       })
@@ -285,8 +370,21 @@ tezRoutes.post("/:id/reply", authenticate, async (req, res) => {
 
     const parentTez = parent[0];
 
-    // ACL: verify access (team membership, conversation membership, or sender)
-    await assertTezAccess(userId, parentTez);
+    if (parentTez.status === "deleted") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+      return;
+    }
+
+    // ACL: replies in a DM or group stay inside it, so only current members
+    // may post them. Otherwise team membership, recipient, or sender.
+    if (parentTez.conversationId) {
+      await assertConversationMember(userId, parentTez.conversationId);
+    } else {
+      await assertTezAccess(userId, parentTez);
+    }
+    if (parentTez.teamId) await assertTeamActive(parentTez.teamId);
+
+    const blobTypes = await resolveArtifactBlobs(userId, parentTez.teamId, body.context);
 
     const now = new Date().toISOString();
     const replyId = randomUUID();
@@ -297,6 +395,7 @@ tezRoutes.post("/:id/reply", authenticate, async (req, res) => {
     await db.insert(tez).values({
       id: replyId,
       teamId: parentTez.teamId ?? null,
+      conversationId: parentTez.conversationId ?? null,
       threadId,
       parentTezId: parentId,
       surfaceText: body.surfaceText,
@@ -317,7 +416,8 @@ tezRoutes.post("/:id/reply", authenticate, async (req, res) => {
         tezId: replyId,
         layer: ctx.layer,
         content: ctx.content,
-        mimeType: ctx.mimeType ?? null,
+        mimeType: ctx.mimeType ?? blobTypes.get(ctx.blobSha256 ?? "") ?? null,
+        blobSha256: ctx.blobSha256 ?? null,
         confidence: ctx.confidence ?? null,
         source: ctx.source ?? null,
         derivedFrom: null,
@@ -326,20 +426,65 @@ tezRoutes.post("/:id/reply", authenticate, async (req, res) => {
       });
     }
 
+    if (parentTez.conversationId) {
+      await db
+        .update(conversations)
+        .set({ updatedAt: now })
+        .where(eq(conversations.id, parentTez.conversationId));
+    }
+
     await recordAudit({
       teamId: parentTez.teamId ?? undefined,
       actorUserId: userId,
       action: "tez.replied",
       targetType: "tez",
       targetId: replyId,
-      metadata: { parentTezId: parentId, threadId },
+      metadata: { parentTezId: parentId, threadId, conversationId: parentTez.conversationId ?? undefined },
     });
 
+    await publishTezEvent({
+      type: "tez.replied",
+      tezId: replyId,
+      teamId: parentTez.teamId ?? null,
+      conversationId: parentTez.conversationId ?? null,
+      threadId,
+      actorUserId: userId,
+    });
+
+    // Federated thread: deliver the reply back to the origin relay and any
+    // other remote participants
+    if (config.federationEnabled) {
+      const remote = await remoteThreadParticipants(threadId, config.relayHost);
+
+      if (remote.size > 0) {
+        const senderAddress = await senderAddressOf(userId);
+
+        // Fire-and-forget: don't block the response on federation
+        routeToFederation({
+          tezId: replyId,
+          tez: {
+            id: replyId,
+            threadId,
+            parentTezId: parentId,
+            surfaceText: body.surfaceText,
+            type: body.type,
+            urgency: "normal",
+            actionRequested: null,
+            visibility: parentTez.visibility,
+            createdAt: now,
+          },
+          senderAddress,
+          remoteRecipients: remote,
+        }).catch((err) => console.error("Federation routing error:", err));
+      }
+    }
+
     res.status(201).json({
       data: {
         id: replyId,
         threadId,
         parentTezId: parentId,
+        conversationId: parentTez.conversationId ?? null,
         surfaceText: body.surfaceText,
         createdAt: now,
       },
@@ -353,6 +498,14 @@ tezRoutes.post("/:id/reply", authenticate, async (req, res) => {
       res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
       return;
     }
+    if ((err as NodeJS.ErrnoException).code === "UNKNOWN_BLOB") {
+      res.status(400).json({ error: { code: "UNKNOWN_BLOB", message: (err as Error).message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "TEAM_ARCHIVED") {
+      res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: (err as Error).message } });
+      return;
+    }
     console.error("Reply error:", err);
     res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to reply" } });
   }
@@ -368,7 +521,7 @@ tezRoutes.get("/:id", authenticate, async (req, res) => {
     const userId = req.user!.userId;
 
     const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
-    if (rows.length === 0) {
+    if (rows.length === 0 || rows[0].status === "deleted") {
       res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
       return;
     }
@@ -378,6 +531,9 @@ tezRoutes.get("/:id", authenticate, async (req, res) => {
     // ACL: verify access (team membership, conversation membership, or sender)
     await assertTezAccess(userId, theTez);
 
+    // Stamp the caller's read receipt (no-op if not a recipient or already read)
+    const markedIds = await markRead(userId, [tezId]);
+
     // Fetch all context layers
     const contextItems = await db
       .select()
@@ -390,20 +546,19 @@ tezRoutes.get("/:id", authenticate, async (req, res) => {
       .from(tezRecipients)
       .where(eq(tezRecipients.tezId, tezId));
 
-    // Record the read
-    await recordAudit({
-      teamId: theTez.teamId ?? undefined,
-      actorUserId: userId,
-      action: "tez.read",
-      targetType: "tez",
-      targetId: tezId,
-    });
+    // Only a first read is recorded: not the sender's views, nor repeats
+    if (markedIds.length > 0) {
+      await recordReads(userId, [theTez], {});
+    }
+
+    const reactions = await reactionCounts([tezId], userId);
 
     res.json({
       data: {
         ...theTez,
         context: contextItems,
         recipients,
+        reactions: reactions.get(tezId)!,
       },
     });
   } catch (err) {
@@ -437,11 +592,12 @@ tezRoutes.get("/:id/thread", authenticate, async (req, res) => {
     // ACL: verify access (team membership, conversation membership, or sender)
     await assertTezAccess(userId, root[0]);
 
-    // Get all tezits in this thread, chronological
+    // Get all tezits in this thread, chronological. Archived messages stay
+    // in place; deleted ones appear as tombstones so replies keep their parent.
     const thread = await db
       .select()
       .from(tez)
-      .where(and(eq(tez.threadId, threadId), eq(tez.status, "active")))
+      .where(eq(tez.threadId, threadId))
       .orderBy(tez.createdAt);
 
     res.json({
@@ -461,3 +617,978 @@ tezRoutes.get("/:id/thread", authenticate, async (req, res) => {
     res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to get thread" } });
   }
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PATCH /tez/:id — Edit a Tez (sender only)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const EditSchema = z
+  .object({
+    surfaceText: z.string().min(1).max(10000).optional(),
+    actionRequested: z.string().max(500).nullable().optional(),
+    actionDueAt: z.string().datetime().optional(),
+    urgency: z.enum(["critical", "high", "normal", "low", "fyi"]).optional(),
+    context: z
+      .array(
+        z.object({
+          layer: z.enum(["background", "fact", "artifact", "relationship", "constraint", "hint"]),
+          content: z.string(),
+          mimeType: z.string().optional(),
+          blobSha256: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+          confidence: z.number().min(0).max(100).optional(),
+          source: z.enum(["stated", "inferred", "verified"]).optional(),
+        })
+      )
+      .optional(),
+    // Optimistic concurrency: reject if the Tez moved on since the client read it
+    expectedRevision: z.number().int().min(1).optional(),
+  })
+  .refine(
+    (body) =>
+      body.surfaceText !== undefined ||
+      body.actionRequested !== undefined ||
+      body.urgency !== undefined ||
+      body.context !== undefined,
+    { message: "Nothing to edit" }
+  )
+  .refine((body) => !body.actionDueAt || body.actionRequested, { message: "actionDueAt needs actionRequested" });
+
+tezRoutes.patch("/:id", authenticate, async (req, res) => {
+  try {
+    const tezId = req.params.id;
+    const body = EditSchema.parse(req.body);
+    const userId = req.user!.userId;
+
+    const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+    if (rows.length === 0 || rows[0].status === "deleted") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+      return;
+    }
+
+    const theTez = rows[0];
+    if (theTez.senderUserId !== userId) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only the sender can edit this Tez" } });
+      return;
+    }
+    if (theTez.teamId) await assertTeamActive(theTez.teamId);
+
+    if (body.expectedRevision !== undefined && body.expectedRevision !== theTez.revision) {
+      res.status(409).json({
+        error: { code: "CONFLICT", message: `Tez is at revision ${theTez.revision}, not ${body.expectedRevision}` },
+      });
+      return;
+    }
+
+    let changes = body;
+    if (body.context) {
+      const blobTypes = await resolveArtifactBlobs(userId, theTez.teamId, body.context);
+      changes = {
+        ...body,
+        context: body.context.map((ctx) => ({
+          ...ctx,
+          mimeType: ctx.mimeType ?? blobTypes.get(ctx.blobSha256 ?? ""),
+        })),
+      };
+    }
+
+    const { revision, fields } = await applyTezEdit({ current: theTez, changes, editedBy: userId });
+
+    // Asking for an action after the fact opens items for whoever has none yet
+    if (body.actionRequested) {
+      await createActionItems(tezId, await actionAssignees(theTez), body.actionDueAt ?? null);
+    }
+
+    await recordAudit({
+      teamId: theTez.teamId ?? undefined,
+      actorUserId: userId,
+      action: "tez.edited",
+      targetType: "tez",
+      targetId: tezId,
+      metadata: { revision, fields },
+    });
+
+    await publishTezEvent({
+      type: "tez.edited",
+      tezId,
+      teamId: theTez.teamId,
+      conversationId: theTez.conversationId,
+      threadId: theTez.threadId,
+      actorUserId: userId,
+    });
+
+    const [updated] = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+    const context = await db.select().from(tezContext).where(eq(tezContext.tezId, tezId));
+
+    // Federated peers that received this Tez get the amendment too
+    if (config.federationEnabled) {
+      const peers = await federatedPeersOf(tezId);
+
+      if (peers.size > 0) {
+        const senderAddress = await senderAddressOf(userId);
+
+        // Fire-and-forget: don't block the response on federation
+        routeToFederation({
+          tezId,
+          tez: {
+            id: tezId,
+            threadId: updated.threadId,
+            parentTezId: updated.parentTezId,
+            surfaceText: updated.surfaceText,
+            type: updated.type,
+            urgency: updated.urgency,
+            actionRequested: updated.actionRequested,
+            visibility: updated.visibility,
+            createdAt: updated.createdAt,
+          },
+          senderAddress,
+          remoteRecipients: peers,
+          bundleType: "federation_amendment",
+        }).catch((err) => console.error("Federation routing error:", err));
+      }
+    }
+
+    res.json({ data: { ...updated, context, editedFields: fields } });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "CONFLICT") {
+      res.status(409).json({ error: { code: "CONFLICT", message: (err as Error).message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "UNKNOWN_BLOB") {
+      res.status(400).json({ error: { code: "UNKNOWN_BLOB", message: (err as Error).message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "TEAM_ARCHIVED") {
+      res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: (err as Error).message } });
+      return;
+    }
+    console.error("Edit tez error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to edit Tez" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /tez/:id/revisions — Prior versions of an edited Tez
+// ─────────────────────────────────────────────────────────────────────────────
+
+tezRoutes.get("/:id/revisions", authenticate, async (req, res) => {
+  try {
+    const tezId = req.params.id;
+    const userId = req.user!.userId;
+
+    const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+    if (rows.length === 0 || rows[0].status === "deleted") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+      return;
+    }
+
+    await assertTezAccess(userId, rows[0]);
+
+    const revisions = await db
+      .select()
+      .from(tezRevisions)
+      .where(eq(tezRevisions.tezId, tezId))
+      .orderBy(tezRevisions.revision);
+
+    res.json({
+      data: revisions,
+      meta: { count: revisions.length, currentRevision: rows[0].revision },
+    });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    console.error("List revisions error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list revisions" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lifecycle helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Sender can always manage their own Tez; team admins can manage any Tez
+ * in their team.
+ */
+async function canManageTez(
+  userId: string,
+  theTez: { senderUserId: string; teamId: string | null }
+): Promise<boolean> {
+  if (theTez.senderUserId === userId) return true;
+  if (theTez.teamId && (await isTeamAdmin(userId, theTez.teamId))) return true;
+  return false;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /tez/:id/acknowledge — Acknowledge receipt
+// ─────────────────────────────────────────────────────────────────────────────
+
+tezRoutes.post("/:id/acknowledge", authenticate, async (req, res) => {
+  try {
+    const tezId = req.params.id;
+    const userId = req.user!.userId;
+
+    const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+    if (rows.length === 0 || rows[0].status === "deleted") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+      return;
+    }
+
+    const theTez = rows[0];
+    await assertTezAccess(userId, theTez);
+    if (theTez.teamId) await assertTeamActive(theTez.teamId);
+
+    const recipientRows = await db
+      .select()
+      .from(tezRecipients)
+      .where(and(eq(tezRecipients.tezId, tezId), eq(tezRecipients.userId, userId)))
+      .limit(1);
+
+    if (recipientRows.length === 0) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only recipients can acknowledge a Tez" } });
+      return;
+    }
+
+    const recipient = recipientRows[0];
+
+    // Idempotent: the first acknowledgement wins
+    if (recipient.acknowledgedAt) {
+      res.json({ data: { tezId, acknowledgedAt: recipient.acknowledgedAt } });
+      return;
+    }
+
+    const now = new Date().toISOString();
+
+    // Acknowledging implies having read it
+    await db
+      .update(tezRecipients)
+      .set({ acknowledgedAt: now, readAt: recipient.readAt ?? now })
+      .where(and(eq(tezRecipients.tezId, tezId), eq(tezRecipients.userId, userId)));
+
+    await recordAudit({
+      teamId: theTez.teamId ?? undefined,
+      actorUserId: userId,
+      action: "tez.acknowledged",
+      targetType: "tez",
+      targetId: tezId,
+    });
+
+    await publishTezEvent({
+      type: "tez.acknowledged",
+      tezId,
+      teamId: theTez.teamId,
+      conversationId: theTez.conversationId,
+      threadId: theTez.threadId,
+      actorUserId: userId,
+    });
+
+    res.json({ data: { tezId, acknowledgedAt: now } });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "TEAM_ARCHIVED") {
+      res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: (err as Error).message } });
+      return;
+    }
+    console.error("Acknowledge error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to acknowledge Tez" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /tez/:id/archive, POST /tez/:id/unarchive — Archive state
+// ─────────────────────────────────────────────────────────────────────────────
+
+function archiveStateHandler(path: "archive" | "unarchive"): RequestHandler {
+  const [from, to] = path === "archive" ? ["active", "archived"] : ["archived", "active"];
+
+  return async (req, res) => {
+    try {
+      const tezId = req.params.id;
+      const userId = req.user!.userId;
+
+      const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+      if (rows.length === 0 || rows[0].status === "deleted") {
+        res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+        return;
+      }
+
+      const theTez = rows[0];
+      await assertTezAccess(userId, theTez);
+      if (theTez.teamId) await assertTeamActive(theTez.teamId);
+
+      if (!(await canManageTez(userId, theTez))) {
+        res.status(403).json({
+          error: { code: "FORBIDDEN", message: `Only the sender or a team admin can ${path} this Tez` },
+        });
+        return;
+      }
+
+      if (theTez.status !== from) {
+        res.status(409).json({
+          error: { code: "INVALID_STATE", message: `Tez is ${theTez.status}, expected ${from}` },
+        });
+        return;
+      }
+
+      const now = new Date().toISOString();
+      await db.update(tez).set({ status: to, updatedAt: now }).where(eq(tez.id, tezId));
+
+      await recordAudit({
+        teamId: theTez.teamId ?? undefined,
+        actorUserId: userId,
+        action: to === "archived" ? "tez.archived" : "tez.unarchived",
+        targetType: "tez",
+        targetId: tezId,
+        metadata: { asSender: theTez.senderUserId === userId },
+      });
+
+      res.json({ data: { id: tezId, status: to, updatedAt: now } });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+        res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+        return;
+      }
+      if ((err as NodeJS.ErrnoException).code === "TEAM_ARCHIVED") {
+        res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: (err as Error).message } });
+        return;
+      }
+      console.error(`${path} error:`, err);
+      res.status(500).json({ error: { code: "INTERNAL_ERROR", message: `Failed to ${path} Tez` } });
+    }
+  };
+}
+
+tezRoutes.post("/:id/archive", authenticate, archiveStateHandler("archive"));
+tezRoutes.post("/:id/unarchive", authenticate, archiveStateHandler("unarchive"));
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DELETE /tez/:id — Delete a Tez
+// ─────────────────────────────────────────────────────────────────────────────
+
+tezRoutes.delete("/:id", authenticate, async (req, res) => {
+  try {
+    const tezId = req.params.id;
+    const userId = req.user!.userId;
+
+    const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+    if (rows.length === 0 || rows[0].status === "deleted") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+      return;
+    }
+
+    const theTez = rows[0];
+    await assertTezAccess(userId, theTez);
+    if (theTez.teamId) await assertTeamActive(theTez.teamId);
+
+    if (!(await canManageTez(userId, theTez))) {
+      res.status(403).json({
+        error: { code: "FORBIDDEN", message: "Only the sender or a team admin can delete this Tez" },
+      });
+      return;
+    }
+
+    const replies = await db
+      .select({ id: tez.id })
+      .from(tez)
+      .where(eq(tez.parentTezId, tezId));
+
+    await tombstoneTez(tezId);
+
+    await recordAudit({
+      teamId: theTez.teamId ?? undefined,
+      actorUserId: userId,
+      action: "tez.deleted",
+      targetType: "tez",
+      targetId: tezId,
+      metadata: {
+        asSender: theTez.senderUserId === userId,
+        threadId: theTez.threadId,
+        replyCount: replies.length,
+      },
+    });
+
+    res.json({ data: { id: tezId, status: "deleted", replyCount: replies.length } });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "TEAM_ARCHIVED") {
+      res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: (err as Error).message } });
+      return;
+    }
+    console.error("Delete tez error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to delete Tez" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reactions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Apply a reaction change for the caller: ACL-checked, audited, announced
+ * to live streams, and sent to the origin relay if the Tez is federated.
+ * Returns the status code and body to send.
+ */
+async function changeReaction(
+  userId: string,
+  tezId: string,
+  emoji: string,
+  action: "add" | "remove"
+): Promise<{ status: number; body: unknown }> {
+  if (!isReactionEmoji(emoji)) {
+    return { status: 400, body: { error: { code: "VALIDATION_ERROR", message: "Reaction must be a single emoji" } } };
+  }
+
+  const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+  if (rows.length === 0 || rows[0].status === "deleted") {
+    return { status: 404, body: { error: { code: "NOT_FOUND", message: "Tez not found" } } };
+  }
+
+  const theTez = rows[0];
+  await assertTezAccess(userId, theTez);
+  if (theTez.teamId) await assertTeamActive(theTez.teamId);
+
+  const changed =
+    action === "add" ? await addReaction(tezId, userId, emoji) : await removeReaction(tezId, userId, emoji);
+
+  if (!changed && action === "remove") {
+    return { status: 404, body: { error: { code: "NOT_FOUND", message: "No such reaction" } } };
+  }
+
+  if (changed) {
+    await recordAudit({
+      teamId: theTez.teamId ?? undefined,
+      actorUserId: userId,
+      action: action === "add" ? "tez.reaction_added" : "tez.reaction_removed",
+      targetType: "tez",
+      targetId: tezId,
+      metadata: { emoji },
+    });
+
+    await publishTezEvent({
+      type: "tez.reacted",
+      tezId,
+      teamId: theTez.teamId,
+      conversationId: theTez.conversationId,
+      threadId: theTez.threadId,
+      actorUserId: userId,
+    });
+
+    // Fire-and-forget: the origin relay of a federated Tez learns of it too
+    if (config.federationEnabled) {
+      routeReactionToFederation({
+        tezId,
+        reactorAddress: await senderAddressOf(userId),
+        reaction: { emoji, action },
+      }).catch((err) => console.error("Federation routing error:", err));
+    }
+  }
+
+  const reactions = await reactionCounts([tezId], userId);
+  return {
+    status: action === "add" && changed ? 201 : 200,
+    body: { data: { tezId, emoji, reactions: reactions.get(tezId)! } },
+  };
+}
+
+function sendReactionError(err: unknown, res: Response): void {
+  if (err instanceof z.ZodError) {
+    res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+    return;
+  }
+  if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+    res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+    return;
+  }
+  if ((err as NodeJS.ErrnoException).code === "TEAM_ARCHIVED") {
+    res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: (err as Error).message } });
+    return;
+  }
+  console.error("Reaction error:", err);
+  res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to update reaction" } });
+}
+
+// POST /tez/:id/reactions — React with an emoji
+const ReactionSchema = z.object({
+  emoji: z.string().min(1),
+});
+
+tezRoutes.post("/:id/reactions", authenticate, async (req, res) => {
+  try {
+    const body = ReactionSchema.parse(req.body);
+    const result = await changeReaction(req.user!.userId, req.params.id, body.emoji, "add");
+    res.status(result.status).json(result.body);
+  } catch (err) {
+    sendReactionError(err, res);
+  }
+});
+
+// DELETE /tez/:id/reactions/:emoji — Remove my reaction (emoji URL-encoded)
+tezRoutes.delete("/:id/reactions/:emoji", authenticate, async (req, res) => {
+  try {
+    const result = await changeReaction(req.user!.userId, req.params.id, req.params.emoji, "remove");
+    res.status(result.status).json(result.body);
+  } catch (err) {
+    sendReactionError(err, res);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Bookmarks — private to their owner, so not audited (listed at GET /me/bookmarks)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BookmarkSchema = z.object({
+  note: z.string().max(1000).nullable().optional(),
+});
+
+// POST /tez/:id/bookmark — Bookmark a Tez (again: update the note)
+tezRoutes.post("/:id/bookmark", authenticate, async (req, res) => {
+  try {
+    const tezId = req.params.id;
+    const userId = req.user!.userId;
+    const body = BookmarkSchema.parse(req.body ?? {});
+
+    const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+    if (rows.length === 0 || rows[0].status === "deleted") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+      return;
+    }
+
+    await assertTezAccess(userId, rows[0]);
+    if (rows[0].teamId) await assertTeamActive(rows[0].teamId);
+
+    const now = new Date().toISOString();
+    const existing = await db
+      .select()
+      .from(tezBookmarks)
+      .where(and(eq(tezBookmarks.userId, userId), eq(tezBookmarks.tezId, tezId)))
+      .limit(1);
+
+    const [bookmark] = await db
+      .insert(tezBookmarks)
+      .values({ userId, tezId, note: body.note ?? null, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [tezBookmarks.userId, tezBookmarks.tezId],
+        // Re-bookmarking without a note keeps the existing one
+        set: body.note !== undefined ? { note: body.note, updatedAt: now } : { updatedAt: now },
+      })
+      .returning();
+
+    res.status(existing.length === 0 ? 201 : 200).json({ data: bookmark });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "TEAM_ARCHIVED") {
+      res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: (err as Error).message } });
+      return;
+    }
+    console.error("Bookmark error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to bookmark Tez" } });
+  }
+});
+
+// DELETE /tez/:id/bookmark — Remove my bookmark
+tezRoutes.delete("/:id/bookmark", authenticate, async (req, res) => {
+  try {
+    const [target] = await db.select({ teamId: tez.teamId }).from(tez).where(eq(tez.id, req.params.id)).limit(1);
+    if (target?.teamId) await assertTeamActive(target.teamId);
+
+    const removed = await db
+      .delete(tezBookmarks)
+      .where(and(eq(tezBookmarks.userId, req.user!.userId), eq(tezBookmarks.tezId, req.params.id)))
+      .returning();
+
+    if (removed.length === 0) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Not bookmarked" } });
+      return;
+    }
+
+    res.json({ data: { removed: true } });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "TEAM_ARCHIVED") {
+      res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: (err as Error).message } });
+      return;
+    }
+    console.error("Remove bookmark error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to remove bookmark" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Action items — open ones are listed at GET /me/actions
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ActionResponseSchema = z.object({
+  status: z.enum(ACTION_STATUSES),
+  note: z.string().max(1000).nullable().optional(),
+});
+
+// POST /tez/:id/action — Respond to the action requested of me
+tezRoutes.post("/:id/action", authenticate, async (req, res) => {
+  try {
+    const tezId = req.params.id;
+    const userId = req.user!.userId;
+    const body = ActionResponseSchema.parse(req.body);
+
+    const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+    if (rows.length === 0 || rows[0].status === "deleted") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+      return;
+    }
+
+    const theTez = rows[0];
+    await assertTezAccess(userId, theTez);
+    if (theTez.teamId) await assertTeamActive(theTez.teamId);
+
+    const result = await respondToAction(tezId, userId, body.status, body.note ?? undefined);
+    if (!result) {
+      res.status(404).json({ error: { code: "NO_ACTION", message: "No action was requested of you on this Tez" } });
+      return;
+    }
+
+    const { previous, updated } = result;
+
+    // Only status changes are audited; a new note alone is not
+    if (previous.status !== updated.status) {
+      await recordAudit({
+        teamId: theTez.teamId ?? undefined,
+        actorUserId: userId,
+        action: ACTION_AUDIT[body.status],
+        targetType: "tez",
+        targetId: tezId,
+        metadata: { from: previous.status, to: updated.status, conversationId: theTez.conversationId },
+      });
+
+      await publishTezEvent({
+        type: "tez.action_updated",
+        tezId,
+        teamId: theTez.teamId,
+        conversationId: theTez.conversationId,
+        threadId: theTez.threadId,
+        actorUserId: userId,
+      });
+    }
+
+    res.json({ data: updated });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "TEAM_ARCHIVED") {
+      res.status(409).json({ error: { code: "TEAM_ARCHIVED", message: (err as Error).message } });
+      return;
+    }
+    console.error("Action response error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to update action" } });
+  }
+});
+
+// GET /tez/:id/actions — Rollup of every assignee's response (sender only)
+tezRoutes.get("/:id/actions", authenticate, async (req, res) => {
+  try {
+    const tezId = req.params.id;
+
+    const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+    if (rows.length === 0 || rows[0].status === "deleted") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+      return;
+    }
+
+    if (rows[0].senderUserId !== req.user!.userId) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only the sender can view action progress" } });
+      return;
+    }
+
+    const { counts, items } = await actionRollup(tezId);
+
+    res.json({
+      data: {
+        tezId,
+        actionRequested: rows[0].actionRequested,
+        assignees: items.map((item) => ({
+          userId: item.userId,
+          status: item.status,
+          dueAt: item.dueAt,
+          note: item.note,
+          updatedAt: item.updatedAt,
+          completedAt: item.completedAt,
+        })),
+        summary: counts,
+      },
+    });
+  } catch (err) {
+    console.error("Action rollup error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to get action progress" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Read receipts
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Stamp readAt on the user's recipient rows for the given Tez ids.
+ * Rows already read are left untouched. Returns the ids actually marked.
+ */
+async function markRead(userId: string, tezIds: string[]): Promise<string[]> {
+  if (tezIds.length === 0) return [];
+
+  const marked = await db
+    .update(tezRecipients)
+    .set({ readAt: new Date().toISOString() })
+    .where(
+      and(
+        eq(tezRecipients.userId, userId),
+        inArray(tezRecipients.tezId, tezIds),
+        isNull(tezRecipients.readAt)
+      )
+    )
+    .returning({ tezId: tezRecipients.tezId });
+
+  return marked.map((r) => r.tezId);
+}
+
+/**
+ * Audit + notify a batch of reads. Team Tez are audited once per team
+ * rather than once per Tez, keeping the log proportional to user actions.
+ */
+async function recordReads(
+  userId: string,
+  rows: Array<{ id: string; teamId: string | null; conversationId: string | null; threadId: string | null }>,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  const byTeam = new Map<string, string[]>();
+  for (const row of rows) {
+    if (row.teamId) {
+      byTeam.set(row.teamId, [...(byTeam.get(row.teamId) ?? []), row.id]);
+    } else {
+      await recordAudit({ actorUserId: userId, action: "tez.read", targetType: "tez", targetId: row.id, metadata });
+    }
+  }
+
+  for (const [teamId, tezIds] of byTeam) {
+    await recordAudit({
+      teamId,
+      actorUserId: userId,
+      action: "tez.read",
+      targetType: "team",
+      targetId: teamId,
+      metadata: { ...metadata, tezIds },
+    });
+  }
+
+  for (const row of rows) {
+    await publishTezEvent({
+      type: "tez.read",
+      tezId: row.id,
+      teamId: row.teamId,
+      conversationId: row.conversationId,
+      threadId: row.threadId,
+      actorUserId: userId,
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /tez/read — Bulk mark read
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BulkReadSchema = z.union([
+  z.object({ tezIds: z.array(z.string()).min(1).max(500) }),
+  z.object({ teamId: z.string().uuid(), before: z.string().datetime() }),
+]);
+
+tezRoutes.post("/read", authenticate, async (req, res) => {
+  try {
+    const body = BulkReadSchema.parse(req.body);
+    const userId = req.user!.userId;
+
+    let candidateIds: string[];
+    if ("tezIds" in body) {
+      candidateIds = body.tezIds;
+    } else {
+      await assertTeamMember(userId, body.teamId);
+
+      const teamTez = await db
+        .select({ id: tez.id })
+        .from(tez)
+        .innerJoin(tezRecipients, eq(tezRecipients.tezId, tez.id))
+        .where(
+          and(
+            eq(tez.teamId, body.teamId),
+            lte(tez.createdAt, body.before),
+            eq(tezRecipients.userId, userId),
+            isNull(tezRecipients.readAt)
+          )
+        );
+      candidateIds = teamTez.map((t) => t.id);
+    }
+
+    // Only the caller's own recipient rows are touched, so no further ACL
+    // is needed: a recipient row is itself an access path.
+    const markedIds = await markRead(userId, candidateIds);
+
+    if (markedIds.length > 0) {
+      const rows = await db
+        .select({ id: tez.id, teamId: tez.teamId, conversationId: tez.conversationId, threadId: tez.threadId })
+        .from(tez)
+        .where(inArray(tez.id, markedIds));
+
+      await recordReads(userId, rows, "before" in body ? { before: body.before } : {});
+    }
+
+    res.json({ data: { marked: markedIds.length, tezIds: markedIds } });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    console.error("Bulk read error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to mark Tez read" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /tez/:id/read — Mark one Tez read
+// ─────────────────────────────────────────────────────────────────────────────
+
+tezRoutes.post("/:id/read", authenticate, async (req, res) => {
+  try {
+    const tezId = req.params.id;
+    const userId = req.user!.userId;
+
+    const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+    if (rows.length === 0 || rows[0].status === "deleted") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+      return;
+    }
+
+    const theTez = rows[0];
+    await assertTezAccess(userId, theTez);
+
+    const recipientRows = await db
+      .select()
+      .from(tezRecipients)
+      .where(and(eq(tezRecipients.tezId, tezId), eq(tezRecipients.userId, userId)))
+      .limit(1);
+
+    if (recipientRows.length === 0) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only recipients can mark a Tez read" } });
+      return;
+    }
+
+    // Idempotent: keep the first read timestamp
+    if (recipientRows[0].readAt) {
+      res.json({ data: { tezId, readAt: recipientRows[0].readAt } });
+      return;
+    }
+
+    await markRead(userId, [tezId]);
+
+    await recordAudit({
+      teamId: theTez.teamId ?? undefined,
+      actorUserId: userId,
+      action: "tez.read",
+      targetType: "tez",
+      targetId: tezId,
+    });
+
+    await publishTezEvent({
+      type: "tez.read",
+      tezId,
+      teamId: theTez.teamId,
+      conversationId: theTez.conversationId,
+      threadId: theTez.threadId,
+      actorUserId: userId,
+    });
+
+    const updated = await db
+      .select({ readAt: tezRecipients.readAt })
+      .from(tezRecipients)
+      .where(and(eq(tezRecipients.tezId, tezId), eq(tezRecipients.userId, userId)))
+      .limit(1);
+
+    res.json({ data: { tezId, readAt: updated[0].readAt } });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: (err as Error).message } });
+      return;
+    }
+    console.error("Mark read error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to mark Tez read" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /tez/:id/receipts — Per-recipient delivery state (sender only)
+// ─────────────────────────────────────────────────────────────────────────────
+
+tezRoutes.get("/:id/receipts", authenticate, async (req, res) => {
+  try {
+    const tezId = req.params.id;
+    const userId = req.user!.userId;
+
+    const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+    if (rows.length === 0 || rows[0].status === "deleted") {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Tez not found" } });
+      return;
+    }
+
+    if (rows[0].senderUserId !== userId) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only the sender can view receipts" } });
+      return;
+    }
+
+    const recipients = await db
+      .select()
+      .from(tezRecipients)
+      .where(eq(tezRecipients.tezId, tezId));
+
+    res.json({
+      data: {
+        tezId,
+        recipients: recipients.map((r) => ({
+          userId: r.userId,
+          state: r.acknowledgedAt ? "acknowledged" : r.readAt ? "read" : r.deliveredAt ? "delivered" : "pending",
+          deliveredAt: r.deliveredAt,
+          readAt: r.readAt,
+          acknowledgedAt: r.acknowledgedAt,
+        })),
+        summary: {
+          total: recipients.length,
+          delivered: recipients.filter((r) => r.deliveredAt).length,
+          read: recipients.filter((r) => r.readAt).length,
+          acknowledged: recipients.filter((r) => r.acknowledgedAt).length,
+        },
+      },
+    });
+  } catch (err) {
+    console.error("Receipts error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to get receipts" } });
+  }
+});
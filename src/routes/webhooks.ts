@@ -0,0 +1,362 @@
+/**
+ * Webhook routes — team admins manage outbound webhook subscriptions.
+ *
+ * GET    /teams/:id/webhooks                 — List subscriptions
+ * POST   /teams/:id/webhooks                 — Create (secret returned once)
+ * PATCH  /teams/:id/webhooks/:webhookId      — Update URL, events, filter, active; rotate secret
+ * DELETE /teams/:id/webhooks/:webhookId      — Delete with its delivery log
+ * GET    /teams/:id/webhooks/:webhookId/deliveries — Delivery log, newest first
+ * POST   /teams/:id/webhooks/:webhookId/test — Send a "webhook.test" event now
+ *
+ * Event types are AuditAction values (or "*"). See services/webhooks.ts
+ * for payload and signature format.
+ */
+
+import { Router } from "express";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { eq, and, desc, lt } from "drizzle-orm";
+import { db, webhooks, webhookDeliveries } from "../db/index.js";
+import { authenticate } from "../middleware/auth.js";
+import { isTeamAdmin } from "../services/acl.js";
+import { recordAudit, AUDIT_ACTIONS } from "../services/audit.js";
+import { generateWebhookSecret, sendTestEvent, checkWebhookUrl } from "../services/webhooks.js";
+
+export const webhookRoutes = Router({ mergeParams: true });
+
+const MAX_WEBHOOKS_PER_TEAM = 20;
+
+const UrlSchema = z
+  .string()
+  .url()
+  .max(2000)
+  .refine((url) => /^https?:\/\//i.test(url), { message: "Webhook URL must be http(s)" });
+
+const EventsSchema = z.array(z.enum(["*", ...AUDIT_ACTIONS])).min(1);
+
+const FilterSchema = z
+  .object({
+    urgency: z.array(z.enum(["critical", "high", "normal", "low", "fyi"])).optional(),
+    type: z.array(z.enum(["note", "decision", "handoff", "question", "update"])).optional(),
+  })
+  .nullable();
+
+type Webhook = typeof webhooks.$inferSelect;
+
+/**
+ * A webhook as returned by the API: the secret is only ever shown on
+ * create and rotate.
+ */
+function present(hook: Webhook) {
+  const { secret, active, ...rest } = hook;
+  return { ...rest, active: active === 1, secretHint: `…${secret.slice(-4)}` };
+}
+
+async function findWebhook(teamId: string, webhookId: string): Promise<Webhook | null> {
+  const rows = await db
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.id, webhookId), eq(webhooks.teamId, teamId)))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /teams/:id/webhooks — List subscriptions (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+webhookRoutes.get("/", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    if (!(await isTeamAdmin(req.user!.userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage webhooks" } });
+      return;
+    }
+
+    const rows = await db.select().from(webhooks).where(eq(webhooks.teamId, teamId)).orderBy(webhooks.createdAt);
+
+    res.json({ data: rows.map(present), meta: { count: rows.length } });
+  } catch (err) {
+    console.error("List webhooks error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list webhooks" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /teams/:id/webhooks — Create a subscription (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CreateWebhookSchema = z.object({
+  url: UrlSchema,
+  secret: z.string().min(16).max(200).optional(),
+  events: EventsSchema,
+  filter: FilterSchema.optional(),
+  active: z.boolean().default(true),
+});
+
+webhookRoutes.post("/", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const userId = req.user!.userId;
+    const body = CreateWebhookSchema.parse(req.body);
+
+    if (!(await isTeamAdmin(userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage webhooks" } });
+      return;
+    }
+
+    const refused = await checkWebhookUrl(body.url);
+    if (refused) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: refused } });
+      return;
+    }
+
+    const existing = await db.select({ id: webhooks.id }).from(webhooks).where(eq(webhooks.teamId, teamId));
+    if (existing.length >= MAX_WEBHOOKS_PER_TEAM) {
+      res.status(409).json({
+        error: { code: "LIMIT_REACHED", message: `Teams can have at most ${MAX_WEBHOOKS_PER_TEAM} webhooks` },
+      });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const [hook] = await db
+      .insert(webhooks)
+      .values({
+        id: randomUUID(),
+        teamId,
+        url: body.url,
+        secret: body.secret ?? generateWebhookSecret(),
+        events: body.events,
+        filter: body.filter ?? null,
+        active: body.active ? 1 : 0,
+        createdBy: userId,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    await recordAudit({
+      teamId,
+      actorUserId: userId,
+      action: "webhook.created",
+      targetType: "webhook",
+      targetId: hook.id,
+      metadata: { url: hook.url, events: hook.events },
+    });
+
+    res.status(201).json({ data: { ...present(hook), secret: hook.secret } });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Create webhook error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to create webhook" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PATCH /teams/:id/webhooks/:webhookId — Update a subscription (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const UpdateWebhookSchema = z
+  .object({
+    url: UrlSchema.optional(),
+    events: EventsSchema.optional(),
+    filter: FilterSchema.optional(),
+    active: z.boolean().optional(),
+    rotateSecret: z.boolean().optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), { message: "Nothing to update" });
+
+webhookRoutes.patch("/:webhookId", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const userId = req.user!.userId;
+    const body = UpdateWebhookSchema.parse(req.body);
+
+    if (!(await isTeamAdmin(userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage webhooks" } });
+      return;
+    }
+
+    const hook = await findWebhook(teamId, req.params.webhookId);
+    if (!hook) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Webhook not found" } });
+      return;
+    }
+
+    const refused = body.url ? await checkWebhookUrl(body.url) : null;
+    if (refused) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: refused } });
+      return;
+    }
+
+    const [updated] = await db
+      .update(webhooks)
+      .set({
+        url: body.url ?? hook.url,
+        events: body.events ?? hook.events,
+        filter: body.filter !== undefined ? body.filter : hook.filter,
+        active: body.active !== undefined ? (body.active ? 1 : 0) : hook.active,
+        secret: body.rotateSecret ? generateWebhookSecret() : hook.secret,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(webhooks.id, hook.id))
+      .returning();
+
+    await recordAudit({
+      teamId,
+      actorUserId: userId,
+      action: "webhook.updated",
+      targetType: "webhook",
+      targetId: hook.id,
+      metadata: { fields: Object.keys(body).filter((key) => body[key as keyof typeof body] !== undefined) },
+    });
+
+    res.json({ data: body.rotateSecret ? { ...present(updated), secret: updated.secret } : present(updated) });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("Update webhook error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to update webhook" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DELETE /teams/:id/webhooks/:webhookId — Delete a subscription (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+webhookRoutes.delete("/:webhookId", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const userId = req.user!.userId;
+
+    if (!(await isTeamAdmin(userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage webhooks" } });
+      return;
+    }
+
+    const hook = await findWebhook(teamId, req.params.webhookId);
+    if (!hook) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Webhook not found" } });
+      return;
+    }
+
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, hook.id));
+    await db.delete(webhooks).where(eq(webhooks.id, hook.id));
+
+    await recordAudit({
+      teamId,
+      actorUserId: userId,
+      action: "webhook.deleted",
+      targetType: "webhook",
+      targetId: hook.id,
+      metadata: { url: hook.url },
+    });
+
+    res.json({ data: { deleted: true } });
+  } catch (err) {
+    console.error("Delete webhook error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to delete webhook" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /teams/:id/webhooks/:webhookId/deliveries — Delivery log (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DeliveriesQuerySchema = z.object({
+  status: z.enum(["pending", "delivered", "failed", "expired"]).optional(),
+  before: z.string().datetime().optional(), // createdAt of the last entry seen
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+webhookRoutes.get("/:webhookId/deliveries", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const query = DeliveriesQuerySchema.parse(req.query);
+
+    if (!(await isTeamAdmin(req.user!.userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage webhooks" } });
+      return;
+    }
+
+    const hook = await findWebhook(teamId, req.params.webhookId);
+    if (!hook) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Webhook not found" } });
+      return;
+    }
+
+    const rows = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.webhookId, hook.id),
+          query.status ? eq(webhookDeliveries.status, query.status) : undefined,
+          query.before ? lt(webhookDeliveries.createdAt, query.before) : undefined
+        )
+      )
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit);
+    res.json({
+      data: page.map(({ leaseOwner: _owner, leaseExpiresAt: _expires, ...delivery }) => ({
+        ...delivery,
+        payload: JSON.parse(delivery.payload),
+      })),
+      meta: { count: page.length, hasMore: rows.length > query.limit },
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: { code: "VALIDATION_ERROR", message: err.message } });
+      return;
+    }
+    console.error("List webhook deliveries error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to list deliveries" } });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /teams/:id/webhooks/:webhookId/test — Send a test event (admin)
+// ─────────────────────────────────────────────────────────────────────────────
+
+webhookRoutes.post("/:webhookId/test", authenticate, async (req, res) => {
+  try {
+    const teamId = req.params.id;
+    const userId = req.user!.userId;
+
+    if (!(await isTeamAdmin(userId, teamId))) {
+      res.status(403).json({ error: { code: "FORBIDDEN", message: "Only admins can manage webhooks" } });
+      return;
+    }
+
+    const hook = await findWebhook(teamId, req.params.webhookId);
+    if (!hook) {
+      res.status(404).json({ error: { code: "NOT_FOUND", message: "Webhook not found" } });
+      return;
+    }
+
+    if (hook.active !== 1) {
+      res.status(409).json({ error: { code: "INVALID_STATE", message: "Webhook is paused" } });
+      return;
+    }
+
+    const delivery = await sendTestEvent(hook, userId);
+    if (!delivery) {
+      res.status(409).json({ error: { code: "INVALID_STATE", message: "Test delivery could not be sent" } });
+      return;
+    }
+
+    const { leaseOwner: _owner, leaseExpiresAt: _expires, ...logged } = delivery;
+    res.json({ data: { ...logged, payload: JSON.parse(logged.payload) } });
+  } catch (err) {
+    console.error("Test webhook error:", err);
+    res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Failed to send test event" } });
+  }
+});
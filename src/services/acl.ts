@@ -6,7 +6,7 @@
  * - No DM/conversation access without membership. Ever.
  */
 
-import { db, teamMembers, conversationMembers, tezRecipients } from "../db/index.js";
+import { db, teams, teamMembers, conversationMembers, tezRecipients } from "../db/index.js";
 import { eq, and } from "drizzle-orm";
 
 export async function isTeamMember(
@@ -46,6 +46,19 @@ export async function assertTeamMember(
   }
 }
 
+/**
+ * Archived teams are read-only: nothing can be shared into them, and
+ * their Tez can no longer be replied to, edited or otherwise changed.
+ */
+export async function assertTeamActive(teamId: string): Promise<void> {
+  const rows = await db.select({ status: teams.status }).from(teams).where(eq(teams.id, teamId)).limit(1);
+  if (rows.length > 0 && rows[0].status === "archived") {
+    const err = new Error("Team is archived");
+    (err as NodeJS.ErrnoException).code = "TEAM_ARCHIVED";
+    throw err;
+  }
+}
+
 export async function isConversationMember(
   userId: string,
   conversationId: string
@@ -113,3 +126,19 @@ export async function assertTezAccess(
   (err as NodeJS.ErrnoException).code = "FORBIDDEN";
   throw err;
 }
+
+/**
+ * Whether assertTezAccess passes, for filtering lists instead of failing.
+ */
+export async function canAccessTez(
+  userId: string,
+  theTez: { id: string; teamId: string | null; conversationId: string | null; senderUserId: string }
+): Promise<boolean> {
+  try {
+    await assertTezAccess(userId, theTez);
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "FORBIDDEN") return false;
+    throw err;
+  }
+}
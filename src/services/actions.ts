@@ -0,0 +1,129 @@
+/**
+ * Action items — each recipient's response to a Tez's actionRequested.
+ *
+ * Sharing a Tez that requests an action opens one action item per local
+ * recipient (or per other member, in a conversation). Recipients move
+ * their own item between open, accepted, declined and done; the sender
+ * sees a rollup of everyone's progress.
+ */
+
+import { eq, and, ne } from "drizzle-orm";
+import { db, tez, tezActions, tezRecipients, conversationMembers } from "../db/index.js";
+import { config } from "../config.js";
+import { partitionRecipients } from "./federationOutbound.js";
+import type { AuditAction } from "./audit.js";
+
+export const ACTION_STATUSES = ["open", "accepted", "declined", "done"] as const;
+
+export type ActionStatus = (typeof ACTION_STATUSES)[number];
+
+type ActionItem = typeof tezActions.$inferSelect;
+
+/**
+ * Audit action recorded when an item moves to `status`.
+ */
+export const ACTION_AUDIT: Record<ActionStatus, AuditAction> = {
+  open: "tez.action_reopened",
+  accepted: "tez.action_accepted",
+  declined: "tez.action_declined",
+  done: "tez.action_completed",
+};
+
+/**
+ * Who a Tez asks to act: its local recipients, or every other member of
+ * its conversation. Remote recipients respond on their own relay.
+ */
+export async function actionAssignees(
+  theTez: Pick<typeof tez.$inferSelect, "id" | "conversationId" | "senderUserId">
+): Promise<string[]> {
+  if (theTez.conversationId) {
+    const members = await db
+      .select({ userId: conversationMembers.userId })
+      .from(conversationMembers)
+      .where(
+        and(
+          eq(conversationMembers.conversationId, theTez.conversationId),
+          ne(conversationMembers.userId, theTez.senderUserId)
+        )
+      );
+    return members.map((m) => m.userId);
+  }
+
+  const recipients = await db
+    .select({ userId: tezRecipients.userId })
+    .from(tezRecipients)
+    .where(eq(tezRecipients.tezId, theTez.id));
+  return partitionRecipients(recipients.map((r) => r.userId), config.relayHost).local;
+}
+
+/**
+ * Open an action item for each user. Users who already have one keep it,
+ * moved to `dueAt` when one is given.
+ */
+export async function createActionItems(tezId: string, userIds: string[], dueAt: string | null): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const now = new Date().toISOString();
+  const insert = db.insert(tezActions).values(
+    Array.from(new Set(userIds), (userId) => ({
+      tezId,
+      userId,
+      status: "open",
+      dueAt,
+      note: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    }))
+  );
+  await (dueAt
+    ? insert.onConflictDoUpdate({ target: [tezActions.tezId, tezActions.userId], set: { dueAt, updatedAt: now } })
+    : insert.onConflictDoNothing());
+}
+
+/**
+ * Record a recipient's response. Returns null if they have no action item
+ * on this Tez, otherwise the item before and after the change.
+ */
+export async function respondToAction(
+  tezId: string,
+  userId: string,
+  status: ActionStatus,
+  note: string | undefined
+): Promise<{ previous: ActionItem; updated: ActionItem } | null> {
+  const match = and(eq(tezActions.tezId, tezId), eq(tezActions.userId, userId));
+
+  const rows = await db.select().from(tezActions).where(match).limit(1);
+  if (rows.length === 0) return null;
+
+  const previous = rows[0];
+  const now = new Date().toISOString();
+  const [updated] = await db
+    .update(tezActions)
+    .set({
+      status,
+      note: note === undefined ? previous.note : note,
+      updatedAt: now,
+      completedAt: status === "done" ? (previous.status === "done" ? previous.completedAt : now) : null,
+    })
+    .where(match)
+    .returning();
+
+  return { previous, updated };
+}
+
+/**
+ * Every action item on a Tez, with counts per status.
+ */
+export async function actionRollup(
+  tezId: string
+): Promise<{ counts: Record<ActionStatus, number> & { total: number }; items: ActionItem[] }> {
+  const items = await db.select().from(tezActions).where(eq(tezActions.tezId, tezId));
+
+  const counts = { total: items.length, open: 0, accepted: 0, declined: 0, done: 0 };
+  for (const item of items) {
+    counts[item.status as ActionStatus]++;
+  }
+
+  return { counts, items };
+}
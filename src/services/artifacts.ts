@@ -0,0 +1,174 @@
+/**
+ * Artifact service — team ownership, quotas and access for stored blobs.
+ *
+ * A blob belongs to every team that uploaded it. Team members may attach
+ * it to Tez in that team; anyone who can see such a Tez may download it.
+ */
+
+import { eq, and, inArray, ne, sql } from "drizzle-orm";
+import { db, blobs, teamBlobs, teamMembers, tez, tezContext } from "../db/index.js";
+import { config } from "../config.js";
+import { deleteBlob } from "./blobStore.js";
+
+/**
+ * Bytes of artifact storage a team is using (each distinct blob once).
+ */
+export async function teamBlobUsage(teamId: string): Promise<number> {
+  const rows = await db
+    .select({ used: sql<number>`coalesce(sum(${blobs.size}), 0)` })
+    .from(teamBlobs)
+    .innerJoin(blobs, eq(teamBlobs.sha256, blobs.sha256))
+    .where(eq(teamBlobs.teamId, teamId));
+  return rows[0]?.used ?? 0;
+}
+
+/**
+ * Record a stored blob as held by a team, in one statement so concurrent
+ * uploads cannot take the team past its quota between check and insert.
+ * "owned" if the team already held it (e.g. the same file uploaded twice
+ * at once); "over_quota" if it does not fit.
+ */
+export async function addTeamBlob(params: {
+  teamId: string;
+  sha256: string;
+  size: number;
+  mimeType: string;
+  filename: string | null;
+  uploadedBy: string;
+}): Promise<"added" | "owned" | "over_quota"> {
+  const { teamId, sha256, size } = params;
+  const now = new Date().toISOString();
+
+  await db.insert(blobs).values({ sha256, size, createdAt: now }).onConflictDoNothing();
+  const added = await db
+    .insert(teamBlobs)
+    .select(
+      db
+        .select({
+          teamId: sql<string>`${teamId}`.as("team_id"),
+          sha256: blobs.sha256,
+          mimeType: sql<string>`${params.mimeType}`.as("mime_type"),
+          filename: sql<string | null>`${params.filename}`.as("filename"),
+          uploadedBy: sql<string>`${params.uploadedBy}`.as("uploaded_by"),
+          createdAt: sql<string>`${now}`.as("created_at"),
+        })
+        .from(blobs)
+        .where(
+          and(
+            eq(blobs.sha256, sha256),
+            sql`(
+              SELECT coalesce(sum(b.size), 0) FROM team_blobs tb JOIN blobs b ON b.sha256 = tb.sha256
+              WHERE tb.team_id = ${teamId}
+            ) + ${size} <= ${config.teamBlobQuotaBytes}`
+          )
+        )
+    )
+    .onConflictDoNothing()
+    .returning({ sha256: teamBlobs.sha256 });
+  if (added.length > 0) return "added";
+
+  const owned = await db
+    .select()
+    .from(teamBlobs)
+    .where(and(eq(teamBlobs.teamId, teamId), eq(teamBlobs.sha256, sha256)))
+    .limit(1);
+  return owned.length > 0 ? "owned" : "over_quota";
+}
+
+/**
+ * Check that every blob referenced by new context items sits on an
+ * artifact layer and was uploaded to the Tez's team (or, for team-less
+ * Tez, to one of the user's teams). Returns each blob's stored mime type.
+ * Throws with code UNKNOWN_BLOB.
+ */
+export async function resolveArtifactBlobs(
+  userId: string,
+  teamId: string | null,
+  items: Array<{ layer: string; blobSha256?: string | null }>
+): Promise<Map<string, string>> {
+  if (items.some((item) => item.blobSha256 && item.layer !== "artifact")) {
+    const err = new Error("blobSha256 is only allowed on artifact context");
+    (err as NodeJS.ErrnoException).code = "UNKNOWN_BLOB";
+    throw err;
+  }
+
+  const shas = Array.from(new Set(items.map((item) => item.blobSha256).filter((sha): sha is string => !!sha)));
+  if (shas.length === 0) return new Map();
+
+  const teamIds = teamId
+    ? [teamId]
+    : (await db.select({ teamId: teamMembers.teamId }).from(teamMembers).where(eq(teamMembers.userId, userId))).map(
+        (row) => row.teamId
+      );
+
+  const rows =
+    teamIds.length > 0
+      ? await db
+          .select({ sha256: teamBlobs.sha256, mimeType: teamBlobs.mimeType })
+          .from(teamBlobs)
+          .where(and(inArray(teamBlobs.teamId, teamIds), inArray(teamBlobs.sha256, shas)))
+      : [];
+
+  const found = new Map(rows.map((row) => [row.sha256, row.mimeType]));
+  const missing = shas.filter((sha) => !found.has(sha));
+  if (missing.length > 0) {
+    const err = new Error(`Unknown artifact blob: ${missing[0]}`);
+    (err as NodeJS.ErrnoException).code = "UNKNOWN_BLOB";
+    throw err;
+  }
+  return found;
+}
+
+/**
+ * Whether a user may download a blob: a member of a team that holds it,
+ * or able to see a Tez that references it. Returns the mime type and
+ * filename to serve it with, or null if access is denied.
+ */
+export async function blobAccessFor(
+  userId: string,
+  sha256: string
+): Promise<{ mimeType: string; filename: string | null } | null> {
+  const owned = await db
+    .select({ mimeType: teamBlobs.mimeType, filename: teamBlobs.filename })
+    .from(teamBlobs)
+    .innerJoin(teamMembers, eq(teamMembers.teamId, teamBlobs.teamId))
+    .where(and(eq(teamBlobs.sha256, sha256), eq(teamMembers.userId, userId)))
+    .limit(1);
+  if (owned.length > 0) return owned[0];
+
+  // Any visible Tez referencing it, by the access paths of assertTezAccess
+  const referencing = await db
+    .select({ mimeType: tezContext.mimeType })
+    .from(tezContext)
+    .innerJoin(tez, eq(tez.id, tezContext.tezId))
+    .where(
+      and(
+        eq(tezContext.blobSha256, sha256),
+        ne(tez.status, "deleted"),
+        sql`(
+          ${tez.senderUserId} = ${userId}
+          OR ${tez.teamId} IN (SELECT team_id FROM team_members WHERE user_id = ${userId})
+          OR ${tez.conversationId} IN (SELECT conversation_id FROM conversation_members WHERE user_id = ${userId})
+          OR EXISTS (SELECT 1 FROM tez_recipients r WHERE r.tez_id = ${tez.id} AND r.user_id = ${userId})
+        )`
+      )
+    )
+    .limit(1);
+  if (referencing.length === 0) return null;
+  return { mimeType: referencing[0].mimeType ?? "application/octet-stream", filename: null };
+}
+
+/**
+ * Delete a blob's bytes once no team holds it and no context references
+ * it. Returns whether it was purged.
+ */
+export async function purgeUnusedBlob(sha256: string): Promise<boolean> {
+  const owners = await db.select().from(teamBlobs).where(eq(teamBlobs.sha256, sha256)).limit(1);
+  const references = await db.select().from(tezContext).where(eq(tezContext.blobSha256, sha256)).limit(1);
+  if (owners.length > 0 || references.length > 0) return false;
+
+  const removed = await db.delete(blobs).where(eq(blobs.sha256, sha256)).returning();
+  if (removed.length === 0) return false;
+  await deleteBlob(sha256);
+  return true;
+}
@@ -3,39 +3,95 @@
  *
  * Every share, reply, read, delete, team change gets recorded.
  * This is the trust foundation: verifiable history of who did what.
+ * Entries are hash-chained per team (see auditChain.ts).
  */
 
 import { randomUUID } from "crypto";
+import { eq, and, or, gt, gte, lt, lte, asc, desc, inArray, type SQL } from "drizzle-orm";
 import { db, auditLog } from "../db/index.js";
+import { enqueueWebhookEvent } from "./webhooks.js";
+import { appendToChain } from "./auditChain.js";
+import type { CursorPosition } from "./cursor.js";
 
-export type AuditAction =
-  | "tez.shared"
-  | "tez.replied"
-  | "tez.read"
-  | "tez.acknowledged"
-  | "tez.archived"
-  | "tez.deleted"
-  | "team.created"
-  | "team.member_added"
-  | "team.member_removed"
-  | "contact.registered"
-  | "contact.updated"
-  | "conversation.created"
-  | "conversation.message_sent"
-  | "conversation.read"
-  | "federation.sent"
-  | "federation.received"
-  | "federation.failed";
-
-export async function recordAudit(entry: {
+// Also the event types webhooks can subscribe to
+export const AUDIT_ACTIONS = [
+  "tez.shared",
+  "tez.replied",
+  "tez.read",
+  "tez.acknowledged",
+  "tez.archived",
+  "tez.unarchived",
+  "tez.deleted",
+  "tez.edited",
+  "tez.reaction_added",
+  "tez.reaction_removed",
+  "tez.pinned",
+  "tez.unpinned",
+  "tez.action_accepted",
+  "tez.action_declined",
+  "tez.action_completed",
+  "tez.action_reopened",
+  "team.created",
+  "team.updated",
+  "team.archived",
+  "team.ownership_transferred",
+  "team.member_added",
+  "team.member_removed",
+  "team.member_role_changed",
+  "team.invite_created",
+  "team.invite_revoked",
+  "contact.registered",
+  "contact.updated",
+  "conversation.created",
+  "conversation.updated",
+  "conversation.member_added",
+  "conversation.member_removed",
+  "conversation.member_role_changed",
+  "conversation.message_sent",
+  "conversation.read",
+  "federation.sent",
+  "federation.received",
+  "federation.failed",
+  "federation.outbox_retried",
+  "federation.outbox_cancelled",
+  "federation.outbox_purged",
+  "blob.uploaded",
+  "webhook.created",
+  "webhook.updated",
+  "webhook.deleted",
+  "retention.policy_updated",
+  "retention.hold_placed",
+  "retention.hold_released",
+  "retention.applied",
+  "user.export_requested",
+  "user.export_downloaded",
+  "user.erased",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export interface AuditEntry {
   teamId?: string;
   actorUserId: string;
   action: AuditAction;
-  targetType: "tez" | "team" | "contact" | "conversation";
+  targetType:
+    | "tez"
+    | "team"
+    | "contact"
+    | "conversation"
+    | "outbox"
+    | "blob"
+    | "webhook"
+    | "legal_hold"
+    | "export"
+    | "user";
   targetId: string;
   metadata?: Record<string, unknown>;
-}): Promise<void> {
-  await db.insert(auditLog).values({
+}
+
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  const createdAt = new Date().toISOString();
+  await appendToChain({
     id: randomUUID(),
     teamId: entry.teamId ?? "system",
     actorUserId: entry.actorUserId,
@@ -43,6 +99,101 @@ export async function recordAudit(entry: {
     targetType: entry.targetType,
     targetId: entry.targetId,
     metadata: entry.metadata ?? null,
-    createdAt: new Date().toISOString(),
+    createdAt,
   });
+
+  // Team activity fans out to the team's webhook subscriptions. A webhook
+  // problem must never fail the mutation being audited.
+  if (entry.teamId) {
+    await enqueueWebhookEvent(entry, createdAt).catch((err) => {
+      console.error("Webhook enqueue error:", err);
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reading the log
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+export interface AuditFilter {
+  teamId?: string;
+  actorUserId?: string;
+  actions?: string[];
+  targetType?: string;
+  targetId?: string;
+  from?: string; // inclusive
+  to?: string; // inclusive
+}
+
+const EXPORT_BATCH_SIZE = 500;
+
+function filterConditions(filter: AuditFilter): SQL[] {
+  const conditions: SQL[] = [];
+  if (filter.teamId) conditions.push(eq(auditLog.teamId, filter.teamId));
+  if (filter.actorUserId) conditions.push(eq(auditLog.actorUserId, filter.actorUserId));
+  if (filter.actions?.length) conditions.push(inArray(auditLog.action, filter.actions));
+  if (filter.targetType) conditions.push(eq(auditLog.targetType, filter.targetType));
+  if (filter.targetId) conditions.push(eq(auditLog.targetId, filter.targetId));
+  if (filter.from) conditions.push(gte(auditLog.createdAt, filter.from));
+  if (filter.to) conditions.push(lte(auditLog.createdAt, filter.to));
+  return conditions;
+}
+
+/**
+ * One page of entries matching every filter (typically the caller's scope
+ * and their query), newest first, after an optional cursor position.
+ */
+export async function listAudit(
+  filters: AuditFilter[],
+  page: { after?: CursorPosition; limit: number }
+): Promise<{ entries: AuditLogEntry[]; hasMore: boolean }> {
+  const conditions = filters.flatMap(filterConditions);
+  if (page.after) {
+    conditions.push(
+      or(
+        lt(auditLog.createdAt, page.after.createdAt),
+        and(eq(auditLog.createdAt, page.after.createdAt), lt(auditLog.id, page.after.id))
+      )!
+    );
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
+    .select()
+    .from(auditLog)
+    .where(and(...conditions))
+    .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+    .limit(page.limit + 1);
+
+  const hasMore = rows.length > page.limit;
+  return { entries: hasMore ? rows.slice(0, page.limit) : rows, hasMore };
+}
+
+/**
+ * Every entry matching all filters, oldest first, read in batches so that
+ * exports of any size stream in bounded memory.
+ */
+export async function* exportAudit(filters: AuditFilter[]): AsyncGenerator<AuditLogEntry> {
+  const conditions = filters.flatMap(filterConditions);
+  let position: SQL | undefined;
+
+  for (;;) {
+    const batch = await db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions, position))
+      .orderBy(asc(auditLog.createdAt), asc(auditLog.id))
+      .limit(EXPORT_BATCH_SIZE);
+
+    yield* batch;
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+
+    const last = batch[batch.length - 1];
+    position = or(
+      gt(auditLog.createdAt, last.createdAt),
+      and(eq(auditLog.createdAt, last.createdAt), gt(auditLog.id, last.id))
+    );
+  }
 }
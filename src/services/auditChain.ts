@@ -0,0 +1,335 @@
+/**
+ * Audit hash chain — makes the audit log tamper-evident.
+ *
+ * Each team's entries (and the "system" pseudo-team's) form a chain: an
+ * entry's hash covers its content, its position (seq) and the previous
+ * entry's hash. Editing or deleting an entry breaks every later link.
+ * Periodic checkpoints sign each chain head with the server's Ed25519
+ * identity, so truncating a chain or rebuilding it from scratch shows up
+ * too.
+ *
+ * Appends are race-free without locks: (team_id, seq) is unique, so of two
+ * writers extending the same head only one succeeds and the other retries
+ * on the new head.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, randomUUID, sign, verify } from "crypto";
+import { eq, and, or, not, gt, gte, lt, lte, asc, desc, isNull, isNotNull, sql, count, type SQL } from "drizzle-orm";
+import { db, auditLog, auditCheckpoints } from "../db/index.js";
+import { getIdentity } from "./identity.js";
+
+export const GENESIS_HASH = "0".repeat(64);
+
+const MAX_APPEND_ATTEMPTS = 20;
+const VERIFY_BATCH_SIZE = 1000;
+
+type AuditRow = typeof auditLog.$inferSelect;
+type ChainedEntry = Omit<AuditRow, "seq" | "prevHash" | "hash">;
+
+export interface ChainBreak {
+  seq: number;
+  entryId: string | null;
+  reason: "hash_mismatch" | "prev_hash_mismatch" | "missing_entry" | "checkpoint_mismatch" | "bad_signature";
+}
+
+export interface ChainReport {
+  teamId: string;
+  entries: number;
+  head: { seq: number; hash: string } | null;
+  checkpoints: number;
+  firstBreak: ChainBreak | null;
+}
+
+/**
+ * JSON with object keys sorted at every level, so that metadata hashes the
+ * same after a round trip through the database.
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]))
+      : v
+  );
+}
+
+export function hashAuditEntry(entry: ChainedEntry, seq: number, prevHash: string): string {
+  const payload = canonicalJson([
+    entry.id,
+    entry.teamId,
+    entry.actorUserId,
+    entry.action,
+    entry.targetType,
+    entry.targetId,
+    entry.metadata ?? null,
+    entry.createdAt,
+    seq,
+    prevHash,
+  ]);
+  return createHash("sha256").update(payload, "utf-8").digest("hex");
+}
+
+async function chainHead(teamId: string): Promise<{ seq: number; hash: string } | null> {
+  const rows = await db
+    .select({ seq: auditLog.seq, hash: auditLog.hash })
+    .from(auditLog)
+    .where(and(eq(auditLog.teamId, teamId), isNotNull(auditLog.seq)))
+    .orderBy(desc(auditLog.seq))
+    .limit(1);
+  return rows.length > 0 ? { seq: rows[0].seq!, hash: rows[0].hash! } : null;
+}
+
+/**
+ * Insert an entry at the head of its team's chain.
+ */
+export async function appendToChain(entry: ChainedEntry): Promise<AuditRow> {
+  // Hash what the database will hand back (undefined dropped, and so on)
+  const metadata = entry.metadata == null ? null : JSON.parse(JSON.stringify(entry.metadata));
+
+  for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+    const head = await chainHead(entry.teamId);
+    const seq = (head?.seq ?? 0) + 1;
+    const prevHash = head?.hash ?? GENESIS_HASH;
+
+    const inserted = await db
+      .insert(auditLog)
+      .values({ ...entry, metadata, seq, prevHash, hash: hashAuditEntry({ ...entry, metadata }, seq, prevHash) })
+      .onConflictDoNothing()
+      .returning();
+    if (inserted.length > 0) return inserted[0];
+  }
+
+  throw new Error(`Could not append to audit chain of ${entry.teamId}: too much contention`);
+}
+
+/**
+ * Delete the part of a team's chain recorded before `before`: the longest
+ * prefix of entries that are all older, plus any unchained entries that
+ * are. The head entry always stays, even if it is older, since it is what
+ * the next entry links to; so does every entry matching `keep`, and with it
+ * the rest of the chain after it. Returns how many entries went and the
+ * last link removed.
+ *
+ * The caller records `through` as `auditPrunedThrough` in the metadata of
+ * a later entry on the same chain (see retention.applied); verification
+ * then starts from it instead of from the genesis hash.
+ */
+export async function pruneChain(
+  teamId: string,
+  before: string,
+  keep?: SQL
+): Promise<{ count: number; through: { seq: number; hash: string } | null }> {
+  const [{ firstKept }] = await db
+    .select({ firstKept: sql<number | null>`min(${auditLog.seq})` })
+    .from(auditLog)
+    .where(and(eq(auditLog.teamId, teamId), isNotNull(auditLog.seq), or(gte(auditLog.createdAt, before), keep)));
+
+  const keepFrom = firstKept ?? (await chainHead(teamId))?.seq ?? 0;
+
+  const last = await db
+    .select({ seq: auditLog.seq, hash: auditLog.hash })
+    .from(auditLog)
+    .where(and(eq(auditLog.teamId, teamId), isNotNull(auditLog.seq), lt(auditLog.seq, keepFrom)))
+    .orderBy(desc(auditLog.seq))
+    .limit(1);
+  const through = last.length > 0 ? { seq: last[0].seq!, hash: last[0].hash! } : null;
+
+  const removed = await db
+    .delete(auditLog)
+    .where(
+      and(
+        eq(auditLog.teamId, teamId),
+        or(
+          through ? lte(auditLog.seq, through.seq) : undefined,
+          and(isNull(auditLog.seq), lt(auditLog.createdAt, before), keep ? not(keep) : undefined)
+        )
+      )
+    )
+    .returning({ id: auditLog.id });
+
+  return { count: removed.length, through };
+}
+
+/**
+ * Where a team's chain now starts: after the last pruned link, or at the
+ * genesis hash if it was never pruned.
+ */
+async function chainStart(teamId: string): Promise<{ seq: number; hash: string } | null> {
+  const rows = await db
+    .select({ metadata: auditLog.metadata })
+    .from(auditLog)
+    .where(
+      and(
+        eq(auditLog.teamId, teamId),
+        isNotNull(auditLog.seq),
+        sql`json_extract(${auditLog.metadata}, '$.auditPrunedThrough.seq') IS NOT NULL`
+      )
+    )
+    .orderBy(desc(auditLog.seq))
+    .limit(1);
+  if (rows.length === 0) return null;
+
+  const { auditPrunedThrough } = rows[0].metadata as { auditPrunedThrough: { seq: number; hash: string } };
+  return auditPrunedThrough;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Checkpoints
+// ─────────────────────────────────────────────────────────────────────────────
+
+function checkpointPayload(checkpoint: { teamId: string; seq: number; hash: string; createdAt: string }): Buffer {
+  return Buffer.from(`${checkpoint.teamId}\n${checkpoint.seq}\n${checkpoint.hash}\n${checkpoint.createdAt}`);
+}
+
+/**
+ * Sign the head of every chain that grew since its last checkpoint.
+ * Returns the number of checkpoints written.
+ */
+export async function createAuditCheckpoints(): Promise<number> {
+  const identity = getIdentity();
+  const privateKey = createPrivateKey(identity.privateKeyPem);
+
+  const heads = await db
+    .select({ teamId: auditLog.teamId, seq: sql<number>`max(${auditLog.seq})` })
+    .from(auditLog)
+    .where(isNotNull(auditLog.seq))
+    .groupBy(auditLog.teamId);
+
+  let written = 0;
+  for (const { teamId, seq } of heads) {
+    const latest = await db
+      .select({ seq: auditCheckpoints.seq })
+      .from(auditCheckpoints)
+      .where(eq(auditCheckpoints.teamId, teamId))
+      .orderBy(desc(auditCheckpoints.seq))
+      .limit(1);
+    if (latest.length > 0 && latest[0].seq >= seq) continue;
+
+    const [entry] = await db
+      .select({ hash: auditLog.hash })
+      .from(auditLog)
+      .where(and(eq(auditLog.teamId, teamId), eq(auditLog.seq, seq)));
+
+    const checkpoint = { teamId, seq, hash: entry.hash!, createdAt: new Date().toISOString() };
+    await db.insert(auditCheckpoints).values({
+      id: randomUUID(),
+      ...checkpoint,
+      serverId: identity.serverId,
+      signature: sign(null, checkpointPayload(checkpoint), privateKey).toString("base64"),
+    });
+    written++;
+  }
+
+  return written;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Verification
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Walk one team's chain from its start (the genesis hash, or the last
+ * link removed by retention) and report the first broken link:
+ * an entry whose content no longer matches its hash, a link that does not
+ * point at its predecessor, a missing position, or a checkpoint that the
+ * chain (or this server's key) no longer agrees with.
+ */
+export async function verifyChain(teamId: string): Promise<ChainReport> {
+  const identity = getIdentity();
+  const publicKey = createPublicKey({ key: Buffer.from(identity.publicKey, "base64"), format: "der", type: "spki" });
+
+  const checkpoints = await db
+    .select()
+    .from(auditCheckpoints)
+    .where(eq(auditCheckpoints.teamId, teamId))
+    .orderBy(asc(auditCheckpoints.seq));
+  const checkpointsBySeq = new Map<number, (typeof checkpoints)[number][]>();
+  for (const checkpoint of checkpoints) {
+    checkpointsBySeq.set(checkpoint.seq, [...(checkpointsBySeq.get(checkpoint.seq) ?? []), checkpoint]);
+  }
+
+  let entries = 0;
+  let head: { seq: number; hash: string } | null = await chainStart(teamId);
+  let firstBreak: ChainBreak | null = null;
+
+  walk: for (;;) {
+    const batch: AuditRow[] = await db
+      .select()
+      .from(auditLog)
+      .where(and(eq(auditLog.teamId, teamId), gt(auditLog.seq, head?.seq ?? 0)))
+      .orderBy(asc(auditLog.seq))
+      .limit(VERIFY_BATCH_SIZE);
+
+    for (const entry of batch) {
+      const seq = entry.seq!;
+      const expectedSeq: number = (head?.seq ?? 0) + 1;
+      if (seq !== expectedSeq) {
+        firstBreak = { seq: expectedSeq, entryId: null, reason: "missing_entry" };
+        break walk;
+      }
+      if (entry.prevHash !== (head?.hash ?? GENESIS_HASH)) {
+        firstBreak = { seq, entryId: entry.id, reason: "prev_hash_mismatch" };
+        break walk;
+      }
+      if (entry.hash !== hashAuditEntry(entry, seq, entry.prevHash!)) {
+        firstBreak = { seq, entryId: entry.id, reason: "hash_mismatch" };
+        break walk;
+      }
+      for (const checkpoint of checkpointsBySeq.get(seq) ?? []) {
+        if (checkpoint.hash !== entry.hash) {
+          firstBreak = { seq, entryId: entry.id, reason: "checkpoint_mismatch" };
+          break walk;
+        }
+      }
+
+      entries++;
+      head = { seq, hash: entry.hash };
+    }
+
+    if (batch.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  // Signatures, and checkpoints past the end of what is left of the chain
+  if (!firstBreak) {
+    for (const checkpoint of checkpoints) {
+      const signed =
+        checkpoint.serverId === identity.serverId &&
+        verify(null, checkpointPayload(checkpoint), publicKey, Buffer.from(checkpoint.signature, "base64"));
+      if (!signed) {
+        firstBreak = { seq: checkpoint.seq, entryId: null, reason: "bad_signature" };
+        break;
+      }
+      if (checkpoint.seq > (head?.seq ?? 0)) {
+        firstBreak = { seq: (head?.seq ?? 0) + 1, entryId: null, reason: "missing_entry" };
+        break;
+      }
+    }
+  }
+
+  return { teamId, entries, head, checkpoints: checkpoints.length, firstBreak };
+}
+
+/**
+ * Every chain on the relay (or just one team's), plus the number of
+ * entries recorded before chaining began, which cannot be verified.
+ */
+export async function verifyAuditLog(teamId?: string): Promise<{ chains: ChainReport[]; unchained: number }> {
+  let teamIds = teamId ? [teamId] : [];
+  if (!teamId) {
+    // Chains that lost every entry still have their checkpoints
+    const chained = await db.selectDistinct({ teamId: auditLog.teamId }).from(auditLog).where(isNotNull(auditLog.seq));
+    const checkpointed = await db.selectDistinct({ teamId: auditCheckpoints.teamId }).from(auditCheckpoints);
+    teamIds = Array.from(new Set([...chained, ...checkpointed].map((row) => row.teamId)));
+  }
+
+  const chains = [];
+  for (const id of teamIds.sort()) {
+    chains.push(await verifyChain(id));
+  }
+
+  const [{ unchained }] = await db
+    .select({ unchained: count() })
+    .from(auditLog)
+    .where(and(isNull(auditLog.seq), teamId ? eq(auditLog.teamId, teamId) : undefined));
+
+  return { chains, unchained };
+}
@@ -0,0 +1,31 @@
+/**
+ * Audit checkpoint worker — periodically signs the head of every audit
+ * chain with the server identity. Between checkpoints, entries at the end
+ * of a chain can still be dropped unnoticed; the interval bounds that window.
+ */
+
+import { config } from "../config.js";
+import { createAuditCheckpoints } from "./auditChain.js";
+
+/**
+ * Start the worker. Returns a function that stops it.
+ */
+export function startAuditCheckpointWorker(): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const written = await createAuditCheckpoints();
+      if (written > 0) console.log(`Audit: signed ${written} checkpoints`);
+    } catch (err) {
+      console.error("Audit checkpoint worker error:", err);
+    } finally {
+      running = false;
+    }
+  }, config.auditCheckpointIntervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
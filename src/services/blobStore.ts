@@ -0,0 +1,91 @@
+/**
+ * Blob store — content-addressed artifact bytes on local disk.
+ *
+ * Files live at DATA_DIR/blobs/<aa>/<bb>/<sha256>. Uploads stream to a
+ * temp file while hashing, then move into place, so identical artifacts
+ * are stored once no matter how many teams upload them.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream, type ReadStream } from "fs";
+import { mkdir, rename, rm } from "fs/promises";
+import { dirname, join } from "path";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { config } from "../config.js";
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+function blobRoot(): string {
+  return join(config.dataDir, "blobs");
+}
+
+export function isSha256(value: string): boolean {
+  return SHA256_PATTERN.test(value);
+}
+
+export function blobPath(sha256: string): string {
+  return join(blobRoot(), sha256.slice(0, 2), sha256.slice(2, 4), sha256);
+}
+
+/**
+ * Stream bytes into the store. Throws with code TOO_LARGE (and keeps
+ * nothing) if more than `maxBytes` arrive. An oversized upload is still
+ * read to the end so the client gets a clean error response.
+ */
+export async function writeBlob(source: Readable, maxBytes: number): Promise<{ sha256: string; size: number }> {
+  const tmpDir = join(blobRoot(), "tmp");
+  await mkdir(tmpDir, { recursive: true });
+  const tmpPath = join(tmpDir, randomUUID());
+
+  const hash = createHash("sha256");
+  let size = 0;
+
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        callback(); // discard
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(source, meter, createWriteStream(tmpPath));
+  } catch (err) {
+    await rm(tmpPath, { force: true });
+    throw err;
+  }
+
+  if (size > maxBytes) {
+    await rm(tmpPath, { force: true });
+    const err = new Error(`Artifact exceeds ${maxBytes} bytes`);
+    (err as NodeJS.ErrnoException).code = "TOO_LARGE";
+    throw err;
+  }
+
+  const sha256 = hash.digest("hex");
+  const finalPath = blobPath(sha256);
+  await mkdir(dirname(finalPath), { recursive: true });
+  // Same content already stored: rename just replaces it with identical bytes
+  await rename(tmpPath, finalPath);
+
+  return { sha256, size };
+}
+
+/**
+ * Remove a blob's bytes (used when an upload is rejected after hashing).
+ */
+export async function deleteBlob(sha256: string): Promise<void> {
+  await rm(blobPath(sha256), { force: true });
+}
+
+/**
+ * Read a blob, optionally a byte range (inclusive, like HTTP Range).
+ */
+export function readBlob(sha256: string, range?: { start: number; end: number }): ReadStream {
+  return createReadStream(blobPath(sha256), range);
+}
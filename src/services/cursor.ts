@@ -0,0 +1,26 @@
+/**
+ * Opaque pagination cursors for newest-first listings ordered by
+ * (createdAt, id): the position of the last entry returned.
+ */
+
+export interface CursorPosition {
+  createdAt: string;
+  id: string;
+}
+
+export function encodeCursor(entry: CursorPosition): string {
+  return Buffer.from(JSON.stringify([entry.createdAt, entry.id])).toString("base64url");
+}
+
+/**
+ * Position encoded in a cursor, or null if it is not one of ours.
+ */
+export function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof createdAt !== "string" || typeof id !== "string") return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Data exports — a downloadable copy of everything the relay holds about
+ * a user.
+ *
+ * A request queues a job; the export worker builds the archive (gzipped
+ * JSON) under DATA_DIR/exports and marks the job ready. The download link
+ * carries an HMAC of the job id and expiry, so it works without an
+ * Authorization header and stops working when the archive is removed.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { createWriteStream } from "fs";
+import { mkdir, rename, rm, stat } from "fs/promises";
+import { join } from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { createGzip } from "zlib";
+import { eq, and, or, ne, gt, lt, asc, desc, inArray, isNull, type SQL } from "drizzle-orm";
+import {
+  db,
+  tez,
+  tezContext,
+  tezRecipients,
+  tezReactions,
+  tezBookmarks,
+  tezActions,
+  teams,
+  teamMembers,
+  conversations,
+  conversationMembers,
+  contacts,
+  dataExports,
+} from "../db/index.js";
+import { config } from "../config.js";
+import { exportAudit } from "./audit.js";
+
+export type DataExport = typeof dataExports.$inferSelect;
+
+const ARCHIVE_FORMAT = "tezit-export/1";
+const LEASE_MS = 10 * 60_000;
+const LEASE_RENEW_MS = 2 * 60_000;
+const CLAIM_BATCH_SIZE = 2;
+const TEZ_BATCH_SIZE = 200;
+
+export function exportPath(exportId: string): string {
+  return join(config.dataDir, "exports", `${exportId}.json.gz`);
+}
+
+function downloadToken(job: Pick<DataExport, "id" | "expiresAt">): string {
+  return createHmac("sha256", config.jwtSecret).update(`data-export:${job.id}:${job.expiresAt}`).digest("base64url");
+}
+
+/**
+ * Whether `token` is the download token of a ready, unexpired export.
+ */
+export function isValidDownloadToken(job: DataExport, token: string): boolean {
+  if (job.status !== "ready" || !job.expiresAt || job.expiresAt <= new Date().toISOString()) return false;
+  const expected = Buffer.from(downloadToken(job));
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * An export as returned by the API: with its download link once ready.
+ * Why a build failed is for the server log, not the user.
+ */
+export function presentExport(job: DataExport) {
+  const { leaseExpiresAt: _lease, ...rest } = job;
+  return {
+    ...rest,
+    error: job.error ? "The export could not be built; request a new one" : null,
+    downloadUrl:
+      job.status === "ready" ? `/me/export/${job.id}/download?token=${encodeURIComponent(downloadToken(job))}` : null,
+  };
+}
+
+/**
+ * Queue an export for a user. A job still pending or running is reused.
+ */
+export async function requestExport(userId: string): Promise<{ job: DataExport; created: boolean }> {
+  const inFlight = await db
+    .select()
+    .from(dataExports)
+    .where(and(eq(dataExports.userId, userId), inArray(dataExports.status, ["pending", "running"])))
+    .limit(1);
+  if (inFlight.length > 0) return { job: inFlight[0], created: false };
+
+  const [job] = await db
+    .insert(dataExports)
+    .values({
+      id: randomUUID(),
+      userId,
+      status: "pending",
+      error: null,
+      sizeBytes: null,
+      leaseExpiresAt: null,
+      createdAt: new Date().toISOString(),
+      completedAt: null,
+      expiresAt: null,
+    })
+    .returning();
+  return { job, created: true };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Building the archive
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Tez matching `where`, each with its context, a batch at a time.
+ */
+async function* tezWithContext(where: SQL | undefined) {
+  let lastId = "";
+  for (;;) {
+    const batch = await db
+      .select()
+      .from(tez)
+      .where(and(where, gt(tez.id, lastId)))
+      .orderBy(asc(tez.id))
+      .limit(TEZ_BATCH_SIZE);
+    if (batch.length === 0) return;
+
+    const context = await db
+      .select()
+      .from(tezContext)
+      .where(
+        inArray(
+          tezContext.tezId,
+          batch.map((t) => t.id)
+        )
+      )
+      .orderBy(asc(tezContext.createdAt));
+
+    for (const item of batch) {
+      yield { ...item, context: context.filter((c) => c.tezId === item.id) };
+    }
+    lastId = batch[batch.length - 1].id;
+  }
+}
+
+async function* jsonArray(name: string, rows: Iterable<unknown> | AsyncIterable<unknown>) {
+  yield `,${JSON.stringify(name)}:[`;
+  let first = true;
+  for await (const row of rows) {
+    yield (first ? "" : ",") + JSON.stringify(row);
+    first = false;
+  }
+  yield "]";
+}
+
+async function* archiveChunks(userId: string) {
+  const [contact] = await db.select().from(contacts).where(eq(contacts.id, userId)).limit(1);
+  const header = { format: ARCHIVE_FORMAT, userId, exportedAt: new Date().toISOString(), contact: contact ?? null };
+  yield JSON.stringify(header).slice(0, -1); // left open: the sections follow
+
+  yield* jsonArray(
+    "teams",
+    await db
+      .select({ teamId: teams.id, name: teams.name, role: teamMembers.role, joinedAt: teamMembers.joinedAt })
+      .from(teamMembers)
+      .innerJoin(teams, eq(teams.id, teamMembers.teamId))
+      .where(eq(teamMembers.userId, userId))
+  );
+
+  yield* jsonArray(
+    "conversations",
+    await db
+      .select({
+        conversationId: conversations.id,
+        type: conversations.type,
+        name: conversations.name,
+        role: conversationMembers.role,
+        joinedAt: conversationMembers.joinedAt,
+        lastReadAt: conversationMembers.lastReadAt,
+      })
+      .from(conversationMembers)
+      .innerJoin(conversations, eq(conversations.id, conversationMembers.conversationId))
+      .where(eq(conversationMembers.userId, userId))
+  );
+
+  yield* jsonArray("tezSent", tezWithContext(eq(tez.senderUserId, userId)));
+
+  // Addressed to them, or posted by someone else in one of their conversations
+  yield* jsonArray(
+    "tezReceived",
+    tezWithContext(
+      and(
+        ne(tez.senderUserId, userId),
+        or(
+          inArray(
+            tez.id,
+            db.select({ id: tezRecipients.tezId }).from(tezRecipients).where(eq(tezRecipients.userId, userId))
+          ),
+          inArray(
+            tez.conversationId,
+            db
+              .select({ id: conversationMembers.conversationId })
+              .from(conversationMembers)
+              .where(eq(conversationMembers.userId, userId))
+          )
+        )
+      )
+    )
+  );
+
+  yield* jsonArray("reactions", await db.select().from(tezReactions).where(eq(tezReactions.userId, userId)));
+  yield* jsonArray("bookmarks", await db.select().from(tezBookmarks).where(eq(tezBookmarks.userId, userId)));
+  yield* jsonArray("actions", await db.select().from(tezActions).where(eq(tezActions.userId, userId)));
+  yield* jsonArray("audit", exportAudit([{ actorUserId: userId }]));
+  yield "}";
+}
+
+/**
+ * Write a user's archive to `path` (via a temp file, so a failed build
+ * leaves nothing behind). Returns its size in bytes.
+ */
+async function writeArchive(userId: string, path: string): Promise<number> {
+  const tmp = `${path}.${randomUUID()}.tmp`;
+  await mkdir(join(config.dataDir, "exports"), { recursive: true });
+  try {
+    await pipeline(Readable.from(archiveChunks(userId)), createGzip(), createWriteStream(tmp));
+    await rename(tmp, path);
+  } catch (err) {
+    await rm(tmp, { force: true });
+    throw err;
+  }
+  return (await stat(path)).size;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queue
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Claim pending jobs, and running jobs whose worker stopped renewing.
+ */
+async function claimJobs(): Promise<DataExport[]> {
+  const now = new Date().toISOString();
+  const claimable = or(
+    eq(dataExports.status, "pending"),
+    and(eq(dataExports.status, "running"), or(isNull(dataExports.leaseExpiresAt), lt(dataExports.leaseExpiresAt, now)))
+  );
+
+  const due = db
+    .select({ id: dataExports.id })
+    .from(dataExports)
+    .where(claimable)
+    .orderBy(asc(dataExports.createdAt))
+    .limit(CLAIM_BATCH_SIZE);
+
+  return db
+    .update(dataExports)
+    .set({ status: "running", leaseExpiresAt: new Date(Date.now() + LEASE_MS).toISOString() })
+    .where(and(inArray(dataExports.id, due), claimable))
+    .returning();
+}
+
+/**
+ * Keep a claimed job's lease alive while it builds. Returns a function
+ * that stops renewing and resolves to the lease the job holds now, or
+ * null if another worker has taken it over.
+ */
+function holdLease(job: DataExport): () => Promise<string | null> {
+  let lease = job.leaseExpiresAt;
+  let renewing = Promise.resolve();
+
+  const timer = setInterval(() => {
+    renewing = renewing
+      .then(async () => {
+        if (!lease) return;
+        const next = new Date(Date.now() + LEASE_MS).toISOString();
+        const renewed = await db
+          .update(dataExports)
+          .set({ leaseExpiresAt: next })
+          .where(and(eq(dataExports.id, job.id), eq(dataExports.leaseExpiresAt, lease)))
+          .returning({ id: dataExports.id });
+        lease = renewed.length > 0 ? next : null;
+      })
+      .catch((err) => console.error(`Data export ${job.id} lease renewal failed:`, err));
+  }, LEASE_RENEW_MS);
+  timer.unref();
+
+  return async () => {
+    clearInterval(timer);
+    await renewing;
+    return lease;
+  };
+}
+
+/**
+ * Build a claimed job and record the outcome, unless another worker took
+ * the job over meanwhile. Returns the updated job, or null in that case.
+ */
+async function buildExport(job: DataExport): Promise<DataExport | null> {
+  const release = holdLease(job);
+  let outcome: Partial<DataExport>;
+  try {
+    const sizeBytes = await writeArchive(job.userId, exportPath(job.id));
+    const completedAt = new Date();
+    outcome = {
+      status: "ready",
+      sizeBytes,
+      completedAt: completedAt.toISOString(),
+      expiresAt: new Date(completedAt.getTime() + config.exportTtlMs).toISOString(),
+    };
+  } catch (err) {
+    console.error(`Data export ${job.id} failed:`, err);
+    outcome = {
+      status: "failed",
+      error: err instanceof Error ? err.message : String(err),
+      completedAt: new Date().toISOString(),
+    };
+  }
+
+  const lease = await release();
+  if (!lease) return null;
+  const [updated] = await db
+    .update(dataExports)
+    .set({ ...outcome, leaseExpiresAt: null })
+    .where(and(eq(dataExports.id, job.id), eq(dataExports.leaseExpiresAt, lease)))
+    .returning();
+  return updated ?? null;
+}
+
+/**
+ * Delete archives past their expiry. Returns the number removed.
+ */
+async function expireExports(): Promise<number> {
+  const expired = await db
+    .update(dataExports)
+    .set({ status: "expired" })
+    .where(and(eq(dataExports.status, "ready"), lt(dataExports.expiresAt, new Date().toISOString())))
+    .returning({ id: dataExports.id });
+
+  for (const { id } of expired) {
+    await rm(exportPath(id), { force: true });
+  }
+  return expired.length;
+}
+
+/**
+ * Expire old archives, then build claimed jobs. Called periodically by the
+ * export worker. Returns the number of jobs built.
+ */
+export async function processExportQueue(): Promise<number> {
+  await expireExports();
+
+  const claimed = await claimJobs();
+  for (const job of claimed) {
+    await buildExport(job);
+  }
+  return claimed.length;
+}
+
+/**
+ * A user's exports, newest first.
+ */
+export async function listExports(userId: string): Promise<DataExport[]> {
+  return db
+    .select()
+    .from(dataExports)
+    .where(eq(dataExports.userId, userId))
+    .orderBy(desc(dataExports.createdAt))
+    .limit(20);
+}
@@ -13,6 +13,7 @@ export interface RemoteServerInfo {
   serverId: string;
   publicKey: string;
   federationInbox: string;
+  federationArtifacts?: string; // artifact fetch endpoint; older servers omit it
   protocolVersion: string;
   profiles: string[];
   cachedAt: Date;
@@ -50,6 +51,7 @@ async function fetchWellKnown(host: string): Promise<RemoteServerInfo> {
     serverId: data.server_id,
     publicKey: data.public_key,
     federationInbox: data.federation.inbox,
+    federationArtifacts: data.federation.artifacts,
     protocolVersion: data.protocol_version || "1.0.0",
     profiles: data.profiles || [],
     cachedAt: new Date(),
@@ -77,6 +79,7 @@ async function loadFromDb(host: string): Promise<RemoteServerInfo | null> {
       serverId: row.serverId,
       publicKey: row.publicKey,
       federationInbox: metadata.federationInbox || `/federation/inbox`,
+      federationArtifacts: metadata.federationArtifacts,
       protocolVersion: row.protocolVersion || "1.0.0",
       profiles: metadata.profiles || [],
       cachedAt: new Date(row.lastSeenAt || row.firstSeenAt),
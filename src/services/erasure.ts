@@ -0,0 +1,279 @@
+/**
+ * Erasure — removing a user's personal data from the relay.
+ *
+ * Threads must survive for everyone else, so the user's Tez stay (as
+ * sent, without their context) under a stable pseudonym instead of their
+ * userId. Everything else about them goes: profile, memberships,
+ * deliveries, reactions, bookmarks, action items and data exports. Teams
+ * they owned pass to another member. Remote servers that received their
+ * Tez are asked to delete their copies.
+ *
+ * Artifacts they uploaded are released from teams where no remaining
+ * context uses them, and their bytes deleted once nothing holds them.
+ *
+ * Audit entries they made are kept as recorded: rewriting them would
+ * break the hash chain. Team retention policies expire them.
+ *
+ * Every row is rewritten in one batch, so a failure part way leaves the
+ * user as they were; blob and export files go after it commits.
+ */
+
+import { createHmac } from "crypto";
+import { rm } from "fs/promises";
+import { eq, and, or, ne, not, asc, desc, inArray } from "drizzle-orm";
+import {
+  db,
+  tez,
+  tezContext,
+  tezRevisions,
+  tezRecipients,
+  tezReactions,
+  tezPins,
+  tezBookmarks,
+  tezActions,
+  teams,
+  teamMembers,
+  teamInvites,
+  teamBlobs,
+  conversations,
+  conversationMembers,
+  contacts,
+  federationOutbox,
+  tezEvents,
+  dataExports,
+  auditLog,
+} from "../db/index.js";
+import { config } from "../config.js";
+import { recordAudit } from "./audit.js";
+import { publishMembershipRemoved } from "./events.js";
+import { routeDeletionToFederation } from "./federationOutbound.js";
+import { exportPath } from "./dataExport.js";
+import { purgeUnusedBlob } from "./artifacts.js";
+
+export interface ErasureReport {
+  erasedAs: string; // the pseudonym now standing in for the user
+  tezPseudonymized: number;
+  contextDeleted: number;
+  recipientRowsDeleted: number;
+  teamsLeft: string[];
+  teamsTransferred: string[]; // owned teams handed to another member
+  conversationsLeft: string[];
+  federatedDeletions: number; // deletion requests queued, one per Tez per remote server
+}
+
+/**
+ * The stable pseudonym for an erased user. Keyed with the server secret,
+ * so it cannot be reversed by hashing guessed userIds.
+ */
+export function erasedUserId(userId: string): string {
+  return `erased-${createHmac("sha256", config.jwtSecret).update(`erasure:${userId}`).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * The member to hand a team the user owns to: its longest-standing
+ * remaining admin, or failing that its longest-standing member (to be
+ * promoted). Null if nobody is left.
+ */
+async function successorFor(teamId: string, userId: string): Promise<{ userId: string; role: string } | null> {
+  const successors = await db
+    .select({ userId: teamMembers.userId, role: teamMembers.role })
+    .from(teamMembers)
+    .where(and(eq(teamMembers.teamId, teamId), ne(teamMembers.userId, userId)))
+    .orderBy(desc(eq(teamMembers.role, "admin")), asc(teamMembers.joinedAt))
+    .limit(1);
+  return successors[0] ?? null;
+}
+
+/**
+ * Whether the relay knows anything about a user, or erased them before.
+ */
+async function isKnownUser(userId: string, pseudonym: string): Promise<boolean> {
+  const traces = await Promise.all([
+    db.select({ id: contacts.id }).from(contacts).where(eq(contacts.id, userId)).limit(1),
+    db.select({ id: tez.id }).from(tez).where(eq(tez.senderUserId, userId)).limit(1),
+    db.select({ id: tezRecipients.tezId }).from(tezRecipients).where(eq(tezRecipients.userId, userId)).limit(1),
+    db.select({ id: teamMembers.teamId }).from(teamMembers).where(eq(teamMembers.userId, userId)).limit(1),
+    db
+      .select({ id: conversationMembers.conversationId })
+      .from(conversationMembers)
+      .where(eq(conversationMembers.userId, userId))
+      .limit(1),
+    db.select({ id: teamBlobs.sha256 }).from(teamBlobs).where(eq(teamBlobs.uploadedBy, userId)).limit(1),
+    db
+      .select({ id: auditLog.id })
+      .from(auditLog)
+      .where(and(eq(auditLog.action, "user.erased"), eq(auditLog.targetId, pseudonym)))
+      .limit(1),
+  ]);
+  return traces.some((rows) => rows.length > 0);
+}
+
+/**
+ * Erase a user. Idempotent: erasing again finds nothing left to remove.
+ * Throws with code NOT_FOUND for a user the relay has never seen.
+ */
+export async function eraseUser(userId: string, erasedBy: string): Promise<ErasureReport> {
+  const pseudonym = erasedUserId(userId);
+
+  if (!(await isKnownUser(userId, pseudonym))) {
+    const err = new Error("Unknown user");
+    (err as NodeJS.ErrnoException).code = "NOT_FOUND";
+    throw err;
+  }
+
+  // Remote copies were delivered from this address; look it up before the profile goes
+  const [contact] = await db.select().from(contacts).where(eq(contacts.id, userId)).limit(1);
+  const senderAddress = contact?.tezAddress || `${userId}@${config.relayHost}`;
+
+  const sent = await db.select().from(tez).where(eq(tez.senderUserId, userId));
+  const sentIds = sent.map((t) => t.id);
+
+  // Their own context, plus everything on the Tez they sent
+  const ownContext = eq(tezContext.createdBy, userId);
+  const contextGoing =
+    or(ownContext, sentIds.length > 0 ? inArray(tezContext.tezId, sentIds) : undefined) ?? ownContext;
+  const context = await db.select({ id: tezContext.id }).from(tezContext).where(contextGoing);
+
+  const recipients = await db
+    .select({ tezId: tezRecipients.tezId })
+    .from(tezRecipients)
+    .where(eq(tezRecipients.userId, userId));
+
+  const memberships = await db
+    .select({ teamId: teamMembers.teamId })
+    .from(teamMembers)
+    .where(eq(teamMembers.userId, userId));
+  const transfers: Array<{ teamId: string; to: { userId: string; role: string } }> = [];
+  for (const { teamId } of memberships) {
+    const [team] = await db.select().from(teams).where(eq(teams.id, teamId)).limit(1);
+    if ((team.ownerId ?? team.createdBy) !== userId) continue;
+
+    const successor = await successorFor(teamId, userId);
+    if (successor) transfers.push({ teamId, to: successor });
+  }
+
+  const conversationMemberships = await db
+    .select({ conversationId: conversationMembers.conversationId })
+    .from(conversationMembers)
+    .where(eq(conversationMembers.userId, userId));
+
+  const exports = await db.select({ id: dataExports.id }).from(dataExports).where(eq(dataExports.userId, userId));
+
+  // Uploads no context outside what is being deleted uses in their team
+  const uploads = await db
+    .select({ teamId: teamBlobs.teamId, sha256: teamBlobs.sha256 })
+    .from(teamBlobs)
+    .where(eq(teamBlobs.uploadedBy, userId));
+  const unusedUploads: typeof uploads = [];
+  for (const upload of uploads) {
+    const used = await db
+      .select({ id: tezContext.id })
+      .from(tezContext)
+      .innerJoin(tez, eq(tez.id, tezContext.tezId))
+      .where(and(eq(tez.teamId, upload.teamId), eq(tezContext.blobSha256, upload.sha256), not(contextGoing)))
+      .limit(1);
+    if (used.length === 0) unusedUploads.push(upload);
+  }
+
+  const now = new Date().toISOString();
+  await db.batch([
+    // ── Tez: keep the rows, drop context and copies of it, pseudonymize ──
+    db.delete(tezContext).where(contextGoing),
+    ...(sentIds.length > 0
+      ? [
+          db.delete(tezRevisions).where(inArray(tezRevisions.tezId, sentIds)),
+          // Queued and delivered bundles carry the content too
+          db.delete(federationOutbox).where(inArray(federationOutbox.tezId, sentIds)),
+        ]
+      : []),
+    db.update(tezRevisions).set({ editedBy: pseudonym }).where(eq(tezRevisions.editedBy, userId)),
+    db.update(tez).set({ senderUserId: pseudonym, updatedAt: now }).where(eq(tez.senderUserId, userId)),
+
+    // ── What they received and did to other Tez ──
+    db.delete(tezRecipients).where(eq(tezRecipients.userId, userId)),
+    db.delete(tezReactions).where(eq(tezReactions.userId, userId)),
+    db.delete(tezBookmarks).where(eq(tezBookmarks.userId, userId)),
+    db.delete(tezActions).where(eq(tezActions.userId, userId)),
+    db.update(tezPins).set({ pinnedBy: pseudonym }).where(eq(tezPins.pinnedBy, userId)),
+    db.update(tezEvents).set({ actorUserId: pseudonym }).where(eq(tezEvents.actorUserId, userId)),
+
+    // ── Teams ──
+    ...transfers.flatMap(({ teamId, to }) => [
+      db
+        .update(teamMembers)
+        .set({ role: "admin" })
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, to.userId))),
+      db.update(teams).set({ ownerId: to.userId, updatedAt: now }).where(eq(teams.id, teamId)),
+    ]),
+    db.delete(teamMembers).where(eq(teamMembers.userId, userId)),
+    db.update(teams).set({ createdBy: pseudonym }).where(eq(teams.createdBy, userId)),
+    db.update(teams).set({ ownerId: pseudonym }).where(eq(teams.ownerId, userId)),
+    db.update(teamInvites).set({ createdBy: pseudonym }).where(eq(teamInvites.createdBy, userId)),
+    ...unusedUploads.map((upload) =>
+      db.delete(teamBlobs).where(and(eq(teamBlobs.teamId, upload.teamId), eq(teamBlobs.sha256, upload.sha256)))
+    ),
+    db.update(teamBlobs).set({ uploadedBy: pseudonym }).where(eq(teamBlobs.uploadedBy, userId)),
+
+    // ── Conversations ──
+    db.delete(conversationMembers).where(eq(conversationMembers.userId, userId)),
+    db.update(conversations).set({ createdBy: pseudonym }).where(eq(conversations.createdBy, userId)),
+
+    // ── Profile and exports ──
+    db.delete(dataExports).where(eq(dataExports.userId, userId)),
+    db.delete(contacts).where(eq(contacts.id, userId)),
+  ]);
+
+  for (const { id } of exports) {
+    await rm(exportPath(id), { force: true });
+  }
+  for (const sha256 of new Set(unusedUploads.map((upload) => upload.sha256))) {
+    await purgeUnusedBlob(sha256);
+  }
+
+  for (const { teamId, to } of transfers) {
+    await recordAudit({
+      teamId,
+      actorUserId: erasedBy,
+      action: "team.ownership_transferred",
+      targetType: "team",
+      targetId: teamId,
+      metadata: { from: pseudonym, to: to.userId, reason: "erasure" },
+    });
+  }
+
+  // Live subscriptions re-check their ACLs
+  for (const { teamId } of memberships) {
+    publishMembershipRemoved({ scope: "team", scopeId: teamId, userId });
+  }
+  for (const { conversationId } of conversationMemberships) {
+    publishMembershipRemoved({ scope: "conversation", scopeId: conversationId, userId });
+  }
+
+  // ── Remote copies ──
+  // Queued in the outbox, so an unreachable server is retried like any delivery
+  let federatedDeletions = 0;
+  for (const theTez of sent) {
+    federatedDeletions += await routeDeletionToFederation({ tezId: theTez.id, tez: theTez, senderAddress });
+  }
+
+  const report: ErasureReport = {
+    erasedAs: pseudonym,
+    tezPseudonymized: sent.length,
+    contextDeleted: context.length,
+    recipientRowsDeleted: recipients.length,
+    teamsLeft: memberships.map((m) => m.teamId),
+    teamsTransferred: transfers.map((t) => t.teamId),
+    conversationsLeft: conversationMemberships.map((m) => m.conversationId),
+    federatedDeletions,
+  };
+
+  await recordAudit({
+    actorUserId: erasedBy,
+    action: "user.erased",
+    targetType: "user",
+    targetId: pseudonym,
+    metadata: { ...report },
+  });
+
+  return report;
+}
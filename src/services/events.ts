@@ -0,0 +1,146 @@
+/**
+ * Event service — ordered log of Tez deliveries for real-time streams.
+ *
+ * Every new Tez is appended to tez_events (monotonic id) and then
+ * announced in-process. Streams never trust the announcement itself:
+ * they re-read the log from their last sent id, so ordering holds and a
+ * reconnecting client can resume from Last-Event-ID without gaps.
+ */
+
+import { EventEmitter } from "events";
+import { eq, gt, asc, desc } from "drizzle-orm";
+import { db, tez, tezEvents } from "../db/index.js";
+import { canAccessTez } from "./acl.js";
+
+export type TezEventType =
+  | "tez.shared"
+  | "tez.replied"
+  | "tez.read"
+  | "tez.acknowledged"
+  | "tez.edited"
+  | "tez.reacted"
+  | "tez.action_updated"
+  | "conversation.message_sent"
+  | "federation.received";
+
+/**
+ * Event types that deliver content — a new Tez, or an amended one — as
+ * opposed to activity on one.
+ */
+export const DELIVERY_EVENT_TYPES: ReadonlySet<string> = new Set<TezEventType>([
+  "tez.shared",
+  "tez.replied",
+  "tez.edited",
+  "conversation.message_sent",
+  "federation.received",
+]);
+
+/**
+ * A user lost membership of a team or conversation. Not persisted —
+ * live subscribers use it to re-check their ACLs.
+ */
+export interface MembershipRemoval {
+  scope: "team" | "conversation";
+  scopeId: string;
+  userId: string;
+}
+
+export type TezEvent = typeof tezEvents.$inferSelect;
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0); // one listener per open stream
+
+/**
+ * Append an event to the log and wake up connected streams.
+ */
+export async function publishTezEvent(entry: {
+  type: TezEventType;
+  tezId: string;
+  teamId?: string | null;
+  conversationId?: string | null;
+  threadId?: string | null;
+  actorUserId: string;
+}): Promise<TezEvent> {
+  const [event] = await db
+    .insert(tezEvents)
+    .values({
+      type: entry.type,
+      tezId: entry.tezId,
+      teamId: entry.teamId ?? null,
+      conversationId: entry.conversationId ?? null,
+      threadId: entry.threadId ?? null,
+      actorUserId: entry.actorUserId,
+      createdAt: new Date().toISOString(),
+    })
+    .returning();
+
+  bus.emit("event", event);
+  return event;
+}
+
+/**
+ * Events with an id greater than `afterId`, oldest first.
+ */
+export async function listTezEventsSince(afterId: number, limit = 100): Promise<TezEvent[]> {
+  return db
+    .select()
+    .from(tezEvents)
+    .where(gt(tezEvents.id, afterId))
+    .orderBy(asc(tezEvents.id))
+    .limit(limit);
+}
+
+/**
+ * The id of the newest event, or 0 if the log is empty.
+ */
+export async function latestTezEventId(): Promise<number> {
+  const rows = await db
+    .select({ id: tezEvents.id })
+    .from(tezEvents)
+    .orderBy(desc(tezEvents.id))
+    .limit(1);
+  return rows[0]?.id ?? 0;
+}
+
+/**
+ * Listen for newly published events. Returns an unsubscribe function.
+ */
+export function subscribeTezEvents(listener: (event: TezEvent) => void): () => void {
+  bus.on("event", listener);
+  return () => {
+    bus.off("event", listener);
+  };
+}
+
+/**
+ * Announce that a user was removed from a team or conversation.
+ */
+export function publishMembershipRemoved(change: MembershipRemoval): void {
+  bus.emit("membership.removed", change);
+}
+
+/**
+ * Listen for membership removals. Returns an unsubscribe function.
+ */
+export function subscribeMembershipRemovals(
+  listener: (change: MembershipRemoval) => void
+): () => void {
+  bus.on("membership.removed", listener);
+  return () => {
+    bus.off("membership.removed", listener);
+  };
+}
+
+/**
+ * Resolve an event for a particular user: returns the Tez it refers to if
+ * the user can access it, or null if they must not see it.
+ */
+export async function resolveEventForUser(
+  userId: string,
+  event: TezEvent
+): Promise<typeof tez.$inferSelect | null> {
+  const rows = await db.select().from(tez).where(eq(tez.id, event.tezId)).limit(1);
+  if (rows.length === 0 || rows[0].status === "deleted") return null;
+
+  return (await canAccessTez(userId, rows[0])) ? rows[0] : null;
+}
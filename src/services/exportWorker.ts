@@ -0,0 +1,30 @@
+/**
+ * Export worker — builds queued personal data exports and removes
+ * archives past their expiry.
+ */
+
+import { config } from "../config.js";
+import { processExportQueue } from "./dataExport.js";
+
+/**
+ * Start the worker. Returns a function that stops it.
+ */
+export function startExportWorker(): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const built = await processExportQueue();
+      if (built > 0) console.log(`Exports: built ${built} archives`);
+    } catch (err) {
+      console.error("Export worker error:", err);
+    } finally {
+      running = false;
+    }
+  }, config.exportWorkerIntervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
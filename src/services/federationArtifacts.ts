@@ -0,0 +1,152 @@
+/**
+ * Federated artifacts — moving blob bytes between relays by reference.
+ *
+ * Bundles carry an ArtifactRef (sha256, size, mimeType) instead of the
+ * bytes. While delivering, the origin grants the target server access to
+ * exactly the blobs in that bundle; the target pulls them with a signed
+ * GET and checks the hash before the Tez is stored.
+ *
+ * The pull happens while the origin waits for the inbox response, so the
+ * timings nest: the receiver spends at most ARTIFACT_FETCH_BUDGET_MS on a
+ * bundle's artifacts, the origin waits that long on top of its usual
+ * inbox timeout, and its delivery lease (which is the grant) outlasts both.
+ */
+
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { eq, and, gt, like, or } from "drizzle-orm";
+import { db, blobs, federationOutbox } from "../db/index.js";
+import { config } from "../config.js";
+import { getIdentity } from "./identity.js";
+import { signRequest } from "./httpSignature.js";
+import { discoverServer } from "./discovery.js";
+import { writeBlob, deleteBlob } from "./blobStore.js";
+import { blobAccessFor } from "./artifacts.js";
+import type { ArtifactRef, FederationBundle } from "./federationBundle.js";
+
+const DEFAULT_ARTIFACTS_PATH = "/federation/artifacts";
+
+// Total time a receiver spends pulling one bundle's artifacts
+export const ARTIFACT_FETCH_BUDGET_MS = 75_000;
+
+function artifactError(code: string, message: string): Error {
+  const err = new Error(message);
+  (err as NodeJS.ErrnoException).code = code;
+  return err;
+}
+
+/**
+ * Whether `host` may fetch a blob from us: only while one of our deliveries
+ * to that host is in flight (leased) and its bundle references the blob.
+ * The grant ends with the lease, so fetch URLs are useless afterwards.
+ */
+export async function artifactGrantedTo(host: string, sha256: string): Promise<boolean> {
+  const now = new Date().toISOString();
+  const entries = await db
+    .select({ bundle: federationOutbox.bundle })
+    .from(federationOutbox)
+    .where(
+      and(
+        eq(federationOutbox.targetHost, host),
+        or(eq(federationOutbox.status, "pending"), eq(federationOutbox.status, "failed")),
+        gt(federationOutbox.leaseExpiresAt, now),
+        like(federationOutbox.bundle, `%${sha256}%`)
+      )
+    );
+
+  return entries.some((entry) => {
+    const bundle = JSON.parse(entry.bundle) as FederationBundle;
+    return bundle.context.some((ctx) => ctx.artifact?.sha256 === sha256);
+  });
+}
+
+/**
+ * Pull one artifact from the origin server and verify it.
+ */
+async function fetchArtifact(originHost: string, ref: ArtifactRef, signal: AbortSignal): Promise<void> {
+  const identity = getIdentity();
+  const remote = await discoverServer(originHost);
+  const path = `${remote.federationArtifacts ?? DEFAULT_ARTIFACTS_PATH}/${ref.sha256}`;
+
+  const signedHeaders = signRequest({
+    method: "GET",
+    path,
+    host: originHost,
+    body: "",
+    privateKeyPem: identity.privateKeyPem,
+    keyId: identity.serverId,
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(`https://${originHost}${path}`, {
+      headers: { ...signedHeaders },
+      signal,
+    });
+  } catch (err) {
+    throw artifactError("ARTIFACT_UNAVAILABLE", `Fetching artifact ${ref.sha256} failed: ${(err as Error).message}`);
+  }
+
+  if (!response.ok || !response.body) {
+    throw artifactError("ARTIFACT_UNAVAILABLE", `Fetching artifact ${ref.sha256} failed: HTTP ${response.status}`);
+  }
+
+  let stored: { sha256: string; size: number };
+  try {
+    stored = await writeBlob(
+      Readable.fromWeb(response.body as unknown as WebReadableStream<Uint8Array>),
+      ref.size
+    );
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "TOO_LARGE") {
+      throw artifactError("ARTIFACT_MISMATCH", `Artifact ${ref.sha256} is larger than declared`);
+    }
+    throw artifactError("ARTIFACT_UNAVAILABLE", `Fetching artifact ${ref.sha256} failed: ${(err as Error).message}`);
+  }
+
+  if (stored.sha256 !== ref.sha256 || stored.size !== ref.size) {
+    // Keep the bytes only if they happen to be a blob we already hold
+    const known = await db.select().from(blobs).where(eq(blobs.sha256, stored.sha256)).limit(1);
+    if (known.length === 0) await deleteBlob(stored.sha256);
+    throw artifactError("ARTIFACT_MISMATCH", `Artifact ${ref.sha256} does not match its hash`);
+  }
+
+  await db
+    .insert(blobs)
+    .values({ sha256: ref.sha256, size: ref.size, createdAt: new Date().toISOString() })
+    .onConflictDoNothing();
+}
+
+/**
+ * Make sure every artifact referenced by a received bundle is stored
+ * locally, fetching it from the sending server. The bytes are pulled and
+ * verified even if we already hold a blob with that hash: a peer that only
+ * knows a hash must not gain access to it. The fetch is skipped only when
+ * every local recipient can already read the blob. Throws with code
+ * ARTIFACT_TOO_LARGE, ARTIFACT_MISMATCH (both final) or
+ * ARTIFACT_UNAVAILABLE (the sender should retry later).
+ */
+export async function fetchBundleArtifacts(
+  bundle: FederationBundle,
+  senderHost: string,
+  recipientUserIds: string[]
+): Promise<void> {
+  const refs = new Map<string, ArtifactRef>();
+  for (const ctx of bundle.context) {
+    if (ctx.artifact) refs.set(ctx.artifact.sha256, ctx.artifact);
+  }
+
+  const signal = AbortSignal.timeout(ARTIFACT_FETCH_BUDGET_MS);
+  for (const ref of refs.values()) {
+    if (ref.size > config.maxBlobSizeBytes) {
+      throw artifactError("ARTIFACT_TOO_LARGE", `Artifact ${ref.sha256} exceeds ${config.maxBlobSizeBytes} bytes`);
+    }
+
+    if (recipientUserIds.length > 0) {
+      const access = await Promise.all(recipientUserIds.map((userId) => blobAccessFor(userId, ref.sha256)));
+      if (access.every((granted) => granted !== null)) continue;
+    }
+
+    await fetchArtifact(senderHost, ref, signal);
+  }
+}
@@ -8,10 +8,30 @@
 import { createHash } from "crypto";
 import type { ServerIdentity } from "./identity.js";
 
+/**
+ * A binary artifact carried by reference. The receiving server pulls the
+ * bytes from the origin's artifact endpoint and checks them against this.
+ */
+export interface ArtifactRef {
+  sha256: string;
+  size: number;
+  mimeType: string;
+}
+
+/**
+ * A reaction to a Tez the receiving server originally sent us.
+ */
+export interface BundleReaction {
+  emoji: string;
+  action: "add" | "remove";
+}
+
 export interface FederationBundle {
   // Envelope
   protocol_version: string;
-  bundle_type: "federation_delivery";
+  // amendment = edit of a Tez delivered earlier; reaction = emoji on a Tez the receiver sent us;
+  // deletion = the sender asks the receiver to delete its copy of a Tez delivered earlier
+  bundle_type: "federation_delivery" | "federation_amendment" | "federation_reaction" | "federation_deletion";
   sender_server: string;
   sender_server_id: string;
 
@@ -37,7 +57,9 @@ export interface FederationBundle {
     mimeType: string | null;
     confidence: number | null;
     source: string | null;
+    artifact?: ArtifactRef; // artifact layer only; bytes are fetched, not inlined
   }>;
+  reaction?: BundleReaction; // federation_reaction only
 
   // Integrity
   bundle_hash: string;
@@ -45,15 +67,20 @@ export interface FederationBundle {
 }
 
 /**
- * Compute the canonical hash of a bundle's payload (tez + context).
- * Uses sorted-keys JSON for deterministic output.
+ * Compute the canonical hash of a bundle's payload (tez + context, and
+ * the reaction if there is one). Uses sorted-keys JSON for deterministic output.
  */
 export function computeBundleHash(
   tezData: FederationBundle["tez"],
-  context: FederationBundle["context"]
+  context: FederationBundle["context"],
+  reaction?: BundleReaction
 ): string {
   // Sort keys recursively for canonical JSON
-  const canonical = JSON.stringify({ context, tez: tezData });
+  const canonical = JSON.stringify(
+    reaction
+      ? { context, reaction: { action: reaction.action, emoji: reaction.emoji }, tez: tezData }
+      : { context, tez: tezData }
+  );
   return createHash("sha256").update(canonical, "utf-8").digest("hex");
 }
 
@@ -72,28 +99,25 @@ export function createBundle(params: {
     visibility: string;
     createdAt: string;
   };
-  context: Array<{
-    layer: string;
-    content: string;
-    mimeType: string | null;
-    confidence: number | null;
-    source: string | null;
-  }>;
+  context: FederationBundle["context"];
   from: string;
   to: string[];
   identity: ServerIdentity;
+  bundleType?: FederationBundle["bundle_type"];
+  reaction?: BundleReaction;
 }): FederationBundle {
-  const bundleHash = computeBundleHash(params.tez, params.context);
+  const bundleHash = computeBundleHash(params.tez, params.context, params.reaction);
 
   return {
     protocol_version: "1.2.4",
-    bundle_type: "federation_delivery",
+    bundle_type: params.bundleType ?? "federation_delivery",
     sender_server: params.identity.host,
     sender_server_id: params.identity.serverId,
     from: params.from,
     to: params.to,
     tez: params.tez,
     context: params.context,
+    ...(params.reaction ? { reaction: params.reaction } : {}),
     bundle_hash: bundleHash,
     signed_at: new Date().toISOString(),
   };
@@ -111,7 +135,12 @@ export function validateBundle(bundle: unknown): string | null {
 
   const b = bundle as Record<string, unknown>;
 
-  if (b.bundle_type !== "federation_delivery") {
+  if (
+    b.bundle_type !== "federation_delivery" &&
+    b.bundle_type !== "federation_amendment" &&
+    b.bundle_type !== "federation_reaction" &&
+    b.bundle_type !== "federation_deletion"
+  ) {
     return `Invalid bundle_type: ${b.bundle_type}`;
   }
 
@@ -135,8 +164,9 @@ export function validateBundle(bundle: unknown): string | null {
     return "Missing tez payload";
   }
 
+  // Deletions identify the Tez but carry none of its content
   const tezData = b.tez as Record<string, unknown>;
-  if (!tezData.id || !tezData.surfaceText || !tezData.createdAt) {
+  if (!tezData.id || (!tezData.surfaceText && b.bundle_type !== "federation_deletion") || !tezData.createdAt) {
     return "Missing required tez fields (id, surfaceText, createdAt)";
   }
 
@@ -144,6 +174,36 @@ export function validateBundle(bundle: unknown): string | null {
     return "Missing context array";
   }
 
+  for (const item of b.context as Array<Record<string, unknown>>) {
+    if (item?.artifact === undefined) continue;
+    const ref = item.artifact as Record<string, unknown> | null;
+    if (
+      !ref ||
+      typeof ref.sha256 !== "string" ||
+      !/^[0-9a-f]{64}$/.test(ref.sha256) ||
+      typeof ref.size !== "number" ||
+      !Number.isInteger(ref.size) ||
+      ref.size < 0 ||
+      typeof ref.mimeType !== "string"
+    ) {
+      return "Invalid artifact reference (sha256, size, mimeType)";
+    }
+  }
+
+  const reaction = b.reaction as Record<string, unknown> | undefined;
+  if (b.bundle_type === "federation_reaction") {
+    if (
+      !reaction ||
+      typeof reaction.emoji !== "string" ||
+      reaction.emoji.length === 0 ||
+      (reaction.action !== "add" && reaction.action !== "remove")
+    ) {
+      return "Invalid reaction (emoji, action)";
+    }
+  } else if (reaction !== undefined) {
+    return "Only federation_reaction bundles carry a reaction";
+  }
+
   if (!b.bundle_hash || typeof b.bundle_hash !== "string") {
     return "Missing bundle_hash";
   }
@@ -151,7 +211,8 @@ export function validateBundle(bundle: unknown): string | null {
   // Verify hash integrity
   const expectedHash = computeBundleHash(
     b.tez as FederationBundle["tez"],
-    b.context as FederationBundle["context"]
+    b.context as FederationBundle["context"],
+    reaction as BundleReaction | undefined
   );
   if (b.bundle_hash !== expectedHash) {
     return "Bundle hash mismatch — payload may have been tampered with";
@@ -4,13 +4,20 @@
  * When a Tez is shared and recipients include remote addresses,
  * this service groups by host, creates bundles, signs requests,
  * and manages the delivery queue with retry logic.
+ *
+ * Entries are claimed with a time-limited lease before delivery, so any
+ * number of relay processes sharing one database can drain the outbox
+ * without delivering the same entry twice.
  */
 
 import { randomUUID } from "crypto";
-import { eq, and, lte } from "drizzle-orm";
+import { hostname } from "os";
+import { eq, and, lte, lt, or, isNull, inArray, asc } from "drizzle-orm";
 import {
   db,
+  tez as tezTable,
   tezContext as tezContextTable,
+  blobs,
   federationOutbox,
   federatedTez,
   federatedServers,
@@ -18,19 +25,39 @@ import {
 import { config } from "../config.js";
 import { getIdentity, type ServerIdentity } from "./identity.js";
 import { signRequest } from "./httpSignature.js";
-import { createBundle } from "./federationBundle.js";
+import { createBundle, type BundleReaction, type FederationBundle } from "./federationBundle.js";
 import { discoverServer } from "./discovery.js";
 import { recordAudit } from "./audit.js";
+import { ARTIFACT_FETCH_BUDGET_MS } from "./federationArtifacts.js";
+
+// Backoff: exponential from 1 min, capped at 12h, with jitter
+const RETRY_BASE_MS = 60_000;
+const RETRY_MAX_MS = 12 * 60 * 60_000;
+
+// How long the remote inbox gets to answer; bundles with artifacts also
+// get the receiver's artifact fetch budget
+const INBOX_TIMEOUT_MS = 30_000;
+
+// A claimed entry is ours until the lease expires (covers discovery + send
+// timeouts). The lease is also the artifact grant, so it must outlast the
+// receiver pulling artifacts.
+const LEASE_MS = 2 * 60_000;
+const CLAIM_BATCH_SIZE = 50;
 
-// Retry schedule: 1min, 5min, 30min, 2h, 12h
-const RETRY_DELAYS_MS = [
-  60_000,
-  5 * 60_000,
-  30 * 60_000,
-  2 * 60 * 60_000,
-  12 * 60 * 60_000,
-];
-const MAX_ATTEMPTS = RETRY_DELAYS_MS.length;
+/** Identifies this process as a lease holder. */
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+type OutboxEntry = typeof federationOutbox.$inferSelect;
+
+/**
+ * Delay before the next attempt: base * 2^(attempts-1), capped, then
+ * "equal jitter" (half fixed, half random) so retries from many entries
+ * to the same host spread out instead of arriving together.
+ */
+export function computeBackoffMs(attempts: number, random: () => number = Math.random): number {
+  const exp = Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+  return Math.round(exp / 2 + random() * (exp / 2));
+}
 
 /**
  * Determine which recipients are remote (different host than ours).
@@ -61,9 +88,52 @@ export function partitionRecipients(
   return { local, remote };
 }
 
+/**
+ * Remote addresses taking part in a thread — everyone a federated Tez in it
+ * came from or was sent to — grouped by host. Replies in the thread are
+ * delivered back to them. Empty for threads that never left this relay.
+ */
+export async function remoteThreadParticipants(
+  threadId: string,
+  localHost: string
+): Promise<Map<string, string[]>> {
+  const rows = await db
+    .select({ senderUserId: tezTable.senderUserId, remoteAddresses: federatedTez.remoteAddresses })
+    .from(federatedTez)
+    .innerJoin(tezTable, eq(tezTable.id, federatedTez.localTezId))
+    .where(eq(tezTable.threadId, threadId));
+
+  const addresses = new Set<string>();
+  for (const row of rows) {
+    // Inbound Tez keep the remote sender's address as senderUserId
+    addresses.add(row.senderUserId);
+    for (const addr of JSON.parse(row.remoteAddresses ?? "[]") as string[]) addresses.add(addr);
+  }
+
+  return partitionRecipients(Array.from(addresses), localHost).remote;
+}
+
+/**
+ * Remote addresses a local Tez was delivered to, grouped by host.
+ * Amendments to the Tez go to the same peers.
+ */
+export async function federatedPeersOf(tezId: string): Promise<Map<string, string[]>> {
+  const rows = await db
+    .select({ remoteHost: federatedTez.remoteHost, remoteAddresses: federatedTez.remoteAddresses })
+    .from(federatedTez)
+    .where(and(eq(federatedTez.localTezId, tezId), eq(federatedTez.direction, "outbound")));
+
+  const peers = new Map<string, string[]>();
+  for (const row of rows) {
+    const addresses = new Set([...(peers.get(row.remoteHost) ?? []), ...JSON.parse(row.remoteAddresses ?? "[]")]);
+    if (addresses.size > 0) peers.set(row.remoteHost, Array.from(addresses));
+  }
+  return peers;
+}
+
 /**
  * Route a Tez to remote servers for federation delivery.
- * Called after a local share when remote recipients are detected.
+ * Called after a local share or reply when remote recipients are detected.
  */
 export async function routeToFederation(params: {
   tezId: string;
@@ -80,27 +150,31 @@ export async function routeToFederation(params: {
   };
   senderAddress: string;
   remoteRecipients: Map<string, string[]>; // host → addresses
+  bundleType?: "federation_delivery" | "federation_amendment";
 }): Promise<void> {
   if (!config.federationEnabled) return;
 
   const identity = getIdentity();
 
-  // Fetch context for this tez
+  // Fetch context for this tez. Artifact blobs travel by reference:
+  // the remote pulls the bytes from GET /federation/artifacts/:sha256.
   const contextRows = await db
-    .select()
+    .select({ ctx: tezContextTable, blobSize: blobs.size })
     .from(tezContextTable)
+    .leftJoin(blobs, eq(blobs.sha256, tezContextTable.blobSha256))
     .where(eq(tezContextTable.tezId, params.tezId));
 
-  const context = contextRows.map((c) => ({
+  const context = contextRows.map(({ ctx: c, blobSize }) => ({
     layer: c.layer,
     content: c.content,
     mimeType: c.mimeType,
     confidence: c.confidence,
     source: c.source,
+    ...(c.blobSha256 && blobSize !== null
+      ? { artifact: { sha256: c.blobSha256, size: blobSize, mimeType: c.mimeType ?? "application/octet-stream" } }
+      : {}),
   }));
 
-  const now = new Date().toISOString();
-
   for (const [targetHost, addresses] of params.remoteRecipients) {
     const bundle = createBundle({
       tez: params.tez,
@@ -108,48 +182,181 @@ export async function routeToFederation(params: {
       from: params.senderAddress,
       to: addresses,
       identity,
+      bundleType: params.bundleType,
     });
 
-    // Insert into outbox
-    const outboxId = randomUUID();
-    await db.insert(federationOutbox).values({
-      id: outboxId,
-      tezId: params.tezId,
-      targetHost,
-      targetAddresses: JSON.stringify(addresses),
-      bundle: JSON.stringify(bundle),
-      status: "pending",
-      attempts: 0,
-      lastAttemptAt: null,
-      nextRetryAt: now,
-      createdAt: now,
-      deliveredAt: null,
-      error: null,
-    });
-
-    // Attempt immediate delivery
-    await processOutboxEntry(outboxId);
+    await enqueueBundle(params.tezId, targetHost, addresses, bundle);
   }
 }
 
 /**
- * Process a single outbox entry: attempt delivery to the remote server.
+ * Send a reaction to a Tez we received over federation back to the relay
+ * it came from. Does nothing for Tez that originated here.
  */
-async function processOutboxEntry(outboxId: string): Promise<void> {
-  const rows = await db
-    .select()
-    .from(federationOutbox)
-    .where(eq(federationOutbox.id, outboxId))
+export async function routeReactionToFederation(params: {
+  tezId: string;
+  reactorAddress: string;
+  reaction: BundleReaction;
+}): Promise<void> {
+  if (!config.federationEnabled) return;
+
+  const origin = await db
+    .select({ remoteHost: federatedTez.remoteHost, remoteTezId: federatedTez.remoteTezId })
+    .from(federatedTez)
+    .where(and(eq(federatedTez.localTezId, params.tezId), eq(federatedTez.direction, "inbound")))
     .limit(1);
+  if (origin.length === 0) return;
 
+  const rows = await db.select().from(tezTable).where(eq(tezTable.id, params.tezId)).limit(1);
   if (rows.length === 0) return;
+  const theTez = rows[0];
+
+  // Addressed in the origin's namespace: its Tez id, its sender
+  const bundle = createBundle({
+    tez: {
+      id: origin[0].remoteTezId,
+      threadId: null,
+      parentTezId: null,
+      surfaceText: theTez.surfaceText,
+      type: theTez.type,
+      urgency: theTez.urgency,
+      actionRequested: theTez.actionRequested,
+      visibility: theTez.visibility,
+      createdAt: theTez.createdAt,
+    },
+    context: [],
+    from: params.reactorAddress,
+    to: [theTez.senderUserId],
+    identity: getIdentity(),
+    bundleType: "federation_reaction",
+    reaction: params.reaction,
+  });
+
+  await enqueueBundle(params.tezId, origin[0].remoteHost, [theTez.senderUserId], bundle);
+}
+
+/**
+ * Ask every remote server that received a local Tez to delete its copy.
+ * `senderAddress` is the address the Tez was delivered from, which the
+ * receiver checks against its copy. Returns the number of servers asked.
+ */
+export async function routeDeletionToFederation(params: {
+  tezId: string;
+  tez: { type: string; urgency: string; visibility: string; createdAt: string };
+  senderAddress: string;
+}): Promise<number> {
+  if (!config.federationEnabled) return 0;
+
+  const peers = await federatedPeersOf(params.tezId);
+  for (const [targetHost, addresses] of peers) {
+    const bundle = createBundle({
+      tez: {
+        id: params.tezId,
+        threadId: null,
+        parentTezId: null,
+        surfaceText: "",
+        type: params.tez.type,
+        urgency: params.tez.urgency,
+        actionRequested: null,
+        visibility: params.tez.visibility,
+        createdAt: params.tez.createdAt,
+      },
+      context: [],
+      from: params.senderAddress,
+      to: addresses,
+      identity: getIdentity(),
+      bundleType: "federation_deletion",
+    });
+
+    await enqueueBundle(params.tezId, targetHost, addresses, bundle);
+  }
+  return peers.size;
+}
+
+/**
+ * Queue a bundle for one host and attempt immediate delivery.
+ */
+async function enqueueBundle(
+  tezId: string,
+  targetHost: string,
+  addresses: string[],
+  bundle: FederationBundle
+): Promise<void> {
+  const now = new Date().toISOString();
+  const outboxId = randomUUID();
+  await db.insert(federationOutbox).values({
+    id: outboxId,
+    tezId,
+    targetHost,
+    targetAddresses: JSON.stringify(addresses),
+    bundle: JSON.stringify(bundle),
+    status: "pending",
+    attempts: 0,
+    lastAttemptAt: null,
+    nextRetryAt: now,
+    createdAt: now,
+    deliveredAt: null,
+    error: null,
+  });
+
+  await processOutboxEntry(outboxId);
+}
+
+/**
+ * Error from a remote inbox. `permanent` means retrying cannot help
+ * (e.g. the remote rejected the bundle or does not trust us).
+ */
+class DeliveryError extends Error {
+  constructor(message: string, readonly permanent: boolean) {
+    super(message);
+  }
+}
+
+function isPermanentStatus(status: number): boolean {
+  // 4xx are final, except timeouts and rate limiting
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
 
-  const entry = rows[0];
-  if (entry.status === "delivered" || entry.status === "expired") return;
+/**
+ * Atomically claim due entries (pending, or failed with nextRetryAt passed)
+ * whose lease is free or expired. A single UPDATE … RETURNING statement,
+ * so concurrent workers can never claim the same row.
+ */
+async function claimDueEntries(params: { ids?: string[]; limit: number }): Promise<OutboxEntry[]> {
+  const now = new Date().toISOString();
+  const leaseExpiresAt = new Date(Date.now() + LEASE_MS).toISOString();
 
+  const due = db
+    .select({ id: federationOutbox.id })
+    .from(federationOutbox)
+    .where(
+      and(
+        inArray(federationOutbox.status, ["pending", "failed"]),
+        or(isNull(federationOutbox.nextRetryAt), lte(federationOutbox.nextRetryAt, now)),
+        or(isNull(federationOutbox.leaseExpiresAt), lt(federationOutbox.leaseExpiresAt, now)),
+        params.ids ? inArray(federationOutbox.id, params.ids) : undefined
+      )
+    )
+    .orderBy(asc(federationOutbox.nextRetryAt))
+    .limit(params.limit);
+
+  return db
+    .update(federationOutbox)
+    .set({ leaseOwner: WORKER_ID, leaseExpiresAt })
+    .where(inArray(federationOutbox.id, due))
+    .returning();
+}
+
+/**
+ * Attempt delivery of a claimed entry and record the outcome.
+ * Always releases the lease, and only while we still hold it.
+ */
+async function deliverEntry(entry: OutboxEntry): Promise<void> {
   const identity = getIdentity();
   const now = new Date().toISOString();
+  const ours = and(eq(federationOutbox.id, entry.id), eq(federationOutbox.leaseOwner, WORKER_ID));
 
+  let response: Response;
   try {
     // Discover remote server
     const remote = await discoverServer(entry.targetHost);
@@ -169,69 +376,43 @@ async function processOutboxEntry(outboxId: string): Promise<void> {
     });
 
     // Send to remote inbox
-    const response = await fetch(inboxUrl, {
+    const hasArtifacts = (JSON.parse(bundleBody) as FederationBundle).context?.some((ctx) => ctx.artifact) ?? false;
+    response = await fetch(inboxUrl, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         ...signedHeaders,
       },
       body: bundleBody,
-      signal: AbortSignal.timeout(30_000),
+      signal: AbortSignal.timeout(INBOX_TIMEOUT_MS + (hasArtifacts ? ARTIFACT_FETCH_BUDGET_MS : 0)),
     });
 
-    if (response.ok || response.status === 207) {
-      // Success
-      await db
-        .update(federationOutbox)
-        .set({
-          status: "delivered",
-          deliveredAt: now,
-          lastAttemptAt: now,
-          attempts: entry.attempts + 1,
-        })
-        .where(eq(federationOutbox.id, outboxId));
-
-      // Record federated_tez
-      const bundle = JSON.parse(entry.bundle);
-      await db.insert(federatedTez).values({
-        id: randomUUID(),
-        localTezId: entry.tezId,
-        remoteTezId: bundle.tez.id,
-        remoteHost: entry.targetHost,
-        direction: "outbound",
-        bundleHash: bundle.bundle_hash,
-        federatedAt: now,
-      });
-
-      await recordAudit({
-        actorUserId: bundle.from || "system",
-        action: "federation.sent",
-        targetType: "tez",
-        targetId: entry.tezId,
-        metadata: {
-          remoteHost: entry.targetHost,
-          recipientCount: JSON.parse(entry.targetAddresses).length,
-        },
-      });
-    } else {
+    if (!response.ok && response.status !== 207) {
       const errorText = await response.text().catch(() => "Unknown error");
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
+      throw new DeliveryError(`HTTP ${response.status}: ${errorText}`, isPermanentStatus(response.status));
     }
   } catch (err) {
     const attempts = entry.attempts + 1;
     const errorMsg = err instanceof Error ? err.message : String(err);
+    const permanent = err instanceof DeliveryError && err.permanent;
+
+    if (permanent || attempts >= config.federationMaxAttempts) {
+      // Dead-letter: no further retries
+      const expiredReason = permanent ? "rejected" : "max_attempts";
 
-    if (attempts >= MAX_ATTEMPTS) {
-      // Exhausted retries
       await db
         .update(federationOutbox)
         .set({
           status: "expired",
           attempts,
           lastAttemptAt: now,
+          nextRetryAt: null,
           error: errorMsg,
+          expiredReason,
+          leaseOwner: null,
+          leaseExpiresAt: null,
         })
-        .where(eq(federationOutbox.id, outboxId));
+        .where(ours);
 
       await recordAudit({
         actorUserId: "system",
@@ -241,13 +422,13 @@ async function processOutboxEntry(outboxId: string): Promise<void> {
         metadata: {
           remoteHost: entry.targetHost,
           attempts,
+          reason: expiredReason,
           lastError: errorMsg,
         },
       });
     } else {
       // Schedule retry
-      const delayMs = RETRY_DELAYS_MS[attempts - 1] || RETRY_DELAYS_MS[RETRY_DELAYS_MS.length - 1];
-      const nextRetry = new Date(Date.now() + delayMs).toISOString();
+      const nextRetry = new Date(Date.now() + computeBackoffMs(attempts)).toISOString();
 
       await db
         .update(federationOutbox)
@@ -257,42 +438,107 @@ async function processOutboxEntry(outboxId: string): Promise<void> {
           lastAttemptAt: now,
           nextRetryAt: nextRetry,
           error: errorMsg,
+          leaseOwner: null,
+          leaseExpiresAt: null,
         })
-        .where(eq(federationOutbox.id, outboxId));
+        .where(ours);
     }
+    return;
+  }
+
+  // Sent: mark it delivered before anything else can fail, so a bookkeeping
+  // error never puts the bundle back in the queue to be sent twice
+  const delivered = await db
+    .update(federationOutbox)
+    .set({
+      status: "delivered",
+      deliveredAt: now,
+      lastAttemptAt: now,
+      attempts: entry.attempts + 1,
+      error: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    })
+    .where(ours)
+    .returning({ id: federationOutbox.id });
+  // Our lease lapsed and another worker took the entry over: its outcome stands
+  if (delivered.length === 0) return;
+
+  // Record federated_tez. The remote reports the id it stored the Tez
+  // under, which is what its replies will reference as parent/thread.
+  // Amendments, reactions and deletions concern a Tez the remote already
+  // has, so there is nothing new to map.
+  const bundle = JSON.parse(entry.bundle);
+  if (
+    bundle.bundle_type !== "federation_amendment" &&
+    bundle.bundle_type !== "federation_reaction" &&
+    bundle.bundle_type !== "federation_deletion"
+  ) {
+    const result = (await response.json().catch(() => null)) as { localTezIds?: string[] } | null;
+    await db.insert(federatedTez).values({
+      id: randomUUID(),
+      localTezId: entry.tezId,
+      remoteTezId: result?.localTezIds?.[0] ?? bundle.tez.id,
+      remoteHost: entry.targetHost,
+      direction: "outbound",
+      bundleHash: bundle.bundle_hash,
+      remoteAddresses: entry.targetAddresses,
+      federatedAt: now,
+    });
   }
+
+  // A deletion is sent on behalf of an erased user: don't log their address again
+  await recordAudit({
+    actorUserId: bundle.bundle_type === "federation_deletion" ? "system" : bundle.from || "system",
+    action: "federation.sent",
+    targetType: "tez",
+    targetId: entry.tezId,
+    metadata: {
+      remoteHost: entry.targetHost,
+      recipientCount: JSON.parse(entry.targetAddresses).length,
+      bundleType: bundle.bundle_type,
+    },
+  });
 }
 
 /**
- * Process all pending/failed outbox entries that are due for retry.
- * Can be called periodically by a worker or cron.
+ * Process a single outbox entry: claim it, then attempt delivery.
+ * Does nothing if the entry is not due or another worker holds it.
  */
-export async function processOutboxQueue(): Promise<number> {
-  const now = new Date().toISOString();
-
-  const pending = await db
-    .select()
-    .from(federationOutbox)
-    .where(
-      and(
-        lte(federationOutbox.nextRetryAt, now),
-        eq(federationOutbox.status, "failed")
-      )
-    )
-    .limit(50);
-
-  // Also get fresh pending entries
-  const fresh = await db
-    .select()
-    .from(federationOutbox)
-    .where(eq(federationOutbox.status, "pending"))
-    .limit(50);
-
-  const all = [...pending, ...fresh];
+async function processOutboxEntry(outboxId: string): Promise<void> {
+  const [entry] = await claimDueEntries({ ids: [outboxId], limit: 1 });
+  if (entry) await deliverEntry(entry);
+}
 
-  for (const entry of all) {
-    await processOutboxEntry(entry.id);
+/**
+ * Run deliveries grouped by target host: hosts proceed in parallel, but
+ * each host sees at most `concurrency` requests at a time.
+ */
+async function deliverByHost(entries: OutboxEntry[], concurrency: number): Promise<void> {
+  const byHost = new Map<string, OutboxEntry[]>();
+  for (const entry of entries) {
+    byHost.set(entry.targetHost, [...(byHost.get(entry.targetHost) ?? []), entry]);
   }
 
-  return all.length;
+  await Promise.all(
+    Array.from(byHost.values()).map(async (queue) => {
+      const lanes = Array.from({ length: Math.max(1, concurrency) }, async () => {
+        for (let entry = queue.shift(); entry; entry = queue.shift()) {
+          await deliverEntry(entry);
+        }
+      });
+      await Promise.all(lanes);
+    })
+  );
+}
+
+/**
+ * Claim and process all pending/failed outbox entries that are due.
+ * Called periodically by the outbox worker; safe to run concurrently
+ * from several processes. Returns the number of entries attempted.
+ */
+export async function processOutboxQueue(): Promise<number> {
+  const claimed = await claimDueEntries({ limit: CLAIM_BATCH_SIZE });
+  await deliverByHost(claimed, config.federationHostConcurrency);
+  return claimed.length;
 }
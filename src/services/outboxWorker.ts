@@ -0,0 +1,34 @@
+/**
+ * Outbox worker — periodically drains the federation outbox.
+ *
+ * Immediate delivery happens at share time; this worker picks up retries
+ * that come due and anything left behind by a crash or restart. Several
+ * relay processes may run it at once: entries are leased, not locked.
+ */
+
+import { config } from "../config.js";
+import { processOutboxQueue } from "./federationOutbound.js";
+
+/**
+ * Start the worker. Returns a function that stops it.
+ */
+export function startOutboxWorker(): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow drain
+    if (running) return;
+    running = true;
+    try {
+      const processed = await processOutboxQueue();
+      if (processed > 0) console.log(`Federation outbox: processed ${processed} entries`);
+    } catch (err) {
+      console.error("Outbox worker error:", err);
+    } finally {
+      running = false;
+    }
+  }, config.federationWorkerIntervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
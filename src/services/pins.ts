@@ -0,0 +1,110 @@
+/**
+ * Pins — Tez pinned to the top of a team or conversation.
+ *
+ * A Tez is pinned where it lives (its team or its conversation), at most
+ * once. Every member of that scope sees the pins, so Tez that only some
+ * team members can see (DMs and private Tez inside a team) cannot be
+ * pinned to the team.
+ */
+
+import { eq, and, desc } from "drizzle-orm";
+import { db, tez, tezPins } from "../db/index.js";
+
+export type PinScope = { teamId: string } | { conversationId: string };
+
+export interface PinnedTez {
+  tezId: string;
+  pinnedBy: string;
+  pinnedAt: string;
+  tez: {
+    id: string;
+    surfaceText: string;
+    type: string;
+    urgency: string;
+    status: string;
+    senderUserId: string;
+    createdAt: string;
+  };
+}
+
+function pinError(code: string, message: string): Error {
+  const err = new Error(message);
+  (err as NodeJS.ErrnoException).code = code;
+  return err;
+}
+
+function scopeCondition(scope: PinScope) {
+  return "teamId" in scope ? eq(tezPins.teamId, scope.teamId) : eq(tezPins.conversationId, scope.conversationId);
+}
+
+/**
+ * Pin a Tez in its scope. Throws with code NOT_FOUND (no such Tez in the
+ * scope), NOT_PINNABLE (not visible to the whole team) or ALREADY_PINNED.
+ */
+export async function pinTez(scope: PinScope, tezId: string, pinnedBy: string): Promise<typeof tezPins.$inferSelect> {
+  const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+  const theTez = rows[0];
+  const inScope =
+    theTez &&
+    theTez.status !== "deleted" &&
+    ("teamId" in scope ? theTez.teamId === scope.teamId : theTez.conversationId === scope.conversationId);
+  if (!inScope) {
+    throw pinError("NOT_FOUND", "Tez not found here");
+  }
+
+  if ("teamId" in scope && theTez.visibility !== "team") {
+    throw pinError("NOT_PINNABLE", "Only team-visible Tez can be pinned to a team");
+  }
+
+  const pinned = await db
+    .insert(tezPins)
+    .values({
+      tezId,
+      teamId: "teamId" in scope ? scope.teamId : null,
+      conversationId: "conversationId" in scope ? scope.conversationId : null,
+      pinnedBy,
+      pinnedAt: new Date().toISOString(),
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (pinned.length === 0) {
+    throw pinError("ALREADY_PINNED", "Tez is already pinned");
+  }
+  return pinned[0];
+}
+
+/**
+ * Unpin a Tez. Returns false if it was not pinned in this scope.
+ */
+export async function unpinTez(scope: PinScope, tezId: string): Promise<boolean> {
+  const removed = await db
+    .delete(tezPins)
+    .where(and(eq(tezPins.tezId, tezId), scopeCondition(scope)))
+    .returning();
+  return removed.length > 0;
+}
+
+/**
+ * Pins of a scope, most recently pinned first.
+ */
+export async function listPins(scope: PinScope): Promise<PinnedTez[]> {
+  return db
+    .select({
+      tezId: tezPins.tezId,
+      pinnedBy: tezPins.pinnedBy,
+      pinnedAt: tezPins.pinnedAt,
+      tez: {
+        id: tez.id,
+        surfaceText: tez.surfaceText,
+        type: tez.type,
+        urgency: tez.urgency,
+        status: tez.status,
+        senderUserId: tez.senderUserId,
+        createdAt: tez.createdAt,
+      },
+    })
+    .from(tezPins)
+    .innerJoin(tez, eq(tez.id, tezPins.tezId))
+    .where(scopeCondition(scope))
+    .orderBy(desc(tezPins.pinnedAt));
+}
@@ -0,0 +1,80 @@
+/**
+ * Reactions — lightweight emoji responses to a Tez, without a reply.
+ *
+ * One row per (Tez, user, emoji), so reacting is idempotent. Listings
+ * show per-emoji counts rather than individual rows.
+ */
+
+import { eq, and, inArray, asc } from "drizzle-orm";
+import { db, tezReactions } from "../db/index.js";
+
+const MAX_EMOJI_LENGTH = 32;
+
+// Emoji sequences: pictographs, flags, keycaps, skin tones, ZWJ joins
+const EMOJI_SEQUENCE = /^[\p{Extended_Pictographic}\p{Emoji_Component}\u200d\ufe0f]+$/u;
+const EMOJI_BASE = /[\p{Extended_Pictographic}\p{Regional_Indicator}\u20e3]/u;
+
+export interface ReactionCount {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+}
+
+/**
+ * Whether `value` is a single emoji (or emoji sequence) usable as a reaction.
+ */
+export function isReactionEmoji(value: string): boolean {
+  return value.length <= MAX_EMOJI_LENGTH && EMOJI_SEQUENCE.test(value) && EMOJI_BASE.test(value);
+}
+
+/**
+ * Add a reaction. Returns false if the user had already reacted with it.
+ */
+export async function addReaction(tezId: string, userId: string, emoji: string): Promise<boolean> {
+  const added = await db
+    .insert(tezReactions)
+    .values({ tezId, userId, emoji, createdAt: new Date().toISOString() })
+    .onConflictDoNothing()
+    .returning();
+  return added.length > 0;
+}
+
+/**
+ * Remove a reaction. Returns false if there was none to remove.
+ */
+export async function removeReaction(tezId: string, userId: string, emoji: string): Promise<boolean> {
+  const removed = await db
+    .delete(tezReactions)
+    .where(and(eq(tezReactions.tezId, tezId), eq(tezReactions.userId, userId), eq(tezReactions.emoji, emoji)))
+    .returning();
+  return removed.length > 0;
+}
+
+/**
+ * Reaction counts per Tez, most used first (ties in order of first use).
+ * Every requested id is present in the result, with an empty list if
+ * nobody reacted.
+ */
+export async function reactionCounts(tezIds: string[], viewerId: string): Promise<Map<string, ReactionCount[]>> {
+  const byTez = new Map<string, Map<string, ReactionCount>>(tezIds.map((id) => [id, new Map()]));
+
+  if (tezIds.length > 0) {
+    const rows = await db
+      .select()
+      .from(tezReactions)
+      .where(inArray(tezReactions.tezId, tezIds))
+      .orderBy(asc(tezReactions.createdAt));
+
+    for (const row of rows) {
+      const counts = byTez.get(row.tezId)!;
+      const entry = counts.get(row.emoji) ?? { emoji: row.emoji, count: 0, reactedByMe: false };
+      entry.count++;
+      entry.reactedByMe ||= row.userId === viewerId;
+      counts.set(row.emoji, entry);
+    }
+  }
+
+  return new Map(
+    Array.from(byTez, ([tezId, counts]) => [tezId, Array.from(counts.values()).sort((a, b) => b.count - a.count)])
+  );
+}
@@ -0,0 +1,252 @@
+/**
+ * Retention — expiring team data by age, per team policy.
+ *
+ * The sweeper applies each team's policy in turn: tombstone Tez past
+ * deleteDays, archive Tez past archiveDays, delete context past contextDays
+ * (releasing the team's artifacts and purging blob bytes nothing else
+ * references), and drop audit entries past auditDays. What it removed is
+ * recorded as a "retention.applied" audit entry on the team.
+ *
+ * Legal holds suspend all of this for a whole team, or for the Tez of one
+ * thread. A thread hold also keeps the audit entries about that thread;
+ * since the chain can only be pruned from its start, nothing after the
+ * oldest of them is pruned either while the hold lasts.
+ */
+
+import { eq, and, or, lt, ne, inArray, notInArray, isNull, sql, type SQL } from "drizzle-orm";
+import {
+  db,
+  tez,
+  tezContext,
+  tezRevisions,
+  teamBlobs,
+  retentionPolicies,
+  legalHolds,
+  auditLog,
+} from "../db/index.js";
+import { recordAudit } from "./audit.js";
+import { pruneChain } from "./auditChain.js";
+import { tombstoneTez } from "./tombstones.js";
+import { purgeUnusedBlob } from "./artifacts.js";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+type RetentionPolicy = typeof retentionPolicies.$inferSelect;
+
+export interface RetentionReport {
+  teamId: string;
+  held: boolean; // whole team under legal hold: nothing was touched
+  tezDeleted: number;
+  tezArchived: number;
+  contextDeleted: number;
+  artifactsReleased: number; // team_blobs links dropped
+  blobsPurged: number; // blob bytes deleted from the store
+  auditPruned: number;
+}
+
+function cutoff(days: number, now: Date): string {
+  return new Date(now.getTime() - days * DAY_MS).toISOString();
+}
+
+/**
+ * Active holds of a team: whether the whole team is held, and which threads.
+ */
+export async function activeHolds(teamId: string): Promise<{ team: boolean; threadIds: string[] }> {
+  const holds = await db
+    .select({ threadId: legalHolds.threadId })
+    .from(legalHolds)
+    .where(and(eq(legalHolds.teamId, teamId), isNull(legalHolds.releasedAt)));
+
+  return {
+    team: holds.some((hold) => hold.threadId === null),
+    threadIds: holds.map((hold) => hold.threadId).filter((id): id is string => id !== null),
+  };
+}
+
+/**
+ * Release the team's hold on artifacts it uploaded before `before` that no
+ * remaining context in the team uses, and purge blobs no team or context
+ * references any more. Returns [links released, blobs purged].
+ */
+async function releaseArtifacts(teamId: string, before: string, candidates: string[]): Promise<[number, number]> {
+  const uploaded = await db
+    .select({ sha256: teamBlobs.sha256 })
+    .from(teamBlobs)
+    .where(and(eq(teamBlobs.teamId, teamId), lt(teamBlobs.createdAt, before)));
+  const shas = Array.from(new Set([...candidates, ...uploaded.map((row) => row.sha256)]));
+  if (shas.length === 0) return [0, 0];
+
+  const stillUsed = await db
+    .selectDistinct({ sha256: tezContext.blobSha256 })
+    .from(tezContext)
+    .innerJoin(tez, eq(tez.id, tezContext.tezId))
+    .where(and(eq(tez.teamId, teamId), inArray(tezContext.blobSha256, shas)));
+  const used = new Set(stillUsed.map((row) => row.sha256));
+
+  const released = await db
+    .delete(teamBlobs)
+    .where(
+      and(
+        eq(teamBlobs.teamId, teamId),
+        lt(teamBlobs.createdAt, before),
+        inArray(
+          teamBlobs.sha256,
+          shas.filter((sha) => !used.has(sha))
+        )
+      )
+    )
+    .returning({ sha256: teamBlobs.sha256 });
+
+  let purged = 0;
+  for (const sha256 of shas) {
+    if (await purgeUnusedBlob(sha256)) purged++;
+  }
+
+  return [released.length, purged];
+}
+
+/**
+ * Audit entries about the Tez of held threads: targeting one of them, or
+ * recording its thread in their metadata. Never NULL, so it can be negated.
+ */
+function heldAuditEntries(threadIds: string[]): SQL | undefined {
+  if (threadIds.length === 0) return undefined;
+  return or(
+    and(
+      eq(auditLog.targetType, "tez"),
+      inArray(
+        auditLog.targetId,
+        db
+          .select({ id: tez.id })
+          .from(tez)
+          .where(inArray(sql`coalesce(${tez.threadId}, ${tez.id})`, threadIds))
+      )
+    ),
+    inArray(sql`coalesce(json_extract(${auditLog.metadata}, '$.threadId'), '')`, threadIds)
+  );
+}
+
+/**
+ * Apply one team's policy as of `now`.
+ */
+export async function applyRetentionPolicy(policy: RetentionPolicy, now = new Date()): Promise<RetentionReport> {
+  const teamId = policy.teamId;
+  const report: RetentionReport = {
+    teamId,
+    held: false,
+    tezDeleted: 0,
+    tezArchived: 0,
+    contextDeleted: 0,
+    artifactsReleased: 0,
+    blobsPurged: 0,
+    auditPruned: 0,
+  };
+
+  const holds = await activeHolds(teamId);
+  if (holds.team) {
+    report.held = true;
+    return report;
+  }
+
+  // The team's Tez created before a cutoff, outside held threads
+  const expired = (days: number, ...conditions: SQL[]) =>
+    and(
+      eq(tez.teamId, teamId),
+      lt(tez.createdAt, cutoff(days, now)),
+      holds.threadIds.length > 0 ? notInArray(sql`coalesce(${tez.threadId}, ${tez.id})`, holds.threadIds) : undefined,
+      ...conditions
+    );
+
+  if (policy.deleteDays) {
+    const doomed = await db
+      .select({ id: tez.id })
+      .from(tez)
+      .where(expired(policy.deleteDays, ne(tez.status, "deleted")));
+    for (const { id } of doomed) {
+      await tombstoneTez(id);
+    }
+    report.tezDeleted = doomed.length;
+  }
+
+  if (policy.archiveDays) {
+    const archived = await db
+      .update(tez)
+      .set({ status: "archived", updatedAt: now.toISOString() })
+      .where(expired(policy.archiveDays, eq(tez.status, "active")))
+      .returning({ id: tez.id });
+    report.tezArchived = archived.length;
+  }
+
+  if (policy.contextDays) {
+    const rows = await db
+      .select({ id: tezContext.id, tezId: tezContext.tezId, blobSha256: tezContext.blobSha256 })
+      .from(tezContext)
+      .innerJoin(tez, eq(tez.id, tezContext.tezId))
+      .where(expired(policy.contextDays));
+
+    if (rows.length > 0) {
+      await db.delete(tezContext).where(
+        inArray(
+          tezContext.id,
+          rows.map((row) => row.id)
+        )
+      );
+      // Earlier revisions carry copies of the context
+      await db
+        .update(tezRevisions)
+        .set({ context: [] })
+        .where(inArray(tezRevisions.tezId, Array.from(new Set(rows.map((row) => row.tezId)))));
+    }
+    report.contextDeleted = rows.length;
+
+    const candidates = rows.map((row) => row.blobSha256).filter((sha): sha is string => !!sha);
+    [report.artifactsReleased, report.blobsPurged] = await releaseArtifacts(
+      teamId,
+      cutoff(policy.contextDays, now),
+      candidates
+    );
+  }
+
+  let auditPrunedThrough: { seq: number; hash: string } | null = null;
+  if (policy.auditDays) {
+    const pruned = await pruneChain(teamId, cutoff(policy.auditDays, now), heldAuditEntries(holds.threadIds));
+    report.auditPruned = pruned.count;
+    auditPrunedThrough = pruned.through;
+  }
+
+  const { teamId: _team, held: _held, ...counts } = report;
+  if (Object.values(counts).some((n) => n > 0)) {
+    await recordAudit({
+      teamId,
+      actorUserId: "system",
+      action: "retention.applied",
+      targetType: "team",
+      targetId: teamId,
+      metadata: {
+        ...counts,
+        policy: {
+          contextDays: policy.contextDays,
+          archiveDays: policy.archiveDays,
+          deleteDays: policy.deleteDays,
+          auditDays: policy.auditDays,
+        },
+        ...(auditPrunedThrough ? { auditPrunedThrough } : {}),
+      },
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Apply every team's policy. Called periodically by the retention worker.
+ */
+export async function applyRetention(now = new Date()): Promise<RetentionReport[]> {
+  const policies = await db.select().from(retentionPolicies);
+
+  const reports = [];
+  for (const policy of policies) {
+    reports.push(await applyRetentionPolicy(policy, now));
+  }
+  return reports;
+}
@@ -0,0 +1,34 @@
+/**
+ * Retention worker — periodically applies every team's retention policy.
+ */
+
+import { config } from "../config.js";
+import { applyRetention } from "./retention.js";
+
+/**
+ * Start the worker. Returns a function that stops it.
+ */
+export function startRetentionWorker(): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const reports = await applyRetention();
+      for (const report of reports) {
+        const { teamId, held: _held, ...counts } = report;
+        if (Object.values(counts).some((n) => n > 0)) {
+          console.log(`Retention: team ${teamId}`, counts);
+        }
+      }
+    } catch (err) {
+      console.error("Retention worker error:", err);
+    } finally {
+      running = false;
+    }
+  }, config.retentionSweepIntervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
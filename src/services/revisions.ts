@@ -0,0 +1,143 @@
+/**
+ * Revision service — edit a Tez in place while keeping its history.
+ *
+ * Every edit snapshots the current surface fields and context into
+ * tez_revisions, then bumps tez.revision. Used by PATCH /tez/:id and by
+ * the federation inbox when a remote sender amends a Tez.
+ */
+
+import { randomUUID } from "crypto";
+import { eq, and, inArray, sql } from "drizzle-orm";
+import { db, tez, tezContext, tezRevisions, tezActions } from "../db/index.js";
+
+export interface TezEdit {
+  surfaceText?: string;
+  actionRequested?: string | null;
+  urgency?: string;
+  // Replaces the whole context set when present
+  context?: Array<{
+    layer: string;
+    content: string;
+    mimeType?: string | null;
+    blobSha256?: string | null;
+    confidence?: number | null;
+    source?: string | null;
+  }>;
+}
+
+/** A bound value as a named column of an INSERT … SELECT. */
+function literal<T>(value: T, column: string) {
+  return sql<T>`${value}`.as(column);
+}
+
+/**
+ * Apply an edit to a Tez. Throws with code CONFLICT if the Tez was edited
+ * since `current` was read. Returns the new revision number and which
+ * fields were supplied. Clearing actionRequested withdraws the action
+ * items nobody has finished; declined and done items stay as history.
+ */
+export async function applyTezEdit(params: {
+  current: typeof tez.$inferSelect;
+  changes: TezEdit;
+  editedBy: string;
+}): Promise<{ revision: number; fields: string[] }> {
+  const { current, changes, editedBy } = params;
+  const now = new Date().toISOString();
+  const revision = current.revision + 1;
+  const snapshotId = randomUUID();
+
+  const previousContext = await db.select().from(tezContext).where(eq(tezContext.tezId, current.id));
+
+  // One batch, optimistic on the revision we read: the snapshot is only
+  // taken while the Tez is still at that revision, and every later write
+  // is conditioned on that snapshot, so a lost race writes nothing.
+  const unchanged = and(eq(tez.id, current.id), eq(tez.revision, current.revision));
+  const snapshotTaken = sql`EXISTS (SELECT 1 FROM tez_revisions WHERE id = ${snapshotId})`;
+  const [, updated] = await db.batch([
+    db.insert(tezRevisions).select(
+      db
+        .select({
+          id: literal(snapshotId, "id"),
+          tezId: tez.id,
+          revision: tez.revision,
+          surfaceText: tez.surfaceText,
+          urgency: tez.urgency,
+          actionRequested: tez.actionRequested,
+          context: literal(
+            JSON.stringify(
+              previousContext.map((c) => ({
+                layer: c.layer,
+                content: c.content,
+                mimeType: c.mimeType,
+                blobSha256: c.blobSha256,
+                confidence: c.confidence,
+                source: c.source,
+                createdBy: c.createdBy,
+              }))
+            ),
+            "context"
+          ),
+          editedBy: literal(editedBy, "edited_by"),
+          createdAt: literal(now, "created_at"),
+        })
+        .from(tez)
+        .where(unchanged)
+    ),
+    db
+      .update(tez)
+      .set({
+        surfaceText: changes.surfaceText ?? current.surfaceText,
+        actionRequested: changes.actionRequested !== undefined ? changes.actionRequested : current.actionRequested,
+        urgency: changes.urgency ?? current.urgency,
+        revision,
+        updatedAt: now,
+      })
+      .where(unchanged)
+      .returning({ id: tez.id }),
+    ...(changes.actionRequested === null
+      ? [
+          db
+            .delete(tezActions)
+            .where(
+              and(eq(tezActions.tezId, current.id), inArray(tezActions.status, ["open", "accepted"]), snapshotTaken)
+            ),
+        ]
+      : []),
+    ...(changes.context
+      ? [
+          db.delete(tezContext).where(and(eq(tezContext.tezId, current.id), snapshotTaken)),
+          ...changes.context.map((ctx) =>
+            db.insert(tezContext).select(
+              db
+                .select({
+                  id: literal(randomUUID(), "id"),
+                  tezId: tezRevisions.tezId,
+                  layer: literal(ctx.layer, "layer"),
+                  content: literal(ctx.content, "content"),
+                  mimeType: literal(ctx.mimeType ?? null, "mime_type"),
+                  blobSha256: literal(ctx.blobSha256 ?? null, "blob_sha256"),
+                  confidence: literal(ctx.confidence ?? null, "confidence"),
+                  source: literal(ctx.source ?? null, "source"),
+                  derivedFrom: literal(null, "derived_from"),
+                  createdAt: literal(now, "created_at"),
+                  createdBy: literal(editedBy, "created_by"),
+                })
+                .from(tezRevisions)
+                .where(eq(tezRevisions.id, snapshotId))
+            )
+          ),
+        ]
+      : []),
+  ]);
+
+  if (updated.length === 0) {
+    const err = new Error("Tez was edited concurrently; reload and retry");
+    (err as NodeJS.ErrnoException).code = "CONFLICT";
+    throw err;
+  }
+
+  const fields = (["surfaceText", "actionRequested", "urgency", "context"] as const).filter(
+    (field) => changes[field] !== undefined
+  );
+  return { revision, fields };
+}
@@ -0,0 +1,39 @@
+/**
+ * Tombstones — deleting a Tez without breaking its thread.
+ *
+ * The row is kept (content scrubbed, status "deleted") so that replies
+ * never lose their parent or thread root. Everything hanging off it —
+ * context, prior revisions, reactions, pins, bookmarks, action items — goes.
+ */
+
+import { eq } from "drizzle-orm";
+import {
+  db,
+  tez,
+  tezContext,
+  tezRevisions,
+  tezReactions,
+  tezPins,
+  tezBookmarks,
+  tezActions,
+} from "../db/index.js";
+
+/**
+ * Tombstone a Tez and drop what hangs off it, all in one batch.
+ */
+export async function tombstoneTez(tezId: string): Promise<void> {
+  const now = new Date().toISOString();
+
+  await db.batch([
+    db.delete(tezContext).where(eq(tezContext.tezId, tezId)),
+    db.delete(tezRevisions).where(eq(tezRevisions.tezId, tezId)),
+    db.delete(tezReactions).where(eq(tezReactions.tezId, tezId)),
+    db.delete(tezPins).where(eq(tezPins.tezId, tezId)),
+    db.delete(tezBookmarks).where(eq(tezBookmarks.tezId, tezId)),
+    db.delete(tezActions).where(eq(tezActions.tezId, tezId)),
+    db
+      .update(tez)
+      .set({ status: "deleted", surfaceText: "", actionRequested: null, updatedAt: now })
+      .where(eq(tez.id, tezId)),
+  ]);
+}
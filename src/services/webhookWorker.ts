@@ -0,0 +1,35 @@
+/**
+ * Webhook worker — periodically sends queued webhook deliveries.
+ *
+ * Deliveries are queued when team activity is audited and sent from here,
+ * so a slow or failing endpoint never holds up the request that caused
+ * the event. Leased like the federation outbox; safe to run in several
+ * relay processes.
+ */
+
+import { config } from "../config.js";
+import { processWebhookQueue } from "./webhooks.js";
+
+/**
+ * Start the worker. Returns a function that stops it.
+ */
+export function startWebhookWorker(): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow drain
+    if (running) return;
+    running = true;
+    try {
+      const processed = await processWebhookQueue();
+      if (processed > 0) console.log(`Webhooks: processed ${processed} deliveries`);
+    } catch (err) {
+      console.error("Webhook worker error:", err);
+    } finally {
+      running = false;
+    }
+  }, config.webhookWorkerIntervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
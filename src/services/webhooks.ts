@@ -0,0 +1,379 @@
+/**
+ * Webhooks — outbound HTTP notifications of team activity.
+ *
+ * Every audited team mutation is matched against the team's webhook
+ * subscriptions (event types mirror AuditAction). Matches are queued in
+ * webhook_deliveries and sent by the webhook worker with retries, using
+ * the same lease-based claiming as the federation outbox.
+ *
+ * Requests are signed: X-Tezit-Signature is "sha256=" + the hex
+ * HMAC-SHA256 of "<X-Tezit-Timestamp>.<body>" under the webhook secret.
+ *
+ * Any user can administer a team of their own, so webhook URLs must not
+ * reach the relay's network: hosts resolving to loopback, private or
+ * link-local addresses are refused on registration and again before each
+ * send. Only the response status is logged, never the body.
+ */
+
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup as lookupCallback, type LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import { BlockList, type LookupFunction } from "net";
+import { hostname } from "os";
+import { Agent } from "undici";
+import { eq, and, lte, lt, or, isNull, inArray, asc } from "drizzle-orm";
+import { db, tez, webhooks, webhookDeliveries } from "../db/index.js";
+import { config } from "../config.js";
+import type { AuditEntry } from "./audit.js";
+
+// Backoff: exponential from 30s, capped at 6h, with jitter
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 6 * 60 * 60_000;
+
+const LEASE_MS = 60_000;
+const CLAIM_BATCH_SIZE = 50;
+
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+// Destinations webhooks may not resolve to
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, including cloud metadata
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3], // multicast and reserved
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+function isNonPublic(address: LookupAddress): boolean {
+  return NON_PUBLIC.check(address.address, address.family === 6 ? "ipv6" : "ipv4");
+}
+
+// Resolves for the socket itself, so the address connected to is one that
+// passed the check (a host cannot rebind between checkWebhookUrl and send)
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    if (addresses.length === 0 || addresses.some(isNonPublic)) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a non-public address`), "", 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicOnly = new Agent({ connect: { lookup: publicLookup } });
+
+type Webhook = typeof webhooks.$inferSelect;
+type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export interface WebhookFilter {
+  urgency?: string[];
+  type?: string[];
+}
+
+/**
+ * The Tez an event is about, as included in webhook payloads. Surface text
+ * is only included for team-visible Tez: DMs and private Tez in the team
+ * stay between their participants.
+ */
+interface TezSummary {
+  id: string;
+  threadId: string | null;
+  type: string;
+  urgency: string;
+  visibility: string;
+  senderUserId: string;
+  surfaceText?: string;
+  actionRequested?: string | null;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Signature for a payload, as sent in X-Tezit-Signature.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Why a webhook URL may not be used, or null if every address its host
+ * resolves to is public.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `Webhook host ${host} could not be resolved`;
+  }
+
+  return addresses.some(isNonPublic) ? `Webhook host ${host} resolves to a non-public address` : null;
+}
+
+function backoffMs(attempts: number): number {
+  const exp = Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+/**
+ * Whether a subscription wants an event. Filters constrain the Tez the
+ * event is about, so a filtered subscription never matches non-Tez events.
+ */
+function matches(hook: Webhook, eventType: string, tezSummary: TezSummary | null): boolean {
+  if (!hook.events.includes("*") && !hook.events.includes(eventType)) return false;
+
+  const filter = hook.filter;
+  if (!filter || (!filter.urgency?.length && !filter.type?.length)) return true;
+  if (!tezSummary) return false;
+
+  if (filter.urgency?.length && !filter.urgency.includes(tezSummary.urgency)) return false;
+  if (filter.type?.length && !filter.type.includes(tezSummary.type)) return false;
+  return true;
+}
+
+async function tezSummaryFor(tezId: string): Promise<TezSummary | null> {
+  const rows = await db.select().from(tez).where(eq(tez.id, tezId)).limit(1);
+  if (rows.length === 0) return null;
+
+  const row = rows[0];
+  return {
+    id: row.id,
+    threadId: row.threadId,
+    type: row.type,
+    urgency: row.urgency,
+    visibility: row.visibility,
+    senderUserId: row.senderUserId,
+    ...(row.visibility === "team" ? { surfaceText: row.surfaceText, actionRequested: row.actionRequested } : {}),
+  };
+}
+
+/**
+ * Queue an audited event for every matching subscription of its team.
+ * Called by recordAudit.
+ */
+export async function enqueueWebhookEvent(entry: AuditEntry, occurredAt: string): Promise<void> {
+  if (!entry.teamId) return;
+
+  const hooks = await db
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.teamId, entry.teamId), eq(webhooks.active, 1)));
+
+  const candidates = hooks.filter((hook) => hook.events.includes("*") || hook.events.includes(entry.action));
+  if (candidates.length === 0) return;
+
+  const tezSummary = entry.targetType === "tez" ? await tezSummaryFor(entry.targetId) : null;
+  const subscribed = candidates.filter((hook) => matches(hook, entry.action, tezSummary));
+  if (subscribed.length === 0) return;
+
+  const payload = JSON.stringify({
+    id: randomUUID(),
+    type: entry.action,
+    occurredAt,
+    teamId: entry.teamId,
+    actorUserId: entry.actorUserId,
+    target: { type: entry.targetType, id: entry.targetId },
+    metadata: entry.metadata ?? {},
+    ...(tezSummary ? { tez: tezSummary } : {}),
+  });
+
+  await db.insert(webhookDeliveries).values(
+    subscribed.map((hook) => ({
+      id: randomUUID(),
+      webhookId: hook.id,
+      eventType: entry.action,
+      payload,
+      status: "pending",
+      attempts: 0,
+      nextRetryAt: occurredAt,
+      createdAt: occurredAt,
+    }))
+  );
+}
+
+/**
+ * Atomically claim due deliveries of active webhooks whose lease is free
+ * or expired (see claimDueEntries in federationOutbound).
+ */
+async function claimDueDeliveries(params: { ids?: string[]; limit: number }): Promise<WebhookDelivery[]> {
+  const now = new Date().toISOString();
+  const leaseExpiresAt = new Date(Date.now() + LEASE_MS).toISOString();
+
+  const due = db
+    .select({ id: webhookDeliveries.id })
+    .from(webhookDeliveries)
+    .where(
+      and(
+        inArray(webhookDeliveries.status, ["pending", "failed"]),
+        or(isNull(webhookDeliveries.nextRetryAt), lte(webhookDeliveries.nextRetryAt, now)),
+        or(isNull(webhookDeliveries.leaseExpiresAt), lt(webhookDeliveries.leaseExpiresAt, now)),
+        inArray(
+          webhookDeliveries.webhookId,
+          db.select({ id: webhooks.id }).from(webhooks).where(eq(webhooks.active, 1))
+        ),
+        params.ids ? inArray(webhookDeliveries.id, params.ids) : undefined
+      )
+    )
+    .orderBy(asc(webhookDeliveries.nextRetryAt))
+    .limit(params.limit);
+
+  return db
+    .update(webhookDeliveries)
+    .set({ leaseOwner: WORKER_ID, leaseExpiresAt })
+    .where(inArray(webhookDeliveries.id, due))
+    .returning();
+}
+
+/**
+ * POST a claimed delivery and record the outcome. Always releases the lease.
+ * Returns undefined if the webhook was deleted while the request was out.
+ */
+async function sendDelivery(delivery: WebhookDelivery, hook: Webhook): Promise<WebhookDelivery | undefined> {
+  const attempts = delivery.attempts + 1;
+  const startedAt = Date.now();
+  const now = new Date().toISOString();
+  const timestamp = Math.floor(startedAt / 1000).toString();
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // Checked again at send time: DNS may have changed since registration
+    const refused = await checkWebhookUrl(hook.url);
+    if (refused) throw new Error(refused);
+
+    const response = await fetch(hook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "tezit-relay-webhooks",
+        "X-Tezit-Event": delivery.eventType,
+        "X-Tezit-Delivery": delivery.id,
+        "X-Tezit-Timestamp": timestamp,
+        "X-Tezit-Signature": signWebhookPayload(hook.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: "manual",
+      signal: AbortSignal.timeout(config.webhookTimeoutMs),
+      // Node's fetch is undici and takes its dispatcher; the DOM typing omits it
+      dispatcher: publicOnly,
+    } as RequestInit);
+
+    responseStatus = response.status;
+    await response.body?.cancel();
+    if (!response.ok) error = `HTTP ${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const outcome = {
+    attempts,
+    lastAttemptAt: now,
+    responseStatus,
+    durationMs: Date.now() - startedAt,
+    error,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+  };
+
+  const update = !error
+    ? { ...outcome, status: "delivered", deliveredAt: now, nextRetryAt: null }
+    : attempts >= config.webhookMaxAttempts
+      ? { ...outcome, status: "expired", nextRetryAt: null }
+      : { ...outcome, status: "failed", nextRetryAt: new Date(Date.now() + backoffMs(attempts)).toISOString() };
+
+  const [updated] = await db
+    .update(webhookDeliveries)
+    .set(update)
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning();
+  return updated;
+}
+
+async function deliverClaimed(claimed: WebhookDelivery[]): Promise<WebhookDelivery[]> {
+  if (claimed.length === 0) return [];
+
+  const hookIds = Array.from(new Set(claimed.map((delivery) => delivery.webhookId)));
+  const hooks = await db.select().from(webhooks).where(inArray(webhooks.id, hookIds));
+  const hookById = new Map(hooks.map((hook) => [hook.id, hook]));
+
+  // A webhook deleted after its deliveries were claimed takes its log with
+  // it: drop any rows that slipped past the delete instead of sending them
+  const orphaned = claimed.filter((delivery) => !hookById.has(delivery.webhookId));
+  if (orphaned.length > 0) {
+    await db.delete(webhookDeliveries).where(
+      inArray(
+        webhookDeliveries.id,
+        orphaned.map((delivery) => delivery.id)
+      )
+    );
+  }
+
+  const sent = await Promise.all(
+    claimed
+      .filter((delivery) => hookById.has(delivery.webhookId))
+      .map((delivery) => sendDelivery(delivery, hookById.get(delivery.webhookId)!))
+  );
+  return sent.filter((delivery): delivery is WebhookDelivery => delivery !== undefined);
+}
+
+/**
+ * Queue and immediately attempt a "webhook.test" delivery. Returns the
+ * delivery as logged, or null if it could not be claimed (paused webhook).
+ */
+export async function sendTestEvent(hook: Webhook, actorUserId: string): Promise<WebhookDelivery | null> {
+  const now = new Date().toISOString();
+  const id = randomUUID();
+
+  await db.insert(webhookDeliveries).values({
+    id,
+    webhookId: hook.id,
+    eventType: "webhook.test",
+    payload: JSON.stringify({
+      id: randomUUID(),
+      type: "webhook.test",
+      occurredAt: now,
+      teamId: hook.teamId,
+      actorUserId,
+      target: { type: "webhook", id: hook.id },
+      metadata: {},
+    }),
+    status: "pending",
+    attempts: 0,
+    nextRetryAt: now,
+    createdAt: now,
+  });
+
+  const [delivered] = await deliverClaimed(await claimDueDeliveries({ ids: [id], limit: 1 }));
+  return delivered ?? null;
+}
+
+/**
+ * Claim and send all due deliveries. Called periodically by the webhook
+ * worker. Returns the number of deliveries attempted.
+ */
+export async function processWebhookQueue(): Promise<number> {
+  const claimed = await claimDueDeliveries({ limit: CLAIM_BATCH_SIZE });
+  await deliverClaimed(claimed);
+  return claimed.length;
+}
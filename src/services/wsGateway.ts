@@ -0,0 +1,294 @@
+/**
+ * WebSocket gateway — bidirectional real-time channel for agents.
+ *
+ * Clients connect to /ws with a Bearer token (Authorization header, or
+ * ?token= for clients that cannot set headers) and send JSON ops:
+ *
+ *   { "op": "subscribe",   "teamId" | "conversationId" | "threadId": "..." }
+ *   { "op": "unsubscribe", "teamId" | "conversationId" | "threadId": "..." }
+ *   { "op": "ping" }
+ *
+ * Subscriptions are ACL-checked when made and re-checked whenever the user
+ * loses a team or conversation membership. Matching share/reply/read/
+ * acknowledge events are pushed as { "type": "event", "event": { ... } }.
+ *
+ * Sends never block the event loop on a slow socket: a client whose send
+ * buffer grows past MAX_BUFFERED_BYTES is disconnected (1013) and is
+ * expected to reconnect and catch up over HTTP.
+ */
+
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { db, tez } from "../db/index.js";
+import { verifyToken } from "../middleware/auth.js";
+import { assertTeamMember, assertConversationMember, assertTezAccess } from "./acl.js";
+import {
+  listTezEventsSince,
+  latestTezEventId,
+  subscribeTezEvents,
+  subscribeMembershipRemovals,
+  type TezEvent,
+  type MembershipRemoval,
+} from "./events.js";
+
+const GATEWAY_PATH = "/ws";
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+const DISPATCH_BATCH_SIZE = 100;
+
+type Scope = "team" | "conversation" | "thread";
+
+interface Client {
+  socket: WebSocket;
+  userId: string;
+  alive: boolean;
+  subscriptions: Record<Scope, Set<string>>;
+}
+
+const OpSchema = z
+  .object({
+    op: z.enum(["subscribe", "unsubscribe", "ping"]),
+    teamId: z.string().min(1).optional(),
+    conversationId: z.string().min(1).optional(),
+    threadId: z.string().min(1).optional(),
+  })
+  .refine(
+    (msg) =>
+      msg.op === "ping" ||
+      [msg.teamId, msg.conversationId, msg.threadId].filter(Boolean).length === 1,
+    { message: "Exactly one of teamId, conversationId or threadId is required" }
+  );
+
+function send(client: Client, message: Record<string, unknown>): void {
+  if (client.socket.readyState !== WebSocket.OPEN) return;
+
+  // Backpressure: drop slow consumers instead of buffering without bound
+  if (client.socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+    client.socket.close(1013, "Client too slow");
+    return;
+  }
+
+  client.socket.send(JSON.stringify(message));
+}
+
+function tokenFromRequest(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) return header.slice(7);
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  return url.searchParams.get("token");
+}
+
+function rejectUpgrade(socket: Duplex, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Throws FORBIDDEN (or NOT_FOUND for unknown threads) if the user may not
+ * subscribe to this scope.
+ */
+async function assertScopeAccess(userId: string, scope: Scope, id: string): Promise<void> {
+  if (scope === "team") return assertTeamMember(userId, id);
+  if (scope === "conversation") return assertConversationMember(userId, id);
+
+  const rows = await db.select().from(tez).where(eq(tez.id, id)).limit(1);
+  if (rows.length === 0) {
+    const err = new Error("Thread not found");
+    (err as NodeJS.ErrnoException).code = "NOT_FOUND";
+    throw err;
+  }
+  await assertTezAccess(userId, rows[0]);
+}
+
+function scopeOf(msg: z.infer<typeof OpSchema>): { scope: Scope; id: string } {
+  if (msg.teamId) return { scope: "team", id: msg.teamId };
+  if (msg.conversationId) return { scope: "conversation", id: msg.conversationId };
+  return { scope: "thread", id: msg.threadId! };
+}
+
+function matches(client: Client, event: TezEvent): boolean {
+  return (
+    (event.teamId !== null && client.subscriptions.team.has(event.teamId)) ||
+    (event.conversationId !== null && client.subscriptions.conversation.has(event.conversationId)) ||
+    (event.threadId !== null && client.subscriptions.thread.has(event.threadId))
+  );
+}
+
+/**
+ * Attach the gateway to an HTTP server. Returns a handle to shut it down.
+ */
+export function attachWebSocketGateway(server: Server): { close: () => Promise<void> } {
+  const wss = new WebSocketServer({ noServer: true });
+  const clients = new Set<Client>();
+
+  async function handleMessage(client: Client, raw: string): Promise<void> {
+    let msg: z.infer<typeof OpSchema>;
+    try {
+      msg = OpSchema.parse(JSON.parse(raw));
+    } catch (err) {
+      const message = err instanceof z.ZodError ? err.errors[0].message : "Invalid JSON";
+      send(client, { type: "error", error: { code: "VALIDATION_ERROR", message } });
+      return;
+    }
+
+    if (msg.op === "ping") {
+      send(client, { type: "pong" });
+      return;
+    }
+
+    const { scope, id } = scopeOf(msg);
+
+    if (msg.op === "unsubscribe") {
+      client.subscriptions[scope].delete(id);
+      send(client, { type: "unsubscribed", scope, id });
+      return;
+    }
+
+    try {
+      await assertScopeAccess(client.userId, scope, id);
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      if (code === "FORBIDDEN" || code === "NOT_FOUND") {
+        send(client, { type: "error", scope, id, error: { code, message: (err as Error).message } });
+        return;
+      }
+      throw err;
+    }
+
+    client.subscriptions[scope].add(id);
+    send(client, { type: "subscribed", scope, id });
+  }
+
+  // Re-validate every subscription of a user who just lost a membership
+  async function recheck(change: MembershipRemoval): Promise<void> {
+    for (const client of clients) {
+      if (client.userId !== change.userId) continue;
+
+      for (const scope of ["team", "conversation", "thread"] as const) {
+        for (const id of Array.from(client.subscriptions[scope])) {
+          try {
+            await assertScopeAccess(client.userId, scope, id);
+          } catch {
+            client.subscriptions[scope].delete(id);
+            send(client, { type: "unsubscribed", scope, id, reason: "access_revoked" });
+          }
+        }
+      }
+    }
+  }
+
+  // Fan out new events from the log. One cursor for the whole gateway:
+  // each event is read once and matched against every client in memory.
+  let cursor = 0;
+  const ready = latestTezEventId().then((id) => {
+    cursor = id;
+  });
+  let draining = false;
+  let pending = false;
+
+  async function dispatch(): Promise<void> {
+    if (draining) {
+      pending = true;
+      return;
+    }
+    draining = true;
+    try {
+      await ready;
+      do {
+        pending = false;
+        let batch;
+        do {
+          batch = await listTezEventsSince(cursor, DISPATCH_BATCH_SIZE);
+          for (const event of batch) {
+            cursor = event.id;
+            const targets = Array.from(clients).filter((c) => matches(c, event));
+            if (targets.length === 0) continue;
+
+            const rows = await db.select().from(tez).where(eq(tez.id, event.tezId)).limit(1);
+            if (rows.length === 0 || rows[0].status === "deleted") continue;
+
+            for (const client of targets) {
+              send(client, { type: "event", event: { ...event, tez: rows[0] } });
+            }
+          }
+        } while (batch.length === DISPATCH_BATCH_SIZE);
+      } while (pending);
+    } catch (err) {
+      console.error("WebSocket dispatch error:", err);
+    } finally {
+      draining = false;
+    }
+  }
+
+  const unsubscribeEvents = subscribeTezEvents(() => void dispatch());
+  const unsubscribeMembership = subscribeMembershipRemovals((change) => {
+    recheck(change).catch((err) => console.error("WebSocket ACL recheck error:", err));
+  });
+
+  server.on("upgrade", (req, socket, head) => {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (pathname !== GATEWAY_PATH) return;
+
+    const token = tokenFromRequest(req);
+    if (!token) {
+      rejectUpgrade(socket, "401 Unauthorized");
+      return;
+    }
+
+    verifyToken(token)
+      .then((user) => {
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          const client: Client = {
+            socket: ws,
+            userId: user.userId,
+            alive: true,
+            subscriptions: { team: new Set(), conversation: new Set(), thread: new Set() },
+          };
+          clients.add(client);
+
+          ws.on("pong", () => {
+            client.alive = true;
+          });
+          ws.on("message", (data) => {
+            handleMessage(client, data.toString()).catch((err) => {
+              console.error("WebSocket message error:", err);
+              send(client, { type: "error", error: { code: "INTERNAL_ERROR", message: "Failed to process message" } });
+            });
+          });
+          ws.on("close", () => {
+            clients.delete(client);
+          });
+
+          send(client, { type: "ready", userId: user.userId });
+        });
+      })
+      .catch(() => rejectUpgrade(socket, "401 Unauthorized"));
+  });
+
+  // Heartbeat: terminate sockets that missed the previous ping
+  const heartbeat = setInterval(() => {
+    for (const client of clients) {
+      if (!client.alive) {
+        client.socket.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return {
+    close: () =>
+      new Promise<void>((resolve) => {
+        clearInterval(heartbeat);
+        unsubscribeEvents();
+        unsubscribeMembership();
+        for (const client of clients) client.socket.terminate();
+        wss.close(() => resolve());
+      }),
+  };
+}
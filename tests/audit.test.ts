@@ -4,16 +4,20 @@
  * Verifies that audit log entries are created for:
  * - tez.shared — when a Tez is created
  * - tez.replied — when a reply is created
- * - tez.read — when a Tez is fetched by ID
+ * - tez.read — when a recipient first fetches a Tez by ID
  * - team.created — when a team is created
  * - team.member_added — when a member is added
  * - team.member_removed — when a member is removed
+ *
+ * and that the log can be read back through GET /teams/:id/audit,
+ * /admin/audit and /me/audit, with filters, pagination and export, and
+ * that its hash chain and signed checkpoints expose tampering.
  */
 
 import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
 import request from "supertest";
 import type { Express } from "express";
-import { eq } from "drizzle-orm";
+import { eq, and, asc } from "drizzle-orm";
 import {
   setupDbMock,
   initTestDb,
@@ -25,7 +29,11 @@ import {
   addMember,
   getTestDb,
 } from "./setup.js";
-import { auditLog } from "../src/db/schema.js";
+import { auditLog, auditCheckpoints } from "../src/db/schema.js";
+import { config } from "../src/config.js";
+import { recordAudit } from "../src/services/audit.js";
+import { GENESIS_HASH } from "../src/services/auditChain.js";
+import { generateKeyPair, initIdentityFromValues } from "../src/services/identity.js";
 
 // Must call before any imports that touch the db
 setupDbMock();
@@ -34,10 +42,15 @@ let app: Express;
 
 const ADMIN_USER = "audit-admin-1";
 const MEMBER_USER = "audit-member-1";
+const RELAY_ADMIN = "audit-relay-admin";
 
 beforeAll(async () => {
   await initTestDb();
   app = await createTestApp();
+  config.adminUserIds.push(RELAY_ADMIN);
+
+  const { publicKeyBase64, privateKeyPem } = generateKeyPair();
+  initIdentityFromValues({ publicKey: publicKeyBase64, privateKeyPem, host: "audit.test" });
 });
 
 beforeEach(async () => {
@@ -145,7 +158,7 @@ describe("Tez audit events", () => {
     expect(meta.threadId).toBe(parentId); // root tez is its own threadId
   });
 
-  it("records tez.read when a Tez is fetched by ID", async () => {
+  it("records tez.read when a recipient fetches a Tez by ID", async () => {
     const { teamId } = await createTeamWithAdmin(ADMIN_USER);
     await addMember(teamId, MEMBER_USER);
 
@@ -153,11 +166,10 @@ describe("Tez audit events", () => {
     const shareRes = await request(app)
       .post("/tez/share")
       .set("Authorization", token)
-      .send({ teamId, surfaceText: "Read me" });
+      .send({ teamId, surfaceText: "Read me", recipients: [MEMBER_USER] });
 
     const tezId = shareRes.body.data.id;
 
-    // Read by a different team member
     const readerToken = await authHeader(MEMBER_USER);
     const getRes = await request(app)
       .get(`/tez/${tezId}`)
@@ -172,11 +184,12 @@ describe("Tez audit events", () => {
     expect(entry.teamId).toBe(teamId);
     expect(entry.actorUserId).toBe(MEMBER_USER);
     expect(entry.action).toBe("tez.read");
-    expect(entry.targetType).toBe("tez");
-    expect(entry.targetId).toBe(tezId);
+    expect(entry.targetType).toBe("team");
+    expect(entry.targetId).toBe(teamId);
+    expect(entry.metadata).toEqual({ tezIds: [tezId] });
   });
 
-  it("records multiple reads for multiple accesses", async () => {
+  it("records only a recipient's first read, not the sender's views", async () => {
     const { teamId } = await createTeamWithAdmin(ADMIN_USER);
     await addMember(teamId, MEMBER_USER);
 
@@ -184,26 +197,24 @@ describe("Tez audit events", () => {
     const shareRes = await request(app)
       .post("/tez/share")
       .set("Authorization", token)
-      .send({ teamId, surfaceText: "Read me twice" });
+      .send({ teamId, surfaceText: "Read me twice", recipients: [MEMBER_USER] });
 
     const tezId = shareRes.body.data.id;
 
-    // Read twice by different users
     await request(app)
       .get(`/tez/${tezId}`)
       .set("Authorization", token);
 
     const memberToken = await authHeader(MEMBER_USER);
-    await request(app)
-      .get(`/tez/${tezId}`)
-      .set("Authorization", memberToken);
+    for (let i = 0; i < 2; i++) {
+      await request(app)
+        .get(`/tez/${tezId}`)
+        .set("Authorization", memberToken);
+    }
 
     const entries = await getAuditByAction("tez.read");
-    expect(entries).toHaveLength(2);
-
-    const actors = entries.map((e) => e.actorUserId);
-    expect(actors).toContain(ADMIN_USER);
-    expect(actors).toContain(MEMBER_USER);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].actorUserId).toBe(MEMBER_USER);
   });
 });
 
@@ -381,3 +392,246 @@ describe("Audit log integrity", () => {
     expect(actions).toContain("tez.shared");
   });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reading the log
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Audit log API", () => {
+  async function get(path: string, userId: string) {
+    return request(app).get(path).set("Authorization", await authHeader(userId));
+  }
+
+  async function teamWithActivity() {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const token = await authHeader(MEMBER_USER);
+    await request(app).post("/tez/share").set("Authorization", token).send({ teamId, surfaceText: "From the member" });
+    await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ teamId, surfaceText: "From the admin" });
+    return teamId;
+  }
+
+  it("lets team admins filter the team log and page through it", async () => {
+    const teamId = await teamWithActivity();
+
+    const shared = await get(`/teams/${teamId}/audit?action=tez.shared`, ADMIN_USER);
+    expect(shared.status).toBe(200);
+    expect(shared.body.data).toHaveLength(2);
+    expect(shared.body.data.every((e: { action: string }) => e.action === "tez.shared")).toBe(true);
+
+    const byMember = await get(`/teams/${teamId}/audit?actor=${MEMBER_USER}&action=tez.shared`, ADMIN_USER);
+    expect(byMember.body.data).toHaveLength(1);
+    expect(byMember.body.data[0].actorUserId).toBe(MEMBER_USER);
+
+    const first = await get(`/teams/${teamId}/audit?limit=1`, ADMIN_USER);
+    expect(first.body.meta.hasMore).toBe(true);
+    const second = await get(`/teams/${teamId}/audit?limit=1&cursor=${first.body.meta.nextCursor}`, ADMIN_USER);
+    expect(second.body.data[0].id).not.toBe(first.body.data[0].id);
+    expect(second.body.data[0].createdAt <= first.body.data[0].createdAt).toBe(true);
+
+    expect((await get(`/teams/${teamId}/audit?action=tez.exploded`, ADMIN_USER)).status).toBe(400);
+    expect((await get(`/teams/${teamId}/audit?cursor=garbage`, ADMIN_USER)).status).toBe(400);
+  });
+
+  it("shows non-admins only their own actions", async () => {
+    const teamId = await teamWithActivity();
+
+    const team = await get(`/teams/${teamId}/audit`, MEMBER_USER);
+    expect(team.status).toBe(200);
+    expect(team.body.data.length).toBeGreaterThan(0);
+    expect(team.body.data.every((e: { actorUserId: string }) => e.actorUserId === MEMBER_USER)).toBe(true);
+
+    // Asking for someone else's actions yields nothing rather than widening the scope
+    const others = await get(`/teams/${teamId}/audit?actor=${ADMIN_USER}`, MEMBER_USER);
+    expect(others.body.data).toHaveLength(0);
+
+    const mine = await get("/me/audit?action=tez.shared", MEMBER_USER);
+    expect(mine.body.data).toHaveLength(1);
+    expect(mine.body.data[0]).toMatchObject({ actorUserId: MEMBER_USER, teamId });
+
+    expect((await get(`/teams/${teamId}/audit`, "audit-outsider")).status).toBe(403);
+  });
+
+  it("gives relay admins the whole log and no one else", async () => {
+    const teamId = await teamWithActivity();
+    const other = await createTeamWithAdmin("audit-other-admin");
+    await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader("audit-other-admin"))
+      .send({ teamId: other.teamId, surfaceText: "Elsewhere" });
+
+    const all = await get("/admin/audit?action=tez.shared", RELAY_ADMIN);
+    expect(all.status).toBe(200);
+    expect(new Set(all.body.data.map((e: { teamId: string }) => e.teamId))).toEqual(new Set([teamId, other.teamId]));
+
+    const scoped = await get(`/admin/audit?teamId=${other.teamId}`, RELAY_ADMIN);
+    expect(scoped.body.data.every((e: { teamId: string }) => e.teamId === other.teamId)).toBe(true);
+
+    expect((await get("/admin/audit", ADMIN_USER)).status).toBe(403);
+  });
+
+  it("exports NDJSON and CSV oldest first", async () => {
+    const teamId = await teamWithActivity();
+
+    const ndjson = await get(`/teams/${teamId}/audit/export`, ADMIN_USER);
+    expect(ndjson.status).toBe(200);
+    expect(ndjson.headers["content-type"]).toContain("application/x-ndjson");
+    expect(ndjson.headers["content-disposition"]).toMatch(/^attachment; filename="audit-team-.*\.ndjson"$/);
+    const lines = ndjson.text.trim().split("\n").map((line) => JSON.parse(line));
+    expect(lines[0]).toMatchObject({ action: "tez.shared", actorUserId: MEMBER_USER });
+    expect(lines.length).toBe((await get(`/teams/${teamId}/audit?limit=200`, ADMIN_USER)).body.data.length);
+
+    const csv = await get(`/teams/${teamId}/audit/export?format=csv&action=tez.shared`, ADMIN_USER);
+    expect(csv.headers["content-type"]).toContain("text/csv");
+    const rows = csv.text.trim().split("\r\n");
+    expect(rows[0]).toBe("id,createdAt,teamId,actorUserId,action,targetType,targetId,metadata,seq,prevHash,hash");
+    expect(rows).toHaveLength(3);
+    // JSON metadata is quoted, with its quotes doubled
+    expect(rows[1]).toContain(`,tez.shared,tez,`);
+    expect(rows[1]).toMatch(/,"\{""type"":""note""/);
+
+    expect((await get(`/teams/${teamId}/audit/export?format=xml`, ADMIN_USER)).status).toBe(400);
+  });
+
+  it("defuses CSV cells a spreadsheet would evaluate", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await recordAudit({
+      teamId,
+      actorUserId: ADMIN_USER,
+      action: "tez.shared",
+      targetType: "tez",
+      targetId: "=HYPERLINK(\"http://evil.example\")",
+    });
+
+    const csv = await get(`/teams/${teamId}/audit/export?format=csv&action=tez.shared`, ADMIN_USER);
+    const rows = csv.text.trim().split("\r\n");
+    expect(rows[1]).toContain(`,tez,"'=HYPERLINK(""http://evil.example"")"`);
+  });
+
+  it("compares time bounds whatever their precision or offset", async () => {
+    const teamId = await teamWithActivity();
+    const all = (await get(`/teams/${teamId}/audit?limit=200`, ADMIN_USER)).body.data;
+    const [first] = await getTestDb()
+      .select()
+      .from(auditLog)
+      .where(eq(auditLog.teamId, teamId))
+      .orderBy(asc(auditLog.seq))
+      .limit(1);
+
+    // Whole seconds, so "...:05Z" must still include "...:05.123Z"
+    const seconds = first.createdAt.slice(0, 19);
+    const from = await get(`/teams/${teamId}/audit?limit=200&from=${seconds}Z`, ADMIN_USER);
+    expect(from.body.data).toHaveLength(all.length);
+
+    const to = encodeURIComponent(`${seconds}-01:00`);
+    const offset = await get(`/teams/${teamId}/audit?limit=200&to=${to}`, ADMIN_USER);
+    expect(offset.body.data).toHaveLength(all.length);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hash chain
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Audit hash chain", () => {
+  const TEAM = "chain-team";
+
+  async function record(n: number, teamId = TEAM) {
+    for (let i = 0; i < n; i++) {
+      await recordAudit({ teamId, actorUserId: ADMIN_USER, action: "tez.read", targetType: "tez", targetId: `tez-${i}` });
+    }
+  }
+
+  async function chain(teamId = TEAM) {
+    return getTestDb().select().from(auditLog).where(eq(auditLog.teamId, teamId)).orderBy(asc(auditLog.seq));
+  }
+
+  async function verify(teamId = TEAM) {
+    const res = await request(app)
+      .get(`/admin/audit/verify?teamId=${teamId}`)
+      .set("Authorization", await authHeader(RELAY_ADMIN));
+    expect(res.status).toBe(200);
+    return res.body.data;
+  }
+
+  async function checkpoint() {
+    const res = await request(app)
+      .post("/admin/audit/checkpoints")
+      .set("Authorization", await authHeader(RELAY_ADMIN));
+    expect(res.status).toBe(200);
+    return res.body.data.written;
+  }
+
+  it("links every entry to the previous one, per team", async () => {
+    await record(3);
+    await record(2, "other-chain-team");
+
+    const entries = await chain();
+    expect(entries.map((e) => e.seq)).toEqual([1, 2, 3]);
+    expect(entries[0].prevHash).toBe(GENESIS_HASH);
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect(entries[2].prevHash).toBe(entries[1].hash);
+    expect((await chain("other-chain-team")).map((e) => e.seq)).toEqual([1, 2]);
+
+    const report = await verify();
+    expect(report.valid).toBe(true);
+    expect(report.chains[0]).toMatchObject({ teamId: TEAM, entries: 3, head: { seq: 3 }, firstBreak: null });
+  });
+
+  it("keeps the chain gapless under concurrent writes", async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        recordAudit({ teamId: TEAM, actorUserId: ADMIN_USER, action: "tez.read", targetType: "tez", targetId: `t${i}` })
+      )
+    );
+
+    expect((await chain()).map((e) => e.seq)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect((await verify()).valid).toBe(true);
+  });
+
+  it("reports the first edited entry", async () => {
+    await record(4);
+    const entries = await chain();
+
+    await getTestDb()
+      .update(auditLog)
+      .set({ actorUserId: "someone-else" })
+      .where(eq(auditLog.id, entries[1].id));
+
+    const report = await verify();
+    expect(report.valid).toBe(false);
+    expect(report.chains[0].firstBreak).toEqual({ seq: 2, entryId: entries[1].id, reason: "hash_mismatch" });
+    expect(report.chains[0].entries).toBe(1);
+  });
+
+  it("reports deleted entries, including at the end of a checkpointed chain", async () => {
+    await record(4);
+    const entries = await chain();
+    expect(await checkpoint()).toBe(1);
+    expect(await checkpoint()).toBe(0); // nothing new to sign
+
+    // Dropping the last entries leaves a valid-looking chain, but not the one signed
+    await getTestDb().delete(auditLog).where(and(eq(auditLog.teamId, TEAM), eq(auditLog.seq, 4)));
+    expect((await verify()).chains[0].firstBreak).toEqual({ seq: 4, entryId: null, reason: "missing_entry" });
+
+    await getTestDb().delete(auditLog).where(eq(auditLog.id, entries[1].id));
+    expect((await verify()).chains[0].firstBreak).toEqual({ seq: 2, entryId: null, reason: "missing_entry" });
+  });
+
+  it("rejects checkpoints the server did not sign", async () => {
+    await record(2);
+    await checkpoint();
+
+    await getTestDb().update(auditCheckpoints).set({ signature: Buffer.alloc(64).toString("base64") });
+
+    expect((await verify()).chains[0].firstBreak).toMatchObject({ seq: 2, reason: "bad_signature" });
+  });
+
+  it("is for relay admins only", async () => {
+    const res = await request(app).get("/admin/audit/verify").set("Authorization", await authHeader(ADMIN_USER));
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Integration tests for artifact blobs
+ *
+ * Streamed and multipart uploads into the content-addressed store,
+ * size and quota limits, range downloads, and access through Tez that
+ * reference a blob from artifact context.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import { createHash } from "crypto";
+import { rm } from "fs/promises";
+import type { Express } from "express";
+import {
+  setupDbMock,
+  initTestDb,
+  cleanDb,
+  closeTestDb,
+  createTestApp,
+  authHeader,
+  createTeamWithAdmin,
+  addMember,
+} from "./setup.js";
+import { config } from "../src/config.js";
+
+// Must call before any imports that touch the db
+setupDbMock();
+
+vi.mock("../src/config.js", async () => {
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  return {
+    config: {
+      port: 3003,
+      nodeEnv: "test",
+      jwtSecret: "change-me-in-production",
+      jwtIssuer: "tezit-relay",
+      relayHost: "localhost",
+      maxTezSizeBytes: 1048576,
+      maxContextItems: 50,
+      maxRecipients: 100,
+      maxBlobSizeBytes: 64,
+      teamBlobQuotaBytes: 100,
+      federationEnabled: false,
+      federationMode: "allowlist",
+      dataDir: join(tmpdir(), `tezit-blobs-test-${process.pid}`),
+      adminUserIds: [],
+    },
+  };
+});
+
+let app: Express;
+
+const ADMIN_USER = "blob-admin-1";
+const MEMBER_USER = "blob-member-1";
+const OUTSIDER_USER = "blob-outsider-1";
+
+const PDF_BYTES = Buffer.from("%PDF-1.4 pretend this is a quarterly report");
+const PDF_SHA = createHash("sha256").update(PDF_BYTES).digest("hex");
+
+beforeAll(async () => {
+  await initTestDb();
+  app = await createTestApp();
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  await rm(config.dataDir, { recursive: true, force: true });
+});
+
+afterAll(async () => {
+  await closeTestDb();
+  await rm(config.dataDir, { recursive: true, force: true });
+});
+
+async function upload(userId: string, teamId: string, bytes: Buffer, contentType = "application/pdf") {
+  return request(app)
+    .post(`/blobs?teamId=${teamId}&filename=report.pdf`)
+    .set("Authorization", await authHeader(userId))
+    .set("Content-Type", contentType)
+    .send(bytes);
+}
+
+async function download(userId: string, sha256: string, range?: string) {
+  const req = request(app)
+    .get(`/blobs/${sha256}`)
+    .set("Authorization", await authHeader(userId))
+    .buffer(true)
+    .parse((res, cb) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("end", () => cb(null, Buffer.concat(chunks)));
+    });
+  return range ? req.set("Range", range) : req;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /blobs
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("POST /blobs", () => {
+  it("stores a raw upload keyed by SHA-256 and deduplicates repeats", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const first = await upload(ADMIN_USER, teamId, PDF_BYTES);
+    expect(first.status).toBe(201);
+    expect(first.body.data).toMatchObject({
+      sha256: PDF_SHA,
+      size: PDF_BYTES.length,
+      mimeType: "application/pdf",
+      filename: "report.pdf",
+      deduplicated: false,
+    });
+
+    const second = await upload(ADMIN_USER, teamId, PDF_BYTES);
+    expect(second.status).toBe(201);
+    expect(second.body.data.deduplicated).toBe(true);
+
+    const usage = await request(app)
+      .get(`/blobs/usage?teamId=${teamId}`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(usage.body.data).toEqual({ teamId, usedBytes: PDF_BYTES.length, quotaBytes: 100 });
+  });
+
+  it("accepts multipart/form-data uploads", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const res = await request(app)
+      .post(`/blobs?teamId=${teamId}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .attach("file", Buffer.from("a,b\n1,2\n"), { filename: "data.csv", contentType: "text/csv" });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.mimeType).toBe("text/csv");
+    expect(res.body.data.filename).toBe("data.csv");
+    expect(res.body.data.size).toBe(8);
+  });
+
+  it("rejects non-members and oversized uploads", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const outsider = await upload(OUTSIDER_USER, teamId, PDF_BYTES);
+    expect(outsider.status).toBe(403);
+
+    const tooLarge = await upload(ADMIN_USER, teamId, Buffer.alloc(65, 1));
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.body.error.code).toBe("TOO_LARGE");
+  });
+
+  it("enforces the team quota", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    expect((await upload(ADMIN_USER, teamId, Buffer.alloc(60, 1))).status).toBe(201);
+
+    const over = await upload(ADMIN_USER, teamId, Buffer.alloc(60, 2));
+    expect(over.status).toBe(413);
+    expect(over.body.error.code).toBe("QUOTA_EXCEEDED");
+
+    // The rejected bytes were not kept
+    const sha = createHash("sha256").update(Buffer.alloc(60, 2)).digest("hex");
+    expect((await download(ADMIN_USER, sha)).status).toBe(404);
+  });
+
+  it("holds the quota and stores once under concurrent uploads", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const same = await Promise.all([1, 2, 3].map(() => upload(ADMIN_USER, teamId, PDF_BYTES)));
+    expect(same.map((res) => res.status)).toEqual([201, 201, 201]);
+    expect(same.filter((res) => !res.body.data.deduplicated)).toHaveLength(1);
+
+    const different = await Promise.all([3, 4, 5].map((fill) => upload(ADMIN_USER, teamId, Buffer.alloc(40, fill))));
+    expect(different.map((res) => res.status).sort()).toEqual([201, 413, 413]);
+
+    const usage = await request(app)
+      .get(`/blobs/usage?teamId=${teamId}`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(usage.body.data.usedBytes).toBe(PDF_BYTES.length + 40);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /blobs/:sha256
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("GET /blobs/:sha256", () => {
+  it("serves the bytes with caching headers and byte ranges", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await upload(ADMIN_USER, teamId, PDF_BYTES);
+
+    const full = await download(ADMIN_USER, PDF_SHA);
+    expect(full.status).toBe(200);
+    expect(full.headers["content-type"]).toBe("application/pdf");
+    expect(full.headers["accept-ranges"]).toBe("bytes");
+    expect(full.headers["etag"]).toBe(`"${PDF_SHA}"`);
+    expect(full.headers["content-disposition"]).toBe('attachment; filename="report.pdf"');
+    expect(Buffer.compare(full.body, PDF_BYTES)).toBe(0);
+
+    const partial = await download(ADMIN_USER, PDF_SHA, "bytes=0-7");
+    expect(partial.status).toBe(206);
+    expect(partial.headers["content-range"]).toBe(`bytes 0-7/${PDF_BYTES.length}`);
+    expect(partial.body.toString()).toBe("%PDF-1.4");
+
+    const suffix = await download(ADMIN_USER, PDF_SHA, "bytes=-6");
+    expect(suffix.status).toBe(206);
+    expect(suffix.body.toString()).toBe("report");
+
+    const unsatisfiable = await download(ADMIN_USER, PDF_SHA, "bytes=500-");
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.headers["content-range"]).toBe(`bytes */${PDF_BYTES.length}`);
+  });
+
+  it("lets recipients of a referencing Tez download, but not outsiders", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await upload(ADMIN_USER, teamId, PDF_BYTES);
+
+    // Not yet referenced anywhere: only team members can fetch it
+    expect((await download(MEMBER_USER, PDF_SHA)).status).toBe(200);
+    expect((await download(OUTSIDER_USER, PDF_SHA)).status).toBe(403);
+
+    const share = await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({
+        teamId,
+        surfaceText: "Q3 report attached",
+        visibility: "dm",
+        recipients: [OUTSIDER_USER],
+        context: [{ layer: "artifact", content: "Quarterly report", blobSha256: PDF_SHA }],
+      });
+    expect(share.status).toBe(201);
+
+    const tezRes = await request(app)
+      .get(`/tez/${share.body.data.id}`)
+      .set("Authorization", await authHeader(OUTSIDER_USER));
+    expect(tezRes.body.data.context[0]).toMatchObject({ blobSha256: PDF_SHA, mimeType: "application/pdf" });
+
+    const res = await download(OUTSIDER_USER, PDF_SHA);
+    expect(res.status).toBe(200);
+    expect(Buffer.compare(res.body, PDF_BYTES)).toBe(0);
+
+    expect((await download("blob-stranger-1", PDF_SHA)).status).toBe(403);
+  });
+
+  it("finds the one visible Tez among many that reference a blob", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await upload(ADMIN_USER, teamId, PDF_BYTES);
+    const admin = await authHeader(ADMIN_USER);
+    const attach = { layer: "artifact", content: "Quarterly report", blobSha256: PDF_SHA };
+
+    for (let i = 0; i < 25; i++) {
+      await request(app)
+        .post("/tez/share")
+        .set("Authorization", admin)
+        .send({ teamId, surfaceText: `Copy ${i}`, context: [attach] });
+    }
+    expect((await download(OUTSIDER_USER, PDF_SHA)).status).toBe(403);
+
+    await request(app)
+      .post("/tez/share")
+      .set("Authorization", admin)
+      .send({ teamId, surfaceText: "For you", visibility: "dm", recipients: [OUTSIDER_USER], context: [attach] });
+    expect((await download(OUTSIDER_USER, PDF_SHA)).status).toBe(200);
+  });
+
+  it("returns 404 for unknown or malformed hashes", async () => {
+    await createTeamWithAdmin(ADMIN_USER);
+
+    expect((await download(ADMIN_USER, "0".repeat(64))).status).toBe(404);
+    expect((await download(ADMIN_USER, "not-a-hash")).status).toBe(404);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Artifact context
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Artifact context", () => {
+  it("rejects blobs the team has not uploaded or on non-artifact layers", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const { teamId: otherTeamId } = await createTeamWithAdmin(OUTSIDER_USER);
+    await upload(OUTSIDER_USER, otherTeamId, PDF_BYTES);
+
+    const foreign = await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({
+        teamId,
+        surfaceText: "Borrowed file",
+        context: [{ layer: "artifact", content: "Not ours", blobSha256: PDF_SHA }],
+      });
+    expect(foreign.status).toBe(400);
+    expect(foreign.body.error.code).toBe("UNKNOWN_BLOB");
+
+    await upload(ADMIN_USER, teamId, PDF_BYTES);
+    const wrongLayer = await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({
+        teamId,
+        surfaceText: "Misfiled",
+        context: [{ layer: "fact", content: "Report", blobSha256: PDF_SHA }],
+      });
+    expect(wrongLayer.status).toBe(400);
+  });
+});
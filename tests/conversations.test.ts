@@ -5,7 +5,10 @@
  * GET  /conversations              — List my conversations
  * GET  /conversations/:id/messages — Get messages in conversation
  * POST /conversations/:id/messages — Send message in conversation
+ * GET  /conversations/:id/threads/:tezId — Get a conversation thread
+ * POST/GET/DELETE /conversations/:id/pins — Pinned messages
  * POST /conversations/:id/read     — Mark conversation as read
+ * PATCH /conversations/:id, POST/PATCH/DELETE /conversations/:id/members — Group admin
  * GET  /unread                     — Get unread counts
  */
 
@@ -348,6 +351,24 @@ describe("POST /conversations/:id/messages", () => {
     expect(res.status).toBe(201);
   });
 
+  it("asks every other member to act when an action is requested", async () => {
+    const group = await createGroup(USER_A, [USER_B, USER_C], "Launch");
+    const convId = group.body.data.id;
+
+    const res = await sendMessage(USER_A, convId, "Launch checklist", { actionRequested: "Tick your items" });
+    expect(res.status).toBe(201);
+    expect(res.body.data.actionRequested).toBe("Tick your items");
+
+    for (const userId of [USER_B, USER_C]) {
+      const mine = await request(app).get("/me/actions").set("Authorization", await authHeader(userId));
+      expect(mine.body.data).toHaveLength(1);
+      expect(mine.body.data[0].tez).toMatchObject({ id: res.body.data.id, conversationId: convId });
+    }
+
+    const sender = await request(app).get("/me/actions").set("Authorization", await authHeader(USER_A));
+    expect(sender.body.data).toHaveLength(0);
+  });
+
   it("returns 403 for non-member sending", async () => {
     const dmRes = await createDM(USER_A, USER_B);
     const convId = dmRes.body.data.id;
@@ -625,3 +646,310 @@ describe("GET /unread", () => {
     expect(res.status).toBe(401);
   });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Group administration
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function addGroupMember(actorId: string, conversationId: string, userId: string, role?: string) {
+  return request(app)
+    .post(`/conversations/${conversationId}/members`)
+    .set("Authorization", await authHeader(actorId))
+    .send({ userId, role });
+}
+
+async function registerContact(userId: string) {
+  return request(app)
+    .post("/contacts/register")
+    .set("Authorization", await authHeader(userId))
+    .send({ displayName: `User ${userId}` });
+}
+
+async function removeGroupMember(actorId: string, conversationId: string, userId: string) {
+  return request(app)
+    .delete(`/conversations/${conversationId}/members/${userId}`)
+    .set("Authorization", await authHeader(actorId));
+}
+
+describe("Group administration", () => {
+  it("makes the group creator its admin", async () => {
+    const res = await createGroup(USER_A, [USER_B], "Ops");
+
+    const roles = Object.fromEntries(
+      res.body.data.members.map((m: { userId: string; role: string }) => [m.userId, m.role])
+    );
+    expect(roles).toEqual({ [USER_A]: "admin", [USER_B]: "member" });
+  });
+
+  it("admin adds a member who can then read the history", async () => {
+    const group = await createGroup(USER_A, [USER_B], "Ops");
+    const convId = group.body.data.id;
+    await sendMessage(USER_A, convId, "Before C joined");
+    await registerContact(USER_C);
+
+    const added = await addGroupMember(USER_A, convId, USER_C);
+    expect(added.status).toBe(201);
+    expect(added.body.data).toMatchObject({ userId: USER_C, role: "member" });
+
+    const messages = await request(app)
+      .get(`/conversations/${convId}/messages`)
+      .set("Authorization", await authHeader(USER_C));
+    expect(messages.status).toBe(200);
+    expect(messages.body.data).toHaveLength(1);
+
+    const again = await addGroupMember(USER_A, convId, USER_C);
+    expect(again.status).toBe(409);
+    expect(again.body.error.code).toBe("ALREADY_MEMBER");
+  });
+
+  it("refuses to add a user who has no profile", async () => {
+    const group = await createGroup(USER_A, [USER_B], "Ops");
+
+    const res = await addGroupMember(USER_A, group.body.data.id, "no-such-user");
+    expect(res.status).toBe(404);
+    expect(res.body.error.code).toBe("NOT_FOUND");
+  });
+
+  it("only admins can add members, rename or remove others", async () => {
+    const group = await createGroup(USER_A, [USER_B, USER_C], "Ops");
+    const convId = group.body.data.id;
+
+    expect((await addGroupMember(USER_B, convId, OUTSIDER)).status).toBe(403);
+    expect((await addGroupMember(OUTSIDER, convId, OUTSIDER)).status).toBe(403);
+    expect((await removeGroupMember(USER_B, convId, USER_C)).status).toBe(403);
+
+    const rename = await request(app)
+      .patch(`/conversations/${convId}`)
+      .set("Authorization", await authHeader(USER_B))
+      .send({ name: "Mine now" });
+    expect(rename.status).toBe(403);
+  });
+
+  it("admin renames the group", async () => {
+    const group = await createGroup(USER_A, [USER_B], "Ops");
+
+    const res = await request(app)
+      .patch(`/conversations/${group.body.data.id}`)
+      .set("Authorization", await authHeader(USER_A))
+      .send({ name: "Incident room" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.name).toBe("Incident room");
+  });
+
+  it("removed members and leavers lose access", async () => {
+    const group = await createGroup(USER_A, [USER_B, USER_C], "Ops");
+    const convId = group.body.data.id;
+
+    expect((await removeGroupMember(USER_A, convId, USER_B)).status).toBe(200);
+    expect((await removeGroupMember(USER_C, convId, USER_C)).status).toBe(200);
+
+    for (const userId of [USER_B, USER_C]) {
+      const res = await request(app)
+        .get(`/conversations/${convId}/messages`)
+        .set("Authorization", await authHeader(userId));
+      expect(res.status).toBe(403);
+    }
+  });
+
+  it("keeps at least one admin while others remain", async () => {
+    const group = await createGroup(USER_A, [USER_B], "Ops");
+    const convId = group.body.data.id;
+
+    const leave = await removeGroupMember(USER_A, convId, USER_A);
+    expect(leave.status).toBe(409);
+    expect(leave.body.error.code).toBe("LAST_ADMIN");
+
+    const demote = await request(app)
+      .patch(`/conversations/${convId}/members/${USER_A}`)
+      .set("Authorization", await authHeader(USER_A))
+      .send({ role: "member" });
+    expect(demote.status).toBe(409);
+
+    const promote = await request(app)
+      .patch(`/conversations/${convId}/members/${USER_B}`)
+      .set("Authorization", await authHeader(USER_A))
+      .send({ role: "admin" });
+    expect(promote.status).toBe(200);
+
+    expect((await removeGroupMember(USER_A, convId, USER_A)).status).toBe(200);
+  });
+
+  it("keeps DMs two-party and immutable", async () => {
+    const dm = await createDM(USER_A, USER_B);
+    const convId = dm.body.data.id;
+
+    const add = await addGroupMember(USER_A, convId, USER_C);
+    expect(add.status).toBe(409);
+    expect(add.body.error.code).toBe("DM_IMMUTABLE");
+
+    expect((await removeGroupMember(USER_A, convId, USER_A)).status).toBe(409);
+    const rename = await request(app)
+      .patch(`/conversations/${convId}`)
+      .set("Authorization", await authHeader(USER_A))
+      .send({ name: "Us" });
+    expect(rename.status).toBe(409);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Threaded replies
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Conversation threads", () => {
+  it("keeps /tez/:id/reply replies inside the conversation", async () => {
+    const dm = await createDM(USER_A, USER_B);
+    const convId = dm.body.data.id;
+    const root = await sendMessage(USER_A, convId, "Lunch?");
+
+    const reply = await request(app)
+      .post(`/tez/${root.body.data.id}/reply`)
+      .set("Authorization", await authHeader(USER_B))
+      .send({ surfaceText: "Sure" });
+
+    expect(reply.status).toBe(201);
+    expect(reply.body.data).toMatchObject({ conversationId: convId, threadId: root.body.data.id });
+
+    const outsider = await request(app)
+      .post(`/tez/${root.body.data.id}/reply`)
+      .set("Authorization", await authHeader(OUTSIDER))
+      .send({ surfaceText: "Me too" });
+    expect(outsider.status).toBe(403);
+  });
+
+  it("stops former group members from replying to their own messages", async () => {
+    const group = await createGroup(USER_A, [USER_B], "Ops");
+    const convId = group.body.data.id;
+    const mine = await sendMessage(USER_B, convId, "My message");
+    await removeGroupMember(USER_A, convId, USER_B);
+
+    const res = await request(app)
+      .post(`/tez/${mine.body.data.id}/reply`)
+      .set("Authorization", await authHeader(USER_B))
+      .send({ surfaceText: "Still here?" });
+    expect(res.status).toBe(403);
+  });
+
+  it("lists top-level messages with thread summaries", async () => {
+    const group = await createGroup(USER_A, [USER_B, USER_C], "Ops");
+    const convId = group.body.data.id;
+    const root = await sendMessage(USER_A, convId, "Deploy at 5?");
+    await sendMessage(USER_B, convId, "Yes", { parentTezId: root.body.data.id });
+    await sendMessage(USER_C, convId, "After standup", { parentTezId: root.body.data.id });
+    await sendMessage(USER_B, convId, "Unrelated");
+
+    const res = await request(app)
+      .get(`/conversations/${convId}/messages`)
+      .set("Authorization", await authHeader(USER_A));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(2);
+    const deploy = res.body.data.find((m: { id: string }) => m.id === root.body.data.id);
+    expect(deploy.thread).toMatchObject({
+      replyCount: 2,
+      lastReply: { senderUserId: USER_C, surfaceText: "After standup" },
+      participants: [USER_A, USER_B, USER_C],
+    });
+    const unrelated = res.body.data.find((m: { id: string }) => m.id !== root.body.data.id);
+    expect(unrelated.thread).toMatchObject({ replyCount: 0, lastReply: null });
+  });
+
+  it("rejects replies to messages from another conversation", async () => {
+    const one = await createGroup(USER_A, [USER_B], "One");
+    const two = await createGroup(USER_A, [USER_C], "Two");
+    const root = await sendMessage(USER_A, one.body.data.id, "In one");
+
+    const res = await sendMessage(USER_A, two.body.data.id, "Cross-post", { parentTezId: root.body.data.id });
+    expect(res.status).toBe(404);
+  });
+
+  it("fetches a thread from any of its messages, for members only", async () => {
+    const group = await createGroup(USER_A, [USER_B], "Ops");
+    const convId = group.body.data.id;
+    const root = await sendMessage(USER_A, convId, "Root");
+    const reply = await sendMessage(USER_B, convId, "Reply", { parentTezId: root.body.data.id });
+
+    const res = await request(app)
+      .get(`/conversations/${convId}/threads/${reply.body.data.id}`)
+      .set("Authorization", await authHeader(USER_A));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.rootTezId).toBe(root.body.data.id);
+    expect(res.body.data.messages.map((m: { surfaceText: string }) => m.surfaceText)).toEqual(["Root", "Reply"]);
+    expect(res.body.data.participants).toEqual([USER_A, USER_B]);
+
+    const outsider = await request(app)
+      .get(`/conversations/${convId}/threads/${root.body.data.id}`)
+      .set("Authorization", await authHeader(OUTSIDER));
+    expect(outsider.status).toBe(403);
+  });
+});
+
+describe("Conversation reactions", () => {
+  it("shows reaction counts in message listings", async () => {
+    const dm = await createDM(USER_A, USER_B);
+    const convId = dm.body.data.id;
+    const msg = await sendMessage(USER_A, convId, "Done!");
+
+    const react = await request(app)
+      .post(`/tez/${msg.body.data.id}/reactions`)
+      .set("Authorization", await authHeader(USER_B))
+      .send({ emoji: "🙌" });
+    expect(react.status).toBe(201);
+
+    const outsider = await request(app)
+      .post(`/tez/${msg.body.data.id}/reactions`)
+      .set("Authorization", await authHeader(OUTSIDER))
+      .send({ emoji: "🙌" });
+    expect(outsider.status).toBe(403);
+
+    const res = await request(app)
+      .get(`/conversations/${convId}/messages`)
+      .set("Authorization", await authHeader(USER_A));
+    expect(res.body.data[0].reactions).toEqual([{ emoji: "🙌", count: 1, reactedByMe: false }]);
+  });
+});
+
+describe("Conversation pins", () => {
+  async function pin(userId: string, conversationId: string, tezId: string) {
+    return request(app)
+      .post(`/conversations/${conversationId}/pins`)
+      .set("Authorization", await authHeader(userId))
+      .send({ tezId });
+  }
+
+  it("lets either DM member pin, and members list pins", async () => {
+    const dm = await createDM(USER_A, USER_B);
+    const convId = dm.body.data.id;
+    const msg = await sendMessage(USER_A, convId, "Address: 1 Main St");
+
+    expect((await pin(USER_B, convId, msg.body.data.id)).status).toBe(201);
+
+    const list = await request(app)
+      .get(`/conversations/${convId}/pins`)
+      .set("Authorization", await authHeader(USER_A));
+    expect(list.body.data.map((p: { tezId: string }) => p.tezId)).toEqual([msg.body.data.id]);
+
+    const outsider = await request(app)
+      .get(`/conversations/${convId}/pins`)
+      .set("Authorization", await authHeader(OUTSIDER));
+    expect(outsider.status).toBe(403);
+  });
+
+  it("restricts group pins to admins and to the group's own messages", async () => {
+    const group = await createGroup(USER_A, [USER_B], "Ops");
+    const convId = group.body.data.id;
+    const msg = await sendMessage(USER_B, convId, "Runbook link");
+    const dm = await createDM(USER_A, USER_C);
+    const dmMsg = await sendMessage(USER_A, dm.body.data.id, "Elsewhere");
+
+    expect((await pin(USER_B, convId, msg.body.data.id)).status).toBe(403);
+    expect((await pin(USER_A, convId, dmMsg.body.data.id)).status).toBe(404);
+    expect((await pin(USER_A, convId, msg.body.data.id)).status).toBe(201);
+
+    const unpin = await request(app)
+      .delete(`/conversations/${convId}/pins/${msg.body.data.id}`)
+      .set("Authorization", await authHeader(USER_A));
+    expect(unpin.status).toBe(200);
+  });
+});
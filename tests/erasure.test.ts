@@ -0,0 +1,239 @@
+/**
+ * Integration tests for user erasure
+ *
+ * An admin erases a user: their profile, memberships, deliveries and
+ * reactions go, their Tez stay under a pseudonym without context, and
+ * threads keep working for everyone else.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { rm } from "fs/promises";
+import { eq } from "drizzle-orm";
+import type { Express } from "express";
+import {
+  setupDbMock,
+  initTestDb,
+  cleanDb,
+  closeTestDb,
+  getTestDb,
+  createTestApp,
+  authHeader,
+  createTeamWithAdmin,
+  addMember,
+} from "./setup.js";
+import { config } from "../src/config.js";
+import {
+  tez,
+  tezContext,
+  tezRecipients,
+  tezReactions,
+  tezBookmarks,
+  teams,
+  teamMembers,
+  conversationMembers,
+  contacts,
+  auditLog,
+  blobs,
+  teamBlobs,
+} from "../src/db/schema.js";
+import { erasedUserId } from "../src/services/erasure.js";
+import { blobPath } from "../src/services/blobStore.js";
+
+// Must call before any imports that touch the db
+setupDbMock();
+
+vi.mock("../src/config.js", async () => {
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  return {
+    config: {
+      port: 3003,
+      nodeEnv: "test",
+      jwtSecret: "change-me-in-production",
+      jwtIssuer: "tezit-relay",
+      relayHost: "localhost",
+      maxTezSizeBytes: 1048576,
+      maxContextItems: 50,
+      maxRecipients: 100,
+      maxBlobSizeBytes: 1024,
+      teamBlobQuotaBytes: 4096,
+      federationEnabled: false,
+      federationMode: "allowlist",
+      dataDir: join(tmpdir(), `tezit-erasure-test-${process.pid}`),
+      adminUserIds: [],
+    },
+  };
+});
+
+let app: Express;
+
+const ALICE = "erasure-alice";
+const BOB = "erasure-bob";
+const RELAY_ADMIN = "erasure-relay-admin";
+
+beforeAll(async () => {
+  await initTestDb();
+  app = await createTestApp();
+  config.adminUserIds.push(RELAY_ADMIN);
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  await rm(config.dataDir, { recursive: true, force: true });
+});
+
+afterAll(async () => {
+  await closeTestDb();
+  await rm(config.dataDir, { recursive: true, force: true });
+});
+
+async function erase(userId: string, asUser = RELAY_ADMIN) {
+  return request(app)
+    .post(`/admin/users/${userId}/erase`)
+    .set("Authorization", await authHeader(asUser));
+}
+
+async function upload(userId: string, teamId: string, bytes: Buffer) {
+  const res = await request(app)
+    .post(`/blobs?teamId=${teamId}`)
+    .set("Authorization", await authHeader(userId))
+    .set("Content-Type", "application/pdf")
+    .send(bytes);
+  return res.body.data.sha256 as string;
+}
+
+describe("User erasure", () => {
+  it("removes the user's data and keeps their threads readable for others", async () => {
+    const alice = await authHeader(ALICE);
+    const bob = await authHeader(BOB);
+
+    await request(app).post("/contacts/register").set("Authorization", alice).send({ displayName: "Alice" });
+    const { teamId } = await createTeamWithAdmin(ALICE);
+    await addMember(teamId, BOB);
+
+    const root = await request(app)
+      .post("/tez/share")
+      .set("Authorization", alice)
+      .send({
+        teamId,
+        surfaceText: "Offsite plan",
+        recipients: [BOB],
+        context: [{ layer: "background", content: "Alice's home address is ..." }],
+      });
+    const rootId = root.body.data.id;
+    const reply = await request(app)
+      .post(`/tez/${rootId}/reply`)
+      .set("Authorization", bob)
+      .send({ surfaceText: "Sounds good" });
+    const forAlice = await request(app)
+      .post("/tez/share")
+      .set("Authorization", bob)
+      .send({ teamId, surfaceText: "Budget", recipients: [ALICE] });
+    await request(app).post(`/tez/${forAlice.body.data.id}/reactions`).set("Authorization", alice).send({ emoji: "👍" });
+    await request(app).post(`/tez/${forAlice.body.data.id}/bookmark`).set("Authorization", alice).send({});
+    await request(app).post("/conversations").set("Authorization", alice).send({ type: "dm", memberIds: [BOB] });
+
+    const res = await erase(ALICE);
+    expect(res.status).toBe(200);
+    const pseudonym = erasedUserId(ALICE);
+    expect(res.body.data).toMatchObject({
+      erasedAs: pseudonym,
+      tezPseudonymized: 1,
+      contextDeleted: 1,
+      recipientRowsDeleted: 1,
+      teamsLeft: [teamId],
+      teamsTransferred: [teamId],
+    });
+    expect(res.body.data.conversationsLeft).toHaveLength(1);
+
+    const db = getTestDb();
+    expect(await db.select().from(contacts).where(eq(contacts.id, ALICE))).toHaveLength(0);
+    expect(await db.select().from(tez).where(eq(tez.senderUserId, ALICE))).toHaveLength(0);
+    expect(await db.select().from(tezContext).where(eq(tezContext.tezId, rootId))).toHaveLength(0);
+    expect(await db.select().from(tezRecipients).where(eq(tezRecipients.userId, ALICE))).toHaveLength(0);
+    expect(await db.select().from(tezReactions).where(eq(tezReactions.userId, ALICE))).toHaveLength(0);
+    expect(await db.select().from(tezBookmarks).where(eq(tezBookmarks.userId, ALICE))).toHaveLength(0);
+    expect(await db.select().from(teamMembers).where(eq(teamMembers.userId, ALICE))).toHaveLength(0);
+    expect(await db.select().from(conversationMembers).where(eq(conversationMembers.userId, ALICE))).toHaveLength(0);
+
+    // Bob inherits the team and still sees the whole thread
+    const [team] = await db.select().from(teams).where(eq(teams.id, teamId));
+    expect(team.ownerId).toBe(BOB);
+    const [membership] = await db.select().from(teamMembers).where(eq(teamMembers.userId, BOB));
+    expect(membership.role).toBe("admin");
+
+    const thread = await request(app).get(`/tez/${rootId}/thread`).set("Authorization", bob);
+    expect(thread.status).toBe(200);
+    expect(thread.body.data.messages.map((m: { id: string }) => m.id)).toEqual([rootId, reply.body.data.id]);
+    expect(thread.body.data.messages[0]).toMatchObject({ senderUserId: pseudonym, surfaceText: "Offsite plan" });
+
+    const erased = await db.select().from(auditLog).where(eq(auditLog.action, "user.erased"));
+    expect(erased).toHaveLength(1);
+    expect(erased[0]).toMatchObject({ actorUserId: RELAY_ADMIN, targetType: "user", targetId: pseudonym });
+  });
+
+  it("uses the same pseudonym every time and finds nothing left on a repeat", async () => {
+    const { teamId } = await createTeamWithAdmin(BOB);
+    await addMember(teamId, ALICE);
+    await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(ALICE))
+      .send({ teamId, surfaceText: "Hello" });
+
+    const first = await erase(ALICE);
+    const again = await erase(ALICE);
+    expect(again.body.data.erasedAs).toBe(first.body.data.erasedAs);
+    expect(again.body.data).toMatchObject({ tezPseudonymized: 0, teamsLeft: [], teamsTransferred: [] });
+    expect(erasedUserId(BOB)).not.toBe(first.body.data.erasedAs);
+  });
+
+  it("deletes the bytes of artifacts only their own Tez used", async () => {
+    const { teamId } = await createTeamWithAdmin(BOB);
+    await addMember(teamId, ALICE);
+    const alice = await authHeader(ALICE);
+    const privateSha = await upload(ALICE, teamId, Buffer.from("alice's scan"));
+    const sharedSha = await upload(ALICE, teamId, Buffer.from("the team handbook"));
+    expect(privateSha).toBe(createHash("sha256").update("alice's scan").digest("hex"));
+
+    await request(app)
+      .post("/tez/share")
+      .set("Authorization", alice)
+      .send({ teamId, surfaceText: "Scan", context: [{ layer: "artifact", content: "scan", blobSha256: privateSha }] });
+    // Bob attached the handbook to his own Tez, so it stays
+    await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(BOB))
+      .send({
+        teamId,
+        surfaceText: "Read this",
+        context: [{ layer: "artifact", content: "handbook", blobSha256: sharedSha }],
+      });
+
+    expect((await erase(ALICE)).status).toBe(200);
+
+    const db = getTestDb();
+    expect(await db.select().from(blobs).where(eq(blobs.sha256, privateSha))).toHaveLength(0);
+    expect(existsSync(blobPath(privateSha))).toBe(false);
+    expect(await db.select().from(teamBlobs).where(eq(teamBlobs.sha256, sharedSha))).toMatchObject([
+      { teamId, uploadedBy: erasedUserId(ALICE) },
+    ]);
+    expect(existsSync(blobPath(sharedSha))).toBe(true);
+  });
+
+  it("does not know users the relay has never seen", async () => {
+    const res = await erase("nobody-at-all");
+    expect(res.status).toBe(404);
+    expect(await getTestDb().select().from(auditLog).where(eq(auditLog.action, "user.erased"))).toHaveLength(0);
+  });
+
+  it("is for relay admins only", async () => {
+    const { teamId } = await createTeamWithAdmin(ALICE);
+    await addMember(teamId, BOB);
+
+    expect((await erase(BOB, ALICE)).status).toBe(403);
+    expect(await getTestDb().select().from(teamMembers).where(eq(teamMembers.userId, BOB))).toHaveLength(1);
+  });
+});
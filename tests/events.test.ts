@@ -0,0 +1,207 @@
+/**
+ * Integration tests for the real-time event stream
+ *
+ * GET /events — Server-Sent Events for new Tez the caller can see
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import {
+  setupDbMock,
+  initTestDb,
+  cleanDb,
+  closeTestDb,
+  createTestApp,
+  authHeader,
+  createTeamWithAdmin,
+  addMember,
+} from "./setup.js";
+
+// Must call before any imports that touch the db
+setupDbMock();
+
+let app: Express;
+let server: Server;
+let baseUrl: string;
+
+const ADMIN_USER = "events-admin-1";
+const MEMBER_USER = "events-member-1";
+const OUTSIDER_USER = "events-outsider-1";
+
+beforeAll(async () => {
+  await initTestDb();
+  app = await createTestApp();
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterAll(async () => {
+  server.close();
+  await closeTestDb();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helper: open an SSE stream and collect parsed events
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SseMessage {
+  id: string;
+  event: string;
+  data: Record<string, any>;
+}
+
+async function openStream(userId: string, lastEventId?: string) {
+  const controller = new AbortController();
+  const headers: Record<string, string> = { Authorization: await authHeader(userId) };
+  if (lastEventId) headers["Last-Event-ID"] = lastEventId;
+
+  const res = await fetch(`${baseUrl}/events`, { headers, signal: controller.signal });
+  const messages: SseMessage[] = [];
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const pump = (async () => {
+    try {
+      for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let sep: number;
+        while ((sep = buffer.indexOf("\n\n")) !== -1) {
+          const block = buffer.slice(0, sep);
+          buffer = buffer.slice(sep + 2);
+          const fields: Record<string, string> = {};
+          for (const line of block.split("\n")) {
+            const idx = line.indexOf(": ");
+            if (idx > 0) fields[line.slice(0, idx)] = line.slice(idx + 2);
+          }
+          if (fields.data) {
+            messages.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+          }
+        }
+      }
+    } catch {
+      // aborted
+    }
+  })();
+
+  return {
+    res,
+    messages,
+    async waitFor(count: number, timeoutMs = 2000) {
+      const deadline = Date.now() + timeoutMs;
+      while (messages.length < count && Date.now() < deadline) {
+        await new Promise((r) => setTimeout(r, 20));
+      }
+      return messages;
+    },
+    async close() {
+      controller.abort();
+      await pump;
+    },
+  };
+}
+
+async function shareTez(teamId: string, senderUserId: string, overrides: Record<string, unknown> = {}) {
+  return request(app)
+    .post("/tez/share")
+    .set("Authorization", await authHeader(senderUserId))
+    .send({ teamId, surfaceText: "Event stream test", ...overrides });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /events
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("GET /events", () => {
+  it("rejects unauthenticated requests", async () => {
+    const res = await request(app).get("/events");
+    expect(res.status).toBe(401);
+  });
+
+  it("pushes shared Tez and replies to team members", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+
+    const stream = await openStream(MEMBER_USER);
+    expect(stream.res.headers.get("content-type")).toContain("text/event-stream");
+
+    const shareRes = await shareTez(teamId, ADMIN_USER, { surfaceText: "Live update" });
+    await request(app)
+      .post(`/tez/${shareRes.body.data.id}/reply`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ surfaceText: "Follow-up" });
+
+    const messages = await stream.waitFor(2);
+    await stream.close();
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].event).toBe("tez.shared");
+    expect(messages[0].data.tez.surfaceText).toBe("Live update");
+    expect(messages[1].event).toBe("tez.replied");
+    expect(messages[1].data.tez.parentTezId).toBe(shareRes.body.data.id);
+    expect(Number(messages[1].id)).toBeGreaterThan(Number(messages[0].id));
+  });
+
+  it("does not push Tez the user cannot access", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const stream = await openStream(OUTSIDER_USER);
+    await shareTez(teamId, ADMIN_USER);
+    const messages = await stream.waitFor(1, 300);
+    await stream.close();
+
+    expect(messages).toHaveLength(0);
+  });
+
+  it("pushes conversation messages only to members", async () => {
+    const convRes = await request(app)
+      .post("/conversations")
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ type: "dm", memberIds: [MEMBER_USER] });
+    const conversationId = convRes.body.data.id;
+
+    const memberStream = await openStream(MEMBER_USER);
+    const outsiderStream = await openStream(OUTSIDER_USER);
+
+    await request(app)
+      .post(`/conversations/${conversationId}/messages`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ surfaceText: "Private hello" });
+
+    const memberMessages = await memberStream.waitFor(1);
+    const outsiderMessages = await outsiderStream.waitFor(1, 300);
+    await memberStream.close();
+    await outsiderStream.close();
+
+    expect(memberMessages).toHaveLength(1);
+    expect(memberMessages[0].event).toBe("conversation.message_sent");
+    expect(memberMessages[0].data.conversationId).toBe(conversationId);
+    expect(outsiderMessages).toHaveLength(0);
+  });
+
+  it("replays missed events after Last-Event-ID", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+
+    const first = await openStream(MEMBER_USER);
+    await shareTez(teamId, ADMIN_USER, { surfaceText: "Seen" });
+    const [seen] = await first.waitFor(1);
+    await first.close();
+
+    // Disconnected: these two are missed
+    await shareTez(teamId, ADMIN_USER, { surfaceText: "Missed 1" });
+    await shareTez(teamId, ADMIN_USER, { surfaceText: "Missed 2" });
+
+    const resumed = await openStream(MEMBER_USER, seen.id);
+    const messages = await resumed.waitFor(2);
+    await resumed.close();
+
+    expect(messages.map((m) => m.data.tez.surfaceText)).toEqual(["Missed 1", "Missed 2"]);
+  });
+});
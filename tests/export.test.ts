@@ -0,0 +1,242 @@
+/**
+ * Integration tests for personal data exports
+ *
+ * Queuing an export, building the archive in the background, polling its
+ * status, downloading through the signed link, and expiry.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import { existsSync } from "fs";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { gunzipSync } from "zlib";
+import { eq } from "drizzle-orm";
+import type { Express } from "express";
+import {
+  setupDbMock,
+  initTestDb,
+  cleanDb,
+  closeTestDb,
+  getTestDb,
+  createTestApp,
+  authHeader,
+  createTeamWithAdmin,
+  addMember,
+} from "./setup.js";
+import { config } from "../src/config.js";
+import { dataExports } from "../src/db/schema.js";
+import { processExportQueue, exportPath } from "../src/services/dataExport.js";
+
+// Must call before any imports that touch the db
+setupDbMock();
+
+vi.mock("../src/config.js", async () => {
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  return {
+    config: {
+      port: 3003,
+      nodeEnv: "test",
+      jwtSecret: "change-me-in-production",
+      jwtIssuer: "tezit-relay",
+      relayHost: "localhost",
+      maxTezSizeBytes: 1048576,
+      maxContextItems: 50,
+      maxRecipients: 100,
+      federationEnabled: false,
+      federationMode: "allowlist",
+      dataDir: join(tmpdir(), `tezit-export-test-${process.pid}`),
+      adminUserIds: [],
+      exportTtlMs: 60 * 60_000,
+    },
+  };
+});
+
+let app: Express;
+
+const ALICE = "export-alice";
+const BOB = "export-bob";
+
+beforeAll(async () => {
+  await initTestDb();
+  app = await createTestApp();
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  await rm(config.dataDir, { recursive: true, force: true });
+});
+
+afterAll(async () => {
+  await closeTestDb();
+  await rm(config.dataDir, { recursive: true, force: true });
+});
+
+async function requestExport(userId = ALICE) {
+  return request(app)
+    .post("/me/export")
+    .set("Authorization", await authHeader(userId));
+}
+
+async function poll(exportId: string, userId = ALICE) {
+  return request(app)
+    .get(`/me/export/${exportId}`)
+    .set("Authorization", await authHeader(userId));
+}
+
+function download(url: string) {
+  return request(app)
+    .get(url)
+    .buffer(true)
+    .parse((res, cb) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("end", () => cb(null, Buffer.concat(chunks)));
+    });
+}
+
+describe("Data export", () => {
+  it("queues one export at a time and builds it in the background", async () => {
+    const first = await requestExport();
+    expect(first.status).toBe(202);
+    expect(first.body.data).toMatchObject({ userId: ALICE, status: "pending", downloadUrl: null });
+
+    // Still pending: the same job comes back
+    const again = await requestExport();
+    expect(again.body.data.id).toBe(first.body.data.id);
+
+    expect(await processExportQueue()).toBe(1);
+    expect(await processExportQueue()).toBe(0);
+
+    const ready = await poll(first.body.data.id);
+    expect(ready.status).toBe(200);
+    expect(ready.body.data.status).toBe("ready");
+    expect(ready.body.data.sizeBytes).toBeGreaterThan(0);
+    expect(ready.body.data.downloadUrl).toMatch(/^\/me\/export\/.+\/download\?token=/);
+
+    // Only the owner can poll it
+    expect((await poll(first.body.data.id, BOB)).status).toBe(404);
+
+    const list = await request(app)
+      .get("/me/export")
+      .set("Authorization", await authHeader(ALICE));
+    expect(list.body.meta.count).toBe(1);
+  });
+
+  it("archives the user's profile, memberships, Tez, reactions and actions", async () => {
+    await request(app)
+      .post("/contacts/register")
+      .set("Authorization", await authHeader(ALICE))
+      .send({ displayName: "Alice" });
+    const { teamId } = await createTeamWithAdmin(BOB);
+    await addMember(teamId, ALICE);
+
+    const sent = await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(ALICE))
+      .send({ teamId, surfaceText: "From Alice", context: [{ layer: "background", content: "Why" }] });
+    const received = await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(BOB))
+      .send({
+        teamId,
+        surfaceText: "For Alice",
+        recipients: [ALICE],
+        context: [{ layer: "fact", content: "Budget approved" }],
+      });
+    await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(BOB))
+      .send({ teamId, surfaceText: "Not for Alice" });
+    await request(app)
+      .post(`/tez/${received.body.data.id}/reactions`)
+      .set("Authorization", await authHeader(ALICE))
+      .send({ emoji: "👍" });
+
+    const dm = await request(app)
+      .post("/conversations")
+      .set("Authorization", await authHeader(BOB))
+      .send({ type: "dm", memberIds: [ALICE] });
+    await request(app)
+      .post(`/conversations/${dm.body.data.id}/messages`)
+      .set("Authorization", await authHeader(BOB))
+      .send({ surfaceText: "Lunch?" });
+
+    const job = await requestExport();
+    await processExportQueue();
+    const { downloadUrl } = (await poll(job.body.data.id)).body.data;
+
+    const res = await download(downloadUrl);
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe("application/gzip");
+
+    const archive = JSON.parse(gunzipSync(res.body).toString("utf8"));
+    expect(archive).toMatchObject({ format: "tezit-export/1", userId: ALICE, contact: { displayName: "Alice" } });
+    expect(archive.teams).toEqual([expect.objectContaining({ teamId, role: "member" })]);
+    expect(archive.conversations).toEqual([expect.objectContaining({ conversationId: dm.body.data.id, type: "dm" })]);
+
+    expect(archive.tezSent.map((t: { id: string }) => t.id)).toEqual([sent.body.data.id]);
+    expect(archive.tezSent[0].context[0]).toMatchObject({ layer: "background", content: "Why" });
+    expect(archive.tezReceived.map((t: { surfaceText: string }) => t.surfaceText).sort()).toEqual([
+      "For Alice",
+      "Lunch?",
+    ]);
+    expect(archive.tezReceived.find((t: { id: string }) => t.id === received.body.data.id).context[0]).toMatchObject({
+      content: "Budget approved",
+    });
+
+    expect(archive.reactions).toEqual([expect.objectContaining({ emoji: "👍" })]);
+    expect(archive.audit.every((e: { actorUserId: string }) => e.actorUserId === ALICE)).toBe(true);
+    expect(archive.audit.map((e: { action: string }) => e.action)).toEqual(
+      expect.arrayContaining(["contact.registered", "tez.shared", "tez.reaction_added", "user.export_requested"])
+    );
+  });
+
+  it("rejects bad tokens and stops serving the archive once it expires", async () => {
+    const job = await requestExport();
+    await processExportQueue();
+    const { id, downloadUrl } = (await poll(job.body.data.id)).body.data;
+
+    expect((await download(`/me/export/${id}/download?token=forged`)).status).toBe(404);
+    expect((await download(downloadUrl)).status).toBe(200);
+
+    await getTestDb()
+      .update(dataExports)
+      .set({ expiresAt: new Date(Date.now() - 1000).toISOString() })
+      .where(eq(dataExports.id, id));
+    expect((await download(downloadUrl)).status).toBe(404);
+
+    await processExportQueue();
+    expect((await poll(id)).body.data).toMatchObject({ status: "expired", downloadUrl: null });
+    expect(existsSync(exportPath(id))).toBe(false);
+
+    // A new export can be requested afterwards
+    const next = await requestExport();
+    expect(next.body.data.id).not.toBe(id);
+  });
+
+  it("answers for a missing archive without download headers", async () => {
+    const job = await requestExport();
+    await processExportQueue();
+    const { id, downloadUrl } = (await poll(job.body.data.id)).body.data;
+    await rm(exportPath(id));
+
+    const res = await request(app).get(downloadUrl);
+    expect(res.status).toBe(500);
+    expect(res.headers["content-type"]).toContain("application/json");
+    expect(res.headers["content-disposition"]).toBeUndefined();
+  });
+
+  it("keeps why a build failed out of the API", async () => {
+    const job = await requestExport();
+    // A directory in the archive's place makes the final rename fail
+    await mkdir(exportPath(job.body.data.id), { recursive: true });
+    await writeFile(`${exportPath(job.body.data.id)}/occupied`, "");
+    await processExportQueue();
+
+    const failed = (await poll(job.body.data.id)).body.data;
+    expect(failed.status).toBe("failed");
+    expect(failed.error).toBe("The export could not be built; request a new one");
+    expect(failed.error).not.toContain(config.dataDir);
+  });
+});
@@ -37,8 +37,11 @@ import {
   createBundle,
   validateBundle,
   computeBundleHash,
+  type FederationBundle,
 } from "../src/services/federationBundle.js";
 import { partitionRecipients } from "../src/services/federationOutbound.js";
+import { tez, federationOutbox, federatedTez, auditLog } from "../src/db/schema.js";
+import { eq } from "drizzle-orm";
 
 let app: Express;
 
@@ -764,6 +767,429 @@ describe("Full Federation Flow", () => {
     expect(res.body.notFound).toHaveLength(1);
     expect(res.body.notFound[0]).toContain(unknownId);
   });
+
+  async function deliverFromA(
+    tezFields: { id: string; threadId: string | null; parentTezId: string | null; surfaceText: string },
+    to: string[] = [`${bobId}@beta.test`],
+    bundleType: FederationBundle["bundle_type"] = "federation_delivery",
+    from = "alice@alpha.test",
+    reaction?: { emoji: string; action: "add" | "remove" }
+  ) {
+    const idA = initIdentityFromValues(identityA);
+    const bundle = createBundle({
+      tez: {
+        ...tezFields,
+        type: "note",
+        urgency: "normal",
+        actionRequested: null,
+        visibility: "dm",
+        createdAt: new Date().toISOString(),
+      },
+      context: [],
+      from,
+      to,
+      identity: idA,
+      bundleType,
+      reaction,
+    });
+    initIdentityFromValues(identityB);
+
+    const { headers } = createSignedInboxRequest(bundle);
+    return request(app)
+      .post("/federation/inbox")
+      .set("Host", "beta.test")
+      .set("Date", headers.Date)
+      .set("Digest", headers.Digest)
+      .set("Signature", headers.Signature)
+      .set("Signature-Input", headers["Signature-Input"])
+      .send(bundle);
+  }
+
+  test("Remote replies join the local copy of their thread", async () => {
+    await registerServerA();
+    await registerBobOnServerB();
+
+    const rootId = randomUUID();
+    const rootRes = await deliverFromA({ id: rootId, threadId: rootId, parentTezId: null, surfaceText: "Root" });
+    const localRootId = rootRes.body.localTezIds[0];
+
+    const replyId = randomUUID();
+    const replyRes = await deliverFromA({ id: replyId, threadId: rootId, parentTezId: rootId, surfaceText: "Reply" });
+    expect(replyRes.status).toBe(200);
+    const localReplyId = replyRes.body.localTezIds[0];
+
+    const rows = await getTestDb().select().from(tez).where(eq(tez.id, localReplyId));
+    expect(rows[0].threadId).toBe(localRootId);
+    expect(rows[0].parentTezId).toBe(localRootId);
+
+    const threadRes = await request(app)
+      .get(`/tez/${localRootId}/thread`)
+      .set("Authorization", await authHeader(bobId));
+    expect(threadRes.status).toBe(200);
+    expect(threadRes.body.data.messages.map((m: { id: string }) => m.id)).toEqual([localRootId, localReplyId]);
+  });
+
+  test("Remote replies to our outbound Tez map back to the original", async () => {
+    await registerServerA();
+    await registerBobOnServerB();
+
+    // A Tez we sent earlier, stored by Server A under its own id
+    const db = getTestDb();
+    const now = new Date().toISOString();
+    const originalId = randomUUID();
+    const remoteCopyId = randomUUID();
+    await db.insert(tez).values({
+      id: originalId,
+      threadId: originalId,
+      surfaceText: "Original from Bob",
+      senderUserId: bobId,
+      visibility: "dm",
+      createdAt: now,
+      updatedAt: now,
+    });
+    await db.insert(federatedTez).values({
+      id: randomUUID(),
+      localTezId: originalId,
+      remoteTezId: remoteCopyId,
+      remoteHost: "alpha.test",
+      direction: "outbound",
+      federatedAt: now,
+    });
+
+    const res = await deliverFromA({ id: randomUUID(), threadId: remoteCopyId, parentTezId: remoteCopyId, surfaceText: "Answer" });
+    expect(res.status).toBe(200);
+
+    const rows = await db.select().from(tez).where(eq(tez.id, res.body.localTezIds[0]));
+    expect(rows[0].threadId).toBe(originalId);
+    expect(rows[0].parentTezId).toBe(originalId);
+  });
+
+  test("Local replies to a federated Tez go back to every remote participant", async () => {
+    await registerServerA();
+    await registerBobOnServerB();
+
+    // Remote relays are unreachable; deliveries just land in the outbox
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+
+    try {
+      const rootId = randomUUID();
+      const rootRes = await deliverFromA(
+        { id: rootId, threadId: rootId, parentTezId: null, surfaceText: "Root" },
+        [`${bobId}@beta.test`, "carol@gamma.test"]
+      );
+      const localRootId = rootRes.body.localTezIds[0];
+
+      const replyRes = await request(app)
+        .post(`/tez/${localRootId}/reply`)
+        .set("Authorization", await authHeader(bobId))
+        .send({ surfaceText: "Bob's answer" });
+      expect(replyRes.status).toBe(201);
+      const replyId = replyRes.body.data.id;
+
+      // Delivery is fire-and-forget; wait until both attempts have finished
+      let entries: Array<typeof federationOutbox.$inferSelect> = [];
+      for (let i = 0; i < 50; i++) {
+        entries = await getTestDb().select().from(federationOutbox).where(eq(federationOutbox.tezId, replyId));
+        if (entries.length === 2 && entries.every((e) => e.status !== "pending")) break;
+        await new Promise((r) => setTimeout(r, 20));
+      }
+
+      const byHost = Object.fromEntries(entries.map((e) => [e.targetHost, e]));
+      expect(Object.keys(byHost).sort()).toEqual(["alpha.test", "gamma.test"]);
+      expect(JSON.parse(byHost["alpha.test"].targetAddresses)).toEqual(["alice@alpha.test"]);
+      expect(JSON.parse(byHost["gamma.test"].targetAddresses)).toEqual(["carol@gamma.test"]);
+
+      const bundle = JSON.parse(byHost["alpha.test"].bundle);
+      expect(bundle.tez).toMatchObject({ id: replyId, threadId: localRootId, parentTezId: localRootId });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  test("Replies in purely local threads are not federated", async () => {
+    const { teamId } = await createTeamWithAdmin(aliceId);
+    const auth = await authHeader(aliceId);
+    const shareRes = await request(app).post("/tez/share").set("Authorization", auth).send({ teamId, surfaceText: "Local" });
+
+    await request(app).post(`/tez/${shareRes.body.data.id}/reply`).set("Authorization", auth).send({ surfaceText: "Still local" });
+
+    const entries = await getTestDb().select().from(federationOutbox);
+    expect(entries).toHaveLength(0);
+  });
+
+  test("Amendments from the original sender update the local copy", async () => {
+    await registerServerA();
+    await registerBobOnServerB();
+
+    const remoteId = randomUUID();
+    const fields = { id: remoteId, threadId: remoteId, parentTezId: null };
+    const rootRes = await deliverFromA({ ...fields, surfaceText: "Meet at 3pm" });
+    const localId = rootRes.body.localTezIds[0];
+
+    const spoofed = await deliverFromA(
+      { ...fields, surfaceText: "Meet never" },
+      [`${bobId}@beta.test`],
+      "federation_amendment",
+      "mallory@alpha.test"
+    );
+    expect(spoofed.status).toBe(403);
+
+    const res = await deliverFromA({ ...fields, surfaceText: "Meet at 4pm" }, [`${bobId}@beta.test`], "federation_amendment");
+    expect(res.status).toBe(200);
+    expect(res.body.localTezIds).toEqual([localId]);
+
+    const tezRes = await request(app).get(`/tez/${localId}`).set("Authorization", await authHeader(bobId));
+    expect(tezRes.body.data.surfaceText).toBe("Meet at 4pm");
+    expect(tezRes.body.data.revision).toBe(2);
+
+    const revisions = await request(app).get(`/tez/${localId}/revisions`).set("Authorization", await authHeader(bobId));
+    expect(revisions.body.data[0].surfaceText).toBe("Meet at 3pm");
+
+    const unknown = await deliverFromA(
+      { id: randomUUID(), threadId: null, parentTezId: null, surfaceText: "?" },
+      [`${bobId}@beta.test`],
+      "federation_amendment"
+    );
+    expect(unknown.status).toBe(404);
+  });
+
+  test("Deletions from the original sender tombstone the local copy", async () => {
+    await registerServerA();
+    await registerBobOnServerB();
+
+    const remoteId = randomUUID();
+    const fields = { id: remoteId, threadId: remoteId, parentTezId: null };
+    const rootRes = await deliverFromA({ ...fields, surfaceText: "Call me on 555-0100" });
+    const localId = rootRes.body.localTezIds[0];
+
+    const deletion = { ...fields, surfaceText: "" };
+    const spoofed = await deliverFromA(deletion, [`${bobId}@beta.test`], "federation_deletion", "mallory@alpha.test");
+    expect(spoofed.status).toBe(403);
+
+    const res = await deliverFromA(deletion, [`${bobId}@beta.test`], "federation_deletion");
+    expect(res.status).toBe(200);
+    expect(res.body.localTezIds).toEqual([localId]);
+
+    const rows = await getTestDb().select().from(tez).where(eq(tez.id, localId));
+    expect(rows[0]).toMatchObject({ status: "deleted", surfaceText: "" });
+
+    // Repeats are accepted so the sender stops retrying
+    expect((await deliverFromA(deletion, [`${bobId}@beta.test`], "federation_deletion")).status).toBe(200);
+
+    const unknown = await deliverFromA(
+      { id: randomUUID(), threadId: null, parentTezId: null, surfaceText: "" },
+      [`${bobId}@beta.test`],
+      "federation_deletion"
+    );
+    expect(unknown.status).toBe(404);
+  });
+
+  test("Erasing a user asks peers that received their Tez to delete it", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+
+    try {
+      const { teamId } = await createTeamWithAdmin(bobId);
+      const auth = await authHeader(bobId);
+      const shareRes = await request(app).post("/tez/share").set("Authorization", auth).send({ teamId, surfaceText: "Hi" });
+      const tezId = shareRes.body.data.id;
+
+      await getTestDb().insert(federatedTez).values({
+        id: randomUUID(),
+        localTezId: tezId,
+        remoteTezId: randomUUID(),
+        remoteHost: "alpha.test",
+        direction: "outbound",
+        remoteAddresses: JSON.stringify(["alice@alpha.test"]),
+        federatedAt: new Date().toISOString(),
+      });
+
+      const res = await request(app)
+        .post(`/admin/users/${bobId}/erase`)
+        .set("Authorization", await authHeader(adminId));
+      expect(res.status).toBe(200);
+      expect(res.body.data.federatedDeletions).toBe(1);
+
+      const entries = await getTestDb().select().from(federationOutbox).where(eq(federationOutbox.tezId, tezId));
+      expect(entries).toHaveLength(1);
+      const bundle = JSON.parse(entries[0].bundle);
+      expect(bundle).toMatchObject({ bundle_type: "federation_deletion", from: `${bobId}@beta.test`, to: ["alice@alpha.test"] });
+      expect(bundle.tez).toMatchObject({ id: tezId, surfaceText: "" });
+      expect(bundle.context).toEqual([]);
+      expect(validateBundle(bundle)).toBeNull();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  test("Editing a federated Tez queues an amendment for its peers", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+
+    try {
+      const { teamId } = await createTeamWithAdmin(bobId);
+      const auth = await authHeader(bobId);
+      const shareRes = await request(app).post("/tez/share").set("Authorization", auth).send({ teamId, surfaceText: "v1" });
+      const tezId = shareRes.body.data.id;
+
+      // Pretend it was delivered to Alice on Server A earlier
+      await getTestDb().insert(federatedTez).values({
+        id: randomUUID(),
+        localTezId: tezId,
+        remoteTezId: randomUUID(),
+        remoteHost: "alpha.test",
+        direction: "outbound",
+        remoteAddresses: JSON.stringify(["alice@alpha.test"]),
+        federatedAt: new Date().toISOString(),
+      });
+
+      const res = await request(app).patch(`/tez/${tezId}`).set("Authorization", auth).send({ surfaceText: "v2" });
+      expect(res.status).toBe(200);
+
+      let entries: Array<typeof federationOutbox.$inferSelect> = [];
+      for (let i = 0; i < 50; i++) {
+        entries = await getTestDb().select().from(federationOutbox).where(eq(federationOutbox.tezId, tezId));
+        if (entries.length === 1 && entries[0].status !== "pending") break;
+        await new Promise((r) => setTimeout(r, 20));
+      }
+
+      expect(entries).toHaveLength(1);
+      const bundle = JSON.parse(entries[0].bundle);
+      expect(bundle.bundle_type).toBe("federation_amendment");
+      expect(bundle.to).toEqual(["alice@alpha.test"]);
+      expect(bundle.tez.surfaceText).toBe("v2");
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  test("Reacting to a federated Tez sends the reaction to its origin", async () => {
+    await registerServerA();
+    await registerBobOnServerB();
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+
+    try {
+      const remoteId = randomUUID();
+      const rootRes = await deliverFromA({ id: remoteId, threadId: remoteId, parentTezId: null, surfaceText: "Ship it?" });
+      const localId = rootRes.body.localTezIds[0];
+
+      const res = await request(app)
+        .post(`/tez/${localId}/reactions`)
+        .set("Authorization", await authHeader(bobId))
+        .send({ emoji: "👍" });
+      expect(res.status).toBe(201);
+
+      let entries: Array<typeof federationOutbox.$inferSelect> = [];
+      for (let i = 0; i < 50; i++) {
+        entries = await getTestDb().select().from(federationOutbox).where(eq(federationOutbox.tezId, localId));
+        if (entries.length === 1 && entries[0].status !== "pending") break;
+        await new Promise((r) => setTimeout(r, 20));
+      }
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].targetHost).toBe("alpha.test");
+      const bundle = JSON.parse(entries[0].bundle);
+      expect(bundle.bundle_type).toBe("federation_reaction");
+      expect(bundle.tez.id).toBe(remoteId);
+      expect(bundle.to).toEqual(["alice@alpha.test"]);
+      expect(bundle.reaction).toEqual({ emoji: "👍", action: "add" });
+      expect(validateBundle(bundle)).toBeNull();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  test("Reactions from a peer land on the Tez we delivered to it", async () => {
+    await registerServerA();
+    await registerBobOnServerB();
+
+    const db = getTestDb();
+    const now = new Date().toISOString();
+    const originalId = randomUUID();
+    await db.insert(tez).values({
+      id: originalId,
+      threadId: originalId,
+      surfaceText: "Original from Bob",
+      senderUserId: bobId,
+      visibility: "dm",
+      createdAt: now,
+      updatedAt: now,
+    });
+    await db.insert(federatedTez).values({
+      id: randomUUID(),
+      localTezId: originalId,
+      remoteTezId: randomUUID(),
+      remoteHost: "alpha.test",
+      direction: "outbound",
+      federatedAt: now,
+    });
+
+    const fields = { id: originalId, threadId: null, parentTezId: null, surfaceText: "Original from Bob" };
+    const to = [`${bobId}@beta.test`];
+
+    const spoofed = await deliverFromA(fields, to, "federation_reaction", "mallory@gamma.test", { emoji: "🎉", action: "add" });
+    expect(spoofed.status).toBe(403);
+
+    const res = await deliverFromA(fields, to, "federation_reaction", "alice@alpha.test", { emoji: "🎉", action: "add" });
+    expect(res.status).toBe(200);
+    expect(res.body.localTezIds).toEqual([originalId]);
+
+    const tezRes = await request(app).get(`/tez/${originalId}`).set("Authorization", await authHeader(bobId));
+    expect(tezRes.body.data.reactions).toEqual([{ emoji: "🎉", count: 1, reactedByMe: false }]);
+
+    const unknown = await deliverFromA(
+      { ...fields, id: randomUUID() },
+      to,
+      "federation_reaction",
+      "alice@alpha.test",
+      { emoji: "🎉", action: "add" }
+    );
+    expect(unknown.status).toBe(404);
+  });
+
+  test("Bundles must name the server that signed them", async () => {
+    await registerServerA();
+    await registerBobOnServerB();
+
+    const fields = { id: randomUUID(), threadId: null, parentTezId: null, surfaceText: "Hi" };
+    const foreignFrom = await deliverFromA(fields, [`${bobId}@beta.test`], "federation_delivery", "alice@gamma.test");
+    expect(foreignFrom.status).toBe(403);
+    expect(foreignFrom.body.error.code).toBe("SENDER_MISMATCH");
+
+    // Signed by A, claiming to come from gamma
+    const bundle = createBundle({
+      tez: { ...fields, type: "note", urgency: "normal", actionRequested: null, visibility: "dm", createdAt: new Date().toISOString() },
+      context: [],
+      from: "alice@alpha.test",
+      to: [`${bobId}@beta.test`],
+      identity: initIdentityFromValues({ ...identityA, host: "gamma.test" }),
+    });
+    initIdentityFromValues(identityB);
+    const { headers } = createSignedInboxRequest(bundle);
+    const foreignServer = await request(app)
+      .post("/federation/inbox")
+      .set("Host", "beta.test")
+      .set("Date", headers.Date)
+      .set("Digest", headers.Digest)
+      .set("Signature", headers.Signature)
+      .set("Signature-Input", headers["Signature-Input"])
+      .send(bundle);
+    expect(foreignServer.status).toBe(403);
+    expect(foreignServer.body.error.code).toBe("SENDER_MISMATCH");
+
+    const db = getTestDb();
+    expect(await db.select().from(federatedTez)).toHaveLength(0);
+  });
+
+  test("Unmapped thread ids start a new local thread", async () => {
+    await registerServerA();
+    await registerBobOnServerB();
+
+    const res = await deliverFromA({ id: randomUUID(), threadId: randomUUID(), parentTezId: randomUUID(), surfaceText: "Orphan" });
+    const localId = res.body.localTezIds[0];
+
+    const rows = await getTestDb().select().from(tez).where(eq(tez.id, localId));
+    expect(rows[0].threadId).toBe(localId);
+    expect(rows[0].parentTezId).toBeNull();
+  });
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -858,6 +1284,181 @@ describe("Admin Routes", () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Integration tests: Admin outbox actions
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Admin Outbox Actions", () => {
+  async function queueOutboxEntry(overrides: Partial<typeof federationOutbox.$inferInsert> = {}) {
+    const db = getTestDb();
+    const now = new Date().toISOString();
+    const tezId = randomUUID();
+    await db.insert(tez).values({ id: tezId, surfaceText: "Outbound", senderUserId: aliceId, createdAt: now, updatedAt: now });
+
+    const id = randomUUID();
+    await db.insert(federationOutbox).values({
+      id,
+      tezId,
+      targetHost: "alpha.test",
+      targetAddresses: JSON.stringify(["bob@alpha.test"]),
+      bundle: "{}",
+      status: "pending",
+      createdAt: now,
+      ...overrides,
+    });
+    return { id, tezId };
+  }
+
+  async function getOutboxEntry(id: string) {
+    const rows = await getTestDb().select().from(federationOutbox).where(eq(federationOutbox.id, id));
+    return rows[0];
+  }
+
+  test("filters the outbox list and paginates with a cursor", async () => {
+    const auth = await authHeader(adminId);
+    for (let i = 0; i < 3; i++) {
+      await queueOutboxEntry({ status: "failed", createdAt: `2026-01-0${i + 1}T00:00:00.000Z` });
+    }
+    await queueOutboxEntry({ status: "failed", targetHost: "gamma.test" });
+    await queueOutboxEntry({ status: "delivered" });
+
+    const first = await request(app)
+      .get("/admin/federation/outbox?status=failed&host=alpha.test&limit=2")
+      .set("Authorization", auth);
+
+    expect(first.status).toBe(200);
+    expect(first.body.data).toHaveLength(2);
+    expect(first.body.data[0].createdAt).toBe("2026-01-03T00:00:00.000Z");
+    expect(first.body.meta.hasMore).toBe(true);
+
+    const second = await request(app)
+      .get(`/admin/federation/outbox?status=failed&host=alpha.test&limit=2&cursor=${first.body.meta.nextCursor}`)
+      .set("Authorization", auth);
+
+    expect(second.body.data).toHaveLength(1);
+    expect(second.body.data[0].createdAt).toBe("2026-01-01T00:00:00.000Z");
+    expect(second.body.meta.nextCursor).toBeNull();
+
+    const ranged = await request(app)
+      .get("/admin/federation/outbox?from=2026-01-02T00:00:00.000Z&to=2026-01-02T23:59:59.000Z")
+      .set("Authorization", auth);
+    expect(ranged.body.data).toHaveLength(1);
+  });
+
+  test("filters by tezId", async () => {
+    const { tezId } = await queueOutboxEntry();
+    await queueOutboxEntry();
+
+    const res = await request(app)
+      .get(`/admin/federation/outbox?tezId=${tezId}`)
+      .set("Authorization", await authHeader(adminId));
+
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.data[0].tezId).toBe(tezId);
+  });
+
+  test("retries an expired entry with a fresh schedule", async () => {
+    const { id } = await queueOutboxEntry({ status: "expired", attempts: 8, expiredReason: "max_attempts" });
+
+    const res = await request(app)
+      .post(`/admin/federation/outbox/${id}/retry`)
+      .set("Authorization", await authHeader(adminId));
+
+    expect(res.status).toBe(200);
+    const entry = await getOutboxEntry(id);
+    expect(entry.status).toBe("pending");
+    expect(entry.attempts).toBe(0);
+    expect(entry.expiredReason).toBeNull();
+
+    const audits = await getTestDb().select().from(auditLog).where(eq(auditLog.action, "federation.outbox_retried"));
+    expect(audits).toHaveLength(1);
+    expect(audits[0].targetId).toBe(id);
+  });
+
+  test("refuses to retry a delivered entry", async () => {
+    const { id } = await queueOutboxEntry({ status: "delivered" });
+
+    const res = await request(app)
+      .post(`/admin/federation/outbox/${id}/retry`)
+      .set("Authorization", await authHeader(adminId));
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("INVALID_STATE");
+  });
+
+  test("cancels a pending entry unless a worker holds it", async () => {
+    const auth = await authHeader(adminId);
+    const { id } = await queueOutboxEntry();
+    const leased = await queueOutboxEntry({
+      leaseOwner: "worker-1",
+      leaseExpiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    const res = await request(app).post(`/admin/federation/outbox/${id}/cancel`).set("Authorization", auth);
+    expect(res.status).toBe(200);
+    expect(await getOutboxEntry(id)).toMatchObject({ status: "expired", expiredReason: "cancelled" });
+
+    const busy = await request(app).post(`/admin/federation/outbox/${leased.id}/cancel`).set("Authorization", auth);
+    expect(busy.status).toBe(409);
+
+    const audits = await getTestDb().select().from(auditLog).where(eq(auditLog.action, "federation.outbox_cancelled"));
+    expect(audits).toHaveLength(1);
+  });
+
+  test("bulk retries failed entries for one host", async () => {
+    await queueOutboxEntry({ status: "failed" });
+    await queueOutboxEntry({ status: "failed" });
+    const expired = await queueOutboxEntry({ status: "expired", expiredReason: "rejected" });
+    const other = await queueOutboxEntry({ status: "failed", targetHost: "gamma.test" });
+
+    const res = await request(app)
+      .post("/admin/federation/outbox/retry")
+      .set("Authorization", await authHeader(adminId))
+      .send({ targetHost: "alpha.test" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.requeued).toBe(2);
+    expect((await getOutboxEntry(expired.id)).status).toBe("expired");
+    expect((await getOutboxEntry(other.id)).status).toBe("failed");
+  });
+
+  test("does not requeue entries a worker is delivering", async () => {
+    const auth = await authHeader(adminId);
+    const lease = { leaseOwner: "worker-1", leaseExpiresAt: new Date(Date.now() + 60_000).toISOString() };
+    const leased = await queueOutboxEntry({ status: "failed", ...lease });
+    await queueOutboxEntry({ status: "failed" });
+
+    const single = await request(app).post(`/admin/federation/outbox/${leased.id}/retry`).set("Authorization", auth);
+    expect(single.status).toBe(409);
+    expect(single.body.error.code).toBe("INVALID_STATE");
+
+    const bulk = await request(app).post("/admin/federation/outbox/retry").set("Authorization", auth).send({ targetHost: "alpha.test" });
+    expect(bulk.body.data.requeued).toBe(1);
+    expect(await getOutboxEntry(leased.id)).toMatchObject({ status: "failed", leaseOwner: "worker-1" });
+  });
+
+  test("purges delivered entries older than the cutoff", async () => {
+    const old = new Date(Date.now() - 10 * 24 * 60 * 60_000).toISOString();
+    const { id: oldId } = await queueOutboxEntry({ status: "delivered", deliveredAt: old });
+    const { id: recentId } = await queueOutboxEntry({ status: "delivered", deliveredAt: new Date().toISOString() });
+    const { id: failedId } = await queueOutboxEntry({ status: "failed" });
+
+    const res = await request(app)
+      .post("/admin/federation/outbox/purge")
+      .set("Authorization", await authHeader(adminId))
+      .send({ olderThanDays: 7 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.purged).toBe(1);
+    expect(await getOutboxEntry(oldId)).toBeUndefined();
+    expect(await getOutboxEntry(recentId)).toBeDefined();
+    expect(await getOutboxEntry(failedId)).toBeDefined();
+
+    const audits = await getTestDb().select().from(auditLog).where(eq(auditLog.action, "federation.outbox_purged"));
+    expect(audits[0].metadata).toMatchObject({ olderThanDays: 7, count: 1 });
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Integration tests: .well-known and server discovery
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,432 @@
+/**
+ * Federated artifact transfer tests
+ *
+ * Bundles carry artifact references; the receiving relay pulls the bytes
+ * from the origin's signed artifact endpoint and verifies the hash before
+ * the Tez is stored. The test app plays both sides (beta.test receives,
+ * alpha.test is the remote peer).
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import { createHash, randomUUID } from "crypto";
+import { rm } from "fs/promises";
+import { eq } from "drizzle-orm";
+import type { Express } from "express";
+import {
+  setupDbMock,
+  initTestDb,
+  cleanDb,
+  closeTestDb,
+  getTestDb,
+  createTestApp,
+  authHeader,
+  createTeamWithAdmin,
+  addMember,
+} from "./setup.js";
+import { config } from "../src/config.js";
+import { tez, tezContext, federationOutbox, federatedServers } from "../src/db/schema.js";
+import { generateKeyPair, initIdentityFromValues, resetIdentity } from "../src/services/identity.js";
+import { signRequest } from "../src/services/httpSignature.js";
+import { createBundle, type FederationBundle } from "../src/services/federationBundle.js";
+import { routeToFederation } from "../src/services/federationOutbound.js";
+import { artifactGrantedTo } from "../src/services/federationArtifacts.js";
+import { injectCache, clearCache } from "../src/services/discovery.js";
+
+// Must call before any imports that touch the db
+setupDbMock();
+
+vi.mock("../src/config.js", async () => {
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  return {
+    config: {
+      port: 3003,
+      nodeEnv: "test",
+      jwtSecret: "change-me-in-production",
+      jwtIssuer: "tezit-relay",
+      relayHost: "beta.test",
+      maxTezSizeBytes: 1048576,
+      maxContextItems: 50,
+      maxRecipients: 100,
+      maxBlobSizeBytes: 1024,
+      teamBlobQuotaBytes: 4096,
+      federationEnabled: true,
+      federationMode: "allowlist",
+      dataDir: join(tmpdir(), `tezit-fed-artifacts-test-${process.pid}`),
+      adminUserIds: [],
+      federationWorkerIntervalMs: 15000,
+      federationMaxAttempts: 3,
+      federationHostConcurrency: 2,
+    },
+  };
+});
+
+let app: Express;
+
+const keysA = generateKeyPair();
+const identityA = { publicKey: keysA.publicKeyBase64, privateKeyPem: keysA.privateKeyPem, host: "alpha.test" };
+const keysB = generateKeyPair();
+const identityB = { publicKey: keysB.publicKeyBase64, privateKeyPem: keysB.privateKeyPem, host: "beta.test" };
+const serverIdA = createHash("sha256").update(identityA.publicKey).digest("hex").slice(0, 16);
+
+const BOB = "artifact-bob-1";
+const ALICE = "artifact-alice-1";
+
+const ARTIFACT = Buffer.from("PNG pretend image bytes for the design review");
+const ARTIFACT_SHA = createHash("sha256").update(ARTIFACT).digest("hex");
+
+const fetchMock = vi.fn();
+
+beforeAll(async () => {
+  await initTestDb();
+  app = await createTestApp();
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  await rm(config.dataDir, { recursive: true, force: true });
+  initIdentityFromValues(identityB);
+  clearCache();
+  injectCache("alpha.test", {
+    host: "alpha.test",
+    serverId: serverIdA,
+    publicKey: identityA.publicKey,
+    federationInbox: "/federation/inbox",
+    federationArtifacts: "/federation/artifacts",
+    protocolVersion: "1.2.4",
+    profiles: ["messaging"],
+    cachedAt: new Date(),
+  });
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+
+  const now = new Date().toISOString();
+  await getTestDb().insert(federatedServers).values({
+    host: "alpha.test",
+    serverId: serverIdA,
+    publicKey: identityA.publicKey,
+    displayName: "Server Alpha",
+    trustLevel: "trusted",
+    protocolVersion: "1.2.4",
+    lastSeenAt: now,
+    firstSeenAt: now,
+    metadata: null,
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+afterAll(async () => {
+  resetIdentity();
+  await closeTestDb();
+  await rm(config.dataDir, { recursive: true, force: true });
+});
+
+function bundleFromAlpha(artifact = { sha256: ARTIFACT_SHA, size: ARTIFACT.length, mimeType: "image/png" }) {
+  const idA = initIdentityFromValues(identityA);
+  const bundle = createBundle({
+    tez: {
+      id: randomUUID(),
+      threadId: null,
+      parentTezId: null,
+      surfaceText: "Design review mockup",
+      type: "note",
+      urgency: "normal",
+      actionRequested: null,
+      visibility: "dm",
+      createdAt: new Date().toISOString(),
+    },
+    context: [{ layer: "artifact", content: "Homepage mockup", mimeType: null, confidence: null, source: null, artifact }],
+    from: "alice@alpha.test",
+    to: [`${BOB}@beta.test`],
+    identity: idA,
+  });
+  initIdentityFromValues(identityB);
+  return bundle;
+}
+
+async function deliverToInbox(bundle: FederationBundle) {
+  const signed = signRequest({
+    method: "POST",
+    path: "/inbox",
+    host: "beta.test",
+    body: JSON.stringify(bundle),
+    privateKeyPem: identityA.privateKeyPem,
+    keyId: serverIdA,
+  });
+  return request(app)
+    .post("/federation/inbox")
+    .set("Host", "beta.test")
+    .set("Date", signed.Date)
+    .set("Digest", signed.Digest)
+    .set("Signature", signed.Signature)
+    .set("Signature-Input", signed["Signature-Input"])
+    .send(bundle);
+}
+
+async function registerBob() {
+  await request(app)
+    .post("/contacts/register")
+    .set("Authorization", await authHeader(BOB))
+    .send({ displayName: "Bob" });
+}
+
+async function uploadArtifact(userId: string, teamId: string) {
+  return request(app)
+    .post(`/blobs?teamId=${teamId}&filename=mockup.png`)
+    .set("Authorization", await authHeader(userId))
+    .set("Content-Type", "image/png")
+    .send(ARTIFACT);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sending side
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Outbound artifact references", () => {
+  it("sends the artifact by reference and grants the target access only during delivery", async () => {
+    const { teamId } = await createTeamWithAdmin(ALICE);
+    await uploadArtifact(ALICE, teamId);
+
+    const tezId = randomUUID();
+    const now = new Date().toISOString();
+    await getTestDb().insert(tez).values({
+      id: tezId,
+      teamId,
+      threadId: tezId,
+      surfaceText: "Mockup",
+      type: "note",
+      urgency: "normal",
+      senderUserId: ALICE,
+      visibility: "dm",
+      status: "active",
+      createdAt: now,
+      updatedAt: now,
+    });
+    await getTestDb().insert(tezContext).values({
+      id: randomUUID(),
+      tezId,
+      layer: "artifact",
+      content: "Homepage mockup",
+      mimeType: "image/png",
+      blobSha256: ARTIFACT_SHA,
+      createdAt: now,
+      createdBy: ALICE,
+    });
+
+    let grantedDuringDelivery = false;
+    let sentBundle: FederationBundle | null = null;
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      sentBundle = JSON.parse(init.body as string);
+      grantedDuringDelivery = await artifactGrantedTo("alpha.test", ARTIFACT_SHA);
+      return new Response(JSON.stringify({ accepted: true, localTezIds: [randomUUID()] }), { status: 200 });
+    });
+
+    await routeToFederation({
+      tezId,
+      tez: {
+        id: tezId,
+        threadId: tezId,
+        parentTezId: null,
+        surfaceText: "Mockup",
+        type: "note",
+        urgency: "normal",
+        actionRequested: null,
+        visibility: "dm",
+        createdAt: now,
+      },
+      senderAddress: `${ALICE}@beta.test`,
+      remoteRecipients: new Map([["alpha.test", ["carol@alpha.test"]]]),
+    });
+
+    expect(sentBundle!.context[0]).toMatchObject({
+      layer: "artifact",
+      content: "Homepage mockup",
+      artifact: { sha256: ARTIFACT_SHA, size: ARTIFACT.length, mimeType: "image/png" },
+    });
+    expect(grantedDuringDelivery).toBe(true);
+    expect(await artifactGrantedTo("alpha.test", ARTIFACT_SHA)).toBe(false);
+  });
+
+  it("serves artifact bytes to a signed, granted server only", async () => {
+    const { teamId } = await createTeamWithAdmin(ALICE);
+    await uploadArtifact(ALICE, teamId);
+
+    const tezId = randomUUID();
+    const now = new Date().toISOString();
+    await getTestDb().insert(tez).values({
+      id: tezId,
+      teamId,
+      threadId: tezId,
+      surfaceText: "Mockup",
+      type: "note",
+      urgency: "normal",
+      senderUserId: ALICE,
+      visibility: "dm",
+      status: "active",
+      createdAt: now,
+      updatedAt: now,
+    });
+    const outboxId = randomUUID();
+    await getTestDb().insert(federationOutbox).values({
+      id: outboxId,
+      tezId,
+      targetHost: "alpha.test",
+      targetAddresses: JSON.stringify(["carol@alpha.test"]),
+      bundle: JSON.stringify(bundleFromAlpha()),
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+      leaseOwner: "worker-1",
+      leaseExpiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    const path = `/federation/artifacts/${ARTIFACT_SHA}`;
+    const fetchAsAlpha = () => {
+      const signed = signRequest({
+        method: "GET",
+        path,
+        host: "beta.test",
+        body: "",
+        privateKeyPem: identityA.privateKeyPem,
+        keyId: serverIdA,
+      });
+      return request(app)
+        .get(path)
+        .set("Host", "beta.test")
+        .set("Date", signed.Date)
+        .set("Digest", signed.Digest)
+        .set("Signature", signed.Signature)
+        .set("Signature-Input", signed["Signature-Input"])
+        .buffer(true)
+        .parse((res, cb) => {
+          const chunks: Buffer[] = [];
+          res.on("data", (chunk: Buffer) => chunks.push(chunk));
+          res.on("end", () => cb(null, Buffer.concat(chunks)));
+        });
+    };
+
+    const ok = await fetchAsAlpha();
+    expect(ok.status).toBe(200);
+    expect(Buffer.compare(ok.body, ARTIFACT)).toBe(0);
+
+    const unsigned = await request(app).get(path);
+    expect(unsigned.status).toBe(401);
+
+    // Once the delivery is no longer in flight the grant is gone
+    await getTestDb()
+      .update(federationOutbox)
+      .set({ status: "delivered", leaseOwner: null, leaseExpiresAt: null })
+      .where(eq(federationOutbox.id, outboxId));
+    expect((await fetchAsAlpha()).status).toBe(404);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Receiving side
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Inbound artifact references", () => {
+  it("fetches and verifies the artifact before storing the Tez", async () => {
+    await registerBob();
+    fetchMock.mockResolvedValue(new Response(ARTIFACT, { status: 200 }));
+
+    const res = await deliverToInbox(bundleFromAlpha());
+    expect(res.status).toBe(200);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`https://alpha.test/federation/artifacts/${ARTIFACT_SHA}`);
+    expect(init.headers.Signature).toBeTruthy();
+
+    const tezRes = await request(app)
+      .get(`/tez/${res.body.localTezIds[0]}`)
+      .set("Authorization", await authHeader(BOB));
+    expect(tezRes.body.data.context[0]).toMatchObject({ blobSha256: ARTIFACT_SHA, mimeType: "image/png" });
+
+    const download = await request(app)
+      .get(`/blobs/${ARTIFACT_SHA}`)
+      .set("Authorization", await authHeader(BOB));
+    expect(download.status).toBe(200);
+    expect(download.headers["content-type"]).toBe("image/png");
+  });
+
+  it("rejects the bundle when the bytes do not match the hash", async () => {
+    await registerBob();
+    fetchMock.mockResolvedValue(new Response(Buffer.from("tampered bytes"), { status: 200 }));
+
+    const res = await deliverToInbox(bundleFromAlpha({ sha256: ARTIFACT_SHA, size: 14, mimeType: "image/png" }));
+
+    expect(res.status).toBe(422);
+    expect(res.body.error.code).toBe("ARTIFACT_MISMATCH");
+    expect(await getTestDb().select().from(tez)).toHaveLength(0);
+  });
+
+  it("asks the sender to retry when the origin is unavailable", async () => {
+    await registerBob();
+    fetchMock.mockResolvedValue(new Response("busy", { status: 503 }));
+
+    const res = await deliverToInbox(bundleFromAlpha());
+
+    expect(res.status).toBe(502);
+    expect(res.body.error.code).toBe("ARTIFACT_UNAVAILABLE");
+    expect(await getTestDb().select().from(tez)).toHaveLength(0);
+  });
+
+  it("refuses artifacts over the size limit without fetching", async () => {
+    await registerBob();
+
+    const res = await deliverToInbox(bundleFromAlpha({ sha256: ARTIFACT_SHA, size: 4096, mimeType: "image/png" }));
+
+    expect(res.status).toBe(413);
+    expect(res.body.error.code).toBe("ARTIFACT_TOO_LARGE");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("skips the fetch only when the recipient can already read the blob", async () => {
+    await registerBob();
+    const { teamId } = await createTeamWithAdmin(ALICE);
+    await addMember(teamId, BOB);
+    await uploadArtifact(ALICE, teamId);
+
+    const res = await deliverToInbox(bundleFromAlpha());
+
+    expect(res.status).toBe(200);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("does not link a stored blob on the strength of its hash alone", async () => {
+    await registerBob();
+    const { teamId } = await createTeamWithAdmin(ALICE);
+    await uploadArtifact(ALICE, teamId);
+
+    // The peer knows the hash but cannot produce the bytes
+    fetchMock.mockResolvedValue(new Response("not found", { status: 404 }));
+    const res = await deliverToInbox(bundleFromAlpha());
+
+    expect(res.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await getTestDb().select().from(tez)).toHaveLength(0);
+    const download = await request(app)
+      .get(`/blobs/${ARTIFACT_SHA}`)
+      .set("Authorization", await authHeader(BOB));
+    expect(download.status).toBe(403);
+  });
+
+  it("answers a retried bundle with the Tez it already stored", async () => {
+    await registerBob();
+    fetchMock.mockImplementation(async () => new Response(ARTIFACT, { status: 200 }));
+    const bundle = bundleFromAlpha();
+
+    const first = await deliverToInbox(bundle);
+    const retry = await deliverToInbox(bundle);
+
+    expect(first.status).toBe(200);
+    expect(retry.status).toBe(200);
+    expect(retry.body.localTezIds).toEqual(first.body.localTezIds);
+    expect(await getTestDb().select().from(tez)).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
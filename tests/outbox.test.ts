@@ -0,0 +1,226 @@
+/**
+ * Federation outbox worker tests
+ *
+ * Delivery outcomes, jittered backoff, dead-lettering, lease claims and
+ * per-host concurrency — against a stubbed remote inbox.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from "vitest";
+import { randomUUID } from "crypto";
+import { eq } from "drizzle-orm";
+import { setupDbMock, initTestDb, cleanDb, closeTestDb, getTestDb } from "./setup.js";
+import { tez, federationOutbox, federatedTez, auditLog } from "../src/db/schema.js";
+import { generateKeyPair, initIdentityFromValues } from "../src/services/identity.js";
+import { injectCache, clearCache } from "../src/services/discovery.js";
+import { computeBackoffMs, processOutboxQueue } from "../src/services/federationOutbound.js";
+
+// Must call before any imports that use db
+setupDbMock();
+
+vi.mock("../src/config.js", () => ({
+  config: {
+    port: 3003,
+    nodeEnv: "test",
+    jwtSecret: "change-me-in-production",
+    jwtIssuer: "tezit-relay",
+    relayHost: "alpha.test",
+    maxTezSizeBytes: 1048576,
+    maxContextItems: 50,
+    maxRecipients: 100,
+    federationEnabled: true,
+    federationMode: "allowlist",
+    dataDir: "./data",
+    adminUserIds: [],
+    federationWorkerIntervalMs: 15000,
+    federationMaxAttempts: 3,
+    federationHostConcurrency: 2,
+  },
+}));
+
+const keys = generateKeyPair();
+const fetchMock = vi.fn();
+
+beforeAll(async () => {
+  await initTestDb();
+  initIdentityFromValues({ publicKey: keys.publicKeyBase64, privateKeyPem: keys.privateKeyPem, host: "alpha.test" });
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  clearCache();
+  for (const host of ["beta.test", "gamma.test"]) {
+    injectCache(host, {
+      host,
+      serverId: `${host}-id`,
+      publicKey: "unused",
+      federationInbox: "/federation/inbox",
+      protocolVersion: "1.2.4",
+      profiles: ["messaging"],
+      cachedAt: new Date(),
+    });
+  }
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+afterAll(async () => {
+  await closeTestDb();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function queueEntry(overrides: Partial<typeof federationOutbox.$inferInsert> = {}) {
+  const db = getTestDb();
+  const now = new Date().toISOString();
+  const tezId = randomUUID();
+
+  await db.insert(tez).values({
+    id: tezId,
+    surfaceText: "Outbound",
+    senderUserId: "alice",
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const id = randomUUID();
+  await db.insert(federationOutbox).values({
+    id,
+    tezId,
+    targetHost: "beta.test",
+    targetAddresses: JSON.stringify(["bob@beta.test"]),
+    bundle: JSON.stringify({ from: "alice", tez: { id: tezId }, bundle_hash: "hash" }),
+    status: "pending",
+    attempts: 0,
+    createdAt: now,
+    ...overrides,
+  });
+  return id;
+}
+
+async function getEntry(id: string) {
+  const rows = await getTestDb().select().from(federationOutbox).where(eq(federationOutbox.id, id));
+  return rows[0];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Backoff
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("computeBackoffMs", () => {
+  it("doubles per attempt with equal jitter and caps at 12 hours", () => {
+    expect(computeBackoffMs(1, () => 0)).toBe(30_000);
+    expect(computeBackoffMs(1, () => 1)).toBe(60_000);
+    expect(computeBackoffMs(3, () => 1)).toBe(240_000);
+    expect(computeBackoffMs(30, () => 1)).toBe(12 * 60 * 60_000);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// processOutboxQueue
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("processOutboxQueue", () => {
+  it("marks entries delivered and records the federated Tez", async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ accepted: true, localTezIds: ["remote-copy-1"] }), { status: 200 }));
+    const id = await queueEntry();
+
+    expect(await processOutboxQueue()).toBe(1);
+
+    const entry = await getEntry(id);
+    expect(entry.status).toBe("delivered");
+    expect(entry.attempts).toBe(1);
+    expect(entry.leaseOwner).toBeNull();
+    expect(fetchMock).toHaveBeenCalledWith("https://beta.test/federation/inbox", expect.any(Object));
+
+    const federated = await getTestDb().select().from(federatedTez).where(eq(federatedTez.localTezId, entry.tezId));
+    expect(federated).toHaveLength(1);
+    expect(federated[0].remoteTezId).toBe("remote-copy-1");
+  });
+
+  it("schedules a retry on transient failures", async () => {
+    fetchMock.mockResolvedValue(new Response("boom", { status: 503 }));
+    const id = await queueEntry();
+
+    await processOutboxQueue();
+
+    const entry = await getEntry(id);
+    expect(entry.status).toBe("failed");
+    expect(entry.attempts).toBe(1);
+    expect(entry.error).toContain("HTTP 503");
+    expect(new Date(entry.nextRetryAt!).getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet, so the next pass leaves it alone
+    expect(await processOutboxQueue()).toBe(0);
+  });
+
+  it("dead-letters entries the remote rejects", async () => {
+    fetchMock.mockResolvedValue(new Response("not trusted", { status: 403 }));
+    const id = await queueEntry();
+
+    await processOutboxQueue();
+
+    const entry = await getEntry(id);
+    expect(entry.status).toBe("expired");
+    expect(entry.expiredReason).toBe("rejected");
+
+    const audits = await getTestDb().select().from(auditLog).where(eq(auditLog.action, "federation.failed"));
+    expect(audits[0].metadata).toMatchObject({ reason: "rejected", remoteHost: "beta.test" });
+  });
+
+  it("dead-letters entries after the maximum number of attempts", async () => {
+    fetchMock.mockResolvedValue(new Response("boom", { status: 500 }));
+    const id = await queueEntry({ status: "failed", attempts: 2, nextRetryAt: new Date(Date.now() - 1000).toISOString() });
+
+    await processOutboxQueue();
+
+    const entry = await getEntry(id);
+    expect(entry.status).toBe("expired");
+    expect(entry.expiredReason).toBe("max_attempts");
+    expect(entry.attempts).toBe(3);
+  });
+
+  it("skips entries leased by another worker until the lease expires", async () => {
+    fetchMock.mockResolvedValue(new Response("{}", { status: 200 }));
+    const id = await queueEntry({
+      leaseOwner: "other-worker",
+      leaseExpiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    expect(await processOutboxQueue()).toBe(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await getTestDb()
+      .update(federationOutbox)
+      .set({ leaseExpiresAt: new Date(Date.now() - 1000).toISOString() })
+      .where(eq(federationOutbox.id, id));
+
+    expect(await processOutboxQueue()).toBe(1);
+    expect((await getEntry(id)).status).toBe("delivered");
+  });
+
+  it("limits concurrent deliveries per host", async () => {
+    const inFlight: Record<string, number> = {};
+    const peak: Record<string, number> = {};
+    fetchMock.mockImplementation(async (url: string) => {
+      const host = new URL(url).host;
+      inFlight[host] = (inFlight[host] ?? 0) + 1;
+      peak[host] = Math.max(peak[host] ?? 0, inFlight[host]);
+      await new Promise((r) => setTimeout(r, 10));
+      inFlight[host]--;
+      return new Response("{}", { status: 200 });
+    });
+
+    for (let i = 0; i < 5; i++) await queueEntry();
+    for (let i = 0; i < 3; i++) await queueEntry({ targetHost: "gamma.test" });
+
+    expect(await processOutboxQueue()).toBe(8);
+    expect(peak["beta.test"]).toBe(2);
+    expect(peak["gamma.test"]).toBe(2);
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Integration tests for retention policies
+ *
+ * Policy and legal hold management, and the sweep that archives and
+ * tombstones old Tez, deletes old context with its blobs, and prunes the
+ * audit log without breaking its hash chain.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { rm } from "fs/promises";
+import { eq, and } from "drizzle-orm";
+import type { Express } from "express";
+import {
+  setupDbMock,
+  initTestDb,
+  cleanDb,
+  closeTestDb,
+  getTestDb,
+  createTestApp,
+  authHeader,
+  createTeamWithAdmin,
+  addMember,
+} from "./setup.js";
+import { config } from "../src/config.js";
+import { tez, tezContext, blobs, teamBlobs, auditLog } from "../src/db/schema.js";
+import { applyRetention } from "../src/services/retention.js";
+import { verifyAuditLog, createAuditCheckpoints } from "../src/services/auditChain.js";
+import { blobPath } from "../src/services/blobStore.js";
+import { generateKeyPair, initIdentityFromValues } from "../src/services/identity.js";
+
+// Must call before any imports that touch the db
+setupDbMock();
+
+vi.mock("../src/config.js", async () => {
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  return {
+    config: {
+      port: 3003,
+      nodeEnv: "test",
+      jwtSecret: "change-me-in-production",
+      jwtIssuer: "tezit-relay",
+      relayHost: "localhost",
+      maxTezSizeBytes: 1048576,
+      maxContextItems: 50,
+      maxRecipients: 100,
+      maxBlobSizeBytes: 1024,
+      teamBlobQuotaBytes: 4096,
+      federationEnabled: false,
+      federationMode: "allowlist",
+      dataDir: join(tmpdir(), `tezit-retention-test-${process.pid}`),
+      adminUserIds: [],
+    },
+  };
+});
+
+let app: Express;
+
+const ADMIN_USER = "retention-admin-1";
+const MEMBER_USER = "retention-member-1";
+
+const PDF_BYTES = Buffer.from("%PDF-1.4 minutes of the 2024 board meeting");
+const PDF_SHA = createHash("sha256").update(PDF_BYTES).digest("hex");
+
+const DAY_MS = 24 * 60 * 60_000;
+
+beforeAll(async () => {
+  await initTestDb();
+  app = await createTestApp();
+
+  const { publicKeyBase64, privateKeyPem } = generateKeyPair();
+  initIdentityFromValues({ publicKey: publicKeyBase64, privateKeyPem, host: "retention.test" });
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  await rm(config.dataDir, { recursive: true, force: true });
+});
+
+afterAll(async () => {
+  await closeTestDb();
+  await rm(config.dataDir, { recursive: true, force: true });
+});
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY_MS).toISOString();
+}
+
+async function setPolicy(teamId: string, body: Record<string, unknown>, userId = ADMIN_USER) {
+  return request(app)
+    .put(`/teams/${teamId}/retention`)
+    .set("Authorization", await authHeader(userId))
+    .send(body);
+}
+
+async function placeHold(teamId: string, body: Record<string, unknown>) {
+  return request(app)
+    .post(`/teams/${teamId}/retention/holds`)
+    .set("Authorization", await authHeader(ADMIN_USER))
+    .send(body);
+}
+
+async function share(teamId: string, surfaceText: string, context: Record<string, unknown>[] = []) {
+  const res = await request(app)
+    .post("/tez/share")
+    .set("Authorization", await authHeader(ADMIN_USER))
+    .send({ teamId, surfaceText, context });
+  expect(res.status).toBe(201);
+  return res.body.data.id as string;
+}
+
+async function backdate(tezId: string, days: number) {
+  await getTestDb().update(tez).set({ createdAt: daysAgo(days) }).where(eq(tez.id, tezId));
+}
+
+async function statusOf(tezId: string) {
+  const rows = await getTestDb().select({ status: tez.status }).from(tez).where(eq(tez.id, tezId));
+  return rows[0].status;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Policy and hold management
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Retention API", () => {
+  it("lets admins set and read the policy", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+
+    const empty = await request(app)
+      .get(`/teams/${teamId}/retention`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(empty.body.data).toEqual({ policy: null, holds: [] });
+
+    expect((await setPolicy(teamId, { contextDays: 90 }, MEMBER_USER)).status).toBe(403);
+    expect((await setPolicy(teamId, { contextDays: 0 })).status).toBe(400);
+
+    const res = await setPolicy(teamId, { contextDays: 90, archiveDays: 365, auditDays: 2555 });
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ contextDays: 90, archiveDays: 365, deleteDays: null, auditDays: 2555 });
+
+    // PUT replaces the whole policy
+    await setPolicy(teamId, { deleteDays: 30 });
+    const after = await request(app)
+      .get(`/teams/${teamId}/retention`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(after.body.data.policy).toMatchObject({ contextDays: null, archiveDays: null, deleteDays: 30 });
+
+    const audits = await getTestDb()
+      .select()
+      .from(auditLog)
+      .where(and(eq(auditLog.teamId, teamId), eq(auditLog.action, "retention.policy_updated")));
+    expect(audits).toHaveLength(2);
+  });
+
+  it("places holds on the team or a thread and releases them once", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const tezId = await share(teamId, "Contract negotiation");
+
+    expect((await placeHold(teamId, { tezId: "no-such-tez", reason: "Litigation" })).status).toBe(404);
+
+    const threadHold = await placeHold(teamId, { tezId, reason: "Litigation" });
+    expect(threadHold.status).toBe(201);
+    expect(threadHold.body.data).toMatchObject({ threadId: tezId, releasedAt: null });
+
+    const teamHold = await placeHold(teamId, { reason: "Regulator inquiry" });
+    expect(teamHold.body.data.threadId).toBeNull();
+
+    const auth = await authHeader(ADMIN_USER);
+    const release = () =>
+      request(app).delete(`/teams/${teamId}/retention/holds/${teamHold.body.data.id}`).set("Authorization", auth);
+    expect((await release()).status).toBe(200);
+    expect((await release()).status).toBe(409);
+
+    const active = await request(app)
+      .get(`/teams/${teamId}/retention/holds`)
+      .set("Authorization", auth);
+    expect(active.body.data.map((h: { id: string }) => h.id)).toEqual([threadHold.body.data.id]);
+
+    const all = await request(app)
+      .get(`/teams/${teamId}/retention/holds?all=true`)
+      .set("Authorization", auth);
+    expect(all.body.meta.count).toBe(2);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sweep
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Retention sweep", () => {
+  it("archives, tombstones and strips context by age, and records what it removed", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await setPolicy(teamId, { contextDays: 90, archiveDays: 365, deleteDays: 1000 });
+
+    const fresh = await share(teamId, "This week", [{ layer: "background", content: "Recent" }]);
+    const stale = await share(teamId, "Last spring", [{ layer: "background", content: "Old notes" }]);
+    const old = await share(teamId, "Two years ago");
+    const ancient = await share(teamId, "Five years ago");
+    await backdate(stale, 120);
+    await backdate(old, 700);
+    await backdate(ancient, 1800);
+
+    const [report] = await applyRetention();
+    expect(report).toMatchObject({ teamId, held: false, tezDeleted: 1, tezArchived: 1, contextDeleted: 1 });
+
+    expect(await statusOf(fresh)).toBe("active");
+    expect(await statusOf(stale)).toBe("active");
+    expect(await statusOf(old)).toBe("archived");
+    expect(await statusOf(ancient)).toBe("deleted");
+
+    const context = await getTestDb().select().from(tezContext);
+    expect(context.map((c) => c.tezId)).toEqual([fresh]);
+
+    const applied = await getTestDb()
+      .select()
+      .from(auditLog)
+      .where(and(eq(auditLog.teamId, teamId), eq(auditLog.action, "retention.applied")));
+    expect(applied).toHaveLength(1);
+    expect(applied[0]).toMatchObject({ actorUserId: "system", targetType: "team", targetId: teamId });
+    expect(applied[0].metadata).toMatchObject({ tezDeleted: 1, tezArchived: 1, contextDeleted: 1 });
+
+    // Nothing left to do: no further entry
+    await applyRetention();
+    const again = await getTestDb()
+      .select()
+      .from(auditLog)
+      .where(and(eq(auditLog.teamId, teamId), eq(auditLog.action, "retention.applied")));
+    expect(again).toHaveLength(1);
+  });
+
+  it("purges artifact blobs once no context references them", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await setPolicy(teamId, { contextDays: 90 });
+
+    const upload = await request(app)
+      .post(`/blobs?teamId=${teamId}&filename=minutes.pdf`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .set("Content-Type", "application/pdf")
+      .send(PDF_BYTES);
+    expect(upload.status).toBe(201);
+
+    const first = await share(teamId, "Minutes", [{ layer: "artifact", content: "Minutes", blobSha256: PDF_SHA }]);
+    const second = await share(teamId, "Minutes again", [
+      { layer: "artifact", content: "Minutes", blobSha256: PDF_SHA },
+    ]);
+    await getTestDb().update(teamBlobs).set({ createdAt: daysAgo(200) });
+    await backdate(first, 200);
+
+    // Still referenced by the newer Tez: kept
+    const [kept] = await applyRetention();
+    expect(kept).toMatchObject({ contextDeleted: 1, artifactsReleased: 0, blobsPurged: 0 });
+    expect(existsSync(blobPath(PDF_SHA))).toBe(true);
+
+    await backdate(second, 200);
+    const [purged] = await applyRetention();
+    expect(purged).toMatchObject({ contextDeleted: 1, artifactsReleased: 1, blobsPurged: 1 });
+    expect(existsSync(blobPath(PDF_SHA))).toBe(false);
+    expect(await getTestDb().select().from(blobs)).toHaveLength(0);
+  });
+
+  it("skips the whole team, or a held thread, while a hold is active", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await setPolicy(teamId, { deleteDays: 30 });
+
+    const heldRoot = await share(teamId, "Disputed invoice");
+    const reply = await request(app)
+      .post(`/tez/${heldRoot}/reply`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ surfaceText: "Forwarded to legal" });
+    expect(reply.status).toBe(201);
+    const other = await share(teamId, "Lunch order");
+    for (const id of [heldRoot, reply.body.data.id, other]) await backdate(id, 60);
+
+    const teamHold = await placeHold(teamId, { reason: "Audit" });
+    await placeHold(teamId, { tezId: reply.body.data.id, reason: "Invoice dispute" });
+
+    const [held] = await applyRetention();
+    expect(held.held).toBe(true);
+    expect(await statusOf(other)).toBe("active");
+
+    await request(app)
+      .delete(`/teams/${teamId}/retention/holds/${teamHold.body.data.id}`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+
+    const [report] = await applyRetention();
+    expect(report.tezDeleted).toBe(1);
+    expect(await statusOf(other)).toBe("deleted");
+    expect(await statusOf(heldRoot)).toBe("active");
+    expect(await statusOf(reply.body.data.id)).toBe("active");
+  });
+
+  it("prunes old audit entries and the chain still verifies", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await share(teamId, "One");
+    await share(teamId, "Two");
+    await setPolicy(teamId, { auditDays: 365 });
+    await getTestDb()
+      .update(auditLog)
+      .set({ createdAt: daysAgo(400) })
+      .where(and(eq(auditLog.teamId, teamId), eq(auditLog.action, "tez.shared")));
+
+    const [report] = await applyRetention();
+    expect(report.auditPruned).toBe(2);
+
+    const remaining = await getTestDb().select().from(auditLog).where(eq(auditLog.teamId, teamId));
+    expect(remaining.map((e) => e.action).sort()).toEqual(["retention.applied", "retention.policy_updated"]);
+
+    const { chains } = await verifyAuditLog(teamId);
+    expect(chains[0].firstBreak).toBeNull();
+  });
+
+  it("keeps the chain head when every entry is old, so later entries still link", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await share(teamId, "One");
+    await setPolicy(teamId, { auditDays: 365 });
+    expect(await createAuditCheckpoints()).toBeGreaterThan(0);
+
+    // A year on, with nothing recorded since
+    const [report] = await applyRetention(new Date(Date.now() + 400 * DAY_MS));
+    expect(report.auditPruned).toBe(1);
+
+    await share(teamId, "Two");
+    const remaining = await getTestDb().select().from(auditLog).where(eq(auditLog.teamId, teamId));
+    expect(remaining.map((e) => e.seq)).toEqual([2, 3, 4]);
+
+    expect(await createAuditCheckpoints()).toBe(1);
+    const { chains } = await verifyAuditLog(teamId);
+    expect(chains[0]).toMatchObject({ entries: 3, firstBreak: null });
+  });
+
+  it("keeps audit entries about a held thread", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await share(teamId, "Lunch order");
+    const heldRoot = await share(teamId, "Disputed invoice");
+    await setPolicy(teamId, { auditDays: 365 });
+    await placeHold(teamId, { tezId: heldRoot, reason: "Invoice dispute" });
+
+    const [report] = await applyRetention(new Date(Date.now() + 400 * DAY_MS));
+    expect(report.auditPruned).toBe(1);
+
+    const shared = await getTestDb()
+      .select()
+      .from(auditLog)
+      .where(and(eq(auditLog.teamId, teamId), eq(auditLog.action, "tez.shared")));
+    expect(shared.map((e) => e.targetId)).toEqual([heldRoot]);
+
+    const { chains } = await verifyAuditLog(teamId);
+    expect(chains[0].firstBreak).toBeNull();
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Integration tests for full-text search
+ *
+ * GET /search?q= — FTS5 over surface text, action requested and context,
+ * ACL-filtered, with facets and highlighted snippets.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import {
+  setupDbMock,
+  initTestDb,
+  cleanDb,
+  closeTestDb,
+  getTestDb,
+  createTestApp,
+  authHeader,
+  createTeamWithAdmin,
+  addMember,
+} from "./setup.js";
+import { tez } from "../src/db/schema.js";
+
+// Must call before any imports that touch the db
+setupDbMock();
+
+let app: Express;
+
+const ADMIN_USER = "search-admin-1";
+const MEMBER_USER = "search-member-1";
+const OUTSIDER_USER = "search-outsider-1";
+
+beforeAll(async () => {
+  await initTestDb();
+  app = await createTestApp();
+});
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterAll(async () => {
+  await closeTestDb();
+});
+
+async function share(userId: string, body: Record<string, unknown>) {
+  const res = await request(app).post("/tez/share").set("Authorization", await authHeader(userId)).send(body);
+  return res.body.data.id as string;
+}
+
+async function search(userId: string, params: string) {
+  return request(app).get(`/search?${params}`).set("Authorization", await authHeader(userId));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /search
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("GET /search", () => {
+  it("matches surface text, action requested and context with snippets", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const surfaceId = await share(ADMIN_USER, { teamId, surfaceText: "Review the quarterly budget" });
+    const actionId = await share(ADMIN_USER, { teamId, surfaceText: "Vendors", actionRequested: "approve budget" });
+    const contextId = await share(ADMIN_USER, {
+      teamId,
+      surfaceText: "Planning",
+      context: [{ layer: "fact", content: "The budget grew 15% this year" }],
+    });
+    await share(ADMIN_USER, { teamId, surfaceText: "Unrelated lunch plans" });
+
+    const res = await search(ADMIN_USER, "q=budget");
+
+    expect(res.status).toBe(200);
+    expect(res.body.meta.total).toBe(3);
+    expect(res.body.data.map((r: any) => r.tez.id).sort()).toEqual([surfaceId, actionId, contextId].sort());
+
+    const fromContext = res.body.data.find((r: any) => r.tez.id === contextId);
+    expect(fromContext.snippets[0]).toEqual({ layer: "fact", text: "The <mark>budget</mark> grew 15% this year" });
+  });
+
+  it("escapes the Tez text around highlighted matches", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await share(ADMIN_USER, { teamId, surfaceText: `<script>alert("budget")</script> & more` });
+
+    const res = await search(ADMIN_USER, "q=budget");
+
+    const text = res.body.data[0].snippets[0].text;
+    expect(text).toContain("&lt;script&gt;alert(&quot;<mark>budget</mark>&quot;)&lt;/script&gt; &amp; more");
+    expect(text).not.toContain("<script");
+  });
+
+  it("only returns Tez the caller can see", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await share(ADMIN_USER, { teamId, surfaceText: "Secret roadmap" });
+    await share(ADMIN_USER, { teamId, surfaceText: "Private roadmap notes", visibility: "private" });
+
+    const member = await search(MEMBER_USER, "q=roadmap");
+    expect(member.body.meta.total).toBe(1);
+    expect(member.body.data[0].tez.surfaceText).toBe("Secret roadmap");
+
+    const outsider = await search(OUTSIDER_USER, "q=roadmap");
+    expect(outsider.body.meta.total).toBe(0);
+
+    const sender = await search(ADMIN_USER, "q=roadmap");
+    expect(sender.body.meta.total).toBe(2);
+  });
+
+  it("includes conversation messages for members only", async () => {
+    const conv = await request(app)
+      .post("/conversations")
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ type: "dm", memberIds: [MEMBER_USER] });
+
+    await request(app)
+      .post(`/conversations/${conv.body.data.id}/messages`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ surfaceText: "Offsite logistics" });
+
+    expect((await search(MEMBER_USER, "q=logistics")).body.meta.total).toBe(1);
+    expect((await search(OUTSIDER_USER, "q=logistics")).body.meta.total).toBe(0);
+  });
+
+  it("filters and facets by type, urgency, layer and sender", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await share(ADMIN_USER, { teamId, surfaceText: "Launch decision", type: "decision", urgency: "high" });
+    await share(MEMBER_USER, {
+      teamId,
+      surfaceText: "Launch update",
+      type: "update",
+      context: [{ layer: "constraint", content: "Launch must wait for legal" }],
+    });
+
+    const all = await search(ADMIN_USER, "q=launch");
+    expect(all.body.meta.facets.type).toEqual({ decision: 1, update: 1 });
+    expect(all.body.meta.facets.urgency).toEqual({ high: 1, normal: 1 });
+    expect(all.body.meta.facets.layer).toEqual({ constraint: 1 });
+    expect(all.body.meta.facets.sender).toEqual({ [ADMIN_USER]: 1, [MEMBER_USER]: 1 });
+
+    const decisions = await search(ADMIN_USER, "q=launch&type=decision");
+    expect(decisions.body.data.map((r: any) => r.tez.surfaceText)).toEqual(["Launch decision"]);
+
+    const constraints = await search(ADMIN_USER, "q=launch&layer=constraint");
+    expect(constraints.body.data.map((r: any) => r.tez.surfaceText)).toEqual(["Launch update"]);
+
+    const bySender = await search(ADMIN_USER, `q=launch&sender=${MEMBER_USER}`);
+    expect(bySender.body.meta.total).toBe(1);
+
+    const future = await search(ADMIN_USER, "q=launch&from=2999-01-01T00:00:00.000Z");
+    expect(future.body.meta.total).toBe(0);
+  });
+
+  it("stays consistent through replies and deletes", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const rootId = await share(ADMIN_USER, {
+      teamId,
+      surfaceText: "Migration plan",
+      context: [{ layer: "background", content: "Database migration window" }],
+    });
+
+    await request(app)
+      .post(`/tez/${rootId}/reply`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ surfaceText: "Migration moved to Friday" });
+
+    expect((await search(ADMIN_USER, "q=migration")).body.meta.total).toBe(2);
+
+    await request(app).delete(`/tez/${rootId}`).set("Authorization", await authHeader(ADMIN_USER));
+
+    const after = await search(ADMIN_USER, "q=migration");
+    expect(after.body.meta.total).toBe(1);
+    expect(after.body.data[0].tez.surfaceText).toBe("Migration moved to Friday");
+  });
+
+  it("treats query syntax as literal text and supports prefixes", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await share(ADMIN_USER, { teamId, surfaceText: "Contract renewal" });
+
+    const syntax = await search(ADMIN_USER, `q=${encodeURIComponent('renewal OR "(')}`);
+    expect(syntax.status).toBe(200);
+    expect(syntax.body.meta.total).toBe(0);
+
+    const prefix = await search(ADMIN_USER, "q=contr*");
+    expect(prefix.body.meta.total).toBe(1);
+  });
+
+  it("says when a query matched more than it could rank", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const now = new Date().toISOString();
+    await getTestDb()
+      .insert(tez)
+      .values(
+        Array.from({ length: 1001 }, (_, i) => {
+          const id = randomUUID();
+          return {
+            id,
+            teamId,
+            threadId: id,
+            surfaceText: `Incident report ${i}`,
+            type: "note",
+            urgency: "normal",
+            senderUserId: ADMIN_USER,
+            visibility: "team",
+            status: "active",
+            createdAt: now,
+            updatedAt: now,
+          };
+        })
+      );
+
+    const broad = await search(ADMIN_USER, "q=incident");
+    expect(broad.body.meta).toMatchObject({ total: 1000, truncated: true });
+
+    const narrow = await search(ADMIN_USER, "q=incident%20999");
+    expect(narrow.body.meta).toMatchObject({ total: 1, truncated: false });
+  });
+
+  it("requires a query", async () => {
+    const res = await search(ADMIN_USER, "q=");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("VALIDATION_ERROR");
+  });
+});
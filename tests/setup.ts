@@ -12,6 +12,7 @@ import { vi } from "vitest";
 import { createClient, type Client } from "@libsql/client";
 import { drizzle } from "drizzle-orm/libsql";
 import * as schema from "../src/db/schema.js";
+import { initSearchIndex } from "../src/db/search.js";
 import { SignJWT } from "jose";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -41,10 +42,30 @@ export async function initTestDb() {
     CREATE TABLE IF NOT EXISTS teams (
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
+      description TEXT,
       created_by TEXT NOT NULL,
+      owner_id TEXT,
+      status TEXT NOT NULL DEFAULT 'active',
       created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
+      updated_at TEXT NOT NULL,
+      archived_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS team_invites (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL REFERENCES teams(id),
+      token_hash TEXT NOT NULL UNIQUE,
+      email TEXT,
+      tez_address TEXT,
+      role TEXT NOT NULL DEFAULT 'member',
+      max_uses INTEGER NOT NULL DEFAULT 1,
+      uses INTEGER NOT NULL DEFAULT 0,
+      expires_at TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      revoked_at TEXT
     );
+    CREATE INDEX IF NOT EXISTS idx_invites_team ON team_invites(team_id);
 
     CREATE TABLE IF NOT EXISTS team_members (
       team_id TEXT NOT NULL REFERENCES teams(id),
@@ -54,6 +75,7 @@ export async function initTestDb() {
     );
     CREATE INDEX IF NOT EXISTS idx_tm_team ON team_members(team_id);
     CREATE INDEX IF NOT EXISTS idx_tm_user ON team_members(user_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_tm_member ON team_members(team_id, user_id);
 
     CREATE TABLE IF NOT EXISTS tez (
       id TEXT PRIMARY KEY,
@@ -68,6 +90,7 @@ export async function initTestDb() {
       sender_user_id TEXT NOT NULL,
       visibility TEXT NOT NULL DEFAULT 'team',
       status TEXT NOT NULL DEFAULT 'active',
+      revision INTEGER NOT NULL DEFAULT 1,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
@@ -83,6 +106,7 @@ export async function initTestDb() {
       layer TEXT NOT NULL,
       content TEXT NOT NULL,
       mime_type TEXT,
+      blob_sha256 TEXT,
       confidence INTEGER,
       source TEXT,
       derived_from TEXT,
@@ -91,6 +115,36 @@ export async function initTestDb() {
     );
     CREATE INDEX IF NOT EXISTS idx_ctx_tez ON tez_context(tez_id);
 
+    CREATE TABLE IF NOT EXISTS blobs (
+      sha256 TEXT PRIMARY KEY,
+      size INTEGER NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS team_blobs (
+      team_id TEXT NOT NULL REFERENCES teams(id),
+      sha256 TEXT NOT NULL REFERENCES blobs(sha256),
+      mime_type TEXT NOT NULL,
+      filename TEXT,
+      uploaded_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (team_id, sha256)
+    );
+    CREATE INDEX IF NOT EXISTS idx_tb_sha ON team_blobs(sha256);
+
+    CREATE TABLE IF NOT EXISTS tez_revisions (
+      id TEXT PRIMARY KEY,
+      tez_id TEXT NOT NULL REFERENCES tez(id),
+      revision INTEGER NOT NULL,
+      surface_text TEXT NOT NULL,
+      urgency TEXT NOT NULL,
+      action_requested TEXT,
+      context TEXT NOT NULL,
+      edited_by TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_rev_tez ON tez_revisions(tez_id, revision);
+
     CREATE TABLE IF NOT EXISTS tez_recipients (
       tez_id TEXT NOT NULL REFERENCES tez(id),
       user_id TEXT NOT NULL,
@@ -101,6 +155,48 @@ export async function initTestDb() {
     CREATE INDEX IF NOT EXISTS idx_recip_tez ON tez_recipients(tez_id);
     CREATE INDEX IF NOT EXISTS idx_recip_user ON tez_recipients(user_id);
 
+    CREATE TABLE IF NOT EXISTS tez_actions (
+      tez_id TEXT NOT NULL REFERENCES tez(id),
+      user_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'open',
+      due_at TEXT,
+      note TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      completed_at TEXT,
+      PRIMARY KEY (tez_id, user_id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_actions_user ON tez_actions(user_id, status);
+
+    CREATE TABLE IF NOT EXISTS tez_reactions (
+      tez_id TEXT NOT NULL REFERENCES tez(id),
+      user_id TEXT NOT NULL,
+      emoji TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (tez_id, user_id, emoji)
+    );
+    CREATE INDEX IF NOT EXISTS idx_reactions_tez ON tez_reactions(tez_id);
+
+    CREATE TABLE IF NOT EXISTS tez_pins (
+      tez_id TEXT PRIMARY KEY REFERENCES tez(id),
+      team_id TEXT,
+      conversation_id TEXT,
+      pinned_by TEXT NOT NULL,
+      pinned_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_pins_team ON tez_pins(team_id);
+    CREATE INDEX IF NOT EXISTS idx_pins_conversation ON tez_pins(conversation_id);
+
+    CREATE TABLE IF NOT EXISTS tez_bookmarks (
+      user_id TEXT NOT NULL,
+      tez_id TEXT NOT NULL REFERENCES tez(id),
+      note TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (user_id, tez_id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_bookmarks_user ON tez_bookmarks(user_id, created_at);
+
     CREATE TABLE IF NOT EXISTS contacts (
       id TEXT PRIMARY KEY,
       display_name TEXT NOT NULL,
@@ -127,6 +223,7 @@ export async function initTestDb() {
     CREATE TABLE IF NOT EXISTS conversation_members (
       conversation_id TEXT NOT NULL REFERENCES conversations(id),
       user_id TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'member',
       joined_at TEXT NOT NULL,
       last_read_at TEXT,
       PRIMARY KEY (conversation_id, user_id)
@@ -134,6 +231,42 @@ export async function initTestDb() {
     CREATE INDEX IF NOT EXISTS idx_cm_conv ON conversation_members(conversation_id);
     CREATE INDEX IF NOT EXISTS idx_cm_user ON conversation_members(user_id);
 
+    CREATE TABLE IF NOT EXISTS retention_policies (
+      team_id TEXT PRIMARY KEY REFERENCES teams(id),
+      context_days INTEGER,
+      archive_days INTEGER,
+      delete_days INTEGER,
+      audit_days INTEGER,
+      updated_by TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS legal_holds (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL REFERENCES teams(id),
+      thread_id TEXT,
+      reason TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      released_by TEXT,
+      released_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_holds_team ON legal_holds(team_id);
+
+    CREATE TABLE IF NOT EXISTS data_exports (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      error TEXT,
+      size_bytes INTEGER,
+      lease_expires_at TEXT,
+      created_at TEXT NOT NULL,
+      completed_at TEXT,
+      expires_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_exports_user ON data_exports(user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_exports_status ON data_exports(status);
+
     CREATE TABLE IF NOT EXISTS audit_log (
       id TEXT PRIMARY KEY,
       team_id TEXT NOT NULL,
@@ -142,12 +275,27 @@ export async function initTestDb() {
       target_type TEXT NOT NULL,
       target_id TEXT NOT NULL,
       metadata TEXT,
-      created_at TEXT NOT NULL
+      created_at TEXT NOT NULL,
+      seq INTEGER,
+      prev_hash TEXT,
+      hash TEXT
     );
     CREATE INDEX IF NOT EXISTS idx_audit_team ON audit_log(team_id);
     CREATE INDEX IF NOT EXISTS idx_audit_actor ON audit_log(actor_user_id);
     CREATE INDEX IF NOT EXISTS idx_audit_target ON audit_log(target_type, target_id);
     CREATE INDEX IF NOT EXISTS idx_audit_time ON audit_log(created_at);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_chain ON audit_log(team_id, seq);
+
+    CREATE TABLE IF NOT EXISTS audit_checkpoints (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      hash TEXT NOT NULL,
+      server_id TEXT NOT NULL,
+      signature TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_checkpoints_team ON audit_checkpoints(team_id, seq);
 
     CREATE TABLE IF NOT EXISTS federated_servers (
       host TEXT PRIMARY KEY,
@@ -168,10 +316,12 @@ export async function initTestDb() {
       remote_host TEXT NOT NULL,
       direction TEXT NOT NULL,
       bundle_hash TEXT,
+      remote_addresses TEXT,
       federated_at TEXT NOT NULL
     );
     CREATE INDEX IF NOT EXISTS idx_ft_local_tez ON federated_tez(local_tez_id);
     CREATE INDEX IF NOT EXISTS idx_ft_remote ON federated_tez(remote_host, remote_tez_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_ft_inbound ON federated_tez(remote_host, remote_tez_id) WHERE direction = 'inbound';
 
     CREATE TABLE IF NOT EXISTS federation_outbox (
       id TEXT PRIMARY KEY,
@@ -185,12 +335,64 @@ export async function initTestDb() {
       next_retry_at TEXT,
       created_at TEXT NOT NULL,
       delivered_at TEXT,
-      error TEXT
+      error TEXT,
+      expired_reason TEXT,
+      lease_owner TEXT,
+      lease_expires_at TEXT
     );
     CREATE INDEX IF NOT EXISTS idx_fo_status ON federation_outbox(status);
     CREATE INDEX IF NOT EXISTS idx_fo_next_retry ON federation_outbox(next_retry_at);
+
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL REFERENCES teams(id),
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      events TEXT NOT NULL,
+      filter TEXT,
+      active INTEGER NOT NULL DEFAULT 1,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_webhooks_team ON webhooks(team_id);
+
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL REFERENCES webhooks(id),
+      event_type TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_attempt_at TEXT,
+      next_retry_at TEXT,
+      response_status INTEGER,
+      duration_ms INTEGER,
+      error TEXT,
+      created_at TEXT NOT NULL,
+      delivered_at TEXT,
+      lease_owner TEXT,
+      lease_expires_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_wd_webhook ON webhook_deliveries(webhook_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_wd_status ON webhook_deliveries(status, next_retry_at);
+
+    CREATE TABLE IF NOT EXISTS tez_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      tez_id TEXT NOT NULL,
+      team_id TEXT,
+      conversation_id TEXT,
+      thread_id TEXT,
+      actor_user_id TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_events_tez ON tez_events(tez_id);
   `);
 
+  // FTS5 index + sync triggers (not part of the Drizzle schema)
+  await initSearchIndex(testClient);
+
   testDb = drizzle(testClient, { schema });
   return testDb;
 }
@@ -200,16 +402,31 @@ export async function initTestDb() {
  */
 export async function cleanDb() {
   await testClient.executeMultiple(`
+    DELETE FROM tez_events;
+    DELETE FROM webhook_deliveries;
+    DELETE FROM webhooks;
     DELETE FROM federation_outbox;
     DELETE FROM federated_tez;
     DELETE FROM federated_servers;
     DELETE FROM audit_log;
+    DELETE FROM audit_checkpoints;
+    DELETE FROM tez_reactions;
+    DELETE FROM tez_actions;
+    DELETE FROM tez_pins;
+    DELETE FROM tez_bookmarks;
     DELETE FROM tez_recipients;
+    DELETE FROM tez_revisions;
     DELETE FROM tez_context;
     DELETE FROM tez;
     DELETE FROM conversation_members;
     DELETE FROM conversations;
     DELETE FROM contacts;
+    DELETE FROM team_blobs;
+    DELETE FROM blobs;
+    DELETE FROM team_invites;
+    DELETE FROM retention_policies;
+    DELETE FROM legal_holds;
+    DELETE FROM data_exports;
     DELETE FROM team_members;
     DELETE FROM teams;
   `);
@@ -360,11 +577,19 @@ export async function createTestApp(): Promise<Express> {
   const { contactRoutes } = await import("../src/routes/contacts.js");
   const { conversationRoutes } = await import("../src/routes/conversations.js");
   const { unreadRoutes } = await import("../src/routes/unread.js");
+  const { eventRoutes } = await import("../src/routes/events.js");
+  const { searchRoutes } = await import("../src/routes/search.js");
+  const { blobRoutes } = await import("../src/routes/blobs.js");
+  const { webhookRoutes } = await import("../src/routes/webhooks.js");
+  const { teamAuditRoutes } = await import("../src/routes/audit.js");
+  const { retentionRoutes } = await import("../src/routes/retention.js");
   const { federationRoutes } = await import("../src/routes/federation.js");
   const { adminRoutes } = await import("../src/routes/admin.js");
+  const { meRoutes } = await import("../src/routes/me.js");
 
   const app = express();
   app.use(cors());
+  app.use("/blobs", blobRoutes);
   app.use(express.json({ limit: "1mb" }));
 
   app.get("/health", (_req, res) => {
@@ -373,9 +598,15 @@ export async function createTestApp(): Promise<Express> {
 
   app.use("/tez", tezRoutes);
   app.use("/teams", teamRoutes);
+  app.use("/teams/:id/webhooks", webhookRoutes);
+  app.use("/teams/:id/audit", teamAuditRoutes);
+  app.use("/teams/:id/retention", retentionRoutes);
   app.use("/contacts", contactRoutes);
   app.use("/conversations", conversationRoutes);
   app.use("/unread", unreadRoutes);
+  app.use("/events", eventRoutes);
+  app.use("/search", searchRoutes);
+  app.use("/me", meRoutes);
   app.use("/federation", federationRoutes);
   app.use("/admin", adminRoutes);
 
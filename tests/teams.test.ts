@@ -2,24 +2,34 @@
  * Integration tests for team endpoints
  *
  * POST /teams              — Create team (creator becomes admin)
+ * PATCH /teams/:id         — Rename / describe (admin only)
+ * DELETE /teams/:id        — Archive team and its Tez (owner only)
+ * POST /teams/:id/transfer — Transfer ownership (owner only)
  * GET  /teams/:id/members  — List members (requires membership)
  * POST /teams/:id/members  — Add member (admin only)
+ * PATCH /teams/:id/members/:userId  — Change role (admin only, keeps an admin)
  * DELETE /teams/:id/members/:userId — Remove member (admin or self-leave)
+ * POST /teams/:id/invites, GET, DELETE  — Invite tokens (admin only)
+ * POST /teams/invites/:token/accept     — Join via invite
+ * POST /teams/:id/pins, GET, DELETE     — Pins (admins pin, members read)
  */
 
 import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
 import request from "supertest";
 import type { Express } from "express";
+import { eq, and } from "drizzle-orm";
 import {
   setupDbMock,
   initTestDb,
   cleanDb,
   closeTestDb,
+  getTestDb,
   createTestApp,
   authHeader,
   createTeamWithAdmin,
   addMember,
 } from "./setup.js";
+import { auditLog, teams, teamMembers, teamInvites } from "../src/db/schema.js";
 
 // Must call before any imports that touch the db
 setupDbMock();
@@ -312,3 +322,531 @@ describe("DELETE /teams/:id/members/:userId", () => {
     expect(res.status).toBe(401);
   });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DELETE /teams/:id/members/:userId — Admin and owner safeguards
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("DELETE /teams/:id/members/:userId safeguards", () => {
+  it("the owner cannot leave without transferring ownership", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER, "admin");
+
+    const res = await request(app)
+      .delete(`/teams/${teamId}/members/${ADMIN_USER}`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("OWNER_REQUIRED");
+  });
+
+  it("the last admin cannot leave or be demoted", async () => {
+    // A legacy team whose creator is no longer a member: the remaining
+    // admin is not the owner, so only the last-admin rule protects it
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await getTestDb().update(teams).set({ createdBy: OUTSIDER_USER }).where(eq(teams.id, teamId));
+    await addMember(teamId, MEMBER_USER);
+    const token = await authHeader(ADMIN_USER);
+
+    const leave = await request(app).delete(`/teams/${teamId}/members/${ADMIN_USER}`).set("Authorization", token);
+    expect(leave.status).toBe(409);
+    expect(leave.body.error.code).toBe("LAST_ADMIN");
+
+    const demote = await request(app)
+      .patch(`/teams/${teamId}/members/${ADMIN_USER}`)
+      .set("Authorization", token)
+      .send({ role: "member" });
+    expect(demote.status).toBe(409);
+    expect(demote.body.error.code).toBe("LAST_ADMIN");
+
+    // With a second admin both are allowed
+    await request(app)
+      .patch(`/teams/${teamId}/members/${MEMBER_USER}`)
+      .set("Authorization", token)
+      .send({ role: "admin" });
+    const retry = await request(app).delete(`/teams/${teamId}/members/${ADMIN_USER}`).set("Authorization", token);
+    expect(retry.status).toBe(200);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PATCH /teams/:id — Rename / describe
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("PATCH /teams/:id", () => {
+  it("admin can rename and describe the team", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const res = await request(app)
+      .patch(`/teams/${teamId}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ name: "Platform", description: "Infra and tooling" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ name: "Platform", description: "Infra and tooling" });
+
+    const audits = await getTestDb().select().from(auditLog).where(eq(auditLog.action, "team.updated"));
+    expect(audits).toHaveLength(1);
+    expect(audits[0].metadata).toMatchObject({ previousName: "Test Team", name: "Platform" });
+  });
+
+  it("members cannot update the team", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+
+    const res = await request(app)
+      .patch(`/teams/${teamId}`)
+      .set("Authorization", await authHeader(MEMBER_USER))
+      .send({ name: "Hijacked" });
+
+    expect(res.status).toBe(403);
+  });
+
+  it("returns 400 when there is nothing to update", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const res = await request(app)
+      .patch(`/teams/${teamId}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({});
+
+    expect(res.status).toBe(400);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PATCH /teams/:id/members/:userId — Change role
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("PATCH /teams/:id/members/:userId", () => {
+  it("admin can promote and demote members", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const token = await authHeader(ADMIN_USER);
+
+    const promoted = await request(app)
+      .patch(`/teams/${teamId}/members/${MEMBER_USER}`)
+      .set("Authorization", token)
+      .send({ role: "admin" });
+    expect(promoted.status).toBe(200);
+    expect(promoted.body.data.role).toBe("admin");
+
+    const demoted = await request(app)
+      .patch(`/teams/${teamId}/members/${MEMBER_USER}`)
+      .set("Authorization", token)
+      .send({ role: "member" });
+    expect(demoted.status).toBe(200);
+    expect(demoted.body.data.role).toBe("member");
+
+    const audits = await getTestDb()
+      .select()
+      .from(auditLog)
+      .where(eq(auditLog.action, "team.member_role_changed"));
+    expect(audits).toHaveLength(2);
+  });
+
+  it("cannot demote the owner", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER, "admin");
+
+    const res = await request(app)
+      .patch(`/teams/${teamId}/members/${ADMIN_USER}`)
+      .set("Authorization", await authHeader(MEMBER_USER))
+      .send({ role: "member" });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("OWNER_REQUIRED");
+  });
+
+  it("non-admins cannot change roles", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+
+    const res = await request(app)
+      .patch(`/teams/${teamId}/members/${MEMBER_USER}`)
+      .set("Authorization", await authHeader(MEMBER_USER))
+      .send({ role: "admin" });
+
+    expect(res.status).toBe(403);
+  });
+
+  it("returns 404 for non-members", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const res = await request(app)
+      .patch(`/teams/${teamId}/members/${OUTSIDER_USER}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ role: "admin" });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /teams/:id/transfer — Ownership transfer
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("POST /teams/:id/transfer", () => {
+  it("owner can hand the team to a member, who becomes an admin", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+
+    const res = await request(app)
+      .post(`/teams/${teamId}/transfer`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ userId: MEMBER_USER });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.ownerId).toBe(MEMBER_USER);
+
+    const teamsRes = await request(app).get("/teams").set("Authorization", await authHeader(MEMBER_USER));
+    expect(teamsRes.body.data[0]).toMatchObject({ role: "admin", isOwner: true });
+
+    // The previous owner can now leave
+    const leave = await request(app)
+      .delete(`/teams/${teamId}/members/${ADMIN_USER}`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(leave.status).toBe(200);
+  });
+
+  it("only the owner can transfer, and only to a member", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER, "admin");
+
+    const notOwner = await request(app)
+      .post(`/teams/${teamId}/transfer`)
+      .set("Authorization", await authHeader(MEMBER_USER))
+      .send({ userId: MEMBER_USER });
+    expect(notOwner.status).toBe(403);
+
+    const notMember = await request(app)
+      .post(`/teams/${teamId}/transfer`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ userId: OUTSIDER_USER });
+    expect(notMember.status).toBe(404);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DELETE /teams/:id — Archive team
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("DELETE /teams/:id", () => {
+  it("owner archives the team and its Tez", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const token = await authHeader(ADMIN_USER);
+    const shared = await request(app)
+      .post("/tez/share")
+      .set("Authorization", token)
+      .send({ teamId, surfaceText: "Wrapping up" });
+
+    const res = await request(app).delete(`/teams/${teamId}`).set("Authorization", token);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ status: "archived", archivedTezCount: 1 });
+
+    const tezRes = await request(app).get(`/tez/${shared.body.data.id}`).set("Authorization", token);
+    expect(tezRes.body.data.status).toBe("archived");
+
+    // Hidden from the default listing, read-only afterwards
+    const list = await request(app).get("/teams").set("Authorization", token);
+    expect(list.body.data).toHaveLength(0);
+    const archived = await request(app).get("/teams?includeArchived=true").set("Authorization", token);
+    expect(archived.body.data[0].status).toBe("archived");
+
+    const share = await request(app)
+      .post("/tez/share")
+      .set("Authorization", token)
+      .send({ teamId, surfaceText: "Too late" });
+    expect(share.status).toBe(409);
+    expect(share.body.error.code).toBe("TEAM_ARCHIVED");
+
+    const audits = await getTestDb().select().from(auditLog).where(eq(auditLog.action, "team.archived"));
+    expect(audits).toHaveLength(1);
+  });
+
+  it("refuses replies, edits and unarchiving once the team is archived", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const token = await authHeader(ADMIN_USER);
+    const shared = await request(app)
+      .post("/tez/share")
+      .set("Authorization", token)
+      .send({ teamId, surfaceText: "Final notes", recipients: [MEMBER_USER] });
+    const tezId = shared.body.data.id;
+    await request(app).delete(`/teams/${teamId}`).set("Authorization", token);
+
+    const reply = await request(app)
+      .post(`/tez/${tezId}/reply`)
+      .set("Authorization", await authHeader(MEMBER_USER))
+      .send({ surfaceText: "One more thing" });
+    expect(reply.status).toBe(409);
+    expect(reply.body.error.code).toBe("TEAM_ARCHIVED");
+
+    const edit = await request(app).patch(`/tez/${tezId}`).set("Authorization", token).send({ surfaceText: "Edited" });
+    expect(edit.status).toBe(409);
+    expect(edit.body.error.code).toBe("TEAM_ARCHIVED");
+
+    const unarchive = await request(app).post(`/tez/${tezId}/unarchive`).set("Authorization", token);
+    expect(unarchive.status).toBe(409);
+    expect(unarchive.body.error.code).toBe("TEAM_ARCHIVED");
+
+    const tezRes = await request(app).get(`/tez/${tezId}`).set("Authorization", token);
+    expect(tezRes.body.data).toMatchObject({ status: "archived", surfaceText: "Final notes" });
+  });
+
+  it("admins who are not the owner cannot delete the team", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER, "admin");
+
+    const res = await request(app).delete(`/teams/${teamId}`).set("Authorization", await authHeader(MEMBER_USER));
+
+    expect(res.status).toBe(403);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Invites
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function createInvite(teamId: string, body: Record<string, unknown> = {}, userId = ADMIN_USER) {
+  return request(app)
+    .post(`/teams/${teamId}/invites`)
+    .set("Authorization", await authHeader(userId))
+    .send(body);
+}
+
+async function acceptInvite(token: string, userId: string, options?: { email?: string }) {
+  return request(app)
+    .post(`/teams/invites/${token}/accept`)
+    .set("Authorization", await authHeader(userId, options));
+}
+
+describe("Team invites", () => {
+  it("admin creates an invite that a user accepts to join with its role", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const invite = await createInvite(teamId, { role: "admin" });
+    expect(invite.status).toBe(201);
+    expect(invite.body.data.token).toBeTruthy();
+    expect(invite.body.data.tokenHash).toBeUndefined();
+    expect(invite.body.data).toMatchObject({ role: "admin", maxUses: 1, uses: 0 });
+
+    const accepted = await acceptInvite(invite.body.data.token, MEMBER_USER);
+    expect(accepted.status).toBe(201);
+    expect(accepted.body.data).toMatchObject({ teamId, userId: MEMBER_USER, role: "admin" });
+
+    const members = await request(app)
+      .get(`/teams/${teamId}/members`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+    expect(members.body.data).toHaveLength(2);
+
+    const audits = await getTestDb().select().from(auditLog).where(eq(auditLog.action, "team.member_added"));
+    expect(audits).toHaveLength(1);
+    expect(audits[0].metadata).toMatchObject({ addedUserId: MEMBER_USER, inviteId: invite.body.data.id });
+  });
+
+  it("only admins can create, list and revoke invites", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const invite = await createInvite(teamId);
+    const token = await authHeader(MEMBER_USER);
+
+    expect((await createInvite(teamId, {}, MEMBER_USER)).status).toBe(403);
+    expect((await request(app).get(`/teams/${teamId}/invites`).set("Authorization", token)).status).toBe(403);
+    expect(
+      (await request(app).delete(`/teams/${teamId}/invites/${invite.body.data.id}`).set("Authorization", token)).status
+    ).toBe(403);
+  });
+
+  it("stops working once its uses are exhausted", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const invite = await createInvite(teamId, { maxUses: 1 });
+
+    expect((await acceptInvite(invite.body.data.token, MEMBER_USER)).status).toBe(201);
+
+    const second = await acceptInvite(invite.body.data.token, OUTSIDER_USER);
+    expect(second.status).toBe(410);
+    expect(second.body.error.code).toBe("INVITE_EXHAUSTED");
+  });
+
+  it("does not consume a use when the caller is already a member", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const invite = await createInvite(teamId);
+
+    const res = await acceptInvite(invite.body.data.token, MEMBER_USER);
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("ALREADY_MEMBER");
+
+    expect((await acceptInvite(invite.body.data.token, OUTSIDER_USER)).status).toBe(201);
+  });
+
+  it("joins once and spends one use when the same user accepts concurrently", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const invite = await createInvite(teamId, { maxUses: 3 });
+
+    const results = await Promise.all(
+      Array.from({ length: 3 }, () => acceptInvite(invite.body.data.token, MEMBER_USER))
+    );
+    expect(results.map((r) => r.status).sort()).toEqual([201, 409, 409]);
+
+    const db = getTestDb();
+    const memberships = await db
+      .select()
+      .from(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, MEMBER_USER)));
+    expect(memberships).toHaveLength(1);
+    const [row] = await db.select().from(teamInvites).where(eq(teamInvites.id, invite.body.data.id));
+    expect(row.uses).toBe(1);
+  });
+
+  it("rejects expired, revoked and unknown tokens", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const expiring = await createInvite(teamId);
+    const revoking = await createInvite(teamId);
+
+    await getTestDb()
+      .update(teamInvites)
+      .set({ expiresAt: new Date(Date.now() - 1000).toISOString() })
+      .where(eq(teamInvites.id, expiring.body.data.id));
+
+    const expired = await acceptInvite(expiring.body.data.token, MEMBER_USER);
+    expect(expired.status).toBe(410);
+    expect(expired.body.error.code).toBe("INVITE_EXPIRED");
+
+    const revoke = await request(app)
+      .delete(`/teams/${teamId}/invites/${revoking.body.data.id}`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(revoke.status).toBe(200);
+    expect(revoke.body.data.revokedAt).toBeTruthy();
+
+    const revoked = await acceptInvite(revoking.body.data.token, MEMBER_USER);
+    expect(revoked.status).toBe(404);
+    expect(revoked.body.error.code).toBe("INVITE_INVALID");
+
+    expect((await acceptInvite("not-a-real-token", MEMBER_USER)).status).toBe(404);
+  });
+
+  it("email-bound invites only work for that email", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const invite = await createInvite(teamId, { email: "Member@Example.com" });
+
+    const wrong = await acceptInvite(invite.body.data.token, OUTSIDER_USER, { email: "outsider@example.com" });
+    expect(wrong.status).toBe(403);
+    expect(wrong.body.error.code).toBe("INVITE_MISMATCH");
+
+    const right = await acceptInvite(invite.body.data.token, MEMBER_USER, { email: "member@example.com" });
+    expect(right.status).toBe(201);
+  });
+
+  it("lists outstanding invites without their tokens", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const used = await createInvite(teamId);
+    await createInvite(teamId, { maxUses: 5 });
+    await acceptInvite(used.body.data.token, MEMBER_USER);
+    const token = await authHeader(ADMIN_USER);
+
+    const open = await request(app).get(`/teams/${teamId}/invites`).set("Authorization", token);
+    expect(open.status).toBe(200);
+    expect(open.body.meta.count).toBe(1);
+    expect(open.body.data[0]).toMatchObject({ maxUses: 5, state: "open" });
+    expect(open.body.data[0].token).toBeUndefined();
+    expect(open.body.data[0].tokenHash).toBeUndefined();
+
+    const all = await request(app).get(`/teams/${teamId}/invites?all=true`).set("Authorization", token);
+    expect(all.body.meta.count).toBe(2);
+  });
+
+  it("cannot invite to or join an archived team", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const invite = await createInvite(teamId);
+    await request(app).delete(`/teams/${teamId}`).set("Authorization", await authHeader(ADMIN_USER));
+
+    expect((await createInvite(teamId)).status).toBe(409);
+    const res = await acceptInvite(invite.body.data.token, MEMBER_USER);
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe("TEAM_ARCHIVED");
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Pins
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Team pins", () => {
+  async function share(teamId: string, body: Record<string, unknown> = {}) {
+    const res = await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ teamId, surfaceText: "We ship on Fridays", type: "decision", ...body });
+    return res.body.data.id as string;
+  }
+
+  async function pin(teamId: string, tezId: string, userId = ADMIN_USER) {
+    return request(app)
+      .post(`/teams/${teamId}/pins`)
+      .set("Authorization", await authHeader(userId))
+      .send({ tezId });
+  }
+
+  it("admin pins a Tez that every member can see", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const tezId = await share(teamId);
+
+    const res = await pin(teamId, tezId);
+    expect(res.status).toBe(201);
+    expect((await pin(teamId, tezId)).status).toBe(409);
+
+    const list = await request(app).get(`/teams/${teamId}/pins`).set("Authorization", await authHeader(MEMBER_USER));
+    expect(list.status).toBe(200);
+    expect(list.body.data).toHaveLength(1);
+    expect(list.body.data[0]).toMatchObject({
+      tezId,
+      pinnedBy: ADMIN_USER,
+      tez: { surfaceText: "We ship on Fridays", type: "decision" },
+    });
+
+    const outsider = await request(app)
+      .get(`/teams/${teamId}/pins`)
+      .set("Authorization", await authHeader(OUTSIDER_USER));
+    expect(outsider.status).toBe(403);
+  });
+
+  it("only admins pin and unpin", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const tezId = await share(teamId);
+
+    expect((await pin(teamId, tezId, MEMBER_USER)).status).toBe(403);
+    await pin(teamId, tezId);
+
+    const denied = await request(app)
+      .delete(`/teams/${teamId}/pins/${tezId}`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+    expect(denied.status).toBe(403);
+
+    const unpinned = await request(app)
+      .delete(`/teams/${teamId}/pins/${tezId}`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(unpinned.status).toBe(200);
+
+    const list = await request(app).get(`/teams/${teamId}/pins`).set("Authorization", await authHeader(ADMIN_USER));
+    expect(list.body.data).toHaveLength(0);
+  });
+
+  it("refuses DMs and Tez from other teams", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const other = await createTeamWithAdmin(ADMIN_USER);
+
+    const dm = await share(teamId, { visibility: "dm", recipients: [MEMBER_USER] });
+    const res = await pin(teamId, dm);
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("NOT_PINNABLE");
+
+    const elsewhere = await share(other.teamId);
+    expect((await pin(teamId, elsewhere)).status).toBe(404);
+  });
+});
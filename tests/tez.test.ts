@@ -6,6 +6,12 @@
  * POST /tez/:id/reply    — Reply to a Tez (threaded)
  * GET  /tez/:id          — Get full Tez with context + provenance
  * GET  /tez/:id/thread   — Get full thread
+ * POST /tez/:id/acknowledge, /archive, /unarchive, DELETE /tez/:id — Lifecycle
+ * POST /tez/read, POST /tez/:id/read, GET /tez/:id/receipts — Read receipts
+ * PATCH /tez/:id, GET /tez/:id/revisions — Editing
+ * POST /tez/:id/reactions, DELETE /tez/:id/reactions/:emoji — Reactions
+ * POST/DELETE /tez/:id/bookmark, GET /me/bookmarks — Bookmarks
+ * POST /tez/:id/action, GET /tez/:id/actions, GET /me/actions — Action items
  */
 
 import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
@@ -16,11 +22,14 @@ import {
   initTestDb,
   cleanDb,
   closeTestDb,
+  getTestDb,
   createTestApp,
   authHeader,
   createTeamWithAdmin,
   addMember,
 } from "./setup.js";
+import { eq } from "drizzle-orm";
+import { auditLog, tezActions } from "../src/db/schema.js";
 
 // Must call before any imports that touch the db
 setupDbMock();
@@ -821,3 +830,719 @@ describe("GET /tez/:id/thread", () => {
     expect(res.status).toBe(401);
   });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /tez/:id/acknowledge — Acknowledge receipt
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("POST /tez/:id/acknowledge", () => {
+  it("stamps acknowledgedAt (and readAt) for a recipient", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+
+    const shareRes = await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+    const tezId = shareRes.body.data.id;
+
+    const token = await authHeader(MEMBER_USER);
+    const res = await request(app).post(`/tez/${tezId}/acknowledge`).set("Authorization", token);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.acknowledgedAt).toBeDefined();
+
+    const getRes = await request(app).get(`/tez/${tezId}`).set("Authorization", token);
+    const recipient = getRes.body.data.recipients.find((r: any) => r.userId === MEMBER_USER);
+    expect(recipient.acknowledgedAt).toBe(res.body.data.acknowledgedAt);
+    expect(recipient.readAt).toBeTruthy();
+  });
+
+  it("is idempotent", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+
+    const token = await authHeader(MEMBER_USER);
+    const first = await request(app).post(`/tez/${shareRes.body.data.id}/acknowledge`).set("Authorization", token);
+    const second = await request(app).post(`/tez/${shareRes.body.data.id}/acknowledge`).set("Authorization", token);
+
+    expect(second.status).toBe(200);
+    expect(second.body.data.acknowledgedAt).toBe(first.body.data.acknowledgedAt);
+  });
+
+  it("returns 403 for team members who are not recipients", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER);
+
+    const res = await request(app)
+      .post(`/tez/${shareRes.body.data.id}/acknowledge`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+
+    expect(res.status).toBe(403);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /tez/:id/archive, POST /tez/:id/unarchive
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("POST /tez/:id/archive and /unarchive", () => {
+  it("sender can archive and unarchive; archived Tez leave the stream", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const shareRes = await shareTez(teamId, MEMBER_USER, { surfaceText: "To archive" });
+    const tezId = shareRes.body.data.id;
+    const token = await authHeader(MEMBER_USER);
+
+    const archiveRes = await request(app).post(`/tez/${tezId}/archive`).set("Authorization", token);
+    expect(archiveRes.status).toBe(200);
+    expect(archiveRes.body.data.status).toBe("archived");
+
+    const streamRes = await request(app).get(`/tez/stream?teamId=${teamId}`).set("Authorization", token);
+    expect(streamRes.body.data).toHaveLength(0);
+
+    const again = await request(app).post(`/tez/${tezId}/archive`).set("Authorization", token);
+    expect(again.status).toBe(409);
+
+    const unarchiveRes = await request(app).post(`/tez/${tezId}/unarchive`).set("Authorization", token);
+    expect(unarchiveRes.status).toBe(200);
+    expect(unarchiveRes.body.data.status).toBe("active");
+  });
+
+  it("team admin can archive another member's Tez", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const shareRes = await shareTez(teamId, MEMBER_USER);
+
+    const res = await request(app)
+      .post(`/tez/${shareRes.body.data.id}/archive`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+
+    expect(res.status).toBe(200);
+  });
+
+  it("other members cannot archive", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await addMember(teamId, MEMBER_USER_2);
+    const shareRes = await shareTez(teamId, MEMBER_USER);
+
+    const res = await request(app)
+      .post(`/tez/${shareRes.body.data.id}/archive`)
+      .set("Authorization", await authHeader(MEMBER_USER_2));
+
+    expect(res.status).toBe(403);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DELETE /tez/:id — Delete a Tez
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("DELETE /tez/:id", () => {
+  it("deletes a Tez so it can no longer be fetched", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER, {
+      context: [{ layer: "background", content: "Sensitive" }],
+    });
+    const tezId = shareRes.body.data.id;
+    const token = await authHeader(ADMIN_USER);
+
+    const res = await request(app).delete(`/tez/${tezId}`).set("Authorization", token);
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe("deleted");
+
+    const getRes = await request(app).get(`/tez/${tezId}`).set("Authorization", token);
+    expect(getRes.status).toBe(404);
+
+    const again = await request(app).delete(`/tez/${tezId}`).set("Authorization", token);
+    expect(again.status).toBe(404);
+  });
+
+  it("tombstones a thread root instead of orphaning its replies", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const rootRes = await shareTez(teamId, ADMIN_USER, { surfaceText: "Root" });
+    const rootId = rootRes.body.data.id;
+
+    await request(app)
+      .post(`/tez/${rootId}/reply`)
+      .set("Authorization", await authHeader(MEMBER_USER))
+      .send({ surfaceText: "Reply survives" });
+
+    const token = await authHeader(ADMIN_USER);
+    const delRes = await request(app).delete(`/tez/${rootId}`).set("Authorization", token);
+    expect(delRes.body.data.replyCount).toBe(1);
+
+    const threadRes = await request(app).get(`/tez/${rootId}/thread`).set("Authorization", token);
+    expect(threadRes.status).toBe(200);
+    expect(threadRes.body.data.messages).toHaveLength(2);
+
+    const [root, reply] = threadRes.body.data.messages;
+    expect(root.status).toBe("deleted");
+    expect(root.surfaceText).toBe("");
+    expect(reply.surfaceText).toBe("Reply survives");
+    expect(reply.parentTezId).toBe(rootId);
+  });
+
+  it("non-sender members cannot delete", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER);
+
+    const res = await request(app)
+      .delete(`/tez/${shareRes.body.data.id}`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+
+    expect(res.status).toBe(403);
+  });
+
+  it("cannot reply to a deleted Tez", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER);
+    const token = await authHeader(ADMIN_USER);
+
+    await request(app).delete(`/tez/${shareRes.body.data.id}`).set("Authorization", token);
+    const res = await request(app)
+      .post(`/tez/${shareRes.body.data.id}/reply`)
+      .set("Authorization", token)
+      .send({ surfaceText: "Too late" });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Read receipts
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Read receipts", () => {
+  async function teamUnread(userId: string, teamId: string): Promise<number> {
+    const res = await request(app).get("/unread").set("Authorization", await authHeader(userId));
+    return res.body.data.teams.find((t: any) => t.teamId === teamId)?.count ?? 0;
+  }
+
+  it("GET /tez/:id marks the caller's receipt read and drops the unread count", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+
+    expect(await teamUnread(MEMBER_USER, teamId)).toBe(1);
+
+    const getRes = await request(app)
+      .get(`/tez/${shareRes.body.data.id}`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+    expect(getRes.body.data.recipients[0].readAt).toBeTruthy();
+
+    expect(await teamUnread(MEMBER_USER, teamId)).toBe(0);
+  });
+
+  it("POST /tez/:id/read marks a single Tez read", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+
+    const res = await request(app)
+      .post(`/tez/${shareRes.body.data.id}/read`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.readAt).toBeTruthy();
+    expect(await teamUnread(MEMBER_USER, teamId)).toBe(0);
+  });
+
+  it("POST /tez/read marks a list of ids", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const a = await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+    const b = await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+    await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+
+    const res = await request(app)
+      .post("/tez/read")
+      .set("Authorization", await authHeader(MEMBER_USER))
+      .send({ tezIds: [a.body.data.id, b.body.data.id] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.marked).toBe(2);
+    expect(await teamUnread(MEMBER_USER, teamId)).toBe(1);
+  });
+
+  it("POST /tez/read marks everything in a team before a timestamp", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+    await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+    const cutoff = new Date().toISOString();
+    await new Promise((r) => setTimeout(r, 5));
+    await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+
+    const res = await request(app)
+      .post("/tez/read")
+      .set("Authorization", await authHeader(MEMBER_USER))
+      .send({ teamId, before: cutoff });
+
+    expect(res.body.data.marked).toBe(2);
+    expect(await teamUnread(MEMBER_USER, teamId)).toBe(1);
+  });
+
+  it("POST /tez/read by team requires membership", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const res = await request(app)
+      .post("/tez/read")
+      .set("Authorization", await authHeader(OUTSIDER_USER))
+      .send({ teamId, before: new Date().toISOString() });
+
+    expect(res.status).toBe(403);
+  });
+
+  it("GET /tez/:id/receipts shows per-recipient state to the sender only", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await addMember(teamId, MEMBER_USER_2);
+    const shareRes = await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER, MEMBER_USER_2] });
+    const tezId = shareRes.body.data.id;
+
+    await request(app).post(`/tez/${tezId}/read`).set("Authorization", await authHeader(MEMBER_USER));
+    await request(app).post(`/tez/${tezId}/acknowledge`).set("Authorization", await authHeader(MEMBER_USER_2));
+
+    const res = await request(app).get(`/tez/${tezId}/receipts`).set("Authorization", await authHeader(ADMIN_USER));
+    expect(res.status).toBe(200);
+    expect(res.body.data.summary).toEqual({ total: 2, delivered: 2, read: 2, acknowledged: 1 });
+
+    const states = Object.fromEntries(res.body.data.recipients.map((r: any) => [r.userId, r.state]));
+    expect(states[MEMBER_USER]).toBe("read");
+    expect(states[MEMBER_USER_2]).toBe("acknowledged");
+
+    const forbidden = await request(app)
+      .get(`/tez/${tezId}/receipts`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+    expect(forbidden.status).toBe(403);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PATCH /tez/:id, GET /tez/:id/revisions — Editing
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("PATCH /tez/:id", () => {
+  it("sender edits a Tez and the prior version is kept", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER, {
+      surfaceText: "Budget is $500k",
+      context: [{ layer: "fact", content: "Approved in March" }],
+    });
+    const tezId = shareRes.body.data.id;
+
+    const res = await request(app)
+      .patch(`/tez/${tezId}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({
+        surfaceText: "Budget is $550k",
+        urgency: "high",
+        context: [{ layer: "fact", content: "Approved in April" }],
+        expectedRevision: 1,
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.revision).toBe(2);
+    expect(res.body.data.surfaceText).toBe("Budget is $550k");
+    expect(res.body.data.context.map((c: any) => c.content)).toEqual(["Approved in April"]);
+    expect(res.body.data.editedFields).toEqual(["surfaceText", "urgency", "context"]);
+
+    const revisions = await request(app)
+      .get(`/tez/${tezId}/revisions`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+
+    expect(revisions.status).toBe(200);
+    expect(revisions.body.meta.currentRevision).toBe(2);
+    expect(revisions.body.data).toHaveLength(1);
+    expect(revisions.body.data[0]).toMatchObject({
+      revision: 1,
+      surfaceText: "Budget is $500k",
+      urgency: "normal",
+      editedBy: ADMIN_USER,
+    });
+    expect(revisions.body.data[0].context[0].content).toBe("Approved in March");
+  });
+
+  it("only the sender can edit", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const shareRes = await shareTez(teamId, MEMBER_USER);
+
+    // Not even a team admin
+    const res = await request(app)
+      .patch(`/tez/${shareRes.body.data.id}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ surfaceText: "Rewritten" });
+
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects stale edits with 409", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER);
+    const tezId = shareRes.body.data.id;
+    const token = await authHeader(ADMIN_USER);
+
+    await request(app).patch(`/tez/${tezId}`).set("Authorization", token).send({ surfaceText: "First edit" });
+    const stale = await request(app)
+      .patch(`/tez/${tezId}`)
+      .set("Authorization", token)
+      .send({ surfaceText: "Second edit", expectedRevision: 1 });
+
+    expect(stale.status).toBe(409);
+    expect(stale.body.error.code).toBe("CONFLICT");
+  });
+
+  it("requires at least one field", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER);
+
+    const res = await request(app)
+      .patch(`/tez/${shareRes.body.data.id}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({});
+
+    expect(res.status).toBe(400);
+  });
+
+  it("cannot edit a deleted Tez", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const shareRes = await shareTez(teamId, ADMIN_USER);
+    const tezId = shareRes.body.data.id;
+    const token = await authHeader(ADMIN_USER);
+
+    await request(app).delete(`/tez/${tezId}`).set("Authorization", token);
+    const res = await request(app).patch(`/tez/${tezId}`).set("Authorization", token).send({ surfaceText: "Back" });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reactions
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function react(tezId: string, userId: string, emoji: string) {
+  return request(app)
+    .post(`/tez/${tezId}/reactions`)
+    .set("Authorization", await authHeader(userId))
+    .send({ emoji });
+}
+
+describe("Reactions", () => {
+  it("aggregates reactions on GET /tez/:id and /tez/stream", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await addMember(teamId, MEMBER_USER_2);
+    const shared = await shareTez(teamId, ADMIN_USER);
+    const tezId = shared.body.data.id;
+
+    const first = await react(tezId, MEMBER_USER, "👍");
+    expect(first.status).toBe(201);
+    await react(tezId, MEMBER_USER_2, "👍");
+    await react(tezId, MEMBER_USER_2, "🎉");
+
+    // Reacting twice is a no-op
+    const again = await react(tezId, MEMBER_USER, "👍");
+    expect(again.status).toBe(200);
+    expect(again.body.data.reactions[0]).toEqual({ emoji: "👍", count: 2, reactedByMe: true });
+
+    const detail = await request(app).get(`/tez/${tezId}`).set("Authorization", await authHeader(MEMBER_USER));
+    expect(detail.body.data.reactions).toEqual([
+      { emoji: "👍", count: 2, reactedByMe: true },
+      { emoji: "🎉", count: 1, reactedByMe: false },
+    ]);
+
+    const stream = await request(app)
+      .get(`/tez/stream?teamId=${teamId}`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(stream.body.data[0].reactions).toEqual([
+      { emoji: "👍", count: 2, reactedByMe: false },
+      { emoji: "🎉", count: 1, reactedByMe: false },
+    ]);
+  });
+
+  it("removes only the caller's reaction", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const tezId = (await shareTez(teamId, ADMIN_USER)).body.data.id;
+    await react(tezId, ADMIN_USER, "🔥");
+    await react(tezId, MEMBER_USER, "🔥");
+
+    const res = await request(app)
+      .delete(`/tez/${tezId}/reactions/${encodeURIComponent("🔥")}`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+    expect(res.status).toBe(200);
+    expect(res.body.data.reactions).toEqual([{ emoji: "🔥", count: 1, reactedByMe: false }]);
+
+    const missing = await request(app)
+      .delete(`/tez/${tezId}/reactions/${encodeURIComponent("🔥")}`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+    expect(missing.status).toBe(404);
+  });
+
+  it("rejects outsiders and anything that is not an emoji", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const tezId = (await shareTez(teamId, ADMIN_USER)).body.data.id;
+
+    expect((await react(tezId, OUTSIDER_USER, "👍")).status).toBe(403);
+    expect((await react(tezId, ADMIN_USER, "lol")).status).toBe(400);
+    expect((await react(tezId, ADMIN_USER, "👍 nice")).status).toBe(400);
+    expect((await react(tezId, ADMIN_USER, "👩🏽‍💻")).status).toBe(201);
+    expect((await react(tezId, ADMIN_USER, "🇳🇱")).status).toBe(201);
+  });
+
+  it("records reactions in the audit log", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const tezId = (await shareTez(teamId, ADMIN_USER)).body.data.id;
+    const token = await authHeader(ADMIN_USER);
+
+    await react(tezId, ADMIN_USER, "✅");
+    await request(app).delete(`/tez/${tezId}/reactions/${encodeURIComponent("✅")}`).set("Authorization", token);
+
+    const entries = await getTestDb().select().from(auditLog).where(eq(auditLog.targetId, tezId));
+    const actions = entries.map((e) => e.action);
+    expect(actions).toContain("tez.reaction_added");
+    expect(actions).toContain("tez.reaction_removed");
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Bookmarks
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Bookmarks", () => {
+  async function bookmark(tezId: string, userId: string, body: Record<string, unknown> = {}) {
+    return request(app)
+      .post(`/tez/${tezId}/bookmark`)
+      .set("Authorization", await authHeader(userId))
+      .send(body);
+  }
+
+  it("keeps private bookmarks with notes", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const tezId = (await shareTez(teamId, ADMIN_USER, { type: "decision" })).body.data.id;
+
+    const created = await bookmark(tezId, MEMBER_USER, { note: "Quote this in the retro" });
+    expect(created.status).toBe(201);
+
+    // Bookmarking again updates the note
+    const updated = await bookmark(tezId, MEMBER_USER, { note: "Done" });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data.note).toBe("Done");
+
+    const mine = await request(app).get("/me/bookmarks").set("Authorization", await authHeader(MEMBER_USER));
+    expect(mine.status).toBe(200);
+    expect(mine.body.data).toHaveLength(1);
+    expect(mine.body.data[0]).toMatchObject({ tezId, note: "Done", tez: { id: tezId, type: "decision" } });
+
+    const theirs = await request(app).get("/me/bookmarks").set("Authorization", await authHeader(ADMIN_USER));
+    expect(theirs.body.data).toHaveLength(0);
+  });
+
+  it("requires access to bookmark and hides Tez the owner can no longer see", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const tezId = (await shareTez(teamId, ADMIN_USER)).body.data.id;
+
+    expect((await bookmark(tezId, OUTSIDER_USER)).status).toBe(403);
+
+    await bookmark(tezId, MEMBER_USER);
+    await request(app)
+      .delete(`/teams/${teamId}/members/${MEMBER_USER}`)
+      .set("Authorization", await authHeader(MEMBER_USER));
+
+    const mine = await request(app).get("/me/bookmarks").set("Authorization", await authHeader(MEMBER_USER));
+    expect(mine.body.data).toHaveLength(0);
+  });
+
+  it("removes a bookmark", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const tezId = (await shareTez(teamId, ADMIN_USER)).body.data.id;
+    await bookmark(tezId, ADMIN_USER);
+
+    const token = await authHeader(ADMIN_USER);
+    expect((await request(app).delete(`/tez/${tezId}/bookmark`).set("Authorization", token)).status).toBe(200);
+    expect((await request(app).delete(`/tez/${tezId}/bookmark`).set("Authorization", token)).status).toBe(404);
+  });
+});
+
+describe("Action items", () => {
+  async function respond(tezId: string, userId: string, body: Record<string, unknown>) {
+    return request(app)
+      .post(`/tez/${tezId}/action`)
+      .set("Authorization", await authHeader(userId))
+      .send(body);
+  }
+
+  async function myActions(userId: string, query = "") {
+    return request(app).get(`/me/actions${query}`).set("Authorization", await authHeader(userId));
+  }
+
+  it("opens an action item per recipient and lists open ones soonest due first", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await addMember(teamId, MEMBER_USER_2);
+
+    const later = await shareTez(teamId, ADMIN_USER, {
+      actionRequested: "Review the budget",
+      actionDueAt: "2030-02-01T00:00:00.000Z",
+      recipients: [MEMBER_USER, MEMBER_USER_2],
+    });
+    const sooner = await shareTez(teamId, ADMIN_USER, {
+      actionRequested: "Sign off the release",
+      actionDueAt: "2030-01-01T00:00:00.000Z",
+      recipients: [MEMBER_USER],
+    });
+    // No action requested: no item
+    await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] });
+
+    const mine = await myActions(MEMBER_USER);
+    expect(mine.status).toBe(200);
+    expect(mine.body.data.map((a: { tezId: string }) => a.tezId)).toEqual([sooner.body.data.id, later.body.data.id]);
+    expect(mine.body.data[0]).toMatchObject({
+      status: "open",
+      dueAt: "2030-01-01T00:00:00.000Z",
+      tez: { actionRequested: "Sign off the release", senderUserId: ADMIN_USER },
+    });
+
+    expect((await myActions(MEMBER_USER_2)).body.data).toHaveLength(1);
+    expect((await myActions(ADMIN_USER)).body.data).toHaveLength(0);
+  });
+
+  it("tracks responses and shows the sender who has completed the action", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await addMember(teamId, MEMBER_USER_2);
+    const tezId = (
+      await shareTez(teamId, ADMIN_USER, {
+        actionRequested: "Fill in the survey",
+        recipients: [MEMBER_USER, MEMBER_USER_2],
+      })
+    ).body.data.id;
+
+    const accepted = await respond(tezId, MEMBER_USER, { status: "accepted" });
+    expect(accepted.status).toBe(200);
+    const done = await respond(tezId, MEMBER_USER, { status: "done", note: "Submitted" });
+    expect(done.body.data).toMatchObject({ status: "done", note: "Submitted" });
+    expect(done.body.data.completedAt).toBeTruthy();
+    await respond(tezId, MEMBER_USER_2, { status: "declined", note: "Not my area" });
+
+    const rollup = await request(app).get(`/tez/${tezId}/actions`).set("Authorization", await authHeader(ADMIN_USER));
+    expect(rollup.status).toBe(200);
+    expect(rollup.body.data.actionRequested).toBe("Fill in the survey");
+    expect(rollup.body.data.summary).toEqual({ total: 2, open: 0, accepted: 0, declined: 1, done: 1 });
+    expect(rollup.body.data.assignees).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ userId: MEMBER_USER, status: "done", note: "Submitted" }),
+        expect.objectContaining({ userId: MEMBER_USER_2, status: "declined" }),
+      ])
+    );
+
+    // Finished items drop off the default listing but can be asked for
+    expect((await myActions(MEMBER_USER)).body.data).toHaveLength(0);
+    expect((await myActions(MEMBER_USER, "?status=done")).body.data).toHaveLength(1);
+    expect((await myActions(MEMBER_USER, "?status=finished")).status).toBe(400);
+
+    // Only the sender sees the rollup
+    const forbidden = await request(app).get(`/tez/${tezId}/actions`).set("Authorization", await authHeader(MEMBER_USER));
+    expect(forbidden.status).toBe(403);
+
+    const audited = await getTestDb().select().from(auditLog).where(eq(auditLog.targetId, tezId));
+    expect(audited.map((entry) => entry.action)).toEqual(
+      expect.arrayContaining(["tez.action_accepted", "tez.action_completed", "tez.action_declined"])
+    );
+    const completion = audited.find((entry) => entry.action === "tez.action_completed")!;
+    expect(completion).toMatchObject({ actorUserId: MEMBER_USER, metadata: { from: "accepted", to: "done" } });
+  });
+
+  it("only lets recipients asked to act respond", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await addMember(teamId, MEMBER_USER_2);
+    const tezId = (
+      await shareTez(teamId, ADMIN_USER, { actionRequested: "Approve", recipients: [MEMBER_USER] })
+    ).body.data.id;
+
+    expect((await respond(tezId, MEMBER_USER_2, { status: "done" })).status).toBe(404);
+    expect((await respond(tezId, OUTSIDER_USER, { status: "done" })).status).toBe(403);
+    expect((await respond(tezId, MEMBER_USER, { status: "finished" })).status).toBe(400);
+
+    // A due date only makes sense with an action
+    const invalid = await shareTez(teamId, ADMIN_USER, { actionDueAt: "2030-01-01T00:00:00.000Z" });
+    expect(invalid.status).toBe(400);
+  });
+
+  it("opens items when an action is requested by editing", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const tezId = (await shareTez(teamId, ADMIN_USER, { recipients: [MEMBER_USER] })).body.data.id;
+
+    await request(app)
+      .patch(`/tez/${tezId}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ actionRequested: "Please confirm", actionDueAt: "2030-03-01T00:00:00.000Z" });
+
+    const mine = await myActions(MEMBER_USER);
+    expect(mine.body.data).toHaveLength(1);
+    expect(mine.body.data[0]).toMatchObject({ tezId, status: "open", dueAt: "2030-03-01T00:00:00.000Z" });
+
+    const dueOnly = await request(app)
+      .patch(`/tez/${tezId}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ actionDueAt: "2030-04-01T00:00:00.000Z" });
+    expect(dueOnly.status).toBe(400);
+  });
+
+  it("moves the due date of existing items when the action is edited", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const tezId = (
+      await shareTez(teamId, ADMIN_USER, {
+        actionRequested: "Review the draft",
+        actionDueAt: "2030-01-01T00:00:00.000Z",
+        recipients: [MEMBER_USER],
+      })
+    ).body.data.id;
+    await respond(tezId, MEMBER_USER, { status: "accepted" });
+
+    const edited = await request(app)
+      .patch(`/tez/${tezId}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ actionRequested: "Review the final draft", actionDueAt: "2030-02-01T00:00:00.000Z" });
+    expect(edited.status).toBe(200);
+
+    const mine = await myActions(MEMBER_USER);
+    expect(mine.body.data).toHaveLength(1);
+    expect(mine.body.data[0]).toMatchObject({ status: "accepted", dueAt: "2030-02-01T00:00:00.000Z" });
+  });
+
+  it("withdraws unfinished items when the action is cleared", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await addMember(teamId, MEMBER_USER_2);
+    const tezId = (
+      await shareTez(teamId, ADMIN_USER, {
+        actionRequested: "Approve",
+        recipients: [MEMBER_USER, MEMBER_USER_2],
+      })
+    ).body.data.id;
+    await respond(tezId, MEMBER_USER_2, { status: "done" });
+
+    const cleared = await request(app)
+      .patch(`/tez/${tezId}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ actionRequested: null });
+    expect(cleared.status).toBe(200);
+
+    expect((await myActions(MEMBER_USER)).body.data).toHaveLength(0);
+    expect((await myActions(MEMBER_USER_2, "?status=done")).body.data).toHaveLength(0);
+    const remaining = await getTestDb().select().from(tezActions).where(eq(tezActions.tezId, tezId));
+    expect(remaining.map((item) => item.userId)).toEqual([MEMBER_USER_2]);
+  });
+});
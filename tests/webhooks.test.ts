@@ -0,0 +1,294 @@
+/**
+ * Integration tests for team webhooks
+ *
+ * Subscription management, event/filter matching, HMAC-signed delivery
+ * from the queue with retries, delivery logs and test events.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import { createHmac } from "crypto";
+import type { Express } from "express";
+import {
+  setupDbMock,
+  initTestDb,
+  cleanDb,
+  closeTestDb,
+  getTestDb,
+  createTestApp,
+  authHeader,
+  createTeamWithAdmin,
+  addMember,
+} from "./setup.js";
+import { webhooks, webhookDeliveries } from "../src/db/schema.js";
+import { processWebhookQueue } from "../src/services/webhooks.js";
+
+// Must call before any imports that touch the db
+setupDbMock();
+
+// No DNS here: hosts resolve from this table
+const dnsTable: Record<string, { address: string; family: number }[]> = {};
+vi.mock("dns/promises", () => ({
+  lookup: vi.fn(async (host: string) => {
+    const addresses = dnsTable[host];
+    if (!addresses) throw new Error(`getaddrinfo ENOTFOUND ${host}`);
+    return addresses;
+  }),
+}));
+
+let app: Express;
+
+const ADMIN_USER = "webhook-admin-1";
+const MEMBER_USER = "webhook-member-1";
+
+const fetchMock = vi.fn();
+
+beforeAll(async () => {
+  await initTestDb();
+  app = await createTestApp();
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  for (const host of Object.keys(dnsTable)) delete dnsTable[host];
+  dnsTable["ci.example.com"] = [{ address: "93.184.216.34", family: 4 }];
+  dnsTable["localhost"] = [{ address: "127.0.0.1", family: 4 }];
+  dnsTable["169.254.169.254"] = [{ address: "169.254.169.254", family: 4 }];
+  dnsTable["intranet.example.com"] = [
+    { address: "93.184.216.35", family: 4 },
+    { address: "fd00::1", family: 6 },
+  ];
+  fetchMock.mockReset();
+  fetchMock.mockResolvedValue(new Response("ok", { status: 200 }));
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+afterAll(async () => {
+  await closeTestDb();
+});
+
+async function createWebhook(teamId: string, body: Record<string, unknown>, userId = ADMIN_USER) {
+  return request(app)
+    .post(`/teams/${teamId}/webhooks`)
+    .set("Authorization", await authHeader(userId))
+    .send({ url: "https://ci.example.com/hooks/tezit", ...body });
+}
+
+async function share(teamId: string, body: Record<string, unknown>) {
+  return request(app)
+    .post("/tez/share")
+    .set("Authorization", await authHeader(ADMIN_USER))
+    .send({ teamId, surfaceText: "Something happened", ...body });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Subscription management
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Webhook subscriptions", () => {
+  it("lets admins create webhooks and only reveals the secret once", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    const res = await createWebhook(teamId, { events: ["tez.shared"], filter: { urgency: ["critical"] } });
+    expect(res.status).toBe(201);
+    expect(res.body.data.secret).toMatch(/^whsec_/);
+    expect(res.body.data).toMatchObject({ events: ["tez.shared"], filter: { urgency: ["critical"] }, active: true });
+
+    const list = await request(app)
+      .get(`/teams/${teamId}/webhooks`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(list.body.meta.count).toBe(1);
+    expect(list.body.data[0].secret).toBeUndefined();
+    expect(list.body.data[0].secretHint).toBe(`…${res.body.data.secret.slice(-4)}`);
+  });
+
+  it("rejects non-admins, unknown event types and non-http URLs", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+
+    expect((await createWebhook(teamId, { events: ["tez.shared"] }, MEMBER_USER)).status).toBe(403);
+    expect((await createWebhook(teamId, { events: ["tez.exploded"] })).status).toBe(400);
+    expect((await createWebhook(teamId, { events: ["*"], url: "ftp://example.com/x" })).status).toBe(400);
+  });
+
+  it("refuses URLs that resolve to loopback, private or link-local addresses", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+
+    for (const url of [
+      "http://localhost:3000/admin",
+      "http://169.254.169.254/latest/meta-data/",
+      "https://intranet.example.com/hook",
+      "https://unresolvable.example.com/hook",
+    ]) {
+      const res = await createWebhook(teamId, { events: ["*"], url });
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe("VALIDATION_ERROR");
+    }
+
+    const created = await createWebhook(teamId, { events: ["*"] });
+    const moved = await request(app)
+      .patch(`/teams/${teamId}/webhooks/${created.body.data.id}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ url: "http://localhost:3000/admin" });
+    expect(moved.status).toBe(400);
+  });
+
+  it("updates, rotates the secret, and deletes", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const created = await createWebhook(teamId, { events: ["*"] });
+    const id = created.body.data.id;
+
+    const rotated = await request(app)
+      .patch(`/teams/${teamId}/webhooks/${id}`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ active: false, rotateSecret: true });
+    expect(rotated.status).toBe(200);
+    expect(rotated.body.data.active).toBe(false);
+    expect(rotated.body.data.secret).not.toBe(created.body.data.secret);
+
+    const deleted = await request(app)
+      .delete(`/teams/${teamId}/webhooks/${id}`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(deleted.status).toBe(200);
+
+    const list = await request(app)
+      .get(`/teams/${teamId}/webhooks`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(list.body.data).toHaveLength(0);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Delivery
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Webhook delivery", () => {
+  it("queues matching events and sends HMAC-signed payloads", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const hook = await createWebhook(teamId, { events: ["tez.shared"], filter: { urgency: ["critical"] } });
+
+    const critical = await share(teamId, { surfaceText: "Prod is down", urgency: "critical" });
+    await share(teamId, { surfaceText: "Lunch?", urgency: "normal" });
+
+    expect(await processWebhookQueue()).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://ci.example.com/hooks/tezit");
+    expect(init.headers["X-Tezit-Event"]).toBe("tez.shared");
+
+    const expected = createHmac("sha256", hook.body.data.secret)
+      .update(`${init.headers["X-Tezit-Timestamp"]}.${init.body}`)
+      .digest("hex");
+    expect(init.headers["X-Tezit-Signature"]).toBe(`sha256=${expected}`);
+
+    const payload = JSON.parse(init.body);
+    expect(payload).toMatchObject({
+      type: "tez.shared",
+      teamId,
+      actorUserId: ADMIN_USER,
+      target: { type: "tez", id: critical.body.data.id },
+      tez: { urgency: "critical", surfaceText: "Prod is down" },
+    });
+
+    // Delivered: nothing left to send
+    expect(await processWebhookQueue()).toBe(0);
+  });
+
+  it("leaves DM surface text out of payloads", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    await createWebhook(teamId, { events: ["tez.shared"] });
+
+    await share(teamId, { surfaceText: "Private note", visibility: "dm", recipients: [MEMBER_USER] });
+    await processWebhookQueue();
+
+    const payload = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(payload.tez.visibility).toBe("dm");
+    expect(payload.tez.surfaceText).toBeUndefined();
+  });
+
+  it("retries failures with backoff and logs every attempt", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const hook = await createWebhook(teamId, { events: ["tez.shared"] });
+    fetchMock.mockResolvedValue(new Response("upstream broke", { status: 500 }));
+
+    await share(teamId, {});
+    await processWebhookQueue();
+
+    const [delivery] = await getTestDb().select().from(webhookDeliveries);
+    expect(delivery.status).toBe("failed");
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.responseStatus).toBe(500);
+    expect(delivery.error).toBe("HTTP 500"); // the response body is never logged
+    expect(new Date(delivery.nextRetryAt!).getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    expect(await processWebhookQueue()).toBe(0);
+
+    const log = await request(app)
+      .get(`/teams/${teamId}/webhooks/${hook.body.data.id}/deliveries?status=failed`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+    expect(log.status).toBe(200);
+    expect(log.body.data).toHaveLength(1);
+    expect(log.body.data[0]).toMatchObject({ eventType: "tez.shared", responseStatus: 500 });
+    expect(log.body.data[0].payload.type).toBe("tez.shared");
+  });
+
+  it("re-checks the address before each send", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await createWebhook(teamId, { events: ["tez.shared"] });
+
+    // Rebound to the metadata service after registration
+    dnsTable["ci.example.com"] = [{ address: "169.254.169.254", family: 4 }];
+    await share(teamId, {});
+    await processWebhookQueue();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    const [delivery] = await getTestDb().select().from(webhookDeliveries);
+    expect(delivery.status).toBe("failed");
+    expect(delivery.error).toMatch(/non-public address/);
+  });
+
+  it("survives the webhook being deleted while a delivery is in flight", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await createWebhook(teamId, { events: ["tez.shared"] });
+    await share(teamId, {});
+
+    fetchMock.mockImplementation(async () => {
+      await getTestDb().delete(webhookDeliveries);
+      await getTestDb().delete(webhooks);
+      return new Response("ok", { status: 200 });
+    });
+
+    expect(await processWebhookQueue()).toBe(1);
+    expect(await getTestDb().select().from(webhookDeliveries)).toHaveLength(0);
+  });
+
+  it("does not deliver to paused webhooks", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await createWebhook(teamId, { events: ["*"], active: false });
+
+    await share(teamId, {});
+
+    expect(await processWebhookQueue()).toBe(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("sends a test event on demand", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const hook = await createWebhook(teamId, { events: ["tez.shared"] });
+
+    const res = await request(app)
+      .post(`/teams/${teamId}/webhooks/${hook.body.data.id}/test`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ eventType: "webhook.test", status: "delivered", responseStatus: 200 });
+    expect(fetchMock.mock.calls[0][1].headers["X-Tezit-Event"]).toBe("webhook.test");
+  });
+});
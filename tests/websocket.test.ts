@@ -0,0 +1,204 @@
+/**
+ * Integration tests for the WebSocket gateway
+ *
+ * WS /ws — subscribe/unsubscribe to teams, conversations and threads,
+ * receive share/reply/read events, ACL re-check on member removal.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import {
+  setupDbMock,
+  initTestDb,
+  cleanDb,
+  closeTestDb,
+  createTestApp,
+  authHeader,
+  generateToken,
+  createTeamWithAdmin,
+  addMember,
+} from "./setup.js";
+
+// Must call before any imports that touch the db
+setupDbMock();
+
+let app: Express;
+let server: Server;
+let gateway: { close: () => Promise<void> };
+let wsUrl: string;
+
+const ADMIN_USER = "ws-admin-1";
+const MEMBER_USER = "ws-member-1";
+const OUTSIDER_USER = "ws-outsider-1";
+
+beforeAll(async () => {
+  await initTestDb();
+  app = await createTestApp();
+  server = app.listen(0);
+  const { attachWebSocketGateway } = await import("../src/services/wsGateway.js");
+  gateway = attachWebSocketGateway(server);
+  wsUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+});
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterAll(async () => {
+  await gateway.close();
+  server.close();
+  await closeTestDb();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helper: connected client that records every server message
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function connect(userId: string) {
+  const socket = new WebSocket(`${wsUrl}?token=${await generateToken(userId)}`);
+  const messages: Array<Record<string, any>> = [];
+  socket.on("message", (data) => messages.push(JSON.parse(data.toString())));
+
+  await new Promise<void>((resolve, reject) => {
+    socket.once("open", () => resolve());
+    socket.once("error", reject);
+  });
+
+  async function waitFor(predicate: (m: Record<string, any>) => boolean, timeoutMs = 2000) {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const found = messages.find(predicate);
+      if (found) return found;
+      await new Promise((r) => setTimeout(r, 20));
+    }
+    return undefined;
+  }
+
+  return {
+    socket,
+    messages,
+    waitFor,
+    send(op: Record<string, unknown>) {
+      socket.send(JSON.stringify(op));
+    },
+    close() {
+      socket.close();
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WS /ws
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("WebSocket gateway", () => {
+  it("rejects connections without a valid token", async () => {
+    const socket = new WebSocket(`${wsUrl}?token=not-a-jwt`);
+    const status = await new Promise<number>((resolve) => {
+      socket.on("unexpected-response", (_req, res) => resolve(res.statusCode ?? 0));
+      socket.on("error", () => resolve(0));
+    });
+    expect(status).toBe(401);
+  });
+
+  it("answers application-level pings", async () => {
+    const client = await connect(MEMBER_USER);
+    client.send({ op: "ping" });
+    expect(await client.waitFor((m) => m.type === "pong")).toBeDefined();
+    client.close();
+  });
+
+  it("refuses subscriptions to teams the user is not in", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    const client = await connect(OUTSIDER_USER);
+
+    client.send({ op: "subscribe", teamId });
+    const error = await client.waitFor((m) => m.type === "error");
+    client.close();
+
+    expect(error?.error.code).toBe("FORBIDDEN");
+  });
+
+  it("pushes share, reply and read events to team subscribers", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+
+    const client = await connect(MEMBER_USER);
+    client.send({ op: "subscribe", teamId });
+    expect(await client.waitFor((m) => m.type === "subscribed")).toMatchObject({ scope: "team", id: teamId });
+
+    const shareRes = await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ teamId, surfaceText: "Hello agents", recipients: [MEMBER_USER] });
+    const tezId = shareRes.body.data.id;
+
+    await request(app)
+      .post(`/tez/${tezId}/reply`)
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ surfaceText: "Reply" });
+
+    await request(app).get(`/tez/${tezId}`).set("Authorization", await authHeader(MEMBER_USER));
+
+    const shared = await client.waitFor((m) => m.type === "event" && m.event.type === "tez.shared");
+    const replied = await client.waitFor((m) => m.type === "event" && m.event.type === "tez.replied");
+    const read = await client.waitFor((m) => m.type === "event" && m.event.type === "tez.read");
+    client.close();
+
+    expect(shared?.event.tez.surfaceText).toBe("Hello agents");
+    expect(replied?.event.threadId).toBe(tezId);
+    expect(read?.event.actorUserId).toBe(MEMBER_USER);
+  });
+
+  it("thread subscriptions only receive events for that thread", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+    const token = await authHeader(ADMIN_USER);
+
+    const first = await request(app).post("/tez/share").set("Authorization", token).send({ teamId, surfaceText: "A" });
+    const second = await request(app).post("/tez/share").set("Authorization", token).send({ teamId, surfaceText: "B" });
+
+    const client = await connect(MEMBER_USER);
+    client.send({ op: "subscribe", threadId: first.body.data.id });
+    await client.waitFor((m) => m.type === "subscribed");
+
+    await request(app).post(`/tez/${second.body.data.id}/reply`).set("Authorization", token).send({ surfaceText: "B reply" });
+    await request(app).post(`/tez/${first.body.data.id}/reply`).set("Authorization", token).send({ surfaceText: "A reply" });
+
+    const event = await client.waitFor((m) => m.type === "event");
+    await new Promise((r) => setTimeout(r, 100));
+    client.close();
+
+    expect(event?.event.tez.surfaceText).toBe("A reply");
+    expect(client.messages.filter((m) => m.type === "event")).toHaveLength(1);
+  });
+
+  it("revokes subscriptions when the member is removed from the team", async () => {
+    const { teamId } = await createTeamWithAdmin(ADMIN_USER);
+    await addMember(teamId, MEMBER_USER);
+
+    const client = await connect(MEMBER_USER);
+    client.send({ op: "subscribe", teamId });
+    await client.waitFor((m) => m.type === "subscribed");
+
+    await request(app)
+      .delete(`/teams/${teamId}/members/${MEMBER_USER}`)
+      .set("Authorization", await authHeader(ADMIN_USER));
+
+    const revoked = await client.waitFor((m) => m.type === "unsubscribed");
+    expect(revoked).toMatchObject({ scope: "team", id: teamId, reason: "access_revoked" });
+
+    await request(app)
+      .post("/tez/share")
+      .set("Authorization", await authHeader(ADMIN_USER))
+      .send({ teamId, surfaceText: "After removal" });
+
+    await new Promise((r) => setTimeout(r, 150));
+    client.close();
+    expect(client.messages.filter((m) => m.type === "event")).toHaveLength(0);
+  });
+});